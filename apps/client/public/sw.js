@@ -1,5 +1,25 @@
-const CACHE_NAME = "mlms-shell-v1";
+const CACHE_NAME = "mlms-shell-v2";
+// Bump the version when the shape of a cached API response changes, so old copies are dropped on activate.
+// Each signed-in member (and guests) gets a separate cache named `${API_CACHE_NAME}:<user id>`.
+const API_CACHE_NAME = "mlms-api-v1";
 const SHELL_ASSETS = ["/", "/index.html", "/manifest.webmanifest", "/favicon-book.svg"];
+const API_PREFIX = "/api/v1/";
+// Reads members need offline: the catalog, book details and their own loans.
+const OFFLINE_API_PATHS = [/^\/api\/v1\/books$/, /^\/api\/v1\/books\/[^/]+\/details$/, /^\/api\/v1\/loans$/];
+// Writes that can change those reads: catalog edits, reviews, requests, holds, checkouts and check-ins. Other writes
+// (token refreshes, notifications, push subscriptions) leave the cache alone.
+const CACHE_INVALIDATING_WRITE_PATHS = [/^\/api\/v1\/(books|borrow-requests|holds|loans)(\/|$)/];
+const API_CACHE_MAX_ENTRIES = 100;
+const CACHED_AT_HEADER = "X-Cached-At";
+// A revalidated response only triggers a refresh in the page when the copy it replaced was older than this, so
+// responses that differ on every request (computed fines, timestamps) cannot cause a reload loop.
+const UPDATE_NOTICE_MIN_AGE_MS = 5000;
+// Shared with src/lib/offline-store.ts, which creates the database and queues the entries.
+const OUTBOX_SYNC_TAG = "mlms-outbox";
+const OFFLINE_DB_NAME = "mlms-offline";
+const OFFLINE_DB_VERSION = 3;
+const OUTBOX_STORE = "outbox";
+const TOKEN_REQUEST_TIMEOUT_MS = 10000;
 
 self.addEventListener("install", (event) => {
   event.waitUntil(
@@ -12,7 +32,7 @@ self.addEventListener("activate", (event) => {
     caches.keys().then((keys) =>
       Promise.all(
         keys.map((key) => {
-          if (key !== CACHE_NAME) {
+          if (key !== CACHE_NAME && !key.startsWith(`${API_CACHE_NAME}:`)) {
             return caches.delete(key);
           }
           return Promise.resolve();
@@ -22,16 +42,119 @@ self.addEventListener("activate", (event) => {
   );
 });
 
-self.addEventListener("fetch", (event) => {
-  if (event.request.method !== "GET") {
-    return;
+// The user id is only used to keep members' cached responses and queued changes apart, so the token is decoded but
+// not verified; the server still checks it on every network request.
+const getTokenUserId = (token) => {
+  try {
+    const payload = JSON.parse(atob(token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof payload.sub === "string" ? payload.sub : "guest";
+  } catch {
+    return "guest";
+  }
+};
+
+const getRequestUserId = (request) => {
+  const authorization = request.headers.get("Authorization") || "";
+  return getTokenUserId(authorization.startsWith("Bearer ") ? authorization.slice(7) : "");
+};
+
+const deleteApiCaches = async () => {
+  const keys = await caches.keys();
+  await Promise.all(keys.filter((key) => key.startsWith(`${API_CACHE_NAME}:`)).map((key) => caches.delete(key)));
+};
+
+const deleteUserApiCache = (userId) => caches.delete(`${API_CACHE_NAME}:${userId}`);
+
+const trimApiCache = async (cache) => {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - API_CACHE_MAX_ENTRIES)).map((key) => cache.delete(key)));
+};
+
+const notifyClients = async (message) => {
+  const windowClients = await self.clients.matchAll({ type: "window" });
+  for (const client of windowClients) {
+    client.postMessage(message);
+  }
+};
+
+// Serves the cached copy straight away and refreshes it from the network in the background. Open pages are told
+// when the refreshed copy differs so they can reload it.
+const staleWhileRevalidate = async (event) => {
+  const cache = await caches.open(`${API_CACHE_NAME}:${getRequestUserId(event.request)}`);
+  const cachedResponse = await cache.match(event.request);
+
+  const networkUpdate = fetch(event.request).then(async (networkResponse) => {
+    if (!networkResponse.ok) {
+      return networkResponse;
+    }
+    const body = await networkResponse.clone().text();
+    const headers = new Headers(networkResponse.headers);
+    headers.set(CACHED_AT_HEADER, new Date().toISOString());
+    await cache.put(
+      event.request,
+      new Response(body, { status: networkResponse.status, statusText: networkResponse.statusText, headers })
+    );
+    await trimApiCache(cache);
+
+    if (cachedResponse) {
+      const cachedAt = Date.parse(cachedResponse.headers.get(CACHED_AT_HEADER) || "");
+      const cachedBody = await cachedResponse.clone().text();
+      if (cachedBody !== body && !(Date.now() - cachedAt < UPDATE_NOTICE_MIN_AGE_MS)) {
+        await notifyClients({ type: "api-cache-updated", url: event.request.url });
+      }
+    }
+    return networkResponse;
+  });
+
+  if (cachedResponse) {
+    event.waitUntil(networkUpdate.catch(() => undefined));
+    return cachedResponse;
+  }
+  return networkUpdate;
+};
+
+self.addEventListener("message", (event) => {
+  // Sent on sign-out and when a different member signs in on this device.
+  if (event.data && event.data.type === "clear-api-cache") {
+    event.waitUntil(deleteApiCaches());
   }
+});
 
+self.addEventListener("fetch", (event) => {
   const requestUrl = new URL(event.request.url);
   if (requestUrl.origin !== self.location.origin) {
     return;
   }
 
+  if (requestUrl.pathname.startsWith(API_PREFIX)) {
+    if (event.request.method !== "GET") {
+      if (!CACHE_INVALIDATING_WRITE_PATHS.some((pattern) => pattern.test(requestUrl.pathname))) {
+        return;
+      }
+      // A successful write may change the requester's cached reads, so their next read goes to the network.
+      // Other members' caches are refreshed by stale-while-revalidate on their next read.
+      const userId = getRequestUserId(event.request);
+      event.respondWith(
+        fetch(event.request).then((response) => {
+          if (response.ok) {
+            event.waitUntil(deleteUserApiCache(userId));
+          }
+          return response;
+        })
+      );
+      return;
+    }
+    if (OFFLINE_API_PATHS.some((pattern) => pattern.test(requestUrl.pathname))) {
+      event.respondWith(staleWhileRevalidate(event));
+    }
+    // Every other API read goes straight to the network.
+    return;
+  }
+
+  if (event.request.method !== "GET") {
+    return;
+  }
+
   if (event.request.mode === "navigate") {
     event.respondWith(
       fetch(event.request).catch(() => caches.match("/index.html"))
@@ -52,3 +175,179 @@ self.addEventListener("fetch", (event) => {
     })
   );
 });
+
+self.addEventListener("push", (event) => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch {
+    message = { body: event.data ? event.data.text() : "" };
+  }
+
+  const options = {
+    body: message.body || "",
+    icon: "/icons/icon-192.svg",
+    badge: "/favicon-book.svg",
+    data: { url: message.url || "/" }
+  };
+  // Reusing a tag replaces the previous notification (e.g. a due date changed twice) instead of stacking.
+  if (message.tag) {
+    options.tag = message.tag;
+    options.renotify = true;
+  }
+
+  event.waitUntil(self.registration.showNotification(message.title || "MLMS Library", options));
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || "/";
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windowClients) => {
+      const existingClient = windowClients.find((client) => new URL(client.url).origin === self.location.origin);
+      if (existingClient) {
+        // The open app routes the link itself, so the page keeps its state instead of reloading.
+        existingClient.postMessage({ type: "notification-click", url });
+        return existingClient.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
+
+const openOfflineDatabase = () =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains("snapshots")) {
+        database.createObjectStore("snapshots", { keyPath: "key" });
+      }
+      if (event.oldVersion < 3 && database.objectStoreNames.contains(OUTBOX_STORE)) {
+        database.deleteObjectStore(OUTBOX_STORE);
+      }
+      if (!database.objectStoreNames.contains(OUTBOX_STORE)) {
+        database
+          .createObjectStore(OUTBOX_STORE, { keyPath: "id", autoIncrement: true })
+          .createIndex("userKey", ["userId", "key"], { unique: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runOutboxRequest = (database, mode, run) =>
+  new Promise((resolve, reject) => {
+    const request = run(database.transaction(OUTBOX_STORE, mode).objectStore(OUTBOX_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Only used when no page is open: refreshing rotates the refresh cookie, so doing it here while a page also
+// refreshes would sign that page out.
+const fetchAccessToken = async () => {
+  const response = await fetch(`${API_PREFIX}auth/refresh`, {
+    method: "POST",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: "{}"
+  });
+  if (!response.ok) {
+    throw new Error(`Token refresh failed with status ${response.status}`);
+  }
+  const payload = await response.json();
+  return payload.accessToken;
+};
+
+const requestPageAccessToken = (client, refresh) =>
+  new Promise((resolve, reject) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(
+      () => reject(new Error("The page did not answer the token request")),
+      TOKEN_REQUEST_TIMEOUT_MS
+    );
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timer);
+      if (event.data && event.data.accessToken) {
+        resolve(event.data.accessToken);
+      } else {
+        reject(new Error("No member is signed in"));
+      }
+    };
+    client.postMessage({ type: "access-token-request", refresh }, [channel.port2]);
+  });
+
+// An open page owns the token and its refreshes, so it is asked first; `refresh` asks it for a new token after a 401.
+const getAccessToken = async (refresh = false) => {
+  const [client] = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  return client ? requestPageAccessToken(client, refresh) : fetchAccessToken();
+};
+
+/**
+ * Replays the signed-in member's pending entries in the order they were queued and drops entries queued by anyone
+ * else. Rejected entries are kept as failed for the page to show; a network or server error stops the run and
+ * rejects, so the browser retries the sync later.
+ */
+const replayOutbox = async () => {
+  const database = await openOfflineDatabase();
+  const allEntries = await runOutboxRequest(database, "readonly", (store) => store.getAll());
+  if (!allEntries.some((entry) => entry.status === "pending")) {
+    return;
+  }
+
+  let accessToken = await getAccessToken();
+  const userId = getTokenUserId(accessToken);
+  const entries = [];
+  for (const entry of allEntries) {
+    if (entry.userId !== userId) {
+      await runOutboxRequest(database, "readwrite", (store) => store.delete(entry.id));
+    } else if (entry.status === "pending") {
+      entries.push(entry);
+    }
+  }
+  try {
+    const send = (entry) =>
+      fetch(entry.url, {
+        method: entry.method,
+        credentials: "include",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify(entry.body)
+      });
+    for (const entry of entries) {
+      let response = await send(entry);
+      if (response.status === 401) {
+        accessToken = await getAccessToken(true);
+        if (getTokenUserId(accessToken) !== userId) {
+          throw new Error("The signed-in member changed during the replay");
+        }
+        response = await send(entry);
+      }
+      if (response.ok) {
+        await runOutboxRequest(database, "readwrite", (store) => store.delete(entry.id));
+        continue;
+      }
+      if (response.status >= 500) {
+        throw new Error(`Replay failed with status ${response.status}`);
+      }
+      const payload = await response.json().catch(() => null);
+      await runOutboxRequest(database, "readwrite", (store) =>
+        store.put({
+          ...entry,
+          status: "failed",
+          error: (payload && payload.error && payload.error.message) || "The change was rejected",
+          conflict: response.status === 409
+        })
+      );
+    }
+  } finally {
+    await deleteApiCaches();
+    await notifyClients({ type: "outbox-updated" });
+  }
+};
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(replayOutbox());
+  }
+});
@@ -1,6 +1,41 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { ApiError, requestJson } from "./lib/api-client";
-import type { Book, Loan, Role, User } from "./types";
+import { ApiError, requestBlob, requestJson } from "./lib/api-client";
+import { openEventStream, type EventStreamStatus, type StreamEvent } from "./lib/event-stream";
+import {
+  clearOfflineData,
+  deleteOutboxEntry,
+  dropForeignOutboxEntries,
+  enqueueOutboxEntry,
+  isNetworkError,
+  listOutboxEntries,
+  readOfflineSnapshot,
+  requestOutboxSync,
+  saveOfflineSnapshot,
+  updateOutboxEntry,
+  type OutboxEntry
+} from "./lib/offline-store";
+import {
+  getPushSubscription,
+  hasPushRegistration,
+  isPushSupported,
+  subscribeToPush,
+  unsubscribeFromPush,
+  type PushSubscriptionPayload
+} from "./lib/web-push";
+import type {
+  Book,
+  BookCopy,
+  BookCopyCondition,
+  BookCopyStatus,
+  BookFacets,
+  BookHold,
+  CirculationPolicy,
+  CirculationRules,
+  Loan,
+  Role,
+  SearchSuggestion,
+  User
+} from "./types";
 
 type AuthResponse = {
   accessToken: string;
@@ -13,17 +48,49 @@ type BooksResponse = {
     hasNextPage: boolean;
     nextCursor: string | null;
   };
+  facets?: BookFacets | null;
 };
 
+type FacetSelection = {
+  genres: string[];
+  authors: string[];
+  decades: string[];
+  ratings: string[];
+};
+
+const emptyFacetSelection: FacetSelection = { genres: [], authors: [], decades: [], ratings: [] };
+
+const facetSections: Array<[keyof FacetSelection, string]> = [
+  ["genres", "Genre"],
+  ["authors", "Author"],
+  ["decades", "Published"],
+  ["ratings", "Rating"]
+];
+
 type LibraryStatsResponse = {
   data: {
     totalBooks: number;
     availableBooks: number;
     checkedOutBooks: number;
     activeLoans: number;
+    totalCopies: number;
+    availableCopies: number;
   };
 };
 
+type AdminBookCopy = BookCopy & {
+  activeLoan: {
+    id: string;
+    dueAt: string | null;
+    checkedOutAt: string;
+    user: Pick<User, "id" | "name" | "email">;
+  } | null;
+};
+
+type BookCopiesResponse = {
+  data: AdminBookCopy[];
+};
+
 type SearchFallbackResponse = {
   data: Book[];
   meta?: {
@@ -74,7 +141,9 @@ type UpdateContactResponse = {
   data: User;
 };
 
-type BorrowRequestStatus = "PENDING" | "APPROVED" | "DECLINED";
+type BorrowRequestStatus = "PENDING" | "APPROVED" | "DECLINED" | "EXPIRED";
+
+type DeclineReason = "NO_COPIES" | "BORROWING_LIMIT" | "OUTSTANDING_FINES" | "ACCOUNT_ISSUE" | "OTHER";
 
 type BorrowRequestItem = {
   id: string;
@@ -82,6 +151,8 @@ type BorrowRequestItem = {
   createdAt: string;
   updatedAt: string;
   reviewedAt: string | null;
+  declineReason: DeclineReason | null;
+  declineNote: string | null;
   memberSeenAt: string | null;
   user: Pick<User, "id" | "name" | "email" | "role" | "contactEmail" | "phoneNumber" | "personalId" | "readingPoints">;
   book: Book;
@@ -92,6 +163,62 @@ type BorrowRequestItem = {
   } | null;
 };
 
+type CirculationPoliciesResponse = {
+  data: CirculationPolicy[];
+  meta: {
+    defaults: CirculationRules;
+  };
+};
+
+type LoanHistoryEvent = {
+  id: string;
+  action: string;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+  actor: {
+    id: string;
+    name: string;
+  } | null;
+};
+
+type FineItem = {
+  id: string;
+  userId: string;
+  loanId: string | null;
+  amountCents: number;
+  paidCents: number;
+  daysOverdue: number;
+  status: "OPEN" | "PAID" | "WAIVED";
+  waivedReason: string | null;
+  createdAt: string;
+  user: Pick<User, "id" | "name" | "email">;
+  loan: {
+    id: string;
+    dueAt: string | null;
+    returnedAt: string | null;
+    book: Pick<Book, "id" | "title" | "author">;
+  } | null;
+};
+
+type FinesMeta = {
+  balanceCents: number;
+  thresholdCents: number;
+  dailyRateCents: number;
+  currency: string;
+};
+
+type FinesResponse = {
+  data: FineItem[];
+  meta: FinesMeta;
+};
+
+type HoldsResponse = {
+  data: BookHold[];
+  meta: {
+    pickupDays: number;
+  };
+};
+
 type BorrowRequestsResponse = {
   data: BorrowRequestItem[];
   meta: {
@@ -100,6 +227,341 @@ type BorrowRequestsResponse = {
   };
 };
 
+type CatalogImportFormat = "csv" | "marc" | "marcxml";
+
+type CatalogExportFormat = "csv" | "json" | "marcxml";
+
+type CatalogImportField =
+  | "title"
+  | "author"
+  | "isbn"
+  | "genre"
+  | "publishedYear"
+  | "description"
+  | "coverUrl"
+  | "copyCount";
+
+type CatalogImportRow = {
+  row: number;
+  status: "create" | "duplicate" | "exists" | "invalid";
+  values: Partial<Record<CatalogImportField, string>>;
+  errors: string[];
+  existingBookId: string | null;
+};
+
+type CatalogImportResponse = {
+  data: CatalogImportRow[];
+  meta: {
+    dryRun: boolean;
+    summary: {
+      total: number;
+      toCreate: number;
+      invalid: number;
+      duplicates: number;
+      existing: number;
+    };
+    headers: string[];
+    mapping: Partial<Record<CatalogImportField, string>> | null;
+    createdCount?: number;
+  };
+};
+
+type JobRunEntry = {
+  id: string;
+  jobName: string;
+  status: "RUNNING" | "SUCCEEDED" | "FAILED";
+  attempt: number;
+  trigger: string;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+};
+
+type ScheduledJobStatus = {
+  name: string;
+  description: string;
+  schedule: string;
+  enabled: boolean;
+  nextRunAt: string;
+  lockedBy: string | null;
+  lockedUntil: string | null;
+  lastStatus: JobRunEntry["status"] | null;
+  lastError: string | null;
+  lastFinishedAt: string | null;
+  consecutiveFailures: number;
+  recentRuns: JobRunEntry[];
+};
+
+type JobsResponse = {
+  data: ScheduledJobStatus[];
+  meta: {
+    schedulerEnabled: boolean;
+    instanceId: string;
+  };
+};
+
+type NotificationPreferences = {
+  emailDueSoon: boolean;
+  emailOverdue: boolean;
+  emailRequestDecisions: boolean;
+  emailHoldReady: boolean;
+  emailSavedSearches: boolean;
+};
+
+// "unavailable" means the server has no VAPID keys; "blocked" means the browser permission was denied.
+type PushStatus = "checking" | "unsupported" | "unavailable" | "blocked" | "off" | "on";
+
+type SavedSearchFilters = {
+  q?: string;
+  author?: string;
+  genre?: string;
+  available?: "true" | "false";
+  genres: string[];
+  authors: string[];
+  decades: number[];
+  ratings: string[];
+};
+
+type SavedSearch = {
+  id: string;
+  name: string;
+  filters: SavedSearchFilters | null;
+  alertsEnabled: boolean;
+  createdAt: string;
+  newMatchCount: number;
+  newMatches: Array<{
+    createdAt: string;
+    book: Pick<Book, "id" | "title" | "author" | "coverUrl">;
+  }>;
+};
+
+type ShelfVisibility = "PRIVATE" | "SHARED";
+
+type ShelfBook = Pick<Book, "id" | "title" | "author" | "genre" | "coverUrl" | "averageRating" | "available">;
+
+type ShelfSummary = {
+  id: string;
+  name: string;
+  description: string | null;
+  systemKey: string | null;
+  visibility: ShelfVisibility;
+  shareToken: string | null;
+  position: number;
+  entryCount: number;
+  previewBooks: Array<Pick<Book, "id" | "title" | "coverUrl">>;
+  bookEntryId?: string | null;
+};
+
+type ShelfEntry = {
+  id: string;
+  note: string | null;
+  position: number;
+  addedAt: string;
+  book: ShelfBook;
+};
+
+type ShelfDetails = Omit<ShelfSummary, "entryCount" | "previewBooks" | "bookEntryId"> & {
+  entries: ShelfEntry[];
+};
+
+type SharedShelf = {
+  id: string;
+  name: string;
+  description: string | null;
+  ownerName: string;
+  isOwner: boolean;
+  updatedAt: string;
+  entries: Array<{
+    id: string;
+    note: string | null;
+    addedAt: string;
+    book: ShelfBook & { isFavorite: boolean };
+  }>;
+};
+
+type UserBadge = {
+  id: string;
+  key: string;
+  name: string;
+  description: string | null;
+  icon: string | null;
+  challengeId: string | null;
+  earnedAt: string;
+};
+
+type ChallengeGoal = "BOOKS_READ" | "NEW_GENRES" | "REVIEWS_WRITTEN";
+
+type Challenge = {
+  id: string;
+  title: string;
+  description: string | null;
+  goal: ChallengeGoal;
+  target: number;
+  genre: string | null;
+  startsAt: string;
+  endsAt: string;
+  badgeName: string;
+  badgeIcon: string | null;
+  status: "upcoming" | "active" | "ended";
+  completedCount: number;
+  myProgress: { progress: number; completedAt: string | null } | null;
+};
+
+type LeaderboardPeriod = "week" | "month" | "all";
+
+type LeaderboardEntry = {
+  rank: number;
+  userId: string;
+  name: string;
+  avatarPreset: string | null;
+  levelNumber: number;
+  points: number;
+};
+
+type LeaderboardResponse = {
+  data: LeaderboardEntry[];
+  meta: {
+    period: LeaderboardPeriod;
+    periodStart: string | null;
+    genre: string | null;
+    genres: string[];
+    viewer: { optedOut: boolean; points: number; rank: number | null } | null;
+  };
+};
+
+type PointTransaction = {
+  id: string;
+  points: number;
+  reason: "CHECKIN" | "OPENING_BALANCE" | "ADJUSTMENT" | "RECONCILIATION";
+  note: string | null;
+  genre: string | null;
+  createdAt: string;
+  book: { id: string; title: string } | null;
+  createdBy: { id: string; name: string } | null;
+};
+
+type ReadingStatsBook = Pick<Book, "id" | "title" | "author" | "genre" | "coverUrl">;
+
+type ReadingStats = {
+  year: number;
+  booksRead: number;
+  distinctBooks: number;
+  pagesRead: number;
+  loansWithPageCount: number;
+  booksPerMonth: Array<{ month: number; books: number; pages: number; reviews: number }>;
+  topGenres: Array<{ name: string; count: number }>;
+  topAuthors: Array<{ name: string; count: number }>;
+  averageLoanDays: number | null;
+  onTimeReturnRate: number | null;
+  lateReturns: number;
+  reviews: { written: number; averageRating: number | null };
+  highlights: {
+    firstBook: ReadingStatsBook | null;
+    lastBook: ReadingStatsBook | null;
+    longestBook: { id: string; title: string; author: string; pageCount: number } | null;
+    busiestMonth: { month: number; books: number } | null;
+  };
+  lifetime: { booksRead: number; readingPoints: number; memberSince: string | null };
+};
+
+type NotificationType =
+  | "LOAN_DUE_SOON"
+  | "LOAN_OVERDUE"
+  | "LOAN_DUE_DATE_CHANGED"
+  | "REQUEST_CREATED"
+  | "REQUEST_APPROVED"
+  | "REQUEST_DECLINED"
+  | "REQUEST_EXPIRED"
+  | "HOLD_READY"
+  | "REVIEW_POSTED"
+  | "BADGE_EARNED"
+  | "POINTS_ADJUSTED"
+  | "SAVED_SEARCH_MATCH";
+
+// Named to avoid clashing with the browser's Notification API.
+type AppNotification = {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  payload: Record<string, unknown> | null;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+};
+
+type NotificationsResponse = {
+  data: AppNotification[];
+  meta: { unreadCount: number };
+  pageInfo: { hasNextPage: boolean; nextCursor: string | null };
+};
+
+type BookAvailabilityEvent = Pick<Book, "availableCopies" | "totalCopies" | "available" | "requestPending"> & {
+  bookId: string;
+};
+
+type BorrowRequestEvent = {
+  requestId: string;
+  bookId: string;
+  userId: string;
+  status: BorrowRequestStatus;
+  reviewedAt?: string | null;
+  declineReason?: DeclineReason | null;
+  declineNote?: string | null;
+};
+
+type AnalyticsGranularity = "day" | "week";
+
+type AnalyticsRange = {
+  from: string;
+  to: string;
+  granularity: AnalyticsGranularity;
+};
+
+type CirculationAnalytics = {
+  series: Array<{ bucket: string; checkouts: number; returns: number }>;
+  totals: { checkouts: number; returns: number };
+  topTitles: Array<Pick<Book, "id" | "title" | "author" | "coverUrl"> & { checkouts: number }>;
+  topGenres: Array<{ name: string; checkouts: number }>;
+  neverBorrowed: { count: number; books: Array<{ id: string; title: string; author: string; createdAt: string }> };
+  overdue: { loansDue: number; returnedLate: number; rate: number | null; currentlyOverdue: number };
+  requests: {
+    approved: number;
+    averageApprovalHours: number | null;
+    declined: number;
+    declineReasons: Array<{ reason: DeclineReason | "UNSPECIFIED"; count: number }>;
+  };
+  members: { activeMembers: number; newMembers: number };
+};
+
+type AuditLogEntry = {
+  id: string;
+  action: string;
+  entity: string;
+  entityId: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+  actor: Pick<User, "id" | "name" | "email"> | null;
+};
+
+type AuditLogsResponse = {
+  data: AuditLogEntry[];
+  pageInfo: {
+    hasNextPage: boolean;
+    nextCursor: string | null;
+  };
+};
+
+type AuditFilters = {
+  scope: "all" | "book" | "user";
+  targetId: string;
+  action: string;
+  entity: string;
+  from: string;
+  to: string;
+};
+
 type UiLogEntry = {
   id: string;
   text: string;
@@ -267,7 +729,96 @@ const emptyBookForm = {
   genre: "",
   publishedYear: "",
   description: "",
-  coverUrl: ""
+  coverUrl: "",
+  copyCount: "1"
+};
+
+const emptyPolicyForm = {
+  role: "",
+  genre: "",
+  maxActiveLoans: "5",
+  minLoanDays: "14",
+  defaultLoanDays: "30",
+  maxLoanDays: "45",
+  maxRenewals: "2",
+  gracePeriodDays: "0",
+  fineDailyRate: "0.25"
+};
+
+const emptyShelfForm = {
+  name: "",
+  description: "",
+  visibility: "PRIVATE" as ShelfVisibility
+};
+
+const emptyChallengeForm = {
+  title: "",
+  description: "",
+  goal: "BOOKS_READ" as ChallengeGoal,
+  target: "5",
+  genre: "",
+  startsAt: "",
+  endsAt: "",
+  badgeName: "",
+  badgeIcon: ""
+};
+
+const challengeGoalLabels: Record<ChallengeGoal, string> = {
+  BOOKS_READ: "Books read",
+  NEW_GENRES: "New genres tried",
+  REVIEWS_WRITTEN: "Reviews written"
+};
+
+const leaderboardPeriodLabels: Record<LeaderboardPeriod, string> = {
+  week: "This week",
+  month: "This month",
+  all: "All time"
+};
+
+const pointReasonLabels: Record<PointTransaction["reason"], string> = {
+  CHECKIN: "Check-in",
+  OPENING_BALANCE: "Opening balance",
+  ADJUSTMENT: "Admin adjustment",
+  RECONCILIATION: "Reconciliation"
+};
+
+const declineReasonLabels: Record<DeclineReason | "UNSPECIFIED", string> = {
+  NO_COPIES: "No copies available",
+  BORROWING_LIMIT: "Borrowing limit reached",
+  OUTSTANDING_FINES: "Outstanding fines",
+  ACCOUNT_ISSUE: "Account issue",
+  OTHER: "Other",
+  UNSPECIFIED: "Not specified"
+};
+
+const daysAgoDateInput = (days: number): string =>
+  new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const defaultAnalyticsRange = (): AnalyticsRange => ({
+  from: daysAgoDateInput(29),
+  to: daysAgoDateInput(0),
+  granularity: "day"
+});
+
+const monthLabels = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const formatPercent = (ratio: number | null): string => (ratio === null ? "-" : `${Math.round(ratio * 100)}%`);
+
+const describeEarnedBadges = (badges: UserBadge[] | undefined): string =>
+  badges && badges.length > 0 ? ` Badge earned: ${badges.map((badge) => badge.name).join(", ")}!` : "";
+
+const emptyCopyForm = {
+  barcode: "",
+  shelfLocation: "",
+  condition: "GOOD" as BookCopyCondition
+};
+
+const copyStatusLabels: Record<BookCopyStatus, string> = {
+  AVAILABLE: "Available",
+  RESERVED: "Reserved",
+  ON_LOAN: "On loan",
+  MAINTENANCE: "Maintenance",
+  LOST: "Lost"
 };
 
 const parseApiError = (error: unknown): string => {
@@ -336,11 +887,122 @@ const truncateText = (value: string, maxLength = 100): string => {
   return `${value.slice(0, maxLength - 1).trimEnd()}...`;
 };
 
+const formatMoney = (cents: number, currency: string): string => {
+  return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(cents / 100);
+};
+
+const emptyAuditFilters: AuditFilters = {
+  scope: "all",
+  targetId: "",
+  action: "",
+  entity: "",
+  from: "",
+  to: ""
+};
+
+const buildAuditLogParams = (filters: AuditFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  const targetId = filters.targetId.trim();
+  if (filters.scope === "book" && targetId) {
+    params.set("bookId", targetId);
+  }
+  if (filters.scope === "user" && targetId) {
+    params.set("userId", targetId);
+  }
+  if (filters.action.trim()) {
+    params.set("action", filters.action.trim());
+  }
+  if (filters.entity.trim()) {
+    params.set("entity", filters.entity.trim());
+  }
+  if (filters.from) {
+    params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  }
+  if (filters.to) {
+    params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  }
+  return params;
+};
+
+const formatAuditAction = (action: string): string => {
+  const text = action.toLowerCase().replace(/_/g, " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+const catalogImportFields: Array<[CatalogImportField, string]> = [
+  ["title", "Title"],
+  ["author", "Author"],
+  ["isbn", "ISBN"],
+  ["genre", "Genre"],
+  ["publishedYear", "Published year"],
+  ["description", "Description"],
+  ["coverUrl", "Cover URL"],
+  ["copyCount", "Copies"]
+];
+
+const catalogImportStatusLabels: Record<CatalogImportRow["status"], string> = {
+  create: "Will be added",
+  duplicate: "Duplicate in file",
+  exists: "Already in catalog",
+  invalid: "Invalid"
+};
+
+const readFileAsBase64 = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const emailNotificationOptions: Array<[keyof NotificationPreferences, string]> = [
+  ["emailDueSoon", "Reminder a couple of days before a loan is due"],
+  ["emailOverdue", "Weekly notice while a loan is overdue"],
+  ["emailRequestDecisions", "Borrow request approved or declined"],
+  ["emailHoldReady", "A held book is ready for pickup"],
+  ["emailSavedSearches", "New books match one of my saved searches"]
+];
+
+const pushStatusDescriptions: Record<PushStatus, string> = {
+  checking: "Checking this device...",
+  unsupported: "This browser does not support push notifications. Install the app or use a recent browser.",
+  unavailable: "Push notifications are not enabled on this server.",
+  blocked: "Notifications are blocked for this site. Allow them in your browser settings to turn push on.",
+  off: "Get due-date reminders and borrow request decisions on this device, even when the app is closed.",
+  on: "This device receives due-date reminders and borrow request decisions."
+};
+
+const loanEventLabels: Record<string, string> = {
+  BOOK_CHECKED_OUT: "Checked out",
+  BOOK_CHECKED_IN: "Checked in",
+  LOAN_RENEWED: "Renewed",
+  LOAN_DUE_DATE_UPDATED: "Due date changed"
+};
+
+const getAvailabilityLabel = (book: Book): string => {
+  if (book.requestPending) {
+    return "Pending approval";
+  }
+  if (book.totalCopies > 1) {
+    return `${book.availableCopies} of ${book.totalCopies} available`;
+  }
+  return book.available ? "Checked in (returned)" : "Checked out (borrowed)";
+};
+
 const getBookIdFromPath = (): string | null => {
   const match = window.location.pathname.match(/^\/books\/([^/]+)$/);
   return match ? decodeURIComponent(match[1]) : null;
 };
 
+const getSharedShelfTokenFromPath = (): string | null => {
+  const match = window.location.pathname.match(/^\/shelves\/shared\/([^/]+)$/);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+const getShelfShareUrl = (shareToken: string): string =>
+  `${window.location.origin}/shelves/shared/${encodeURIComponent(shareToken)}`;
+
 const isMobileOrTabletDevice = (): boolean => {
   const coarsePointer = window.matchMedia("(pointer: coarse)").matches;
   const compactViewport = window.matchMedia("(max-width: 1024px)").matches;
@@ -408,6 +1070,16 @@ const BookRating = ({ book }: { book: Book }) => {
   );
 };
 
+// Search highlights arrive with matched terms wrapped in <mark>; split them out rather than injecting HTML.
+const HighlightedText = ({ text }: { text: string }) => {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+  return (
+    <>
+      {parts.map((part, index) => (index % 2 === 1 ? <mark key={index}>{part}</mark> : part))}
+    </>
+  );
+};
+
 const AiMetadataBadge = ({ book }: { book: Book }) => {
   if (!book.aiMetadata) {
     return null;
@@ -447,6 +1119,29 @@ const FavoriteStarButton = ({
   );
 };
 
+const LoanHistoryList = ({ events }: { events: LoanHistoryEvent[] | undefined }) => {
+  if (!events) {
+    return <p className="muted">Loading history...</p>;
+  }
+  if (events.length === 0) {
+    return <p className="muted">No history recorded for this loan.</p>;
+  }
+  return (
+    <ul className="loan-history">
+      {events.map((event) => {
+        const newDueAt = typeof event.metadata?.newDueAt === "string" ? event.metadata.newDueAt : null;
+        return (
+          <li key={event.id} className="muted">
+            {new Date(event.createdAt).toLocaleDateString()} - {loanEventLabels[event.action] ?? event.action}
+            {newDueAt ? ` (due ${new Date(newDueAt).toLocaleDateString()})` : ""}
+            {event.actor ? ` by ${event.actor.name}` : ""}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
 const DashboardIcon = () => (
   <svg viewBox="0 0 24 24" aria-hidden="true" className="profile-icon-svg">
     <rect x="3" y="11" width="4" height="10" rx="1.2" />
@@ -461,6 +1156,12 @@ const SettingsIcon = () => (
   </svg>
 );
 
+const BellIcon = () => (
+  <svg viewBox="0 0 24 24" aria-hidden="true" className="profile-icon-svg">
+    <path d="M12 22a2.5 2.5 0 0 0 2.45-2h-4.9A2.5 2.5 0 0 0 12 22Zm7-6V11a7 7 0 0 0-5.5-6.84V3.5a1.5 1.5 0 0 0-3 0v.66A7 7 0 0 0 5 11v5l-1.7 1.7a.75.75 0 0 0 .53 1.3h16.34a.75.75 0 0 0 .53-1.3L19 16Z" />
+  </svg>
+);
+
 const LogoutIcon = () => (
   <svg viewBox="0 0 24 24" aria-hidden="true" className="profile-icon-svg">
     <path d="M15.75 4.5v3a.75.75 0 0 1-1.5 0v-3A1.5 1.5 0 0 0 12.75 3h-7.5a1.5 1.5 0 0 0-1.5 1.5v15A1.5 1.5 0 0 0 5.25 21h7.5a1.5 1.5 0 0 0 1.5-1.5v-3a.75.75 0 0 1 1.5 0v3a3 3 0 0 1-3 3h-7.5a3 3 0 0 1-3-3v-15a3 3 0 0 1 3-3h7.5a3 3 0 0 1 3 3Z" />
@@ -498,17 +1199,111 @@ const BookCover = ({ book, className }: { book: Book; className: string }) => {
   );
 };
 
-const BookPreviewDialog = ({
-  book,
+const notificationTypeIcons: Record<NotificationType, string> = {
+  LOAN_DUE_SOON: "⏰",
+  LOAN_OVERDUE: "⚠️",
+  LOAN_DUE_DATE_CHANGED: "📅",
+  REQUEST_CREATED: "📥",
+  REQUEST_APPROVED: "✅",
+  REQUEST_DECLINED: "✖️",
+  REQUEST_EXPIRED: "⌛",
+  HOLD_READY: "📦",
+  REVIEW_POSTED: "💬",
+  BADGE_EARNED: "🏅",
+  POINTS_ADJUSTED: "⭐",
+  SAVED_SEARCH_MATCH: "🔔"
+};
+
+const OutboxEntryHint = ({ entry }: { entry: OutboxEntry | undefined }) => {
+  if (!entry) {
+    return null;
+  }
+  return (
+    <span className={`sync-hint${entry.status === "failed" ? " is-failed" : ""}`}>
+      {entry.status === "failed" ? "Sync failed" : "Saved offline, waiting to sync"}
+    </span>
+  );
+};
+
+const SyncQueueStatus = ({
+  entries,
+  onRetry,
+  onKeepMine,
+  onDiscard
+}: {
+  entries: OutboxEntry[];
+  onRetry: (entry: OutboxEntry) => void;
+  onKeepMine: (entry: OutboxEntry) => void;
+  onDiscard: (entry: OutboxEntry) => void;
+}) => {
+  const pendingCount = entries.filter((entry) => entry.status === "pending").length;
+  const failedEntries = entries.filter((entry) => entry.status === "failed");
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="sync-status" aria-label="Offline changes">
+      {pendingCount > 0 && (
+        <p role="status">
+          {pendingCount} offline change{pendingCount === 1 ? "" : "s"} waiting to sync.
+        </p>
+      )}
+      {failedEntries.length > 0 && (
+        <ul className="stack-list">
+          {failedEntries.map((entry) => (
+            <li key={entry.id} className="row-item sync-status-failed">
+              <div>
+                <strong>{entry.label}</strong>
+                <p className="muted">{entry.error ?? "Could not be synced."}</p>
+              </div>
+              <div className="row-actions">
+                {entry.conflict ? (
+                  <button className="btn btn-outline" type="button" onClick={() => onKeepMine(entry)}>
+                    Keep my version
+                  </button>
+                ) : (
+                  <button className="btn btn-outline" type="button" onClick={() => onRetry(entry)}>
+                    Retry
+                  </button>
+                )}
+                <button className="btn btn-outline" type="button" onClick={() => onDiscard(entry)}>
+                  Discard
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+const NotificationDrawer = ({
+  open,
+  notifications,
+  unreadCount,
+  loading,
+  hasNextPage,
   onClose,
-  onCheckout
+  onLoadMore,
+  onOpenNotification,
+  onToggleRead,
+  onMarkAllRead
 }: {
-  book: Book | null;
+  open: boolean;
+  notifications: AppNotification[];
+  unreadCount: number;
+  loading: boolean;
+  hasNextPage: boolean;
   onClose: () => void;
-  onCheckout: (bookId: string) => Promise<void>;
+  onLoadMore: () => void;
+  onOpenNotification: (notification: AppNotification) => void;
+  onToggleRead: (notification: AppNotification) => void;
+  onMarkAllRead: () => void;
 }) => {
   useEffect(() => {
-    if (!book) {
+    if (!open) {
       return;
     }
     const onKeyDown = (event: KeyboardEvent) => {
@@ -518,28 +1313,209 @@ const BookPreviewDialog = ({
     };
     window.addEventListener("keydown", onKeyDown);
     return () => window.removeEventListener("keydown", onKeyDown);
-  }, [book, onClose]);
+  }, [open, onClose]);
 
-  if (!book) {
+  if (!open) {
     return null;
   }
 
-  const externalInfoUrl = `https://openlibrary.org/search?q=${encodeURIComponent(`${book.title} ${book.author}`)}`;
-
   return (
-    <div className="modal-backdrop" role="presentation" onClick={onClose}>
-      <section
-        className="modal-card"
+    <div className="modal-backdrop drawer-backdrop" role="presentation" onClick={onClose}>
+      <aside
+        className="notification-drawer"
         role="dialog"
         aria-modal="true"
-        aria-labelledby="book-preview-title"
+        aria-labelledby="notification-drawer-title"
         onClick={(event) => event.stopPropagation()}
       >
         <div className="modal-head">
-          <h2 id="book-preview-title">Book preview</h2>
-          <button className="btn btn-outline" type="button" onClick={onClose}>
-            Close
-          </button>
+          <h2 id="notification-drawer-title">Notifications</h2>
+          <div className="row-actions">
+            <button className="btn btn-outline" type="button" onClick={onMarkAllRead} disabled={unreadCount === 0}>
+              Mark all read
+            </button>
+            <button className="btn btn-outline" type="button" onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+        <ul className="stack-list notification-list">
+          {notifications.length === 0 && !loading && <li className="muted">You're all caught up.</li>}
+          {notifications.map((notification) => (
+            <li key={notification.id} className={`notification-item${notification.readAt ? "" : " notification-unread"}`}>
+              <button className="link-button notification-open" type="button" onClick={() => onOpenNotification(notification)}>
+                <span aria-hidden="true">{notificationTypeIcons[notification.type]}</span>
+                <span>
+                  <strong>{notification.title}</strong>
+                  {notification.body && <span className="muted">{notification.body}</span>}
+                  <span className="muted">{new Date(notification.createdAt).toLocaleString()}</span>
+                </span>
+              </button>
+              <button
+                className="link-button"
+                type="button"
+                aria-label={notification.readAt ? `Mark "${notification.title}" as unread` : `Mark "${notification.title}" as read`}
+                onClick={() => onToggleRead(notification)}
+              >
+                {notification.readAt ? "Unread" : "Read"}
+              </button>
+            </li>
+          ))}
+        </ul>
+        {loading && <p className="muted">Loading notifications...</p>}
+        {hasNextPage && !loading && (
+          <button className="btn btn-outline" type="button" onClick={onLoadMore}>
+            Load older
+          </button>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+const ReadingWrappedDialog = ({ stats, onClose }: { stats: ReadingStats | null; onClose: () => void }) => {
+  useEffect(() => {
+    if (!stats) {
+      return;
+    }
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [stats, onClose]);
+
+  if (!stats) {
+    return null;
+  }
+
+  const { highlights } = stats;
+  const cards: Array<{ label: string; value: string; detail?: string }> = [
+    {
+      label: "Books read",
+      value: String(stats.booksRead),
+      detail: stats.distinctBooks !== stats.booksRead ? `${stats.distinctBooks} different titles` : undefined
+    },
+    {
+      label: "Pages turned",
+      value: stats.pagesRead.toLocaleString(),
+      detail:
+        stats.loansWithPageCount < stats.booksRead
+          ? `Page counts known for ${stats.loansWithPageCount} of ${stats.booksRead} books`
+          : undefined
+    },
+    ...(stats.topGenres[0]
+      ? [{ label: "Top genre", value: stats.topGenres[0].name, detail: `${stats.topGenres[0].count} books` }]
+      : []),
+    ...(stats.topAuthors[0]
+      ? [{ label: "Most-read author", value: stats.topAuthors[0].name, detail: `${stats.topAuthors[0].count} books` }]
+      : []),
+    ...(highlights.busiestMonth
+      ? [
+          {
+            label: "Busiest month",
+            value: monthLabels[highlights.busiestMonth.month - 1],
+            detail: `${highlights.busiestMonth.books} books returned`
+          }
+        ]
+      : []),
+    ...(highlights.longestBook
+      ? [
+          {
+            label: "Longest read",
+            value: highlights.longestBook.title,
+            detail: `${highlights.longestBook.pageCount} pages by ${highlights.longestBook.author}`
+          }
+        ]
+      : []),
+    ...(highlights.firstBook
+      ? [{ label: "First book of the year", value: highlights.firstBook.title, detail: highlights.firstBook.author }]
+      : []),
+    { label: "On-time returns", value: formatPercent(stats.onTimeReturnRate) },
+    {
+      label: "Reviews written",
+      value: String(stats.reviews.written),
+      detail: stats.reviews.averageRating !== null ? `Average rating ${stats.reviews.averageRating}/5` : undefined
+    }
+  ];
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={onClose}>
+      <section
+        className="modal-card wrapped-card"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="reading-wrapped-title"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="modal-head">
+          <h2 id="reading-wrapped-title">{`Your ${stats.year} in books`}</h2>
+          <button className="btn btn-outline" type="button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        {stats.booksRead === 0 ? (
+          <p className="muted">No books returned in {stats.year} yet. Your year in review fills in as you read.</p>
+        ) : (
+          <ul className="wrapped-grid">
+            {cards.map((card) => (
+              <li key={card.label} className="wrapped-tile">
+                <span className="muted">{card.label}</span>
+                <strong>{card.value}</strong>
+                {card.detail && <span className="muted">{card.detail}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
+
+const BookPreviewDialog = ({
+  book,
+  onClose,
+  onCheckout
+}: {
+  book: Book | null;
+  onClose: () => void;
+  onCheckout: (bookId: string) => Promise<void>;
+}) => {
+  useEffect(() => {
+    if (!book) {
+      return;
+    }
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [book, onClose]);
+
+  if (!book) {
+    return null;
+  }
+
+  const externalInfoUrl = `https://openlibrary.org/search?q=${encodeURIComponent(`${book.title} ${book.author}`)}`;
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={onClose}>
+      <section
+        className="modal-card"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="book-preview-title"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="modal-head">
+          <h2 id="book-preview-title">Book preview</h2>
+          <button className="btn btn-outline" type="button" onClick={onClose}>
+            Close
+          </button>
         </div>
         <div className="modal-content">
           <BookCover book={book} className="book-cover-large" />
@@ -667,6 +1643,7 @@ const ProfileMenu = ({
   borrowedCount,
   adminPendingCount,
   memberUnreadRequestCount,
+  savedSearchMatchCount,
   onGoogleCredential,
   onLogout,
   onOpenDashboard,
@@ -677,6 +1654,7 @@ const ProfileMenu = ({
   borrowedCount: number;
   adminPendingCount: number;
   memberUnreadRequestCount: number;
+  savedSearchMatchCount: number;
   onGoogleCredential: (credential: string) => Promise<void>;
   onLogout: () => void;
   onOpenDashboard: () => void;
@@ -717,7 +1695,8 @@ const ProfileMenu = ({
   const userLevel = user ? getLevelInfo(user.readingPoints) : null;
   const avatarPreset = getAvatarPreset(user?.avatarPreset);
   const ringColor = userLevel ? getLevelRingColor(userLevel.levelNumber) : "#4f8cd4";
-  const notificationCount = user?.role === "ADMIN" ? adminPendingCount : memberUnreadRequestCount;
+  const notificationCount =
+    (user?.role === "ADMIN" ? adminPendingCount : memberUnreadRequestCount) + savedSearchMatchCount;
 
   return (
     <div className="topbar-actions" ref={rootRef}>
@@ -827,11 +1806,27 @@ const App = () => {
 
   const [loans, setLoans] = useState<Loan[]>([]);
   const [loansLoading, setLoansLoading] = useState(false);
+  const [renewingLoanId, setRenewingLoanId] = useState<string | null>(null);
+  const [loanHistory, setLoanHistory] = useState<Record<string, LoanHistoryEvent[]>>({});
+  const [openLoanHistoryId, setOpenLoanHistoryId] = useState<string | null>(null);
   const [borrowRequests, setBorrowRequests] = useState<BorrowRequestItem[]>([]);
   const [borrowRequestsLoading, setBorrowRequestsLoading] = useState(false);
   const [borrowRequestActionId, setBorrowRequestActionId] = useState<string | null>(null);
   const [memberUnreadRequestCount, setMemberUnreadRequestCount] = useState(0);
   const [adminPendingRequestCount, setAdminPendingRequestCount] = useState(0);
+  const [circulationPolicies, setCirculationPolicies] = useState<CirculationPolicy[]>([]);
+  const [defaultCirculationRules, setDefaultCirculationRules] = useState<CirculationRules | null>(null);
+  const [policyForm, setPolicyForm] = useState(emptyPolicyForm);
+  const [editingPolicyId, setEditingPolicyId] = useState<string | null>(null);
+  const [savingPolicy, setSavingPolicy] = useState(false);
+  const [fines, setFines] = useState<FineItem[]>([]);
+  const [finesMeta, setFinesMeta] = useState<FinesMeta | null>(null);
+  const [finesLoading, setFinesLoading] = useState(false);
+  const [fineActionId, setFineActionId] = useState<string | null>(null);
+  const [finePaymentDrafts, setFinePaymentDrafts] = useState<Record<string, string>>({});
+  const [holds, setHolds] = useState<BookHold[]>([]);
+  const [holdsLoading, setHoldsLoading] = useState(false);
+  const [holdActionId, setHoldActionId] = useState<string | null>(null);
   const [borrowersOverview, setBorrowersOverview] = useState<BorrowerOverview[]>([]);
   const [overdueLoans, setOverdueLoans] = useState<Loan[]>([]);
   const [overdueUsersCount, setOverdueUsersCount] = useState(0);
@@ -848,6 +1843,11 @@ const App = () => {
   const [adminLoading, setAdminLoading] = useState(false);
   const [savingContact, setSavingContact] = useState(false);
   const [savingAppearance, setSavingAppearance] = useState(false);
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences | null>(null);
+  const [savingNotificationPreference, setSavingNotificationPreference] = useState(false);
+  const [pushStatus, setPushStatus] = useState<PushStatus>("checking");
+  const [pushPublicKey, setPushPublicKey] = useState<string | null>(null);
+  const [savingPush, setSavingPush] = useState(false);
   const [contactDraft, setContactDraft] = useState({
     contactEmail: "",
     phoneNumber: "",
@@ -860,7 +1860,67 @@ const App = () => {
 
   const [query, setQuery] = useState("");
   const [availableFilter, setAvailableFilter] = useState("all");
+  const [facetSelection, setFacetSelection] = useState<FacetSelection>(emptyFacetSelection);
+  const [bookFacets, setBookFacets] = useState<BookFacets | null>(null);
+  const [searchSuggestions, setSearchSuggestions] = useState<SearchSuggestion[]>([]);
+  const [suggestionsOpen, setSuggestionsOpen] = useState(false);
+  const [activeSuggestionIndex, setActiveSuggestionIndex] = useState(-1);
+  const suggestionCacheRef = useRef(new Map<string, SearchSuggestion[]>());
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [savedSearchName, setSavedSearchName] = useState("");
+  const [savingSearch, setSavingSearch] = useState(false);
+  const [challenges, setChallenges] = useState<Challenge[]>([]);
+  const [myBadges, setMyBadges] = useState<UserBadge[]>([]);
+  const [challengeForm, setChallengeForm] = useState(emptyChallengeForm);
+  const [savingChallenge, setSavingChallenge] = useState(false);
+  const [pointsUser, setPointsUser] = useState<User | null>(null);
+  const [pointHistory, setPointHistory] = useState<PointTransaction[]>([]);
+  const [pointAdjustment, setPointAdjustment] = useState({ points: "", reason: "" });
+  const [savingPointAdjustment, setSavingPointAdjustment] = useState(false);
+  const [statsYear, setStatsYear] = useState(() => new Date().getFullYear());
+  const [readingStats, setReadingStats] = useState<ReadingStats | null>(null);
+  const [showReadingWrapped, setShowReadingWrapped] = useState(false);
+  const [analyticsRange, setAnalyticsRange] = useState<AnalyticsRange>(defaultAnalyticsRange);
+  const [analytics, setAnalytics] = useState<CirculationAnalytics | null>(null);
+  const [analyticsLoading, setAnalyticsLoading] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [notificationUnreadCount, setNotificationUnreadCount] = useState(0);
+  const [notificationsNextCursor, setNotificationsNextCursor] = useState<string | null>(null);
+  const [notificationsLoading, setNotificationsLoading] = useState(false);
+  const [showNotifications, setShowNotifications] = useState(false);
+  const [liveStatus, setLiveStatus] = useState<EventStreamStatus>("closed");
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  // Save time of the oldest offline snapshot on screen; null while everything shown came from the network.
+  const [offlineDataSavedAt, setOfflineDataSavedAt] = useState<string | null>(null);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  const [declineDrafts, setDeclineDrafts] = useState<Record<string, { reason: DeclineReason | ""; note: string }>>({});
+  const [leaderboardPeriod, setLeaderboardPeriod] = useState<LeaderboardPeriod>("week");
+  const [leaderboardGenre, setLeaderboardGenre] = useState("");
+  const [leaderboard, setLeaderboard] = useState<LeaderboardResponse | null>(null);
+  const [leaderboardLoading, setLeaderboardLoading] = useState(false);
+  const [savingLeaderboardOptOut, setSavingLeaderboardOptOut] = useState(false);
+  const [shelves, setShelves] = useState<ShelfSummary[]>([]);
+  const [shelfForm, setShelfForm] = useState(emptyShelfForm);
+  const [savingShelf, setSavingShelf] = useState(false);
+  const [openShelf, setOpenShelf] = useState<ShelfDetails | null>(null);
+  const [shelfEntryNotes, setShelfEntryNotes] = useState<Record<string, string>>({});
+  const [shelfActionId, setShelfActionId] = useState<string | null>(null);
+  const [shelfFeedback, setShelfFeedback] = useState("");
+  const [bookShelves, setBookShelves] = useState<ShelfSummary[]>([]);
+  const [sharedShelfToken, setSharedShelfToken] = useState<string | null>(() => getSharedShelfTokenFromPath());
+  const [sharedShelf, setSharedShelf] = useState<SharedShelf | null>(null);
+  const [sharedShelfLoading, setSharedShelfLoading] = useState(false);
   const [importQuery, setImportQuery] = useState("popular fiction");
+  const [catalogFile, setCatalogFile] = useState<File | null>(null);
+  const [catalogFormat, setCatalogFormat] = useState<CatalogImportFormat>("csv");
+  const [catalogMapping, setCatalogMapping] = useState<Partial<Record<CatalogImportField, string>>>({});
+  const [catalogDefaultCopies, setCatalogDefaultCopies] = useState("1");
+  const [catalogSkipInvalid, setCatalogSkipInvalid] = useState(false);
+  const [catalogPreview, setCatalogPreview] = useState<CatalogImportResponse | null>(null);
+  const [catalogImporting, setCatalogImporting] = useState(false);
+  const [catalogExportFormat, setCatalogExportFormat] = useState<CatalogExportFormat>("csv");
+  const [catalogExportFiltered, setCatalogExportFiltered] = useState(false);
+  const [catalogExporting, setCatalogExporting] = useState(false);
   const [importLimit, setImportLimit] = useState("50");
   const [importProvider, setImportProvider] = useState<ImportProvider>("auto");
   const [importingExternal, setImportingExternal] = useState(false);
@@ -875,6 +1935,11 @@ const App = () => {
   const [activeBookId, setActiveBookId] = useState<string | null>(() => getBookIdFromPath());
   const [bookDetails, setBookDetails] = useState<BookDetailsResponse["data"] | null>(null);
   const [bookDetailsLoading, setBookDetailsLoading] = useState(false);
+  const [bookCopies, setBookCopies] = useState<AdminBookCopy[]>([]);
+  const [bookCopiesLoading, setBookCopiesLoading] = useState(false);
+  const [copyForm, setCopyForm] = useState(emptyCopyForm);
+  const [savingCopy, setSavingCopy] = useState(false);
+  const [copyActionId, setCopyActionId] = useState<string | null>(null);
   const [reviewDraft, setReviewDraft] = useState({
     rating: "5",
     content: ""
@@ -884,12 +1949,21 @@ const App = () => {
   const [savingNote, setSavingNote] = useState(false);
   const [shareFeedback, setShareFeedback] = useState("");
   const [adminLogs, setAdminLogs] = useState<UiLogEntry[]>([]);
+  const [scheduledJobs, setScheduledJobs] = useState<ScheduledJobStatus[]>([]);
+  const [schedulerEnabled, setSchedulerEnabled] = useState(true);
+  const [jobActionName, setJobActionName] = useState<string | null>(null);
+  const [auditFilters, setAuditFilters] = useState<AuditFilters>(emptyAuditFilters);
+  const [auditLogs, setAuditLogs] = useState<AuditLogEntry[]>([]);
+  const [auditNextCursor, setAuditNextCursor] = useState<string | null>(null);
+  const [auditLoading, setAuditLoading] = useState(false);
+  const [auditExporting, setAuditExporting] = useState(false);
   const [deferredInstallPrompt, setDeferredInstallPrompt] = useState<DeferredInstallPromptEvent | null>(null);
   const [showInstallPrompt, setShowInstallPrompt] = useState(false);
   const [iosInstallHint, setIosInstallHint] = useState(false);
   const [installPromptBusy, setInstallPromptBusy] = useState(false);
 
   const tokenRef = useRef<string | null>(accessToken);
+  const refreshPromiseRef = useRef<Promise<string> | null>(null);
 
   useEffect(() => {
     tokenRef.current = accessToken;
@@ -918,12 +1992,21 @@ const App = () => {
     });
   }, [message]);
 
-  const refreshAccessToken = useCallback(async (): Promise<string> => {
-    const result = await requestJson<{ accessToken: string }>("/auth/refresh", {
-      method: "POST"
-    });
-    setAccessToken(result.accessToken);
-    return result.accessToken;
+  // Each refresh rotates the refresh cookie, so concurrent callers (including the service worker) share one request.
+  const refreshAccessToken = useCallback((): Promise<string> => {
+    if (!refreshPromiseRef.current) {
+      refreshPromiseRef.current = requestJson<{ accessToken: string }>("/auth/refresh", {
+        method: "POST"
+      })
+        .then((result) => {
+          setAccessToken(result.accessToken);
+          return result.accessToken;
+        })
+        .finally(() => {
+          refreshPromiseRef.current = null;
+        });
+    }
+    return refreshPromiseRef.current;
   }, []);
 
   const authRequest = useCallback(
@@ -947,9 +2030,26 @@ const App = () => {
     [refreshAccessToken]
   );
 
+  const restoreOfflineSnapshot = useCallback(async <TData,>(key: string, apply: (data: TData) => void) => {
+    const snapshot = await readOfflineSnapshot<TData>(key);
+    if (!snapshot) {
+      return false;
+    }
+    apply(snapshot.data);
+    setOfflineDataSavedAt((current) => (current && current < snapshot.savedAt ? current : snapshot.savedAt));
+    return true;
+  }, []);
+
   const loadBooks = useCallback(
     async (cursor?: string | null) => {
       setBooksLoading(true);
+      let snapshotKey: string | null = null;
+      const applyBooksResponse = (snapshot: BooksResponse) => {
+        setBooks(snapshot.data);
+        setBookFacets(snapshot.facets ?? null);
+        setHasNextPage(snapshot.pageInfo.hasNextPage);
+        setNextCursor(snapshot.pageInfo.nextCursor);
+      };
       try {
         const params = new URLSearchParams();
         if (query.trim()) {
@@ -958,9 +2058,20 @@ const App = () => {
         if (availableFilter !== "all") {
           params.set("available", availableFilter === "available" ? "true" : "false");
         }
+        for (const [facet] of facetSections) {
+          for (const value of facetSelection[facet]) {
+            params.append(facet, value);
+          }
+        }
         params.set("limit", "12");
         if (cursor) {
           params.set("cursor", cursor);
+        } else {
+          // Only first pages are kept offline; "Load more" needs the network.
+          snapshotKey = `books:${user?.id ?? "guest"}?${params.toString()}`;
+          if (!navigator.onLine && (await restoreOfflineSnapshot(snapshotKey, applyBooksResponse))) {
+            return;
+          }
         }
 
         const result = await requestJson<BooksResponse>(`/books?${params.toString()}`, {
@@ -984,15 +2095,28 @@ const App = () => {
         }
 
         setBooks((previous) => (cursor ? [...previous, ...result.data] : result.data));
+        if (!cursor) {
+          setBookFacets(result.facets ?? null);
+        }
         setHasNextPage(result.pageInfo.hasNextPage);
         setNextCursor(result.pageInfo.nextCursor);
+        if (snapshotKey) {
+          void saveOfflineSnapshot<BooksResponse>(snapshotKey, {
+            data: result.data,
+            facets: result.facets,
+            pageInfo: result.pageInfo
+          });
+        }
       } catch (error) {
+        if (snapshotKey && isNetworkError(error) && (await restoreOfflineSnapshot(snapshotKey, applyBooksResponse))) {
+          return;
+        }
         setMessage(parseApiError(error));
       } finally {
         setBooksLoading(false);
       }
     },
-    [availableFilter, query, user]
+    [availableFilter, facetSelection, query, restoreOfflineSnapshot, user]
   );
 
   const loadLibraryStats = useCallback(async () => {
@@ -1006,15 +2130,23 @@ const App = () => {
 
   const loadLoans = useCallback(async () => {
     setLoansLoading(true);
+    const snapshotKey = `loans:${user?.id ?? "guest"}`;
     try {
+      if (!navigator.onLine && (await restoreOfflineSnapshot<Loan[]>(snapshotKey, setLoans))) {
+        return;
+      }
       const result = await authRequest<{ data: Loan[] }>("/loans");
       setLoans(result.data);
+      void saveOfflineSnapshot(snapshotKey, result.data);
     } catch (error) {
+      if (isNetworkError(error) && (await restoreOfflineSnapshot<Loan[]>(snapshotKey, setLoans))) {
+        return;
+      }
       setMessage(parseApiError(error));
     } finally {
       setLoansLoading(false);
     }
-  }, [authRequest]);
+  }, [authRequest, restoreOfflineSnapshot, user?.id]);
 
   const loadBorrowRequests = useCallback(async () => {
     if (!user) {
@@ -1040,6 +2172,94 @@ const App = () => {
     }
   }, [authRequest, user]);
 
+  const loadCirculationPolicies = useCallback(async () => {
+    if (user?.role !== "ADMIN") {
+      setCirculationPolicies([]);
+      return;
+    }
+    try {
+      const result = await authRequest<CirculationPoliciesResponse>("/circulation-policies");
+      setCirculationPolicies(result.data);
+      setDefaultCirculationRules(result.meta.defaults);
+    } catch (error) {
+      setMessage(parseApiError(error));
+    }
+  }, [authRequest, user?.role]);
+
+  const loadScheduledJobs = useCallback(async () => {
+    if (user?.role !== "ADMIN") {
+      setScheduledJobs([]);
+      return;
+    }
+    try {
+      const result = await authRequest<JobsResponse>("/jobs");
+      setScheduledJobs(result.data);
+      setSchedulerEnabled(result.meta.schedulerEnabled);
+    } catch (error) {
+      setMessage(parseApiError(error));
+    }
+  }, [authRequest, user?.role]);
+
+  const loadAuditLogs = useCallback(
+    async (filters: AuditFilters, cursor?: string | null) => {
+      if (user?.role !== "ADMIN") {
+        setAuditLogs([]);
+        setAuditNextCursor(null);
+        return;
+      }
+      setAuditLoading(true);
+      try {
+        const params = buildAuditLogParams(filters);
+        params.set("limit", "50");
+        if (cursor) {
+          params.set("cursor", cursor);
+        }
+        const result = await authRequest<AuditLogsResponse>(`/audit-logs?${params.toString()}`);
+        setAuditLogs((current) => (cursor ? [...current, ...result.data] : result.data));
+        setAuditNextCursor(result.pageInfo.nextCursor);
+      } catch (error) {
+        setMessage(parseApiError(error));
+      } finally {
+        setAuditLoading(false);
+      }
+    },
+    [authRequest, user?.role]
+  );
+
+  const loadFines = useCallback(async () => {
+    if (!user) {
+      setFines([]);
+      setFinesMeta(null);
+      return;
+    }
+    setFinesLoading(true);
+    try {
+      const result = await authRequest<FinesResponse>(user.role === "ADMIN" ? "/fines?status=OPEN" : "/fines?limit=50");
+      setFines(result.data);
+      setFinesMeta(result.meta);
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setFinesLoading(false);
+    }
+  }, [authRequest, user]);
+
+  const loadHolds = useCallback(async () => {
+    if (!user) {
+      setHolds([]);
+      return;
+    }
+    setHoldsLoading(true);
+    try {
+      const result = await authRequest<HoldsResponse>("/holds?status=active");
+      setHolds(result.data);
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setHoldsLoading(false);
+    }
+  }, [authRequest, user]);
+
   const loadRecommendations = useCallback(async () => {
     setRecommendationsLoading(true);
     try {
@@ -1072,6 +2292,160 @@ const App = () => {
     }
   }, [authRequest, user]);
 
+  const loadSavedSearches = useCallback(async () => {
+    if (!user) {
+      setSavedSearches([]);
+      return;
+    }
+    try {
+      const result = await authRequest<{ data: SavedSearch[] }>("/saved-searches");
+      setSavedSearches(result.data);
+    } catch (error) {
+      setMessage(parseApiError(error));
+    }
+  }, [authRequest, user]);
+
+  const loadChallenges = useCallback(async () => {
+    if (!user) {
+      setChallenges([]);
+      setMyBadges([]);
+      return;
+    }
+    try {
+      const [challengeResult, badgeResult] = await Promise.all([
+        authRequest<{ data: Challenge[] }>("/challenges"),
+        authRequest<{ data: UserBadge[] }>("/users/me/badges")
+      ]);
+      setChallenges(challengeResult.data);
+      setMyBadges(badgeResult.data);
+    } catch (error) {
+      setMessage(parseApiError(error));
+    }
+  }, [authRequest, user]);
+
+  const loadLeaderboard = useCallback(async () => {
+    if (!user) {
+      setLeaderboard(null);
+      return;
+    }
+    setLeaderboardLoading(true);
+    try {
+      const params = new URLSearchParams({ period: leaderboardPeriod, limit: "20" });
+      if (leaderboardGenre) {
+        params.set("genre", leaderboardGenre);
+      }
+      setLeaderboard(await authRequest<LeaderboardResponse>(`/leaderboards?${params.toString()}`));
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setLeaderboardLoading(false);
+    }
+  }, [authRequest, leaderboardGenre, leaderboardPeriod, user]);
+
+  const loadReadingStats = useCallback(async () => {
+    if (!user) {
+      setReadingStats(null);
+      return;
+    }
+    try {
+      const result = await authRequest<{ data: ReadingStats }>(`/users/me/stats?year=${statsYear}`);
+      setReadingStats(result.data);
+    } catch (error) {
+      setMessage(parseApiError(error));
+    }
+  }, [authRequest, statsYear, user]);
+
+  const loadNotifications = useCallback(
+    async (cursor?: string | null) => {
+      if (!user) {
+        setNotifications([]);
+        setNotificationUnreadCount(0);
+        setNotificationsNextCursor(null);
+        return;
+      }
+      try {
+        setNotificationsLoading(true);
+        const params = new URLSearchParams({ limit: "20" });
+        if (cursor) {
+          params.set("cursor", cursor);
+        }
+        const result = await authRequest<NotificationsResponse>(`/notifications?${params.toString()}`);
+        setNotifications((current) => (cursor ? [...current, ...result.data] : result.data));
+        setNotificationUnreadCount(result.meta.unreadCount);
+        setNotificationsNextCursor(result.pageInfo.nextCursor);
+      } catch (error) {
+        setMessage(parseApiError(error));
+      } finally {
+        setNotificationsLoading(false);
+      }
+    },
+    [authRequest, user]
+  );
+
+  const loadAnalytics = useCallback(
+    async (range: AnalyticsRange) => {
+      if (user?.role !== "ADMIN") {
+        setAnalytics(null);
+        return;
+      }
+      if (!range.from || !range.to || range.from > range.to) {
+        setMessage("Choose a start date on or before the end date.");
+        return;
+      }
+      try {
+        setAnalyticsLoading(true);
+        // Dates are whole UTC days, matching how the server buckets them; the end date is inclusive.
+        const to = new Date(`${range.to}T00:00:00.000Z`);
+        to.setUTCDate(to.getUTCDate() + 1);
+        const params = new URLSearchParams({
+          from: `${range.from}T00:00:00.000Z`,
+          to: to.toISOString(),
+          granularity: range.granularity
+        });
+        const result = await authRequest<{ data: CirculationAnalytics }>(`/analytics/circulation?${params.toString()}`);
+        setAnalytics(result.data);
+      } catch (error) {
+        setMessage(parseApiError(error));
+      } finally {
+        setAnalyticsLoading(false);
+      }
+    },
+    [authRequest, user]
+  );
+
+  const loadShelves = useCallback(async () => {
+    if (!user) {
+      setShelves([]);
+      setOpenShelf(null);
+      return;
+    }
+    try {
+      const result = await authRequest<{ data: ShelfSummary[] }>("/shelves");
+      setShelves(result.data);
+    } catch (error) {
+      setMessage(parseApiError(error));
+    }
+  }, [authRequest, user]);
+
+  const loadBookShelves = useCallback(
+    async (bookId: string) => {
+      if (!user) {
+        setBookShelves([]);
+        return;
+      }
+      try {
+        const result = await authRequest<{ data: ShelfSummary[] }>(
+          `/shelves?bookId=${encodeURIComponent(bookId)}`
+        );
+        setBookShelves(result.data);
+      } catch (error) {
+        setBookShelves([]);
+        setMessage(parseApiError(error));
+      }
+    },
+    [authRequest, user]
+  );
+
   const loadUsers = useCallback(async () => {
     if (user?.role !== "ADMIN") {
       return;
@@ -1106,7 +2480,14 @@ const App = () => {
 
   const refreshAfterLoanMutation = useCallback(
     async (options?: { includeRecommendations?: boolean }) => {
-      const tasks: Array<Promise<unknown>> = [loadBooks(), loadLoans(), loadLibraryStats(), loadBorrowRequests()];
+      const tasks: Array<Promise<unknown>> = [
+        loadBooks(),
+        loadLoans(),
+        loadLibraryStats(),
+        loadBorrowRequests(),
+        loadHolds(),
+        loadFines()
+      ];
       if (user?.role === "ADMIN") {
         tasks.push(loadAdminOverview());
       }
@@ -1119,6 +2500,8 @@ const App = () => {
       loadAdminOverview,
       loadBooks,
       loadBorrowRequests,
+      loadFines,
+      loadHolds,
       loadLoans,
       loadRecommendations,
       loadLibraryStats,
@@ -1143,6 +2526,15 @@ const App = () => {
       setAccessToken(token);
       setMessage(`Welcome back, ${me.user.name}.`);
     } catch (error) {
+      // Offline start: keep the session and show saved data; requests refresh the token once back online.
+      if (isNetworkError(error)) {
+        const snapshot = await readOfflineSnapshot<User>("user");
+        if (snapshot) {
+          setUser(snapshot.data);
+          setMessage(`Welcome back, ${snapshot.data.name}.`);
+          return;
+        }
+      }
       if (error instanceof ApiError && error.statusCode === 401) {
         try {
           token = await refreshAccessToken();
@@ -1174,14 +2566,57 @@ const App = () => {
     void Promise.all([loadBooks(), loadLibraryStats()]);
   }, [booting, loadBooks, loadLibraryStats]);
 
+  // Debounced so fast typists only hit the API once they pause; prefixes already seen come from memory.
   useEffect(() => {
-    if (!user) {
-      setLoans([]);
+    const prefix = query.trim().toLowerCase();
+    setActiveSuggestionIndex(-1);
+    if (prefix.length < 2) {
+      setSearchSuggestions([]);
+      return;
+    }
+    const cached = suggestionCacheRef.current.get(prefix);
+    if (cached) {
+      setSearchSuggestions(cached);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      void requestJson<{ data: SearchSuggestion[] }>(`/search/suggest?q=${encodeURIComponent(prefix)}`)
+        .then((result) => {
+          suggestionCacheRef.current.set(prefix, result.data);
+          if (!cancelled) {
+            setSearchSuggestions(result.data);
+          }
+        })
+        .catch(() => {
+          if (!cancelled) {
+            setSearchSuggestions([]);
+          }
+        });
+    }, 200);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [query]);
+
+  useEffect(() => {
+    if (!user) {
+      setLoans([]);
       setBorrowRequests([]);
+      setHolds([]);
+      setFines([]);
+      setFinesMeta(null);
       setFavoriteBooks([]);
       setMemberUnreadRequestCount(0);
       setAdminPendingRequestCount(0);
       setUsers([]);
+      setAnalytics(null);
+      setNotifications([]);
+      setNotificationUnreadCount(0);
+      setNotificationsNextCursor(null);
+      setShowNotifications(false);
       setBorrowersOverview([]);
       setOverdueLoans([]);
       setOverdueUsersCount(0);
@@ -1189,18 +2624,56 @@ const App = () => {
       setShowDueSoonDetails(false);
       return;
     }
-    void Promise.all([loadLoans(), loadBorrowRequests(), loadUsers(), loadAdminOverview(), loadFavoriteBooks()]);
-  }, [loadAdminOverview, loadBorrowRequests, loadFavoriteBooks, loadLoans, loadUsers, user]);
+    void Promise.all([
+      loadLoans(),
+      loadBorrowRequests(),
+      loadHolds(),
+      loadFines(),
+      loadUsers(),
+      loadAdminOverview(),
+      loadCirculationPolicies(),
+      loadAuditLogs(emptyAuditFilters),
+      loadAnalytics(defaultAnalyticsRange()),
+      loadScheduledJobs(),
+      loadFavoriteBooks(),
+      loadSavedSearches(),
+      loadShelves(),
+      loadChallenges(),
+      loadNotifications()
+    ]);
+  }, [
+    loadAdminOverview,
+    loadAnalytics,
+    loadAuditLogs,
+    loadBorrowRequests,
+    loadChallenges,
+    loadCirculationPolicies,
+    loadFavoriteBooks,
+    loadFines,
+    loadHolds,
+    loadLoans,
+    loadNotifications,
+    loadSavedSearches,
+    loadScheduledJobs,
+    loadShelves,
+    loadUsers,
+    user
+  ]);
 
   useEffect(() => {
     if (!user) {
       return;
     }
     const timer = window.setInterval(() => {
-      void loadBorrowRequests();
+      void loadSavedSearches();
+      // Requests and notifications arrive over the live stream; poll them only while it is down. Refreshing
+      // notifications replaces the list, so that is also skipped while the drawer may be showing older pages.
+      if (liveStatus !== "open") {
+        void Promise.all([loadBorrowRequests(), ...(showNotifications ? [] : [loadNotifications()])]);
+      }
     }, 25_000);
     return () => window.clearInterval(timer);
-  }, [loadBorrowRequests, user]);
+  }, [liveStatus, loadBorrowRequests, loadNotifications, loadSavedSearches, showNotifications, user]);
 
   useEffect(() => {
     if (booting || !shouldLoadRecommendations) {
@@ -1216,6 +2689,60 @@ const App = () => {
     void Promise.all([loadRecommendations(), loadFavoriteBooks()]);
   }, [booting, loadFavoriteBooks, loadRecommendations, user, viewMode]);
 
+  const savePushSubscription = useCallback(
+    (subscription: PushSubscriptionPayload) =>
+      authRequest<{ data: { id: string } }>("/push/subscriptions", { method: "POST", body: subscription }),
+    [authRequest]
+  );
+
+  const loadPushStatus = useCallback(async () => {
+    if (!isPushSupported()) {
+      setPushStatus("unsupported");
+      return;
+    }
+    try {
+      setPushStatus("checking");
+      const config = await requestJson<{ data: { enabled: boolean; publicKey: string | null } }>("/push/public-key");
+      setPushPublicKey(config.data.publicKey);
+      if (!config.data.enabled || !config.data.publicKey) {
+        setPushStatus("unavailable");
+        return;
+      }
+      if (!(await hasPushRegistration())) {
+        setPushStatus("unsupported");
+        return;
+      }
+      if (Notification.permission === "denied") {
+        setPushStatus("blocked");
+        return;
+      }
+      const subscription = await getPushSubscription();
+      if (!subscription) {
+        setPushStatus("off");
+        return;
+      }
+      // Re-save so the server copy follows whoever is signed in on this device now.
+      const json = subscription.toJSON();
+      if (json.endpoint && json.keys?.p256dh && json.keys.auth) {
+        await savePushSubscription({ endpoint: json.endpoint, keys: { p256dh: json.keys.p256dh, auth: json.keys.auth } });
+      }
+      setPushStatus("on");
+    } catch (error) {
+      setPushStatus("off");
+      setMessage(parseApiError(error));
+    }
+  }, [savePushSubscription]);
+
+  useEffect(() => {
+    if (booting || !user || viewMode !== "settings") {
+      return;
+    }
+    void authRequest<{ data: NotificationPreferences }>("/users/me/notification-preferences")
+      .then((result) => setNotificationPreferences(result.data))
+      .catch((error) => setMessage(parseApiError(error)));
+    void loadPushStatus();
+  }, [authRequest, booting, loadPushStatus, user, viewMode]);
+
   useEffect(() => {
     if (booting || shouldLoadRecommendations || viewMode !== "catalog") {
       return;
@@ -1328,6 +2855,15 @@ const App = () => {
 
   const logout = useCallback(async () => {
     try {
+      // A shared device should stop receiving the previous member's alerts.
+      const pushEndpoint = await unsubscribeFromPush().catch(() => null);
+      if (pushEndpoint) {
+        await requestJson("/push/subscriptions", {
+          method: "DELETE",
+          body: { endpoint: pushEndpoint },
+          accessToken: tokenRef.current
+        }).catch(() => undefined);
+      }
       await requestJson<{ success: boolean }>("/auth/logout", { method: "POST" });
     } catch {
       // no-op for failed logout request
@@ -1343,6 +2879,7 @@ const App = () => {
       setAdminPendingRequestCount(0);
       setActiveBookId(null);
       setBookDetails(null);
+      void clearOfflineData();
       if (window.location.pathname !== "/") {
         window.history.pushState({}, "", "/");
       }
@@ -1350,7 +2887,23 @@ const App = () => {
     }
   }, []);
 
+  // Remembers the last member signed in on this device. When a different member signs in without an explicit sign-out
+  // (for example after the previous session expired), the previous member's offline data is dropped.
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+    void (async () => {
+      const previous = await readOfflineSnapshot<User>("user");
+      if (previous && previous.data.id !== user.id) {
+        await clearOfflineData();
+      }
+      await saveOfflineSnapshot("user", user);
+    })();
+  }, [user]);
+
   const activeLoans = useMemo(() => loans.filter((loan) => !loan.returnedAt), [loans]);
+  const returnedLoans = useMemo(() => loans.filter((loan) => loan.returnedAt).slice(0, 20), [loans]);
   const myActiveLoans = useMemo(() => {
     if (!user) {
       return [];
@@ -1395,6 +2948,7 @@ const App = () => {
     if (window.location.pathname !== `/books/${bookId}`) {
       window.history.pushState({}, "", `/books/${bookId}`);
     }
+    setSharedShelfToken(null);
     setActiveBookId(bookId);
     setPreviewBook(null);
     window.scrollTo({ top: 0, behavior: "smooth" });
@@ -1407,33 +2961,46 @@ const App = () => {
     setActiveBookId(null);
     setBookDetails(null);
     setShareFeedback("");
+    setSharedShelfToken(null);
   }, []);
 
   const loadBookDetails = useCallback(
     async (bookId: string) => {
       setBookDetailsLoading(true);
-      try {
-        const result = await authRequest<BookDetailsResponse>(`/books/${bookId}/details`);
-        setBookDetails(result.data);
+      const snapshotKey = `book-details:${user?.id ?? "guest"}:${bookId}`;
+      const applyBookDetails = (details: BookDetailsResponse["data"]) => {
+        setBookDetails(details);
         setReviewDraft({
-          rating: result.data.myReview?.rating ? String(result.data.myReview.rating) : "5",
-          content: result.data.myReview?.content ?? ""
+          rating: details.myReview?.rating ? String(details.myReview.rating) : "5",
+          content: details.myReview?.content ?? ""
         });
-        setNoteDraft(result.data.myNote?.content ?? "");
+        setNoteDraft(details.myNote?.content ?? "");
+      };
+      try {
+        if (!navigator.onLine && (await restoreOfflineSnapshot(snapshotKey, applyBookDetails))) {
+          return;
+        }
+        const result = await authRequest<BookDetailsResponse>(`/books/${bookId}/details`);
+        applyBookDetails(result.data);
+        void saveOfflineSnapshot(snapshotKey, result.data);
       } catch (error) {
+        if (isNetworkError(error) && (await restoreOfflineSnapshot(snapshotKey, applyBookDetails))) {
+          return;
+        }
         setBookDetails(null);
         setMessage(parseApiError(error));
       } finally {
         setBookDetailsLoading(false);
       }
     },
-    [authRequest]
+    [authRequest, restoreOfflineSnapshot, user?.id]
   );
 
   useEffect(() => {
     const onPopState = () => {
       const pathBookId = getBookIdFromPath();
       setActiveBookId(pathBookId);
+      setSharedShelfToken(getSharedShelfTokenFromPath());
       if (!pathBookId) {
         setBookDetails(null);
         setShareFeedback("");
@@ -1452,6 +3019,147 @@ const App = () => {
     void loadBookDetails(activeBookId);
   }, [activeBookId, loadBookDetails]);
 
+  useEffect(() => {
+    if (viewMode !== "dashboard" || !user) {
+      return;
+    }
+    void loadLeaderboard();
+  }, [loadLeaderboard, user, viewMode]);
+
+  useEffect(() => {
+    if (viewMode !== "dashboard" || !user) {
+      return;
+    }
+    void loadReadingStats();
+  }, [loadReadingStats, user, viewMode]);
+
+  useEffect(() => {
+    if (!activeBookId) {
+      setBookShelves([]);
+      return;
+    }
+    void loadBookShelves(activeBookId);
+  }, [activeBookId, loadBookShelves]);
+
+  useEffect(() => {
+    if (!sharedShelfToken) {
+      setSharedShelf(null);
+      return;
+    }
+    let cancelled = false;
+    setSharedShelfLoading(true);
+    requestJson<{ data: SharedShelf }>(`/shelves/shared/${encodeURIComponent(sharedShelfToken)}`, {
+      accessToken: tokenRef.current
+    })
+      .then((result) => {
+        if (!cancelled) {
+          setSharedShelf(result.data);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setSharedShelf(null);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setSharedShelfLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sharedShelfToken, user]);
+
+  const loadBookCopies = useCallback(
+    async (bookId: string) => {
+      setBookCopiesLoading(true);
+      try {
+        const result = await authRequest<BookCopiesResponse>(`/books/${bookId}/copies`);
+        setBookCopies(result.data);
+      } catch (error) {
+        setBookCopies([]);
+        setMessage(parseApiError(error));
+      } finally {
+        setBookCopiesLoading(false);
+      }
+    },
+    [authRequest]
+  );
+
+  useEffect(() => {
+    if (!activeBookId || user?.role !== "ADMIN") {
+      setBookCopies([]);
+      return;
+    }
+    void loadBookCopies(activeBookId);
+  }, [activeBookId, loadBookCopies, user?.role]);
+
+  const addBookCopy = useCallback(async () => {
+    if (!activeBookId) {
+      return;
+    }
+    try {
+      setSavingCopy(true);
+      await authRequest(`/books/${activeBookId}/copies`, {
+        method: "POST",
+        body: {
+          barcode: toNullableText(copyForm.barcode),
+          shelfLocation: toNullableText(copyForm.shelfLocation),
+          condition: copyForm.condition
+        }
+      });
+      setCopyForm(emptyCopyForm);
+      setMessage("Copy added.");
+      await Promise.all([loadBookCopies(activeBookId), loadBookDetails(activeBookId)]);
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setSavingCopy(false);
+    }
+  }, [activeBookId, authRequest, copyForm, loadBookCopies, loadBookDetails]);
+
+  const updateBookCopyStatus = useCallback(
+    async (copy: AdminBookCopy, status: "AVAILABLE" | "MAINTENANCE" | "LOST") => {
+      if (!activeBookId) {
+        return;
+      }
+      try {
+        setCopyActionId(copy.id);
+        await authRequest(`/books/${activeBookId}/copies/${copy.id}`, {
+          method: "PATCH",
+          body: { status }
+        });
+        setMessage(`Copy ${copy.barcode} marked as ${copyStatusLabels[status].toLowerCase()}.`);
+        await Promise.all([loadBookCopies(activeBookId), loadBookDetails(activeBookId)]);
+      } catch (error) {
+        setMessage(parseApiError(error));
+      } finally {
+        setCopyActionId(null);
+      }
+    },
+    [activeBookId, authRequest, loadBookCopies, loadBookDetails]
+  );
+
+  const deleteBookCopy = useCallback(
+    async (copy: AdminBookCopy) => {
+      if (!activeBookId || !window.confirm(`Remove copy ${copy.barcode}? This cannot be undone.`)) {
+        return;
+      }
+      try {
+        setCopyActionId(copy.id);
+        await authRequest(`/books/${activeBookId}/copies/${copy.id}`, { method: "DELETE" });
+        setMessage("Copy removed.");
+        await Promise.all([loadBookCopies(activeBookId), loadBookDetails(activeBookId)]);
+      } catch (error) {
+        setMessage(parseApiError(error));
+      } finally {
+        setCopyActionId(null);
+      }
+    },
+    [activeBookId, authRequest, loadBookCopies, loadBookDetails]
+  );
+
   const shareCurrentBook = useCallback(async () => {
     if (!bookDetails) {
       return;
@@ -1474,6 +3182,63 @@ const App = () => {
     }
   }, [bookDetails]);
 
+  const loadOutboxEntries = useCallback(async () => {
+    setOutboxEntries(user ? await listOutboxEntries(user.id) : []);
+  }, [user]);
+
+  // Fallback for browsers without Background Sync: the page replays the queue itself, stopping at the first
+  // network or server error so the rest keeps its order for the next attempt.
+  const flushOutbox = useCallback(async () => {
+    if (!user) {
+      return;
+    }
+    await dropForeignOutboxEntries(user.id);
+    const entries = (await listOutboxEntries(user.id)).filter((entry) => entry.status === "pending");
+    for (const entry of entries) {
+      try {
+        await authRequest(entry.path, { method: entry.method, body: entry.body });
+        if (entry.id !== undefined) {
+          await deleteOutboxEntry(entry.id);
+        }
+      } catch (error) {
+        if (!(error instanceof ApiError) || error.statusCode >= 500) {
+          break;
+        }
+        await updateOutboxEntry({ ...entry, status: "failed", error: error.message, conflict: error.statusCode === 409 });
+      }
+    }
+    await loadOutboxEntries();
+  }, [authRequest, loadOutboxEntries, user]);
+
+  const syncOutbox = useCallback(async () => {
+    if (!user || (await listOutboxEntries(user.id)).every((entry) => entry.status !== "pending")) {
+      return;
+    }
+    if (await requestOutboxSync()) {
+      return;
+    }
+    if (navigator.onLine) {
+      await flushOutbox();
+    }
+  }, [flushOutbox, user]);
+
+  const queueOfflineChange = useCallback(
+    async (entry: Omit<Parameters<typeof enqueueOutboxEntry>[0], "userId">) => {
+      if (!user) {
+        return;
+      }
+      try {
+        await enqueueOutboxEntry({ ...entry, userId: user.id });
+        await loadOutboxEntries();
+        setMessage("You're offline. The change is saved on this device and will sync when you reconnect.");
+        void syncOutbox();
+      } catch (error) {
+        setMessage(parseApiError(error));
+      }
+    },
+    [loadOutboxEntries, syncOutbox, user]
+  );
+
   const saveBookReview = useCallback(async () => {
     if (!activeBookId) {
       return;
@@ -1493,21 +3258,62 @@ const App = () => {
         return;
       }
       setSavingReview(true);
-      await authRequest(`/books/${activeBookId}/review`, {
-        method: "PUT",
-        body: {
-          rating,
-          content: reviewDraft.content.trim()
+      const queueReview = () =>
+        queueOfflineChange({
+          key: `review:${activeBookId}`,
+          bookId: activeBookId,
+          kind: "review",
+          label: `Review of "${bookDetails?.book.title ?? "this book"}"`,
+          method: "PUT",
+          path: `/books/${activeBookId}/review`,
+          body: {
+            rating,
+            content: reviewDraft.content.trim(),
+            expectedUpdatedAt: bookDetails?.myReview?.updatedAt ?? null
+          }
+        });
+      if (!navigator.onLine) {
+        await queueReview();
+        return;
+      }
+      try {
+        const result = await authRequest<{ data: unknown; meta?: { earnedBadges?: UserBadge[] } }>(
+          `/books/${activeBookId}/review`,
+          {
+            method: "PUT",
+            body: {
+              rating,
+              content: reviewDraft.content.trim()
+            }
+          }
+        );
+        setMessage(`Review saved.${describeEarnedBadges(result.meta?.earnedBadges)}`);
+      } catch (error) {
+        if (!isNetworkError(error)) {
+          throw error;
         }
-      });
-      setMessage("Review saved.");
+        await queueReview();
+        return;
+      }
+      void loadChallenges();
       await loadBookDetails(activeBookId);
     } catch (error) {
       setMessage(parseApiError(error));
     } finally {
       setSavingReview(false);
     }
-  }, [activeBookId, authRequest, loadBookDetails, reviewDraft.content, reviewDraft.rating, user]);
+  }, [
+    activeBookId,
+    authRequest,
+    bookDetails?.book.title,
+    bookDetails?.myReview?.updatedAt,
+    loadBookDetails,
+    loadChallenges,
+    queueOfflineChange,
+    reviewDraft.content,
+    reviewDraft.rating,
+    user
+  ]);
 
   const saveBookNote = useCallback(async () => {
     if (!activeBookId) {
@@ -1523,12 +3329,37 @@ const App = () => {
         return;
       }
       setSavingNote(true);
-      await authRequest(`/books/${activeBookId}/note`, {
-        method: "PUT",
-        body: {
-          content: noteDraft.trim()
+      const queueNote = () =>
+        queueOfflineChange({
+          key: `note:${activeBookId}`,
+          bookId: activeBookId,
+          kind: "note",
+          label: `Note on "${bookDetails?.book.title ?? "this book"}"`,
+          method: "PUT",
+          path: `/books/${activeBookId}/note`,
+          body: {
+            content: noteDraft.trim(),
+            expectedUpdatedAt: bookDetails?.myNote?.updatedAt ?? null
+          }
+        });
+      if (!navigator.onLine) {
+        await queueNote();
+        return;
+      }
+      try {
+        await authRequest(`/books/${activeBookId}/note`, {
+          method: "PUT",
+          body: {
+            content: noteDraft.trim()
+          }
+        });
+      } catch (error) {
+        if (!isNetworkError(error)) {
+          throw error;
         }
-      });
+        await queueNote();
+        return;
+      }
       setMessage("Note saved.");
       await loadBookDetails(activeBookId);
     } catch (error) {
@@ -1536,7 +3367,16 @@ const App = () => {
     } finally {
       setSavingNote(false);
     }
-  }, [activeBookId, authRequest, loadBookDetails, noteDraft, user]);
+  }, [
+    activeBookId,
+    authRequest,
+    bookDetails?.book.title,
+    bookDetails?.myNote?.updatedAt,
+    loadBookDetails,
+    noteDraft,
+    queueOfflineChange,
+    user
+  ]);
 
   const openUserDashboard = useCallback(() => {
     if (!user) {
@@ -1569,57 +3409,314 @@ const App = () => {
     window.scrollTo({ top: 0, behavior: "smooth" });
   }, [closeBookDetails, user, viewMode]);
 
-  const goHome = useCallback(() => {
-    closeBookDetails();
-    setViewMode("catalog");
-    window.scrollTo({ top: 0, behavior: "smooth" });
-  }, [closeBookDetails]);
+  const setNotificationRead = async (notification: AppNotification, read: boolean) => {
+    try {
+      const result = await authRequest<{ data: AppNotification }>(`/notifications/${notification.id}/read`, {
+        method: "POST",
+        body: { read }
+      });
+      setNotifications((current) => current.map((item) => (item.id === notification.id ? result.data : item)));
+      if (Boolean(notification.readAt) !== read) {
+        setNotificationUnreadCount((count) => Math.max(0, count + (read ? -1 : 1)));
+      }
+    } catch (error) {
+      setMessage(parseApiError(error));
+    }
+  };
 
-  const dismissInstallPrompt = useCallback(() => {
-    localStorage.setItem(installPromptDismissStorageKey, "1");
-    setShowInstallPrompt(false);
-    setDeferredInstallPrompt(null);
-  }, []);
+  const markAllNotificationsRead = async () => {
+    try {
+      await authRequest("/notifications/read-all", { method: "POST" });
+      const readAt = new Date().toISOString();
+      setNotifications((current) => current.map((item) => (item.readAt ? item : { ...item, readAt })));
+      setNotificationUnreadCount(0);
+    } catch (error) {
+      setMessage(parseApiError(error));
+    }
+  };
 
-  const installAsApp = useCallback(async () => {
-    if (!deferredInstallPrompt) {
+  // Links are client paths written by the server: /books/:bookId, /saved-searches/:savedSearchId or /dashboard.
+  const openNotificationLink = (link: string | null) => {
+    const bookMatch = link?.match(/^\/books\/([^/]+)$/);
+    const savedSearchMatch = link?.match(/^\/saved-searches\/([^/]+)$/);
+    if (bookMatch?.[1]) {
+      openBookDetails(decodeURIComponent(bookMatch[1]));
+    } else if (savedSearchMatch?.[1]) {
+      const savedSearchId = decodeURIComponent(savedSearchMatch[1]);
+      const search = savedSearches.find((item) => item.id === savedSearchId);
+      goHome();
+      if (search) {
+        void applySavedSearch(search);
+      }
+    } else if (link === "/dashboard") {
+      openUserDashboard();
+    }
+  };
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.readAt) {
+      void setNotificationRead(notification, true);
+    }
+    setShowNotifications(false);
+    openNotificationLink(notification.link);
+  };
+
+  const handleLiveEvent = (event: StreamEvent) => {
+    if (event.type === "notification.created") {
+      const notification = JSON.parse(event.data) as AppNotification;
+      setNotifications((current) =>
+        current.some((item) => item.id === notification.id) ? current : [notification, ...current]
+      );
+      setNotificationUnreadCount((count) => count + 1);
       return;
     }
-    try {
-      setInstallPromptBusy(true);
-      await deferredInstallPrompt.prompt();
-      const choice = await deferredInstallPrompt.userChoice;
-      if (choice.outcome === "accepted") {
-        localStorage.setItem(installPromptDismissStorageKey, "1");
-        setShowInstallPrompt(false);
-      }
-      setDeferredInstallPrompt(null);
-    } catch {
-      setMessage("Install prompt is unavailable right now.");
-    } finally {
-      setInstallPromptBusy(false);
+
+    if (event.type === "book.availability") {
+      const availability = JSON.parse(event.data) as BookAvailabilityEvent;
+      const { bookId, ...counts } = availability;
+      const applyAvailability = (book: Book): Book => (book.id === bookId ? { ...book, ...counts } : book);
+      setBooks((current) => current.map(applyAvailability));
+      setRecommendations((current) => current.map(applyAvailability));
+      setFavoriteBooks((current) => current.map(applyAvailability));
+      setBookDetails((current) =>
+        current
+          ? {
+              ...current,
+              book: applyAvailability(current.book),
+              relatedBooks: current.relatedBooks.map(applyAvailability)
+            }
+          : current
+      );
+      return;
     }
-  }, [deferredInstallPrompt]);
 
-  const scrollToRecommendations = useCallback(() => {
-    setShouldLoadRecommendations(true);
-    const target = document.getElementById("recommendations-section");
-    if (!target) {
+    if (event.type === "borrow-request.created") {
+      // The event carries ids only; the list needs the member and book details.
+      void loadBorrowRequests();
       return;
     }
-    target.scrollIntoView({ behavior: "smooth", block: "start" });
-  }, []);
 
-  const ensureSignedIn = useCallback(
-    (action: string) => {
-      if (user) {
-        return true;
+    if (event.type.startsWith("borrow-request.")) {
+      const update = JSON.parse(event.data) as BorrowRequestEvent;
+      if (user?.role === "ADMIN") {
+        // Admins list pending requests only, so a decided request leaves the queue.
+        if (borrowRequests.some((request) => request.id === update.requestId && request.status === "PENDING")) {
+          setAdminPendingRequestCount((count) => Math.max(0, count - 1));
+        }
+        setBorrowRequests((current) => current.filter((request) => request.id !== update.requestId));
+        return;
       }
-      setMessage(`Sign in with Google to ${action}.`);
-      return false;
-    },
-    [user]
-  );
+      setBorrowRequests((current) =>
+        current.map((request) =>
+          request.id === update.requestId
+            ? {
+                ...request,
+                status: update.status,
+                reviewedAt: update.reviewedAt ?? request.reviewedAt,
+                declineReason: update.declineReason ?? request.declineReason,
+                declineNote: update.declineNote ?? request.declineNote,
+                memberSeenAt: null
+              }
+            : request
+        )
+      );
+      setMemberUnreadRequestCount((count) => count + 1);
+      if (update.status === "APPROVED") {
+        void loadLoans();
+      }
+    }
+  };
+
+  // The stream outlives renders, so it calls whichever handler is current.
+  const liveEventHandlerRef = useRef(handleLiveEvent);
+  liveEventHandlerRef.current = handleLiveEvent;
+
+  useEffect(() => {
+    if (!user?.id) {
+      return;
+    }
+    return openEventStream({
+      path: "/events",
+      getAccessToken: () => tokenRef.current,
+      refreshAccessToken,
+      onEvent: (event) => liveEventHandlerRef.current(event),
+      onStatusChange: setLiveStatus
+    });
+  }, [refreshAccessToken, user?.id]);
+
+  const replyWithAccessToken = async (refresh: boolean, replyPort: MessagePort) => {
+    let token: string | null = null;
+    if (user) {
+      token = refresh || !tokenRef.current ? await refreshAccessToken().catch(() => null) : tokenRef.current;
+    }
+    replyPort.postMessage({ accessToken: token });
+  };
+
+  const handleServiceWorkerMessage = (data: { type?: string; url?: string; refresh?: boolean }, replyPort?: MessagePort) => {
+    // The service worker replays queued changes with this page's token rather than rotating the refresh cookie itself.
+    if (data.type === "access-token-request" && replyPort) {
+      void replyWithAccessToken(data.refresh === true, replyPort);
+      return;
+    }
+    // Clicking a push notification while the app is open routes inside the page instead of opening a new window.
+    if (data.type === "notification-click") {
+      openNotificationLink(data.url ?? null);
+      return;
+    }
+    if (data.type === "outbox-updated") {
+      void loadOutboxEntries();
+      if (user) {
+        void loadFavoriteBooks();
+      }
+      if (activeBookId) {
+        void loadBookDetails(activeBookId);
+      }
+      return;
+    }
+    // A cached API read was revalidated and changed. Catalog availability is already kept current by the live stream.
+    if (data.type === "api-cache-updated" && data.url && user) {
+      const pathname = new URL(data.url).pathname;
+      if (pathname.endsWith("/loans")) {
+        void loadLoans();
+        return;
+      }
+      const detailsMatch = pathname.match(/\/books\/([^/]+)\/details$/);
+      if (detailsMatch?.[1] && decodeURIComponent(detailsMatch[1]) === activeBookId) {
+        void loadBookDetails(activeBookId);
+      }
+    }
+  };
+
+  const serviceWorkerMessageHandlerRef = useRef(handleServiceWorkerMessage);
+  serviceWorkerMessageHandlerRef.current = handleServiceWorkerMessage;
+
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) {
+      return;
+    }
+    const onMessage = (event: MessageEvent<{ type?: string; url?: string; refresh?: boolean } | null>) => {
+      if (event.data) {
+        serviceWorkerMessageHandlerRef.current(event.data, event.ports[0]);
+      }
+    };
+    navigator.serviceWorker.addEventListener("message", onMessage);
+    return () => navigator.serviceWorker.removeEventListener("message", onMessage);
+  }, []);
+
+  const reloadAfterReconnect = () => {
+    setOfflineDataSavedAt(null);
+    void loadBooks();
+    if (user) {
+      void loadLoans();
+      void syncOutbox();
+    }
+    if (activeBookId) {
+      void loadBookDetails(activeBookId);
+    }
+  };
+
+  // Changes queued in an earlier session are shown and sent as soon as the member is known.
+  useEffect(() => {
+    if (!user?.id) {
+      setOutboxEntries([]);
+      return;
+    }
+    void loadOutboxEntries().then(() => syncOutbox());
+  }, [loadOutboxEntries, syncOutbox, user?.id]);
+
+  const retryOutboxEntry = async (entry: OutboxEntry, options: { overwrite?: boolean } = {}) => {
+    const body = { ...entry.body };
+    // Keeping my version after a conflict drops the version check, so the replay overwrites the server copy.
+    if (options.overwrite) {
+      delete body.expectedUpdatedAt;
+    }
+    await updateOutboxEntry({ ...entry, body, status: "pending", error: null, conflict: false });
+    await loadOutboxEntries();
+    await syncOutbox();
+  };
+
+  const discardOutboxEntry = async (entry: OutboxEntry) => {
+    if (entry.id !== undefined) {
+      await deleteOutboxEntry(entry.id);
+    }
+    await loadOutboxEntries();
+    setMessage("Offline change discarded.");
+    if (entry.kind === "favorite") {
+      void Promise.all([loadBooks(), loadFavoriteBooks()]);
+    }
+    if (activeBookId === entry.bookId) {
+      void loadBookDetails(entry.bookId);
+    }
+  };
+
+  const reconnectHandlerRef = useRef(reloadAfterReconnect);
+  reconnectHandlerRef.current = reloadAfterReconnect;
+
+  useEffect(() => {
+    const onOnline = () => {
+      setIsOnline(true);
+      reconnectHandlerRef.current();
+    };
+    const onOffline = () => setIsOnline(false);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+    };
+  }, []);
+
+  const goHome = useCallback(() => {
+    closeBookDetails();
+    setViewMode("catalog");
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }, [closeBookDetails]);
+
+  const dismissInstallPrompt = useCallback(() => {
+    localStorage.setItem(installPromptDismissStorageKey, "1");
+    setShowInstallPrompt(false);
+    setDeferredInstallPrompt(null);
+  }, []);
+
+  const installAsApp = useCallback(async () => {
+    if (!deferredInstallPrompt) {
+      return;
+    }
+    try {
+      setInstallPromptBusy(true);
+      await deferredInstallPrompt.prompt();
+      const choice = await deferredInstallPrompt.userChoice;
+      if (choice.outcome === "accepted") {
+        localStorage.setItem(installPromptDismissStorageKey, "1");
+        setShowInstallPrompt(false);
+      }
+      setDeferredInstallPrompt(null);
+    } catch {
+      setMessage("Install prompt is unavailable right now.");
+    } finally {
+      setInstallPromptBusy(false);
+    }
+  }, [deferredInstallPrompt]);
+
+  const scrollToRecommendations = useCallback(() => {
+    setShouldLoadRecommendations(true);
+    const target = document.getElementById("recommendations-section");
+    if (!target) {
+      return;
+    }
+    target.scrollIntoView({ behavior: "smooth", block: "start" });
+  }, []);
+
+  const ensureSignedIn = useCallback(
+    (action: string) => {
+      if (user) {
+        return true;
+      }
+      setMessage(`Sign in with Google to ${action}.`);
+      return false;
+    },
+    [user]
+  );
 
   const toggleFavoriteBook = useCallback(
     async (bookId: string) => {
@@ -1630,29 +3727,27 @@ const App = () => {
         return;
       }
 
-      try {
-        setFavoritePendingIds((current) => [...current, bookId]);
-        const result = await authRequest<FavoriteToggleResponse>(`/books/${bookId}/favorite/toggle`, {
-          method: "POST"
-        });
-        const nextFavorite = result.data.isFavorite;
-
-        const applyFavoriteState = (book: Book): Book =>
-          book.id === bookId
-            ? {
-                ...book,
-                isFavorite: nextFavorite
-              }
-            : book;
+      const sourceBook =
+        books.find((book) => book.id === bookId) ??
+        recommendations.find((book) => book.id === bookId) ??
+        favoriteBooks.find((book) => book.id === bookId) ??
+        (bookDetails?.book.id === bookId ? bookDetails.book : undefined);
+      // The desired state is sent rather than a toggle, so a queued change replays safely.
+      const nextFavorite = !(sourceBook?.isFavorite ?? favoriteBooks.some((book) => book.id === bookId));
+
+      const applyFavoriteState = (book: Book): Book =>
+        book.id === bookId
+          ? {
+              ...book,
+              isFavorite: nextFavorite
+            }
+          : book;
 
+      const applyFavoriteLocally = () => {
         setBooks((current) => current.map(applyFavoriteState));
         setRecommendations((current) => current.map(applyFavoriteState));
         setFavoriteBooks((current) => {
           if (nextFavorite) {
-            const sourceBook =
-              books.find((book) => book.id === bookId) ??
-              recommendations.find((book) => book.id === bookId) ??
-              bookDetails?.book;
             if (!sourceBook || current.some((book) => book.id === bookId)) {
               return current;
             }
@@ -1669,10 +3764,44 @@ const App = () => {
               }
             : current
         );
+      };
+
+      const queueFavorite = async () => {
+        applyFavoriteLocally();
+        await queueOfflineChange({
+          key: `favorite:${bookId}`,
+          bookId,
+          kind: "favorite",
+          label: `${nextFavorite ? "Add" : "Remove"} "${sourceBook?.title ?? "book"}" ${nextFavorite ? "to" : "from"} favorites`,
+          method: "PUT",
+          path: `/books/${bookId}/favorite`,
+          body: { favorite: nextFavorite }
+        });
+      };
+
+      try {
+        setFavoritePendingIds((current) => [...current, bookId]);
+        if (!navigator.onLine) {
+          await queueFavorite();
+          return;
+        }
+        try {
+          await authRequest<FavoriteToggleResponse>(`/books/${bookId}/favorite`, {
+            method: "PUT",
+            body: { favorite: nextFavorite }
+          });
+        } catch (error) {
+          if (!isNetworkError(error)) {
+            throw error;
+          }
+          await queueFavorite();
+          return;
+        }
+        applyFavoriteLocally();
 
         setMessage(nextFavorite ? "Added to favorites." : "Removed from favorites.");
         if (user) {
-          void Promise.all([loadRecommendations(), loadFavoriteBooks()]);
+          void Promise.all([loadRecommendations(), loadFavoriteBooks(), loadShelves()]);
         }
       } catch (error) {
         setMessage(parseApiError(error));
@@ -1680,7 +3809,20 @@ const App = () => {
         setFavoritePendingIds((current) => current.filter((id) => id !== bookId));
       }
     },
-    [authRequest, bookDetails?.book, books, ensureSignedIn, favoritePendingIds, loadFavoriteBooks, loadRecommendations, recommendations, user]
+    [
+      authRequest,
+      bookDetails?.book,
+      books,
+      ensureSignedIn,
+      favoriteBooks,
+      favoritePendingIds,
+      loadFavoriteBooks,
+      loadRecommendations,
+      loadShelves,
+      queueOfflineChange,
+      recommendations,
+      user
+    ]
   );
 
   useEffect(() => {
@@ -1717,7 +3859,10 @@ const App = () => {
         await authRequest(`/books/${editingBookId}`, { method: "PATCH", body: payload });
         setMessage("Book updated.");
       } else {
-        await authRequest("/books", { method: "POST", body: payload });
+        await authRequest("/books", {
+          method: "POST",
+          body: { ...payload, copyCount: bookForm.copyCount ? Number(bookForm.copyCount) : 1 }
+        });
         setMessage("Book created.");
       }
       resetBookForm();
@@ -1738,7 +3883,8 @@ const App = () => {
       genre: book.genre ?? "",
       publishedYear: book.publishedYear?.toString() ?? "",
       description: book.description ?? "",
-      coverUrl: book.coverUrl ?? ""
+      coverUrl: book.coverUrl ?? "",
+      copyCount: String(book.totalCopies)
     });
     setShowBookEditor(true);
   };
@@ -1773,22 +3919,28 @@ const App = () => {
         });
 
         // Optimistic local update for instant feedback.
-        setBooks((current) =>
-          current.map((book) => (book.id === bookId ? { ...book, available: false, requestPending: false } : book))
-        );
+        const markBorrowed = (book: Book): Book => {
+          if (book.id !== bookId) {
+            return book;
+          }
+          const availableCopies = Math.max(0, book.availableCopies - 1);
+          return { ...book, availableCopies, available: availableCopies > 0, requestPending: false };
+        };
+        const borrowedBook = books.find((book) => book.id === bookId);
+        const lastCopyBorrowed = !borrowedBook || borrowedBook.availableCopies <= 1;
+        setBooks((current) => current.map(markBorrowed));
         setLibraryStats((current) =>
           current
             ? {
                 ...current,
-                availableBooks: Math.max(0, current.availableBooks - 1),
-                checkedOutBooks: current.checkedOutBooks + 1,
-                activeLoans: current.activeLoans + 1
+                availableBooks: lastCopyBorrowed ? Math.max(0, current.availableBooks - 1) : current.availableBooks,
+                checkedOutBooks: lastCopyBorrowed ? current.checkedOutBooks + 1 : current.checkedOutBooks,
+                activeLoans: current.activeLoans + 1,
+                availableCopies: Math.max(0, current.availableCopies - 1)
               }
             : current
         );
-        setRecommendations((current) =>
-          current.map((book) => (book.id === bookId ? { ...book, available: false, requestPending: false } : book))
-        );
+        setRecommendations((current) => current.map(markBorrowed));
         setMessage("Book checked out (borrowed).");
       } else {
         setMessage("Submitting borrow request...");
@@ -1828,7 +3980,18 @@ const App = () => {
   const declineBorrowRequest = async (requestId: string) => {
     try {
       setBorrowRequestActionId(requestId);
-      await authRequest(`/borrow-requests/${requestId}/decline`, { method: "POST" });
+      const draft = declineDrafts[requestId];
+      await authRequest(`/borrow-requests/${requestId}/decline`, {
+        method: "POST",
+        body: {
+          ...(draft?.reason ? { reason: draft.reason } : {}),
+          ...(draft?.note.trim() ? { note: draft.note.trim() } : {})
+        }
+      });
+      setDeclineDrafts((current) => {
+        const { [requestId]: _removed, ...rest } = current;
+        return rest;
+      });
       setMessage("Borrow request declined.");
       await Promise.all([loadBorrowRequests(), refreshAfterLoanMutation({ includeRecommendations: false })]);
     } catch (error) {
@@ -1838,12 +4001,60 @@ const App = () => {
     }
   };
 
-  const checkinBook = async (bookId: string) => {
+  const placeHold = async (bookId: string) => {
+    if (!ensureSignedIn("place holds")) {
+      return;
+    }
     try {
-      const response = await authRequest<{ data: Loan; meta?: { awardedPoints?: number } }>("/loans/checkin", {
+      setHoldActionId(bookId);
+      const response = await authRequest<{ data: BookHold }>("/holds", {
         method: "POST",
         body: { bookId }
       });
+      setMessage(
+        response.data.status === "READY"
+          ? "A copy is reserved for you. Request it before the pickup deadline."
+          : `Hold placed. You are #${response.data.queuePosition ?? 1} in the queue.`
+      );
+      await loadHolds();
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setHoldActionId(null);
+    }
+  };
+
+  const cancelHold = async (holdId: string) => {
+    try {
+      setHoldActionId(holdId);
+      await authRequest(`/holds/${holdId}/cancel`, { method: "POST" });
+      setMessage("Hold cancelled.");
+      await Promise.all([loadHolds(), loadBooks(), loadLibraryStats()]);
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setHoldActionId(null);
+    }
+  };
+
+  const checkinBook = async (loanId: string) => {
+    try {
+      const response = await authRequest<{
+        data: Loan;
+        meta?: {
+          awardedPoints?: number;
+          earnedBadges?: UserBadge[];
+          pointsWithheld?: { rule: "MIN_LOAN_DURATION" | "DAILY_CAP"; points: number } | null;
+          heldForNextMember?: boolean;
+          fine?: { amountCents: number; daysOverdue: number } | null;
+        };
+      }>(
+        "/loans/checkin",
+        {
+          method: "POST",
+          body: { loanId }
+        }
+      );
       if (user && response.data.userId === user.id) {
         setUser((current) =>
           current
@@ -1853,12 +4064,27 @@ const App = () => {
               }
             : current
         );
+        void loadChallenges();
       }
       const pointsLabel =
         response.meta?.awardedPoints && response.meta.awardedPoints > 0
           ? ` +${response.meta.awardedPoints} XP`
           : "";
-      setMessage(`Book checked in (returned).${pointsLabel}`);
+      const withheldLabel =
+        response.meta?.pointsWithheld?.rule === "MIN_LOAN_DURATION"
+          ? " No XP for loans returned this quickly."
+          : response.meta?.pointsWithheld?.rule === "DAILY_CAP"
+          ? ` Daily XP limit reached (${response.meta.pointsWithheld.points} XP not awarded).`
+          : "";
+      const holdLabel = response.meta?.heldForNextMember ? " Reserved for the next member in the hold queue." : "";
+      const fineLabel = response.meta?.fine
+        ? ` Returned ${response.meta.fine.daysOverdue} day(s) late: fine of ${formatMoney(
+            response.meta.fine.amountCents,
+            finesMeta?.currency ?? "USD"
+          )}.`
+        : "";
+      const badgeLabel = user && response.data.userId === user.id ? describeEarnedBadges(response.meta?.earnedBadges) : "";
+      setMessage(`Book checked in (returned).${pointsLabel}${withheldLabel}${badgeLabel}${holdLabel}${fineLabel}`);
       // Background sync (does not block UI response).
       void refreshAfterLoanMutation({ includeRecommendations: false });
     } catch (error) {
@@ -1866,6 +4092,54 @@ const App = () => {
     }
   };
 
+  const openPointHistory = async (member: User) => {
+    if (pointsUser?.id === member.id) {
+      setPointsUser(null);
+      return;
+    }
+    try {
+      const result = await authRequest<{ data: PointTransaction[] }>(`/users/${member.id}/points?limit=25`);
+      setPointsUser(member);
+      setPointHistory(result.data);
+      setPointAdjustment({ points: "", reason: "" });
+    } catch (error) {
+      setMessage(parseApiError(error));
+    }
+  };
+
+  const savePointAdjustment = async () => {
+    if (!pointsUser) {
+      return;
+    }
+    const points = Number(pointAdjustment.points);
+    if (!Number.isInteger(points) || points === 0) {
+      setMessage("Enter a whole, non-zero number of points.");
+      return;
+    }
+    if (pointAdjustment.reason.trim().length < 3) {
+      setMessage("Give a reason for the adjustment.");
+      return;
+    }
+    try {
+      setSavingPointAdjustment(true);
+      await authRequest(`/users/${pointsUser.id}/points/adjustments`, {
+        method: "POST",
+        body: { points, reason: pointAdjustment.reason.trim() }
+      });
+      setMessage(`Adjusted ${pointsUser.name}'s points by ${points > 0 ? "+" : ""}${points}.`);
+      const [history] = await Promise.all([
+        authRequest<{ data: PointTransaction[] }>(`/users/${pointsUser.id}/points?limit=25`),
+        loadUsers()
+      ]);
+      setPointHistory(history.data);
+      setPointAdjustment({ points: "", reason: "" });
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setSavingPointAdjustment(false);
+    }
+  };
+
   const updateUserRole = async (userId: string, role: Role) => {
     try {
       await authRequest(`/users/${userId}/role`, {
@@ -1934,57 +4208,336 @@ const App = () => {
     }
   };
 
-  const importFromExternal = async () => {
+  const resetPolicyForm = () => {
+    setPolicyForm(emptyPolicyForm);
+    setEditingPolicyId(null);
+  };
+
+  const editCirculationPolicy = (policy: CirculationPolicy) => {
+    setEditingPolicyId(policy.id);
+    setPolicyForm({
+      role: policy.role ?? "",
+      genre: policy.genre ?? "",
+      maxActiveLoans: String(policy.maxActiveLoans),
+      minLoanDays: String(policy.minLoanDays),
+      defaultLoanDays: String(policy.defaultLoanDays),
+      maxLoanDays: String(policy.maxLoanDays),
+      maxRenewals: String(policy.maxRenewals),
+      gracePeriodDays: String(policy.gracePeriodDays),
+      fineDailyRate: (policy.fineDailyRateCents / 100).toFixed(2)
+    });
+  };
+
+  const saveCirculationPolicy = async () => {
+    const rules = {
+      maxActiveLoans: Number(policyForm.maxActiveLoans),
+      minLoanDays: Number(policyForm.minLoanDays),
+      defaultLoanDays: Number(policyForm.defaultLoanDays),
+      maxLoanDays: Number(policyForm.maxLoanDays),
+      maxRenewals: Number(policyForm.maxRenewals),
+      gracePeriodDays: Number(policyForm.gracePeriodDays),
+      fineDailyRateCents: Math.round(Number(policyForm.fineDailyRate) * 100)
+    };
     try {
-      setImportingExternal(true);
-      const limitNumber = Number(importLimit);
-      if (!Number.isFinite(limitNumber) || limitNumber < 1 || limitNumber > 300) {
-        setMessage("Import limit must be between 1 and 300.");
-        return;
+      setSavingPolicy(true);
+      if (editingPolicyId) {
+        await authRequest(`/circulation-policies/${editingPolicyId}`, { method: "PATCH", body: rules });
+        setMessage("Circulation policy updated.");
+      } else {
+        await authRequest("/circulation-policies", {
+          method: "POST",
+          body: {
+            ...rules,
+            role: policyForm.role || null,
+            genre: toNullableText(policyForm.genre)
+          }
+        });
+        setMessage("Circulation policy created.");
       }
-      const enrichLimitNumber = Number(enrichLimit);
-      const coreEnrichLimit =
-        Number.isFinite(enrichLimitNumber) && enrichLimitNumber >= 1 && enrichLimitNumber <= 500
-          ? enrichLimitNumber
-          : Math.min(500, Math.max(limitNumber, 100));
-
-      const response = await authRequest<SearchFallbackResponse>("/books/import/external", {
-        method: "POST",
-        body: {
-          query: importQuery,
-          limit: limitNumber,
-          provider: importProvider
-        }
-      });
+      resetPolicyForm();
+      await loadCirculationPolicies();
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setSavingPolicy(false);
+    }
+  };
 
-      const importedCount = response.meta?.importedCount ?? response.data.length;
-      const existingCount = response.meta?.existingCount ?? 0;
-      setMessage(
-        `Import finished from ${importProvider}. Added ${importedCount} new books, reused ${existingCount}. Running core auto-fill...`
-      );
+  const toggleLeaderboardOptOut = async (optOut: boolean) => {
+    try {
+      setSavingLeaderboardOptOut(true);
+      await authRequest("/users/me/leaderboard", { method: "PATCH", body: { optOut } });
+      setMessage(optOut ? "You are hidden from leaderboards." : "You appear on leaderboards again.");
+      await loadLeaderboard();
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setSavingLeaderboardOptOut(false);
+    }
+  };
 
-      setEnrichingCoreMetadata(true);
-      const coreResponse = await authRequest<EnrichCoreMetadataResponse>("/books/enrich-core-metadata", {
+  const createChallenge = async () => {
+    if (!challengeForm.startsAt || !challengeForm.endsAt) {
+      setMessage("Pick a start and end date for the challenge.");
+      return;
+    }
+    try {
+      setSavingChallenge(true);
+      await authRequest<{ data: Challenge }>("/challenges", {
         method: "POST",
         body: {
-          limit: coreEnrichLimit,
-          provider: importProvider
+          title: challengeForm.title.trim(),
+          description: toNullableText(challengeForm.description),
+          goal: challengeForm.goal,
+          target: Number(challengeForm.target),
+          genre: challengeForm.goal === "NEW_GENRES" ? null : toNullableText(challengeForm.genre),
+          startsAt: new Date(`${challengeForm.startsAt}T00:00:00`).toISOString(),
+          endsAt: new Date(`${challengeForm.endsAt}T23:59:59`).toISOString(),
+          badgeName: challengeForm.badgeName.trim() || challengeForm.title.trim(),
+          badgeIcon: toNullableText(challengeForm.badgeIcon)
         }
       });
-
-      setMessage(
-        `Import + core auto-fill done (${coreResponse.meta.providerUsed}). Added ${importedCount}, reused ${existingCount}, core-updated ${coreResponse.meta.updatedCount}/${coreResponse.meta.processed}.`
-      );
-      await Promise.all([loadBooks(), loadLibraryStats(), loadRecommendations()]);
+      setChallengeForm(emptyChallengeForm);
+      setMessage("Challenge created.");
+      await loadChallenges();
     } catch (error) {
       setMessage(parseApiError(error));
     } finally {
-      setImportingExternal(false);
-      setEnrichingCoreMetadata(false);
+      setSavingChallenge(false);
     }
   };
 
-  const saveAppearancePreferences = async () => {
+  const deleteChallenge = async (challenge: Challenge) => {
+    if (!window.confirm(`Delete the challenge "${challenge.title}"? Badges already earned are kept.`)) {
+      return;
+    }
+    try {
+      await authRequest(`/challenges/${challenge.id}`, { method: "DELETE" });
+      setChallenges((current) => current.filter((item) => item.id !== challenge.id));
+    } catch (error) {
+      setMessage(parseApiError(error));
+    }
+  };
+
+  const deleteCirculationPolicy = async (policy: CirculationPolicy) => {
+    if (!window.confirm("Delete this circulation policy? Loans will fall back to the next matching policy.")) {
+      return;
+    }
+    try {
+      await authRequest(`/circulation-policies/${policy.id}`, { method: "DELETE" });
+      setMessage("Circulation policy deleted.");
+      if (editingPolicyId === policy.id) {
+        resetPolicyForm();
+      }
+      await loadCirculationPolicies();
+    } catch (error) {
+      setMessage(parseApiError(error));
+    }
+  };
+
+  const runScheduledJob = async (job: ScheduledJobStatus) => {
+    try {
+      setJobActionName(job.name);
+      const result = await authRequest<{ data: JobRunEntry }>(`/jobs/${job.name}/run`, { method: "POST" });
+      setMessage(
+        result.data.status === "SUCCEEDED"
+          ? `Job "${job.name}" finished.`
+          : `Job "${job.name}" failed: ${result.data.error ?? "unknown error"}`
+      );
+      await loadScheduledJobs();
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setJobActionName(null);
+    }
+  };
+
+  const toggleScheduledJob = async (job: ScheduledJobStatus) => {
+    try {
+      setJobActionName(job.name);
+      await authRequest(`/jobs/${job.name}`, { method: "PATCH", body: { enabled: !job.enabled } });
+      await loadScheduledJobs();
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setJobActionName(null);
+    }
+  };
+
+  const applyAuditFilters = (filters: AuditFilters) => {
+    setAuditFilters(filters);
+    void loadAuditLogs(filters);
+  };
+
+  const openAuditTimeline = (scope: "book" | "user", targetId: string) => {
+    const filters: AuditFilters = { ...emptyAuditFilters, scope, targetId };
+    openUserDashboard();
+    applyAuditFilters(filters);
+  };
+
+  const exportAuditLogs = async () => {
+    const params = buildAuditLogParams(auditFilters);
+    params.set("format", "csv");
+    const path = `/audit-logs?${params.toString()}`;
+    try {
+      setAuditExporting(true);
+      let blob: Blob;
+      try {
+        blob = await requestBlob(path, { accessToken: tokenRef.current });
+      } catch (error) {
+        if (!(error instanceof ApiError && error.statusCode === 401)) {
+          throw error;
+        }
+        blob = await requestBlob(path, { accessToken: await refreshAccessToken() });
+      }
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `audit-logs-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setAuditExporting(false);
+    }
+  };
+
+  const recordFinePayment = async (fine: FineItem) => {
+    const amount = Number(finePaymentDrafts[fine.id] ?? (fine.amountCents - fine.paidCents) / 100);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setMessage("Enter a payment amount greater than zero.");
+      return;
+    }
+    try {
+      setFineActionId(fine.id);
+      await authRequest(`/fines/${fine.id}/payments`, {
+        method: "POST",
+        body: { amountCents: Math.round(amount * 100) }
+      });
+      setFinePaymentDrafts((current) => {
+        const { [fine.id]: _recorded, ...rest } = current;
+        return rest;
+      });
+      setMessage("Payment recorded.");
+      await loadFines();
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setFineActionId(null);
+    }
+  };
+
+  const waiveFine = async (fine: FineItem) => {
+    const reason = window.prompt(`Reason for waiving ${fine.user.name}'s fine:`);
+    if (!reason?.trim()) {
+      return;
+    }
+    try {
+      setFineActionId(fine.id);
+      await authRequest(`/fines/${fine.id}/waive`, {
+        method: "POST",
+        body: { reason: reason.trim() }
+      });
+      setMessage("Fine waived.");
+      await loadFines();
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setFineActionId(null);
+    }
+  };
+
+  const renewLoan = async (loan: Loan) => {
+    try {
+      setRenewingLoanId(loan.id);
+      const response = await authRequest<{ data: Loan; meta: { renewalsRemaining: number } }>(
+        `/loans/${loan.id}/renew`,
+        { method: "POST" }
+      );
+      const newDueLabel = response.data.dueAt ? new Date(response.data.dueAt).toLocaleDateString() : "not set";
+      setMessage(`Loan renewed. New due date: ${newDueLabel}. Renewals left: ${response.meta.renewalsRemaining}.`);
+      setLoanHistory((current) => {
+        const { [loan.id]: _stale, ...rest } = current;
+        return rest;
+      });
+      setOpenLoanHistoryId(null);
+      await loadLoans();
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setRenewingLoanId(null);
+    }
+  };
+
+  const toggleLoanHistory = async (loanId: string) => {
+    if (openLoanHistoryId === loanId) {
+      setOpenLoanHistoryId(null);
+      return;
+    }
+    setOpenLoanHistoryId(loanId);
+    if (loanHistory[loanId]) {
+      return;
+    }
+    try {
+      const response = await authRequest<{ data: LoanHistoryEvent[] }>(`/loans/${loanId}/history`);
+      setLoanHistory((current) => ({ ...current, [loanId]: response.data }));
+    } catch (error) {
+      setMessage(parseApiError(error));
+    }
+  };
+
+  const importFromExternal = async () => {
+    try {
+      setImportingExternal(true);
+      const limitNumber = Number(importLimit);
+      if (!Number.isFinite(limitNumber) || limitNumber < 1 || limitNumber > 300) {
+        setMessage("Import limit must be between 1 and 300.");
+        return;
+      }
+      const enrichLimitNumber = Number(enrichLimit);
+      const coreEnrichLimit =
+        Number.isFinite(enrichLimitNumber) && enrichLimitNumber >= 1 && enrichLimitNumber <= 500
+          ? enrichLimitNumber
+          : Math.min(500, Math.max(limitNumber, 100));
+
+      const response = await authRequest<SearchFallbackResponse>("/books/import/external", {
+        method: "POST",
+        body: {
+          query: importQuery,
+          limit: limitNumber,
+          provider: importProvider
+        }
+      });
+
+      const importedCount = response.meta?.importedCount ?? response.data.length;
+      const existingCount = response.meta?.existingCount ?? 0;
+      setMessage(
+        `Import finished from ${importProvider}. Added ${importedCount} new books, reused ${existingCount}. Running core auto-fill...`
+      );
+
+      setEnrichingCoreMetadata(true);
+      const coreResponse = await authRequest<EnrichCoreMetadataResponse>("/books/enrich-core-metadata", {
+        method: "POST",
+        body: {
+          limit: coreEnrichLimit,
+          provider: importProvider
+        }
+      });
+
+      setMessage(
+        `Import + core auto-fill done (${coreResponse.meta.providerUsed}). Added ${importedCount}, reused ${existingCount}, core-updated ${coreResponse.meta.updatedCount}/${coreResponse.meta.processed}.`
+      );
+      await Promise.all([loadBooks(), loadLibraryStats(), loadRecommendations()]);
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setImportingExternal(false);
+      setEnrichingCoreMetadata(false);
+    }
+  };
+
+  const saveAppearancePreferences = async () => {
     try {
       setSavingAppearance(true);
       const result = await authRequest<UpdateContactResponse>("/users/me/preferences", {
@@ -2003,6 +4556,464 @@ const App = () => {
     }
   };
 
+  const updateNotificationPreference = async (field: keyof NotificationPreferences, enabled: boolean) => {
+    try {
+      setSavingNotificationPreference(true);
+      const result = await authRequest<{ data: NotificationPreferences }>("/users/me/notification-preferences", {
+        method: "PATCH",
+        body: { [field]: enabled }
+      });
+      setNotificationPreferences(result.data);
+      setMessage("Email notification settings updated.");
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setSavingNotificationPreference(false);
+    }
+  };
+
+  const enablePushNotifications = async () => {
+    if (!pushPublicKey) {
+      return;
+    }
+    try {
+      setSavingPush(true);
+      const subscription = await subscribeToPush(pushPublicKey);
+      if (!subscription) {
+        setPushStatus(Notification.permission === "denied" ? "blocked" : "off");
+        setMessage("Notification permission was not granted.");
+        return;
+      }
+      await savePushSubscription(subscription);
+      setPushStatus("on");
+      setMessage("Push notifications enabled on this device.");
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setSavingPush(false);
+    }
+  };
+
+  const disablePushNotifications = async () => {
+    try {
+      setSavingPush(true);
+      const endpoint = await unsubscribeFromPush();
+      if (endpoint) {
+        await authRequest("/push/subscriptions", { method: "DELETE", body: { endpoint } });
+      }
+      setPushStatus("off");
+      setMessage("Push notifications turned off on this device.");
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setSavingPush(false);
+    }
+  };
+
+  const chooseCatalogFile = (file: File | null) => {
+    setCatalogFile(file);
+    setCatalogPreview(null);
+    setCatalogMapping({});
+    if (file) {
+      const name = file.name.toLowerCase();
+      setCatalogFormat(name.endsWith(".xml") ? "marcxml" : name.endsWith(".mrc") || name.endsWith(".marc") ? "marc" : "csv");
+    }
+  };
+
+  const submitCatalogImport = async (dryRun: boolean) => {
+    if (!catalogFile) {
+      setMessage("Choose a CSV or MARC file first.");
+      return;
+    }
+    try {
+      setCatalogImporting(true);
+      const binary = catalogFormat === "marc";
+      const result = await authRequest<CatalogImportResponse>("/books/import/file", {
+        method: "POST",
+        body: {
+          format: catalogFormat,
+          content: binary ? await readFileAsBase64(catalogFile) : await catalogFile.text(),
+          encoding: binary ? "base64" : "text",
+          mapping: catalogFormat === "csv" && Object.keys(catalogMapping).length > 0 ? catalogMapping : undefined,
+          defaultCopyCount: Number(catalogDefaultCopies) || 0,
+          dryRun,
+          skipInvalid: catalogSkipInvalid
+        }
+      });
+      setCatalogPreview(result);
+      if (result.meta.mapping) {
+        setCatalogMapping(result.meta.mapping);
+      }
+      if (!dryRun) {
+        setMessage(`Imported ${result.meta.createdCount ?? 0} book(s) from ${catalogFile.name}.`);
+        await Promise.all([loadBooks(), loadLibraryStats()]);
+      }
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setCatalogImporting(false);
+    }
+  };
+
+  const chooseSearchSuggestion = (suggestion: SearchSuggestion) => {
+    setSuggestionsOpen(false);
+    if (suggestion.type === "title" && suggestion.bookId) {
+      openBookDetails(suggestion.bookId);
+      return;
+    }
+    const facet = suggestion.type === "author" ? "authors" : "genres";
+    setQuery("");
+    setFacetSelection((current) => ({ ...current, [facet]: [suggestion.value] }));
+  };
+
+  const savedSearchMatchCount = savedSearches.reduce((total, search) => total + search.newMatchCount, 0);
+  const hasActiveCatalogFilters =
+    Boolean(query.trim()) ||
+    availableFilter !== "all" ||
+    Object.values(facetSelection).some((values) => values.length > 0);
+
+  const saveCurrentSearch = async () => {
+    const name = savedSearchName.trim() || query.trim();
+    if (!name) {
+      setMessage("Give the saved search a name.");
+      return;
+    }
+    try {
+      setSavingSearch(true);
+      await authRequest<{ data: SavedSearch }>("/saved-searches", {
+        method: "POST",
+        body: {
+          name: name.slice(0, 80),
+          filters: {
+            ...(query.trim() ? { q: query.trim() } : {}),
+            ...(availableFilter !== "all" ? { available: availableFilter === "available" ? "true" : "false" } : {}),
+            ...facetSelection
+          }
+        }
+      });
+      setSavedSearchName("");
+      setMessage(`Saved "${name}". We'll let you know when new books match.`);
+      await loadSavedSearches();
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setSavingSearch(false);
+    }
+  };
+
+  const applySavedSearch = async (search: SavedSearch) => {
+    const filters = search.filters;
+    if (filters) {
+      setQuery(filters.q ?? "");
+      setAvailableFilter(
+        filters.available === "true" ? "available" : filters.available === "false" ? "unavailable" : "all"
+      );
+      setFacetSelection({
+        genres: filters.genres,
+        authors: filters.authors,
+        decades: filters.decades.map(String),
+        ratings: filters.ratings
+      });
+    }
+    if (search.newMatchCount === 0) {
+      return;
+    }
+    try {
+      await authRequest(`/saved-searches/${search.id}/seen`, { method: "POST" });
+      setSavedSearches((current) =>
+        current.map((item) => (item.id === search.id ? { ...item, newMatchCount: 0, newMatches: [] } : item))
+      );
+    } catch (error) {
+      setMessage(parseApiError(error));
+    }
+  };
+
+  const toggleSavedSearchAlerts = async (search: SavedSearch) => {
+    try {
+      const result = await authRequest<{ data: SavedSearch }>(`/saved-searches/${search.id}`, {
+        method: "PATCH",
+        body: { alertsEnabled: !search.alertsEnabled }
+      });
+      setSavedSearches((current) => current.map((item) => (item.id === search.id ? result.data : item)));
+    } catch (error) {
+      setMessage(parseApiError(error));
+    }
+  };
+
+  const deleteSavedSearch = async (search: SavedSearch) => {
+    try {
+      await authRequest(`/saved-searches/${search.id}`, { method: "DELETE" });
+      setSavedSearches((current) => current.filter((item) => item.id !== search.id));
+    } catch (error) {
+      setMessage(parseApiError(error));
+    }
+  };
+
+  const createShelf = async () => {
+    const name = shelfForm.name.trim();
+    if (!name) {
+      setMessage("Give the shelf a name.");
+      return;
+    }
+    try {
+      setSavingShelf(true);
+      await authRequest<{ data: ShelfDetails }>("/shelves", {
+        method: "POST",
+        body: {
+          name,
+          description: toNullableText(shelfForm.description),
+          visibility: shelfForm.visibility
+        }
+      });
+      setShelfForm(emptyShelfForm);
+      setMessage(`Created shelf "${name}".`);
+      await loadShelves();
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setSavingShelf(false);
+    }
+  };
+
+  const updateShelf = async (
+    shelf: Pick<ShelfSummary, "id">,
+    changes: Partial<{ name: string; description: string | null; visibility: ShelfVisibility }>
+  ) => {
+    try {
+      setShelfActionId(shelf.id);
+      const result = await authRequest<{ data: ShelfDetails }>(`/shelves/${shelf.id}`, {
+        method: "PATCH",
+        body: changes
+      });
+      setOpenShelf((current) => (current?.id === shelf.id ? result.data : current));
+      await loadShelves();
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setShelfActionId(null);
+    }
+  };
+
+  const renameShelf = async (shelf: ShelfSummary) => {
+    const name = window.prompt("Rename shelf", shelf.name)?.trim();
+    if (!name || name === shelf.name) {
+      return;
+    }
+    await updateShelf(shelf, { name: name.slice(0, 80) });
+  };
+
+  const deleteShelf = async (shelf: ShelfSummary) => {
+    if (!window.confirm(`Delete the shelf "${shelf.name}"? The books stay in the catalog.`)) {
+      return;
+    }
+    try {
+      setShelfActionId(shelf.id);
+      await authRequest(`/shelves/${shelf.id}`, { method: "DELETE" });
+      setShelves((current) => current.filter((item) => item.id !== shelf.id));
+      setOpenShelf((current) => (current?.id === shelf.id ? null : current));
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setShelfActionId(null);
+    }
+  };
+
+  const moveShelf = async (shelfId: string, offset: -1 | 1) => {
+    const index = shelves.findIndex((shelf) => shelf.id === shelfId);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= shelves.length) {
+      return;
+    }
+    const reordered = [...shelves];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const previous = shelves;
+    setShelves(reordered);
+    try {
+      await authRequest("/shelves/order", {
+        method: "PUT",
+        body: { ids: reordered.map((shelf) => shelf.id) }
+      });
+    } catch (error) {
+      setShelves(previous);
+      setMessage(parseApiError(error));
+    }
+  };
+
+  const openShelfDetails = async (shelfId: string) => {
+    if (openShelf?.id === shelfId) {
+      setOpenShelf(null);
+      return;
+    }
+    try {
+      setShelfActionId(shelfId);
+      const result = await authRequest<{ data: ShelfDetails }>(`/shelves/${shelfId}`);
+      setOpenShelf(result.data);
+      setShelfEntryNotes(Object.fromEntries(result.data.entries.map((entry) => [entry.id, entry.note ?? ""])));
+      setShelfFeedback("");
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setShelfActionId(null);
+    }
+  };
+
+  const moveShelfEntry = async (entryId: string, offset: -1 | 1) => {
+    if (!openShelf) {
+      return;
+    }
+    const entries = openShelf.entries;
+    const index = entries.findIndex((entry) => entry.id === entryId);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= entries.length) {
+      return;
+    }
+    const reordered = [...entries];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    try {
+      const result = await authRequest<{ data: ShelfDetails }>(`/shelves/${openShelf.id}/order`, {
+        method: "PUT",
+        body: { ids: reordered.map((entry) => entry.id) }
+      });
+      setOpenShelf(result.data);
+    } catch (error) {
+      setMessage(parseApiError(error));
+    }
+  };
+
+  const saveShelfEntryNote = async (entry: ShelfEntry) => {
+    if (!openShelf) {
+      return;
+    }
+    try {
+      setShelfActionId(entry.id);
+      const result = await authRequest<{ data: ShelfEntry }>(`/shelves/${openShelf.id}/entries/${entry.id}`, {
+        method: "PATCH",
+        body: { note: toNullableText(shelfEntryNotes[entry.id] ?? "") }
+      });
+      setOpenShelf((current) =>
+        current
+          ? { ...current, entries: current.entries.map((item) => (item.id === entry.id ? result.data : item)) }
+          : current
+      );
+      setShelfFeedback("Note saved.");
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setShelfActionId(null);
+    }
+  };
+
+  const removeShelfEntry = async (entry: ShelfEntry) => {
+    if (!openShelf) {
+      return;
+    }
+    try {
+      setShelfActionId(entry.id);
+      await authRequest(`/shelves/${openShelf.id}/entries/${entry.id}`, { method: "DELETE" });
+      setOpenShelf((current) =>
+        current ? { ...current, entries: current.entries.filter((item) => item.id !== entry.id) } : current
+      );
+      if (openShelf.systemKey === "FAVORITES") {
+        void loadFavoriteBooks();
+      }
+      await loadShelves();
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setShelfActionId(null);
+    }
+  };
+
+  const copyShelfLink = async (shelf: Pick<ShelfSummary, "shareToken">) => {
+    if (!shelf.shareToken) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(getShelfShareUrl(shelf.shareToken));
+      setShelfFeedback("Share link copied.");
+    } catch {
+      setShelfFeedback("Could not copy the link right now.");
+    }
+  };
+
+  // The Favorites shelf mirrors the star, so changes to it refresh every favorite flag on screen.
+  const toggleBookOnShelf = async (shelf: ShelfSummary, bookId: string) => {
+    if (shelf.systemKey === "FAVORITES") {
+      await toggleFavoriteBook(bookId);
+      await loadBookShelves(bookId);
+      return;
+    }
+    try {
+      setShelfActionId(shelf.id);
+      if (shelf.bookEntryId) {
+        await authRequest(`/shelves/${shelf.id}/entries/${shelf.bookEntryId}`, { method: "DELETE" });
+        setMessage(`Removed from "${shelf.name}".`);
+      } else {
+        await authRequest<{ data: ShelfEntry }>(`/shelves/${shelf.id}/entries`, {
+          method: "POST",
+          body: { bookId }
+        });
+        setMessage(`Added to "${shelf.name}".`);
+      }
+      await Promise.all([loadBookShelves(bookId), loadShelves()]);
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setShelfActionId(null);
+    }
+  };
+
+  const toggleFacetValue = (facet: keyof FacetSelection, value: string) => {
+    setFacetSelection((current) => ({
+      ...current,
+      [facet]: current[facet].includes(value)
+        ? current[facet].filter((item) => item !== value)
+        : [...current[facet], value]
+    }));
+  };
+
+  const exportCatalog = async () => {
+    const params = new URLSearchParams({ format: catalogExportFormat });
+    if (catalogExportFiltered) {
+      if (query.trim()) {
+        params.set("q", query.trim());
+      }
+      if (availableFilter !== "all") {
+        params.set("available", availableFilter === "available" ? "true" : "false");
+      }
+      for (const [facet] of facetSections) {
+        for (const value of facetSelection[facet]) {
+          params.append(facet, value);
+        }
+      }
+    }
+    const path = `/books/export?${params.toString()}`;
+    try {
+      setCatalogExporting(true);
+      let blob: Blob;
+      try {
+        blob = await requestBlob(path, { accessToken: tokenRef.current });
+      } catch (error) {
+        if (!(error instanceof ApiError && error.statusCode === 401)) {
+          throw error;
+        }
+        blob = await requestBlob(path, { accessToken: await refreshAccessToken() });
+      }
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `mlms-catalog-${new Date().toISOString().slice(0, 10)}.${
+        catalogExportFormat === "marcxml" ? "xml" : catalogExportFormat
+      }`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setMessage(parseApiError(error));
+    } finally {
+      setCatalogExporting(false);
+    }
+  };
+
   const enrichLibraryMetadata = async () => {
     try {
       setEnrichingMetadata(true);
@@ -2052,12 +5063,30 @@ const App = () => {
         <div className="topbar-title">
           <h1>{user ? `Hi, ${user.name}` : "Browse the public catalog"}</h1>
         </div>
+        {user && (
+          <button
+            className="notification-bell"
+            type="button"
+            aria-label={`Notifications (${notificationUnreadCount} unread)`}
+            aria-haspopup="dialog"
+            onClick={() => {
+              setShowNotifications(true);
+              void loadNotifications();
+            }}
+          >
+            <BellIcon />
+            {notificationUnreadCount > 0 && (
+              <span className="profile-notification-badge">{Math.min(notificationUnreadCount, 99)}</span>
+            )}
+          </button>
+        )}
         <ProfileMenu
           user={user}
           busy={signingIn}
           borrowedCount={myActiveLoans.length}
           adminPendingCount={adminPendingRequestCount}
           memberUnreadRequestCount={memberUnreadRequestCount}
+          savedSearchMatchCount={savedSearchMatchCount}
           onGoogleCredential={loginWithGoogleCredential}
           onLogout={logout}
           onOpenDashboard={openUserDashboard}
@@ -2065,6 +5094,23 @@ const App = () => {
         />
       </header>
 
+      {(!isOnline || offlineDataSavedAt) && (
+        <p className="offline-banner" role="status">
+          {offlineDataSavedAt
+            ? `You're offline, showing data from ${new Date(offlineDataSavedAt).toLocaleString()}.`
+            : "You're offline. Saved data will appear where it is available."}
+        </p>
+      )}
+
+      {user && (
+        <SyncQueueStatus
+          entries={outboxEntries}
+          onRetry={(entry) => void retryOutboxEntry(entry)}
+          onKeepMine={(entry) => void retryOutboxEntry(entry, { overwrite: true })}
+          onDiscard={(entry) => void discardOutboxEntry(entry)}
+        />
+      )}
+
       {showInstallPrompt && (
         <aside className="install-prompt" role="dialog" aria-label="Install MLMS as an app">
           <p className="eyebrow">Install MLMS</p>
@@ -2099,7 +5145,44 @@ const App = () => {
             </button>
           </div>
         )}
-        {activeBookId ? (
+        {sharedShelfToken ? (
+          <section className="panel shared-shelf-page" aria-labelledby="shared-shelf-title">
+            <div className="panel-head book-detail-head">
+              <button className="btn btn-outline" type="button" onClick={goHome}>
+                Back to Home
+              </button>
+            </div>
+            {sharedShelfLoading && <p className="muted">Loading shelf...</p>}
+            {!sharedShelfLoading && !sharedShelf && (
+              <p className="muted">This shelf is private or the link is no longer valid.</p>
+            )}
+            {!sharedShelfLoading && sharedShelf && (
+              <>
+                <h2 id="shared-shelf-title">{sharedShelf.name}</h2>
+                <p className="muted">
+                  {`Shared by ${sharedShelf.ownerName} · ${sharedShelf.entries.length} ${
+                    sharedShelf.entries.length === 1 ? "book" : "books"
+                  }`}
+                </p>
+                {sharedShelf.description && <p>{sharedShelf.description}</p>}
+                <ul className="stack-list shelf-entry-list">
+                  {sharedShelf.entries.length === 0 && <li className="muted">This shelf is empty.</li>}
+                  {sharedShelf.entries.map((entry, index) => (
+                    <li key={entry.id} className="row-item">
+                      <div>
+                        <button className="link-button" type="button" onClick={() => openBookDetails(entry.book.id)}>
+                          {`${index + 1}. ${entry.book.title}`}
+                        </button>
+                        <p className="muted">{entry.book.author}</p>
+                        {entry.note && <p className="shelf-entry-note">{entry.note}</p>}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </section>
+        ) : activeBookId ? (
           <section className="panel book-detail-page" aria-labelledby="book-detail-title">
             <div className="panel-head book-detail-head">
               <button
@@ -2138,11 +5221,7 @@ const App = () => {
                         bookDetails.book.requestPending ? "pending" : bookDetails.book.available ? "available" : "unavailable"
                       }`}
                     >
-                      {bookDetails.book.requestPending
-                        ? "Pending approval"
-                        : bookDetails.book.available
-                          ? "Checked in (returned)"
-                          : "Checked out (borrowed)"}
+                      {getAvailabilityLabel(bookDetails.book)}
                     </p>
                     <p className="book-detail-description">
                       {bookDetails.book.description ?? "No summary available for this book yet."}
@@ -2195,9 +5274,67 @@ const App = () => {
                           );
                         })()
                       ) : (
-                        <span className="muted">This book is currently checked out (borrowed).</span>
+                        (() => {
+                          const myHold = holds.find(
+                            (hold) => hold.bookId === bookDetails.book.id && hold.userId === user?.id
+                          );
+                          if (myHold?.status === "READY") {
+                            const isPending = checkoutPendingIds.includes(bookDetails.book.id);
+                            return (
+                              <>
+                                <button
+                                  className={`btn${isPending ? " is-loading" : ""}`}
+                                  type="button"
+                                  onClick={() => void checkoutBook(bookDetails.book.id)}
+                                  disabled={isPending}
+                                  aria-busy={isPending}
+                                >
+                                  {user?.role === "ADMIN" ? "Borrow reserved copy" : "Request reserved copy"}
+                                </button>
+                                <span className="notice">
+                                  Reserved for you until{" "}
+                                  {myHold.pickupDeadline ? new Date(myHold.pickupDeadline).toLocaleDateString() : "pickup"}
+                                </span>
+                              </>
+                            );
+                          }
+                          if (myHold) {
+                            return <span className="muted">{`You are #${myHold.queuePosition ?? 1} in the hold queue.`}</span>;
+                          }
+                          return (
+                            <>
+                              <span className="muted">This book is currently checked out (borrowed).</span>
+                              {user && (
+                                <button
+                                  className="btn btn-outline"
+                                  type="button"
+                                  onClick={() => void placeHold(bookDetails.book.id)}
+                                  disabled={holdActionId === bookDetails.book.id}
+                                >
+                                  {holdActionId === bookDetails.book.id ? "Placing..." : "Place hold"}
+                                </button>
+                              )}
+                            </>
+                          );
+                        })()
                       )}
                       {shareFeedback && <p className="muted">{shareFeedback}</p>}
+                      {user && bookShelves.length > 0 && (
+                        <div className="shelf-picker" aria-label="Shelves">
+                          <span className="muted">Shelves:</span>
+                          {bookShelves.map((shelf) => (
+                            <label key={shelf.id} className="inline-check">
+                              <input
+                                type="checkbox"
+                                checked={Boolean(shelf.bookEntryId)}
+                                disabled={shelfActionId === shelf.id || favoritePendingIds.includes(bookDetails.book.id)}
+                                onChange={() => void toggleBookOnShelf(shelf, bookDetails.book.id)}
+                              />
+                              {shelf.name}
+                            </label>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </section>
@@ -2220,6 +5357,7 @@ const App = () => {
                           <button className="btn" type="button" onClick={() => void saveBookNote()} disabled={savingNote}>
                             {savingNote ? "Saving..." : "Save note"}
                           </button>
+                          <OutboxEntryHint entry={outboxEntries.find((entry) => entry.key === `note:${bookDetails.book.id}`)} />
                         </div>
 
                         <h3>Your review</h3>
@@ -2255,6 +5393,9 @@ const App = () => {
                             <button className="btn" type="button" onClick={() => void saveBookReview()} disabled={savingReview}>
                               {savingReview ? "Saving..." : "Save review"}
                             </button>
+                            <OutboxEntryHint
+                              entry={outboxEntries.find((entry) => entry.key === `review:${bookDetails.book.id}`)}
+                            />
                           </div>
                         </div>
                       </>
@@ -2284,6 +5425,125 @@ const App = () => {
                   </article>
                 </section>
 
+                {user?.role === "ADMIN" && (
+                  <section className="panel" aria-labelledby="book-copies-title">
+                    <div className="panel-head">
+                      <h3 id="book-copies-title">Physical copies</h3>
+                      <p className="muted">
+                        {bookDetails.book.availableCopies} of {bookDetails.book.totalCopies} available
+                      </p>
+                      <button
+                        className="btn btn-outline"
+                        type="button"
+                        onClick={() => openAuditTimeline("book", bookDetails.book.id)}
+                      >
+                        Audit timeline
+                      </button>
+                    </div>
+                    {bookCopiesLoading && <p className="muted">Loading copies...</p>}
+                    <ul className="stack-list">
+                      {!bookCopiesLoading && bookCopies.length === 0 && <li className="muted">No copies recorded.</li>}
+                      {bookCopies.map((copy) => {
+                        const inCirculation = copy.status === "ON_LOAN" || copy.status === "RESERVED";
+                        const isBusy = copyActionId === copy.id;
+                        return (
+                          <li key={copy.id} className="row-item">
+                            <div>
+                              <strong>{copy.barcode}</strong>
+                              <p className="muted">
+                                {copyStatusLabels[copy.status]} | {copy.condition.toLowerCase()}
+                                {copy.shelfLocation ? ` | Shelf ${copy.shelfLocation}` : ""}
+                              </p>
+                              {copy.activeLoan && (
+                                <p className="muted">
+                                  With {copy.activeLoan.user.name}, due{" "}
+                                  {copy.activeLoan.dueAt ? new Date(copy.activeLoan.dueAt).toLocaleDateString() : "not set"}
+                                </p>
+                              )}
+                            </div>
+                            {!inCirculation && (
+                              <div className="row-actions">
+                                {copy.status === "AVAILABLE" ? (
+                                  <button
+                                    className="btn btn-outline"
+                                    type="button"
+                                    disabled={isBusy}
+                                    onClick={() => void updateBookCopyStatus(copy, "MAINTENANCE")}
+                                  >
+                                    Maintenance
+                                  </button>
+                                ) : (
+                                  <button
+                                    className="btn btn-outline"
+                                    type="button"
+                                    disabled={isBusy}
+                                    onClick={() => void updateBookCopyStatus(copy, "AVAILABLE")}
+                                  >
+                                    Return to shelf
+                                  </button>
+                                )}
+                                {copy.status !== "LOST" && (
+                                  <button
+                                    className="btn btn-outline"
+                                    type="button"
+                                    disabled={isBusy}
+                                    onClick={() => void updateBookCopyStatus(copy, "LOST")}
+                                  >
+                                    Mark lost
+                                  </button>
+                                )}
+                                <button
+                                  className="btn btn-outline"
+                                  type="button"
+                                  disabled={isBusy}
+                                  onClick={() => void deleteBookCopy(copy)}
+                                >
+                                  Remove
+                                </button>
+                              </div>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                    <div className="filters">
+                      <label>
+                        Barcode
+                        <input
+                          value={copyForm.barcode}
+                          onChange={(event) => setCopyForm((prev) => ({ ...prev, barcode: event.target.value }))}
+                          placeholder="Generated when empty"
+                        />
+                      </label>
+                      <label>
+                        Shelf location
+                        <input
+                          value={copyForm.shelfLocation}
+                          onChange={(event) => setCopyForm((prev) => ({ ...prev, shelfLocation: event.target.value }))}
+                        />
+                      </label>
+                      <label>
+                        Condition
+                        <select
+                          value={copyForm.condition}
+                          onChange={(event) =>
+                            setCopyForm((prev) => ({ ...prev, condition: event.target.value as BookCopyCondition }))
+                          }
+                        >
+                          <option value="NEW">New</option>
+                          <option value="GOOD">Good</option>
+                          <option value="FAIR">Fair</option>
+                          <option value="POOR">Poor</option>
+                          <option value="DAMAGED">Damaged</option>
+                        </select>
+                      </label>
+                      <button className="btn" type="button" disabled={savingCopy} onClick={() => void addBookCopy()}>
+                        {savingCopy ? "Adding..." : "Add copy"}
+                      </button>
+                    </div>
+                  </section>
+                )}
+
                 <section className="panel" aria-labelledby="related-books-title">
                   <div className="panel-head">
                     <h3 id="related-books-title">Suggested books by author or genre</h3>
@@ -2341,11 +5601,7 @@ const App = () => {
                             relatedBook.requestPending ? "pending" : relatedBook.available ? "available" : "unavailable"
                           }`}
                         >
-                          {relatedBook.requestPending
-                            ? "Pending approval"
-                            : relatedBook.available
-                              ? "Checked in (returned)"
-                              : "Checked out (borrowed)"}
+                          {getAvailabilityLabel(relatedBook)}
                         </p>
                         <p className="book-genre">{truncateText(relatedBook.genre ?? "Uncategorized", 80)}</p>
                       </article>
@@ -2424,6 +5680,11 @@ const App = () => {
                     <p className="muted">
                       {totalBooksCount} total | {checkedOutBooksCount} checked out (borrowed)
                     </p>
+                    {libraryStats && libraryStats.totalCopies > 0 && (
+                      <p className="muted">
+                        {libraryStats.availableCopies} of {libraryStats.totalCopies} copies on the shelf
+                      </p>
+                    )}
                   </article>
 
                 <form
@@ -2433,11 +5694,67 @@ const App = () => {
                     void loadBooks();
                   }}
                 >
-                  <label className="filter-search-label">
-                    <span className="desktop-label">Search by title, author, genre, ISBN</span>
-                    <span className="compact-label">Search</span>
-                    <input value={query} onChange={(event) => setQuery(event.target.value)} name="q" />
-                  </label>
+                  <div className="search-autocomplete">
+                    <label className="filter-search-label">
+                      <span className="desktop-label">Search by title, author, genre, ISBN</span>
+                      <span className="compact-label">Search</span>
+                      <input
+                        value={query}
+                        onChange={(event) => {
+                          setQuery(event.target.value);
+                          setSuggestionsOpen(true);
+                        }}
+                        onFocus={() => setSuggestionsOpen(true)}
+                        onBlur={() => setSuggestionsOpen(false)}
+                        onKeyDown={(event) => {
+                          if (!suggestionsOpen || searchSuggestions.length === 0) {
+                            return;
+                          }
+                          if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+                            event.preventDefault();
+                            const step = event.key === "ArrowDown" ? 1 : -1;
+                            setActiveSuggestionIndex(
+                              (current) => (current + step + searchSuggestions.length) % searchSuggestions.length
+                            );
+                          } else if (event.key === "Escape") {
+                            setSuggestionsOpen(false);
+                          } else if (event.key === "Enter" && searchSuggestions[activeSuggestionIndex]) {
+                            event.preventDefault();
+                            chooseSearchSuggestion(searchSuggestions[activeSuggestionIndex]);
+                          }
+                        }}
+                        name="q"
+                        autoComplete="off"
+                        role="combobox"
+                        aria-expanded={suggestionsOpen && searchSuggestions.length > 0}
+                        aria-controls="search-suggestions"
+                        aria-autocomplete="list"
+                      />
+                    </label>
+                    {suggestionsOpen && searchSuggestions.length > 0 && (
+                      <ul className="search-suggestions" id="search-suggestions" role="listbox">
+                        {searchSuggestions.map((suggestion, index) => (
+                          <li
+                            key={`${suggestion.type}-${suggestion.bookId ?? suggestion.value}`}
+                            role="option"
+                            aria-selected={index === activeSuggestionIndex}
+                            className={index === activeSuggestionIndex ? "active" : undefined}
+                            onMouseDown={(event) => {
+                              event.preventDefault();
+                              chooseSearchSuggestion(suggestion);
+                            }}
+                          >
+                            <span>{truncateText(suggestion.value, 70)}</span>
+                            <span className="muted">
+                              {suggestion.type === "title"
+                                ? "Title"
+                                : `${suggestion.type === "author" ? "Author" : "Genre"} · ${suggestion.count}`}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
 
                   <label className="filter-availability-label">
                     Availability
@@ -2453,6 +5770,141 @@ const App = () => {
                   </button>
                 </form>
 
+                {bookFacets && (
+                  <div className="catalog-facets" aria-label="Refine results">
+                    {facetSections.map(([facet, label]) => {
+                      const buckets = bookFacets[facet].filter((bucket) => bucket.count > 0 || bucket.selected);
+                      if (buckets.length === 0) {
+                        return null;
+                      }
+                      return (
+                        <fieldset key={facet} className="facet-group">
+                          <legend>{label}</legend>
+                          {buckets.map((bucket) => (
+                            <label key={bucket.value} className="facet-option">
+                              <input
+                                type="checkbox"
+                                checked={bucket.selected}
+                                onChange={() => toggleFacetValue(facet, bucket.value)}
+                              />
+                              <span title={bucket.label}>{truncateText(bucket.label, 40)}</span>
+                              <span className="muted">{bucket.count}</span>
+                            </label>
+                          ))}
+                        </fieldset>
+                      );
+                    })}
+                    <fieldset className="facet-group">
+                      <legend>Availability</legend>
+                      {bookFacets.availability.map((bucket) => (
+                        <label key={bucket.value} className="facet-option">
+                          <input
+                            type="checkbox"
+                            checked={bucket.selected}
+                            onChange={() =>
+                              setAvailableFilter(
+                                bucket.selected ? "all" : bucket.value === "true" ? "available" : "unavailable"
+                              )
+                            }
+                          />
+                          <span>{bucket.label}</span>
+                          <span className="muted">{bucket.count}</span>
+                        </label>
+                      ))}
+                    </fieldset>
+                    {(Object.values(facetSelection).some((values) => values.length > 0) || availableFilter !== "all") && (
+                      <button
+                        className="btn btn-outline"
+                        type="button"
+                        onClick={() => {
+                          setFacetSelection(emptyFacetSelection);
+                          setAvailableFilter("all");
+                        }}
+                      >
+                        Clear filters
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {user && (
+                  <section className="saved-searches" aria-labelledby="saved-searches-title">
+                    <h3 id="saved-searches-title">
+                      Saved searches
+                      {savedSearchMatchCount > 0 && <span className="count-badge">{savedSearchMatchCount}</span>}
+                    </h3>
+                    {hasActiveCatalogFilters && (
+                      <div className="saved-search-form">
+                        <input
+                          value={savedSearchName}
+                          maxLength={80}
+                          placeholder={query.trim() || "Name this search"}
+                          aria-label="Saved search name"
+                          onChange={(event) => setSavedSearchName(event.target.value)}
+                        />
+                        <button
+                          className="btn btn-outline"
+                          type="button"
+                          disabled={savingSearch}
+                          onClick={() => void saveCurrentSearch()}
+                        >
+                          {savingSearch ? "Saving..." : "Save search"}
+                        </button>
+                      </div>
+                    )}
+                    {savedSearches.length === 0 && (
+                      <p className="muted">Search or pick filters, then save them to hear about new arrivals.</p>
+                    )}
+                    <ul className="stack-list">
+                      {savedSearches.map((search) => (
+                        <li key={search.id} className="saved-search-item">
+                          <div className="row-actions">
+                            <button className="link-button" type="button" onClick={() => void applySavedSearch(search)}>
+                              {search.name}
+                            </button>
+                            {search.newMatchCount > 0 && (
+                              <span className="count-badge">{`${search.newMatchCount} new`}</span>
+                            )}
+                          </div>
+                          {search.newMatches.length > 0 && (
+                            <ul className="saved-search-matches">
+                              {search.newMatches.map((match) => (
+                                <li key={match.book.id}>
+                                  <button
+                                    className="link-button"
+                                    type="button"
+                                    onClick={() => openBookDetails(match.book.id)}
+                                  >
+                                    {truncateText(match.book.title, 60)}
+                                  </button>{" "}
+                                  <span className="muted">{match.book.author}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          <div className="row-actions">
+                            <label className="inline-check">
+                              <input
+                                type="checkbox"
+                                checked={search.alertsEnabled}
+                                onChange={() => void toggleSavedSearchAlerts(search)}
+                              />{" "}
+                              Alerts
+                            </label>
+                            <button
+                              className="btn btn-outline"
+                              type="button"
+                              onClick={() => void deleteSavedSearch(search)}
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                )}
+
                 {canManageBooks && (
                   <button
                     className="btn btn-outline catalog-admin-toggle"
@@ -2522,6 +5974,18 @@ const App = () => {
                           onChange={(event) => setBookForm((prev) => ({ ...prev, coverUrl: event.target.value }))}
                         />
                       </label>
+                      {!editingBookId && (
+                        <label>
+                          Copies
+                          <input
+                            type="number"
+                            min={0}
+                            max={50}
+                            value={bookForm.copyCount}
+                            onChange={(event) => setBookForm((prev) => ({ ...prev, copyCount: event.target.value }))}
+                          />
+                        </label>
+                      )}
                       <label className="full-width">
                         Description
                         <textarea
@@ -2580,10 +6044,12 @@ const App = () => {
                           <BookCover book={book} className="book-cover-thumb" />
                           <header>
                             <h3 className="book-title" title={book.title}>
-                              {truncateText(book.title, 120)}
+                              {book.highlight ? <HighlightedText text={book.highlight.title} /> : truncateText(book.title, 120)}
                             </h3>
                             <div className="book-card-subhead">
-                              <p className="muted">{book.author}</p>
+                              <p className="muted">
+                                {book.highlight ? <HighlightedText text={book.highlight.author} /> : book.author}
+                              </p>
                               <div className="title-row-icons">
                                 <AiMetadataBadge book={book} />
                                 <FavoriteStarButton
@@ -2602,17 +6068,14 @@ const App = () => {
                             book.requestPending ? "pending" : book.available ? "available" : "unavailable"
                           }`}
                         >
-                          {book.requestPending
-                            ? "Pending approval"
-                            : book.available
-                              ? "Checked in (returned)"
-                              : "Checked out (borrowed)"}
+                          {getAvailabilityLabel(book)}
                         </p>
                         <p className="book-genre">{truncateText(book.genre ?? "Uncategorized", 80)}</p>
                         <p className="muted clamp-3">
-                          {truncateText(
-                            book.description ?? "No description yet. Click Preview to view more details.",
-                            110
+                          {book.highlight?.description ? (
+                            <HighlightedText text={book.highlight.description} />
+                          ) : (
+                            truncateText(book.description ?? "No description yet. Click Preview to view more details.", 110)
                           )}
                         </p>
                         <div className="row-actions book-card-actions">
@@ -2789,11 +6252,27 @@ const App = () => {
                           Borrowed by {loan.user.name} (L{getLevelInfo(loan.user.readingPoints).levelNumber}) on{" "}
                           {new Date(loan.checkedOutAt).toLocaleDateString()}
                         </p>
+                        {loan.copy && <p className="muted">Copy {loan.copy.barcode}</p>}
                         <p className={loan.dueAt && new Date(loan.dueAt) < new Date() ? "overdue-text" : "muted"}>
                           Due: {loan.dueAt ? new Date(loan.dueAt).toLocaleDateString() : "Not set"}
                         </p>
+                        <p className="muted">{`Renewals: ${loan.renewalCount} of ${loan.maxRenewals ?? 0}`}</p>
+                        {openLoanHistoryId === loan.id && <LoanHistoryList events={loanHistory[loan.id]} />}
                       </div>
                       <div className="row-actions">
+                        {loan.userId === user.id && loan.renewalCount < (loan.maxRenewals ?? 0) && (
+                          <button
+                            className="btn btn-outline"
+                            type="button"
+                            onClick={() => void renewLoan(loan)}
+                            disabled={renewingLoanId === loan.id}
+                          >
+                            {renewingLoanId === loan.id ? "Renewing..." : "Renew"}
+                          </button>
+                        )}
+                        <button className="btn btn-outline" type="button" onClick={() => void toggleLoanHistory(loan.id)}>
+                          {openLoanHistoryId === loan.id ? "Hide history" : "History"}
+                        </button>
                         {user.role === "ADMIN" && (
                           <>
                             <input
@@ -2814,7 +6293,7 @@ const App = () => {
                             </button>
                           </>
                         )}
-                        <button className="btn btn-outline" type="button" onClick={() => void checkinBook(loan.bookId)}>
+                        <button className="btn btn-outline" type="button" onClick={() => void checkinBook(loan.id)}>
                           Check in
                         </button>
                       </div>
@@ -2850,6 +6329,42 @@ const App = () => {
                           <p className="muted">{`Borrower level: L${getLevelInfo(request.user.readingPoints).levelNumber}`}</p>
                         </div>
                         <div className="row-actions">
+                          <select
+                            value={declineDrafts[request.id]?.reason ?? ""}
+                            aria-label={`Decline reason for ${request.book.title}`}
+                            onChange={(event) =>
+                              setDeclineDrafts((current) => ({
+                                ...current,
+                                [request.id]: {
+                                  reason: event.target.value as DeclineReason | "",
+                                  note: current[request.id]?.note ?? ""
+                                }
+                              }))
+                            }
+                          >
+                            <option value="">Decline reason...</option>
+                            {(Object.keys(declineReasonLabels) as Array<DeclineReason | "UNSPECIFIED">)
+                              .filter((reason): reason is DeclineReason => reason !== "UNSPECIFIED")
+                              .map((reason) => (
+                                <option key={reason} value={reason}>
+                                  {declineReasonLabels[reason]}
+                                </option>
+                              ))}
+                          </select>
+                          {declineDrafts[request.id]?.reason && (
+                            <input
+                              value={declineDrafts[request.id]?.note ?? ""}
+                              maxLength={300}
+                              placeholder="Note for the member (optional)"
+                              aria-label={`Decline note for ${request.book.title}`}
+                              onChange={(event) =>
+                                setDeclineDrafts((current) => ({
+                                  ...current,
+                                  [request.id]: { reason: current[request.id]?.reason ?? "", note: event.target.value }
+                                }))
+                              }
+                            />
+                          )}
                           <button
                             className="btn"
                             type="button"
@@ -2880,7 +6395,7 @@ const App = () => {
                           <p className="muted">{`Requested on ${new Date(request.createdAt).toLocaleDateString()}`}</p>
                           <p
                             className={
-                              request.status === "DECLINED"
+                              request.status === "DECLINED" || request.status === "EXPIRED"
                                 ? "overdue-text"
                                 : request.status === "APPROVED"
                                   ? "notice"
@@ -2889,6 +6404,13 @@ const App = () => {
                           >
                             Status: {request.status}
                           </p>
+                          {request.status === "DECLINED" && request.declineReason && (
+                            <p className="muted">
+                              {`Reason: ${declineReasonLabels[request.declineReason]}${
+                                request.declineNote ? ` - ${request.declineNote}` : ""
+                              }`}
+                            </p>
+                          )}
                         </div>
                       </li>
                     ))}
@@ -2897,6 +6419,163 @@ const App = () => {
               </section>
             </section>
 
+            <section className="panel" aria-labelledby="holds-title">
+              <div className="panel-head">
+                <h2 id="holds-title">{user.role === "ADMIN" ? "Hold queue" : "My holds"}</h2>
+                <button className="btn btn-outline" type="button" onClick={() => void loadHolds()} disabled={holdsLoading}>
+                  {holdsLoading ? "Refreshing..." : "Refresh"}
+                </button>
+              </div>
+              <ul className="stack-list">
+                {holds.length === 0 && <li className="muted">No active holds.</li>}
+                {holds.map((hold) => (
+                  <li key={hold.id} className="row-item">
+                    <div>
+                      <strong>{hold.book.title}</strong>
+                      {user.role === "ADMIN" && <p className="muted">Held for {hold.user.name}</p>}
+                      {hold.status === "READY" ? (
+                        <p className="notice">
+                          {`Copy ${hold.copy?.barcode ?? ""} ready for pickup until ${
+                            hold.pickupDeadline ? new Date(hold.pickupDeadline).toLocaleDateString() : "further notice"
+                          }`}
+                        </p>
+                      ) : (
+                        <p className="muted">{`Queue position #${hold.queuePosition ?? 1}`}</p>
+                      )}
+                      <p className="muted">{`Placed on ${new Date(hold.createdAt).toLocaleDateString()}`}</p>
+                    </div>
+                    <div className="row-actions">
+                      {hold.status === "READY" && hold.userId === user.id && (
+                        <button
+                          className="btn"
+                          type="button"
+                          disabled={checkoutPendingIds.includes(hold.bookId)}
+                          onClick={() => void checkoutBook(hold.bookId)}
+                        >
+                          {user.role === "ADMIN" ? "Borrow" : "Request"}
+                        </button>
+                      )}
+                      <button
+                        className="btn btn-outline"
+                        type="button"
+                        disabled={holdActionId === hold.id}
+                        onClick={() => void cancelHold(hold.id)}
+                      >
+                        {holdActionId === hold.id ? "Cancelling..." : "Cancel hold"}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            <section className="panel" aria-labelledby="fines-title">
+              <div className="panel-head">
+                <h2 id="fines-title">{user.role === "ADMIN" ? "Open fines" : "My fines"}</h2>
+                <button className="btn btn-outline" type="button" onClick={() => void loadFines()} disabled={finesLoading}>
+                  {finesLoading ? "Refreshing..." : "Refresh"}
+                </button>
+              </div>
+              {finesMeta && (
+                <p className={finesMeta.balanceCents > finesMeta.thresholdCents ? "overdue-text" : "muted"}>
+                  {`Unpaid balance: ${formatMoney(finesMeta.balanceCents, finesMeta.currency)}`}
+                  {user.role === "MEMBER" && finesMeta.balanceCents > finesMeta.thresholdCents
+                    ? ` - borrowing is blocked above ${formatMoney(finesMeta.thresholdCents, finesMeta.currency)}.`
+                    : ""}
+                </p>
+              )}
+              <ul className="stack-list">
+                {fines.length === 0 && <li className="muted">No fines.</li>}
+                {fines.map((fine) => {
+                  const currency = finesMeta?.currency ?? "USD";
+                  const outstandingCents = fine.amountCents - fine.paidCents;
+                  return (
+                    <li key={fine.id} className="row-item">
+                      <div>
+                        <strong>{fine.loan?.book.title ?? "Overdue fine"}</strong>
+                        {user.role === "ADMIN" && <p className="muted">{`${fine.user.name} (${fine.user.email})`}</p>}
+                        <p className="muted">
+                          {`${fine.daysOverdue} day(s) late | ${formatMoney(fine.amountCents, currency)} assessed on ${new Date(
+                            fine.createdAt
+                          ).toLocaleDateString()}`}
+                        </p>
+                        <p className={fine.status === "OPEN" ? "overdue-text" : "muted"}>
+                          {fine.status === "OPEN"
+                            ? `Outstanding: ${formatMoney(outstandingCents, currency)}`
+                            : fine.status === "PAID"
+                              ? "Paid"
+                              : `Waived${fine.waivedReason ? `: ${fine.waivedReason}` : ""}`}
+                        </p>
+                      </div>
+                      {user.role === "ADMIN" && fine.status === "OPEN" && (
+                        <div className="row-actions">
+                          <input
+                            type="number"
+                            min={0.01}
+                            step={0.01}
+                            value={finePaymentDrafts[fine.id] ?? (outstandingCents / 100).toFixed(2)}
+                            onChange={(event) =>
+                              setFinePaymentDrafts((current) => ({ ...current, [fine.id]: event.target.value }))
+                            }
+                            aria-label={`Payment amount for ${fine.user.name}`}
+                          />
+                          <button
+                            className="btn"
+                            type="button"
+                            disabled={fineActionId === fine.id}
+                            onClick={() => void recordFinePayment(fine)}
+                          >
+                            Record payment
+                          </button>
+                          <button
+                            className="btn btn-outline"
+                            type="button"
+                            disabled={fineActionId === fine.id}
+                            onClick={() => void waiveFine(fine)}
+                          >
+                            Waive
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+
+            <section className="panel" aria-labelledby="loan-history-title">
+              <div className="panel-head">
+                <h2 id="loan-history-title">Loan history</h2>
+              </div>
+              <ul className="stack-list">
+                {returnedLoans.length === 0 && <li className="muted">No returned loans yet.</li>}
+                {returnedLoans.map((loan) => (
+                  <li key={loan.id} className="row-item">
+                    <div>
+                      <strong>{loan.book.title}</strong>
+                      <p className="muted">
+                        {`${new Date(loan.checkedOutAt).toLocaleDateString()} - ${
+                          loan.returnedAt ? new Date(loan.returnedAt).toLocaleDateString() : ""
+                        }`}
+                        {user.role === "ADMIN" ? ` | ${loan.user.name}` : ""}
+                      </p>
+                      <p className="muted">
+                        {loan.renewalCount === 0
+                          ? "Not renewed"
+                          : `Renewed ${loan.renewalCount} ${loan.renewalCount === 1 ? "time" : "times"}`}
+                      </p>
+                      {openLoanHistoryId === loan.id && <LoanHistoryList events={loanHistory[loan.id]} />}
+                    </div>
+                    <div className="row-actions">
+                      <button className="btn btn-outline" type="button" onClick={() => void toggleLoanHistory(loan.id)}>
+                        {openLoanHistoryId === loan.id ? "Hide history" : "History"}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
             <section className="panel two-col" aria-label="Personalized discovery">
               <section aria-labelledby="dashboard-recommended-title">
                 <div className="panel-head">
@@ -2960,11 +6639,7 @@ const App = () => {
                           book.requestPending ? "pending" : book.available ? "available" : "unavailable"
                         }`}
                       >
-                        {book.requestPending
-                          ? "Pending approval"
-                          : book.available
-                            ? "Checked in (returned)"
-                            : "Checked out (borrowed)"}
+                        {getAvailabilityLabel(book)}
                       </p>
                     </article>
                   ))}
@@ -3001,48 +6676,432 @@ const App = () => {
                           event.preventDefault();
                           openBookDetails(book.id);
                         }
-                      }}
-                    >
-                      <BookCover book={book} className="book-cover-thumb shelf-cover" />
-                      <h3 className="shelf-title" title={book.title}>
-                        {truncateText(book.title, 100)}
-                      </h3>
-                      <div className="book-card-subhead">
-                        <p className="muted shelf-author" title={book.author}>
-                          {truncateText(book.author, 70)}
-                        </p>
-                        <div className="title-row-icons">
-                          <AiMetadataBadge book={book} />
-                          <FavoriteStarButton
-                            bookId={book.id}
-                            isFavorite={book.isFavorite}
-                            isPending={favoritePendingIds.includes(book.id)}
-                            onToggle={toggleFavoriteBook}
+                      }}
+                    >
+                      <BookCover book={book} className="book-cover-thumb shelf-cover" />
+                      <h3 className="shelf-title" title={book.title}>
+                        {truncateText(book.title, 100)}
+                      </h3>
+                      <div className="book-card-subhead">
+                        <p className="muted shelf-author" title={book.author}>
+                          {truncateText(book.author, 70)}
+                        </p>
+                        <div className="title-row-icons">
+                          <AiMetadataBadge book={book} />
+                          <FavoriteStarButton
+                            bookId={book.id}
+                            isFavorite={book.isFavorite}
+                            isPending={favoritePendingIds.includes(book.id)}
+                            onToggle={toggleFavoriteBook}
+                          />
+                        </div>
+                      </div>
+                      <BookRating book={book} />
+                      <p className="muted clamp-2 shelf-genre" title={book.genre ?? "General"}>
+                        {truncateText(book.genre ?? "General", 90)}
+                      </p>
+                      <p className="muted clamp-2 shelf-description" title={book.description ?? "No description yet."}>
+                        {truncateText(book.description ?? "No description yet.", 100)}
+                      </p>
+                      <p
+                        className={`status-pill ${
+                          book.requestPending ? "pending" : book.available ? "available" : "unavailable"
+                        }`}
+                      >
+                        {getAvailabilityLabel(book)}
+                      </p>
+                    </article>
+                  ))}
+                </div>
+              </section>
+            </section>
+
+            <section className="panel" aria-labelledby="challenges-title">
+              <div className="panel-head">
+                <h2 id="challenges-title">Challenges and badges</h2>
+              </div>
+              <ul className="stack-list">
+                {challenges.length === 0 && <li className="muted">No challenges running right now.</li>}
+                {challenges.map((challenge) => {
+                  const progress = challenge.myProgress?.progress ?? 0;
+                  return (
+                    <li key={challenge.id} className="row-item challenge-item">
+                      <div>
+                        <p>
+                          <strong>{`${challenge.badgeIcon ?? "🏅"} ${challenge.title}`}</strong>{" "}
+                          <span className="muted">
+                            {challenge.status === "upcoming"
+                              ? `Starts ${new Date(challenge.startsAt).toLocaleDateString()}`
+                              : `Ends ${new Date(challenge.endsAt).toLocaleDateString()}`}
+                          </span>
+                        </p>
+                        {challenge.description && <p className="muted">{challenge.description}</p>}
+                        <p className="muted">
+                          {`${challengeGoalLabels[challenge.goal]}${challenge.genre ? ` (${challenge.genre})` : ""}: ${Math.min(
+                            progress,
+                            challenge.target
+                          )} / ${challenge.target}`}
+                          {challenge.myProgress?.completedAt ? " · Completed" : ""}
+                        </p>
+                        <progress className="challenge-progress" max={challenge.target} value={Math.min(progress, challenge.target)} />
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+              <h3>My badges</h3>
+              {myBadges.length === 0 && <p className="muted">Return books, write reviews and finish challenges to earn badges.</p>}
+              <ul className="badge-list">
+                {myBadges.map((badge) => (
+                  <li key={badge.id} className="badge-chip" title={badge.description ?? badge.name}>
+                    <span aria-hidden="true">{badge.icon ?? "🏅"}</span>
+                    <span>{badge.name}</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            <section className="panel" aria-labelledby="reading-stats-title">
+              <div className="panel-head">
+                <h2 id="reading-stats-title">My reading stats</h2>
+                <div className="row-actions">
+                  <select
+                    value={statsYear}
+                    onChange={(event) => setStatsYear(Number(event.target.value))}
+                    aria-label="Statistics year"
+                  >
+                    {Array.from({ length: 5 }, (_, index) => new Date().getFullYear() - index).map((year) => (
+                      <option key={year} value={year}>
+                        {year}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    className="btn btn-outline"
+                    type="button"
+                    onClick={() => setShowReadingWrapped(true)}
+                    disabled={!readingStats}
+                  >
+                    {`${statsYear} in review`}
+                  </button>
+                </div>
+              </div>
+              {!readingStats && <p className="muted">Loading your reading history...</p>}
+              {readingStats && (
+                <>
+                  <div className="stats-tiles">
+                    <p>
+                      <strong>{readingStats.booksRead}</strong>
+                      <span className="muted">books read</span>
+                    </p>
+                    <p>
+                      <strong>{readingStats.pagesRead.toLocaleString()}</strong>
+                      <span className="muted">pages</span>
+                    </p>
+                    <p>
+                      <strong>{readingStats.averageLoanDays ?? "-"}</strong>
+                      <span className="muted">avg. loan days</span>
+                    </p>
+                    <p>
+                      <strong>{formatPercent(readingStats.onTimeReturnRate)}</strong>
+                      <span className="muted">returned on time</span>
+                    </p>
+                    <p>
+                      <strong>{readingStats.reviews.written}</strong>
+                      <span className="muted">reviews</span>
+                    </p>
+                  </div>
+                  <div className="month-bars" role="img" aria-label={`Books read per month in ${readingStats.year}`}>
+                    {readingStats.booksPerMonth.map((month) => {
+                      const peak = Math.max(1, ...readingStats.booksPerMonth.map((item) => item.books));
+                      return (
+                        <div key={month.month} className="month-bar" title={`${month.books} books, ${month.pages} pages`}>
+                          <span className="month-bar-fill" style={{ height: `${(month.books / peak) * 100}%` }} />
+                          <span className="month-bar-label">{monthLabels[month.month - 1]}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <div className="two-col">
+                    <div>
+                      <h3>Top genres</h3>
+                      <ol className="muted">
+                        {readingStats.topGenres.length === 0 && <li>None yet</li>}
+                        {readingStats.topGenres.map((genre) => (
+                          <li key={genre.name}>{`${genre.name} (${genre.count})`}</li>
+                        ))}
+                      </ol>
+                    </div>
+                    <div>
+                      <h3>Top authors</h3>
+                      <ol className="muted">
+                        {readingStats.topAuthors.length === 0 && <li>None yet</li>}
+                        {readingStats.topAuthors.map((author) => (
+                          <li key={author.name}>{`${author.name} (${author.count})`}</li>
+                        ))}
+                      </ol>
+                    </div>
+                  </div>
+                </>
+              )}
+            </section>
+
+            <section className="panel" aria-labelledby="leaderboard-title">
+              <div className="panel-head">
+                <h2 id="leaderboard-title">Leaderboard</h2>
+              </div>
+              <div className="leaderboard-controls">
+                <select
+                  value={leaderboardPeriod}
+                  onChange={(event) => setLeaderboardPeriod(event.target.value as LeaderboardPeriod)}
+                  aria-label="Leaderboard period"
+                >
+                  {Object.entries(leaderboardPeriodLabels).map(([period, label]) => (
+                    <option key={period} value={period}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={leaderboardGenre}
+                  onChange={(event) => setLeaderboardGenre(event.target.value)}
+                  aria-label="Leaderboard genre"
+                >
+                  <option value="">All genres</option>
+                  {(leaderboard?.meta.genres ?? []).map((genre) => (
+                    <option key={genre} value={genre}>
+                      {genre}
+                    </option>
+                  ))}
+                </select>
+                <label className="inline-check">
+                  <input
+                    type="checkbox"
+                    checked={!leaderboard?.meta.viewer?.optedOut}
+                    disabled={savingLeaderboardOptOut || !leaderboard}
+                    onChange={(event) => void toggleLeaderboardOptOut(!event.target.checked)}
+                  />
+                  Show me on leaderboards
+                </label>
+              </div>
+              {leaderboard?.meta.viewer && (
+                <p className="muted">
+                  {leaderboard.meta.viewer.optedOut
+                    ? `You are hidden from leaderboards (${leaderboard.meta.viewer.points} XP in this view).`
+                    : leaderboard.meta.viewer.rank
+                    ? `You are #${leaderboard.meta.viewer.rank} with ${leaderboard.meta.viewer.points} XP.`
+                    : "Return a book to get on this board."}
+                </p>
+              )}
+              {leaderboardLoading && <p className="muted">Loading leaderboard...</p>}
+              <ol className="stack-list leaderboard-list">
+                {!leaderboardLoading && leaderboard?.data.length === 0 && <li className="muted">No points earned yet.</li>}
+                {leaderboard?.data.map((entry) => (
+                  <li
+                    key={entry.userId}
+                    className={`row-item leaderboard-row${entry.userId === user.id ? " is-viewer" : ""}`}
+                  >
+                    <span className="leaderboard-rank">{`#${entry.rank}`}</span>
+                    <span className="leaderboard-name">
+                      <strong>{entry.name}</strong> <span className="muted">{`L${entry.levelNumber}`}</span>
+                    </span>
+                    <span>{`${entry.points} XP`}</span>
+                  </li>
+                ))}
+              </ol>
+            </section>
+
+            <section className="panel" aria-labelledby="shelves-title">
+              <div className="panel-head">
+                <h2 id="shelves-title">My shelves</h2>
+              </div>
+              <p className="muted">
+                Group books into named lists, add a note to each pick and share a shelf by link. Favorites is the
+                shelf behind the star.
+              </p>
+              <form
+                className="shelf-create-form"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  void createShelf();
+                }}
+              >
+                <input
+                  value={shelfForm.name}
+                  maxLength={80}
+                  onChange={(event) => setShelfForm((current) => ({ ...current, name: event.target.value }))}
+                  placeholder="New shelf name"
+                  aria-label="New shelf name"
+                />
+                <input
+                  value={shelfForm.description}
+                  maxLength={500}
+                  onChange={(event) => setShelfForm((current) => ({ ...current, description: event.target.value }))}
+                  placeholder="Description (optional)"
+                  aria-label="Shelf description"
+                />
+                <select
+                  value={shelfForm.visibility}
+                  onChange={(event) =>
+                    setShelfForm((current) => ({ ...current, visibility: event.target.value as ShelfVisibility }))
+                  }
+                  aria-label="Shelf visibility"
+                >
+                  <option value="PRIVATE">Private</option>
+                  <option value="SHARED">Anyone with the link</option>
+                </select>
+                <button className="btn" type="submit" disabled={savingShelf}>
+                  {savingShelf ? "Creating..." : "Create shelf"}
+                </button>
+              </form>
+              {shelfFeedback && <p className="muted">{shelfFeedback}</p>}
+
+              <ul className="stack-list">
+                {shelves.length === 0 && <li className="muted">No shelves yet.</li>}
+                {shelves.map((shelf, index) => (
+                  <li key={shelf.id} className="row-item shelf-row">
+                    <div>
+                      <p>
+                        <strong>{shelf.name}</strong>{" "}
+                        <span className="muted">
+                          {`${shelf.entryCount} ${shelf.entryCount === 1 ? "book" : "books"} · ${
+                            shelf.visibility === "SHARED" ? "Shared by link" : "Private"
+                          }`}
+                        </span>
+                      </p>
+                      {shelf.description && <p className="muted">{shelf.description}</p>}
+                      {shelf.previewBooks.length > 0 && (
+                        <p className="muted">{shelf.previewBooks.map((book) => truncateText(book.title, 40)).join(" · ")}</p>
+                      )}
+                    </div>
+                    <div className="row-actions">
+                      <button
+                        className="btn btn-outline"
+                        type="button"
+                        onClick={() => void moveShelf(shelf.id, -1)}
+                        disabled={index === 0}
+                        aria-label={`Move ${shelf.name} up`}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        className="btn btn-outline"
+                        type="button"
+                        onClick={() => void moveShelf(shelf.id, 1)}
+                        disabled={index === shelves.length - 1}
+                        aria-label={`Move ${shelf.name} down`}
+                      >
+                        ↓
+                      </button>
+                      <button
+                        className="btn btn-outline"
+                        type="button"
+                        onClick={() => void openShelfDetails(shelf.id)}
+                        disabled={shelfActionId === shelf.id}
+                      >
+                        {openShelf?.id === shelf.id ? "Close" : "Open"}
+                      </button>
+                      <button
+                        className="btn btn-outline"
+                        type="button"
+                        onClick={() =>
+                          void updateShelf(shelf, { visibility: shelf.visibility === "SHARED" ? "PRIVATE" : "SHARED" })
+                        }
+                        disabled={shelfActionId === shelf.id}
+                      >
+                        {shelf.visibility === "SHARED" ? "Make private" : "Share"}
+                      </button>
+                      {shelf.shareToken && (
+                        <button className="btn btn-outline" type="button" onClick={() => void copyShelfLink(shelf)}>
+                          Copy link
+                        </button>
+                      )}
+                      {!shelf.systemKey && (
+                        <>
+                          <button className="btn btn-outline" type="button" onClick={() => void renameShelf(shelf)}>
+                            Rename
+                          </button>
+                          <button
+                            className="btn btn-outline"
+                            type="button"
+                            onClick={() => void deleteShelf(shelf)}
+                            disabled={shelfActionId === shelf.id}
+                          >
+                            Delete
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              {openShelf && (
+                <section className="shelf-details" aria-labelledby="open-shelf-title">
+                  <h3 id="open-shelf-title">{openShelf.name}</h3>
+                  <ul className="stack-list shelf-entry-list">
+                    {openShelf.entries.length === 0 && (
+                      <li className="muted">No books yet. Use the shelf checkboxes on a book page to add some.</li>
+                    )}
+                    {openShelf.entries.map((entry, index) => (
+                      <li key={entry.id} className="row-item shelf-entry">
+                        <div>
+                          <button className="link-button" type="button" onClick={() => openBookDetails(entry.book.id)}>
+                            {entry.book.title}
+                          </button>
+                          <p className="muted">{entry.book.author}</p>
+                          <textarea
+                            rows={2}
+                            maxLength={1000}
+                            value={shelfEntryNotes[entry.id] ?? ""}
+                            onChange={(event) =>
+                              setShelfEntryNotes((current) => ({ ...current, [entry.id]: event.target.value }))
+                            }
+                            placeholder="Why this book is on the shelf..."
+                            aria-label={`Note for ${entry.book.title}`}
                           />
                         </div>
-                      </div>
-                      <BookRating book={book} />
-                      <p className="muted clamp-2 shelf-genre" title={book.genre ?? "General"}>
-                        {truncateText(book.genre ?? "General", 90)}
-                      </p>
-                      <p className="muted clamp-2 shelf-description" title={book.description ?? "No description yet."}>
-                        {truncateText(book.description ?? "No description yet.", 100)}
-                      </p>
-                      <p
-                        className={`status-pill ${
-                          book.requestPending ? "pending" : book.available ? "available" : "unavailable"
-                        }`}
-                      >
-                        {book.requestPending
-                          ? "Pending approval"
-                          : book.available
-                            ? "Checked in (returned)"
-                            : "Checked out (borrowed)"}
-                      </p>
-                    </article>
-                  ))}
-                </div>
-              </section>
+                        <div className="row-actions">
+                          <button
+                            className="btn btn-outline"
+                            type="button"
+                            onClick={() => void moveShelfEntry(entry.id, -1)}
+                            disabled={index === 0}
+                            aria-label={`Move ${entry.book.title} up`}
+                          >
+                            ↑
+                          </button>
+                          <button
+                            className="btn btn-outline"
+                            type="button"
+                            onClick={() => void moveShelfEntry(entry.id, 1)}
+                            disabled={index === openShelf.entries.length - 1}
+                            aria-label={`Move ${entry.book.title} down`}
+                          >
+                            ↓
+                          </button>
+                          <button
+                            className="btn btn-outline"
+                            type="button"
+                            onClick={() => void saveShelfEntryNote(entry)}
+                            disabled={shelfActionId === entry.id || (shelfEntryNotes[entry.id] ?? "") === (entry.note ?? "")}
+                          >
+                            Save note
+                          </button>
+                          <button
+                            className="btn btn-outline"
+                            type="button"
+                            onClick={() => void removeShelfEntry(entry)}
+                            disabled={shelfActionId === entry.id}
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
             </section>
           </>
         )}
@@ -3142,75 +7201,681 @@ const App = () => {
                     ))}
                   </div>
                 </div>
-              </div>
-              <div className="row-actions">
-                <button className="btn" type="button" onClick={() => void saveAppearancePreferences()} disabled={savingAppearance}>
-                  {savingAppearance ? "Saving..." : "Save appearance"}
-                </button>
-              </div>
-            </section>
-          </>
+              </div>
+              <div className="row-actions">
+                <button className="btn" type="button" onClick={() => void saveAppearancePreferences()} disabled={savingAppearance}>
+                  {savingAppearance ? "Saving..." : "Save appearance"}
+                </button>
+              </div>
+            </section>
+
+            <section className="panel" aria-labelledby="email-notifications-title">
+              <div className="panel-head">
+                <h2 id="email-notifications-title">Email notifications</h2>
+              </div>
+              <p className="muted">Emails are sent to {user.contactEmail ?? user.email}.</p>
+              {!notificationPreferences && <p className="muted">Loading notification settings...</p>}
+              {notificationPreferences && (
+                <ul className="stack-list toggle-list">
+                  {emailNotificationOptions.map(([field, label]) => (
+                    <li key={field}>
+                      <label>
+                        <input
+                          type="checkbox"
+                          checked={notificationPreferences[field]}
+                          disabled={savingNotificationPreference}
+                          onChange={(event) => void updateNotificationPreference(field, event.target.checked)}
+                        />
+                        {label}
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="panel" aria-labelledby="push-notifications-title">
+              <div className="panel-head">
+                <h2 id="push-notifications-title">Push notifications on this device</h2>
+              </div>
+              <p className="muted">{pushStatusDescriptions[pushStatus]}</p>
+              {(pushStatus === "off" || pushStatus === "on") && (
+                <div className="row-actions">
+                  {pushStatus === "off" ? (
+                    <button className="btn" type="button" onClick={() => void enablePushNotifications()} disabled={savingPush}>
+                      {savingPush ? "Enabling..." : "Enable push notifications"}
+                    </button>
+                  ) : (
+                    <button className="btn btn-outline" type="button" onClick={() => void disablePushNotifications()} disabled={savingPush}>
+                      {savingPush ? "Turning off..." : "Turn off on this device"}
+                    </button>
+                  )}
+                </div>
+              )}
+            </section>
+          </>
+        )}
+
+        {viewMode === "dashboard" && user?.role === "ADMIN" && (
+          <section className="panel" aria-labelledby="analytics-title">
+            <div className="panel-head">
+              <h2 id="analytics-title">Circulation analytics</h2>
+            </div>
+            <form
+              className="leaderboard-controls"
+              onSubmit={(event) => {
+                event.preventDefault();
+                void loadAnalytics(analyticsRange);
+              }}
+            >
+              <label>
+                From
+                <input
+                  type="date"
+                  value={analyticsRange.from}
+                  onChange={(event) => setAnalyticsRange((current) => ({ ...current, from: event.target.value }))}
+                />
+              </label>
+              <label>
+                To
+                <input
+                  type="date"
+                  value={analyticsRange.to}
+                  onChange={(event) => setAnalyticsRange((current) => ({ ...current, to: event.target.value }))}
+                />
+              </label>
+              <select
+                value={analyticsRange.granularity}
+                aria-label="Chart granularity"
+                onChange={(event) =>
+                  setAnalyticsRange((current) => ({ ...current, granularity: event.target.value as AnalyticsGranularity }))
+                }
+              >
+                <option value="day">Per day</option>
+                <option value="week">Per week</option>
+              </select>
+              <button className="btn btn-outline" type="submit" disabled={analyticsLoading}>
+                {analyticsLoading ? "Loading..." : "Apply"}
+              </button>
+            </form>
+            {!analytics && <p className="muted">{analyticsLoading ? "Loading analytics..." : "No analytics loaded."}</p>}
+            {analytics && (
+              <>
+                <div className="stats-tiles">
+                  <p>
+                    <strong>{analytics.totals.checkouts}</strong>
+                    <span className="muted">checkouts</span>
+                  </p>
+                  <p>
+                    <strong>{analytics.totals.returns}</strong>
+                    <span className="muted">returns</span>
+                  </p>
+                  <p>
+                    <strong>{analytics.members.activeMembers}</strong>
+                    <span className="muted">active members</span>
+                  </p>
+                  <p>
+                    <strong>{analytics.members.newMembers}</strong>
+                    <span className="muted">new members</span>
+                  </p>
+                  <p>
+                    <strong>{formatPercent(analytics.overdue.rate)}</strong>
+                    <span className="muted">{`returned late (${analytics.overdue.currentlyOverdue} overdue now)`}</span>
+                  </p>
+                  <p>
+                    <strong>
+                      {analytics.requests.averageApprovalHours === null ? "-" : `${analytics.requests.averageApprovalHours}h`}
+                    </strong>
+                    <span className="muted">{`avg. time to approve (${analytics.requests.approved} approved)`}</span>
+                  </p>
+                </div>
+                <h3>{analyticsRange.granularity === "week" ? "Checkouts per week" : "Checkouts per day"}</h3>
+                <div className="trend-bars" role="img" aria-label="Checkouts over the selected range">
+                  {analytics.series.map((bucket) => {
+                    const peak = Math.max(1, ...analytics.series.map((item) => item.checkouts));
+                    return (
+                      <span
+                        key={bucket.bucket}
+                        className="trend-bar"
+                        title={`${bucket.bucket}: ${bucket.checkouts} checkouts, ${bucket.returns} returns`}
+                        style={{ height: `${(bucket.checkouts / peak) * 100}%` }}
+                      />
+                    );
+                  })}
+                </div>
+                {analytics.series.length > 0 && (
+                  <p className="muted trend-axis">
+                    <span>{analytics.series[0].bucket}</span>
+                    <span>{analytics.series[analytics.series.length - 1].bucket}</span>
+                  </p>
+                )}
+                <div className="two-col">
+                  <div>
+                    <h3>Most borrowed titles</h3>
+                    <ol className="share-bars">
+                      {analytics.topTitles.length === 0 && <li className="muted">No checkouts in this range.</li>}
+                      {analytics.topTitles.map((book) => (
+                        <li key={book.id}>
+                          <span>{`${book.title} - ${book.author} (${book.checkouts})`}</span>
+                          <span
+                            className="share-bar-fill"
+                            style={{ width: `${(book.checkouts / Math.max(1, analytics.topTitles[0].checkouts)) * 100}%` }}
+                          />
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                  <div>
+                    <h3>Most borrowed genres</h3>
+                    <ol className="share-bars">
+                      {analytics.topGenres.length === 0 && <li className="muted">No checkouts in this range.</li>}
+                      {analytics.topGenres.map((genre) => (
+                        <li key={genre.name}>
+                          <span>{`${genre.name} (${genre.checkouts})`}</span>
+                          <span
+                            className="share-bar-fill"
+                            style={{ width: `${(genre.checkouts / Math.max(1, analytics.topGenres[0].checkouts)) * 100}%` }}
+                          />
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                  <div>
+                    <h3>{`Decline reasons (${analytics.requests.declined} declined)`}</h3>
+                    <ol className="share-bars">
+                      {analytics.requests.declineReasons.length === 0 && (
+                        <li className="muted">No requests declined in this range.</li>
+                      )}
+                      {analytics.requests.declineReasons.map((entry) => (
+                        <li key={entry.reason}>
+                          <span>{`${declineReasonLabels[entry.reason]} (${entry.count})`}</span>
+                          <span
+                            className="share-bar-fill"
+                            style={{ width: `${(entry.count / Math.max(1, analytics.requests.declined)) * 100}%` }}
+                          />
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                  <div>
+                    <h3>{`Never borrowed (${analytics.neverBorrowed.count} titles)`}</h3>
+                    <ul className="muted">
+                      {analytics.neverBorrowed.books.length === 0 && <li>Every title has been borrowed.</li>}
+                      {analytics.neverBorrowed.books.map((book) => (
+                        <li key={book.id}>
+                          {`${book.title} - ${book.author}, added ${new Date(book.createdAt).toLocaleDateString()}`}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              </>
+            )}
+          </section>
+        )}
+
+        {viewMode === "dashboard" && user?.role === "ADMIN" && (
+          <section className="panel import-box" aria-labelledby="import-title">
+            <h2 id="import-title">Import books for testing</h2>
+            <p className="muted">
+              Import now automatically runs core auto-fill (rating/genre/covers/author) right after import.
+            </p>
+            <div className="import-grid">
+              <label>
+                Query
+                <input value={importQuery} onChange={(event) => setImportQuery(event.target.value)} />
+              </label>
+              <label>
+                Limit (1-300)
+                <input
+                  type="number"
+                  min={1}
+                  max={300}
+                  value={importLimit}
+                  onChange={(event) => setImportLimit(event.target.value)}
+                />
+              </label>
+              <label>
+                Source
+                <select
+                  value={importProvider}
+                  onChange={(event) => setImportProvider(event.target.value as ImportProvider)}
+                >
+                  <option value="auto">Auto (Open Library then Google fallback)</option>
+                  <option value="openlibrary">Open Library only</option>
+                  <option value="google">Google Books only</option>
+                </select>
+              </label>
+              <button
+                className="btn"
+                type="button"
+                onClick={() => void importFromExternal()}
+                disabled={importingExternal || enrichingCoreMetadata}
+              >
+                {importingExternal || enrichingCoreMetadata ? "Importing + auto-filling..." : "Import + auto-fill core"}
+              </button>
+            </div>
+            <div className="import-actions">
+              <label>
+                Enrich limit (1-500)
+                <input
+                  type="number"
+                  min={1}
+                  max={500}
+                  value={enrichLimit}
+                  onChange={(event) => setEnrichLimit(event.target.value)}
+                />
+              </label>
+              <button
+                className="btn btn-outline"
+                type="button"
+                onClick={() => void enrichLibraryMetadata()}
+                disabled={enrichingMetadata}
+              >
+                {enrichingMetadata ? "Enriching..." : "Enrich full metadata"}
+              </button>
+            </div>
+          </section>
+        )}
+
+        {viewMode === "dashboard" && user?.role === "ADMIN" && (
+          <section className="panel" aria-labelledby="catalog-file-import-title">
+            <div className="panel-head">
+              <h2 id="catalog-file-import-title">Import catalog file</h2>
+            </div>
+            <p className="muted">
+              Upload a spreadsheet export (CSV) or MARC21 / MARCXML records. Preview first to check mapping and row errors;
+              books with an ISBN already in the catalog are skipped.
+            </p>
+            <div className="editor-grid">
+              <label>
+                File
+                <input
+                  type="file"
+                  accept=".csv,.txt,.xml,.mrc,.marc"
+                  onChange={(event) => chooseCatalogFile(event.target.files?.[0] ?? null)}
+                />
+              </label>
+              <label>
+                Format
+                <select
+                  value={catalogFormat}
+                  onChange={(event) => {
+                    setCatalogFormat(event.target.value as CatalogImportFormat);
+                    setCatalogPreview(null);
+                  }}
+                >
+                  <option value="csv">CSV</option>
+                  <option value="marc">MARC21 (.mrc)</option>
+                  <option value="marcxml">MARCXML</option>
+                </select>
+              </label>
+              <label>
+                Copies per book (when not in file)
+                <input
+                  type="number"
+                  min={0}
+                  max={50}
+                  value={catalogDefaultCopies}
+                  onChange={(event) => setCatalogDefaultCopies(event.target.value)}
+                />
+              </label>
+              {catalogFormat === "csv" &&
+                (catalogPreview?.meta.headers.length ?? 0) > 0 &&
+                catalogImportFields.map(([field, label]) => (
+                  <label key={field}>
+                    {label} column
+                    <select
+                      value={catalogMapping[field] ?? ""}
+                      onChange={(event) =>
+                        setCatalogMapping((current) => {
+                          const next = { ...current };
+                          if (event.target.value) {
+                            next[field] = event.target.value;
+                          } else {
+                            delete next[field];
+                          }
+                          return next;
+                        })
+                      }
+                    >
+                      <option value="">Not imported</option>
+                      {catalogPreview?.meta.headers.map((header) => (
+                        <option key={header} value={header}>
+                          {header}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+            </div>
+            <div className="row-actions">
+              <button
+                className="btn btn-outline"
+                type="button"
+                disabled={!catalogFile || catalogImporting}
+                onClick={() => void submitCatalogImport(true)}
+              >
+                {catalogImporting ? "Working..." : "Preview"}
+              </button>
+              {catalogPreview?.meta.dryRun && (
+                <>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={catalogSkipInvalid}
+                      onChange={(event) => setCatalogSkipInvalid(event.target.checked)}
+                    />{" "}
+                    Skip invalid rows
+                  </label>
+                  <button
+                    className="btn"
+                    type="button"
+                    disabled={
+                      catalogImporting ||
+                      catalogPreview.meta.summary.toCreate === 0 ||
+                      (catalogPreview.meta.summary.invalid > 0 && !catalogSkipInvalid)
+                    }
+                    onClick={() => void submitCatalogImport(false)}
+                  >
+                    {`Import ${catalogPreview.meta.summary.toCreate} book(s)`}
+                  </button>
+                </>
+              )}
+            </div>
+            {catalogPreview && (
+              <>
+                <p className="muted">
+                  {`${catalogPreview.meta.summary.total} record(s): ${catalogPreview.meta.summary.toCreate} new, ${catalogPreview.meta.summary.existing} already in catalog, ${catalogPreview.meta.summary.duplicates} duplicate, ${catalogPreview.meta.summary.invalid} invalid.`}
+                </p>
+                <div className="table-wrap">
+                  <table>
+                    <caption className="sr-only">Import preview</caption>
+                    <thead>
+                      <tr>
+                        <th>Row</th>
+                        <th>Title</th>
+                        <th>Author</th>
+                        <th>ISBN</th>
+                        <th>Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {catalogPreview.data.slice(0, 200).map((row) => (
+                        <tr key={row.row}>
+                          <td>{row.row}</td>
+                          <td>{row.values.title ?? "-"}</td>
+                          <td>{row.values.author ?? "-"}</td>
+                          <td>{row.values.isbn ?? "-"}</td>
+                          <td className={row.status === "invalid" ? "overdue-text" : row.status === "create" ? "" : "muted"}>
+                            {catalogImportStatusLabels[row.status]}
+                            {row.errors.length > 0 ? `: ${row.errors.join("; ")}` : ""}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {catalogPreview.data.length > 200 && (
+                  <p className="muted">{`Showing the first 200 of ${catalogPreview.data.length} rows.`}</p>
+                )}
+              </>
+            )}
+          </section>
         )}
 
         {viewMode === "dashboard" && user?.role === "ADMIN" && (
-          <section className="panel import-box" aria-labelledby="import-title">
-            <h2 id="import-title">Import books for testing</h2>
+          <section className="panel" aria-labelledby="catalog-export-title">
+            <div className="panel-head">
+              <h2 id="catalog-export-title">Export catalog</h2>
+            </div>
             <p className="muted">
-              Import now automatically runs core auto-fill (rating/genre/covers/author) right after import.
+              Download every book with its metadata, current availability and review totals for backups or other systems.
             </p>
-            <div className="import-grid">
+            <div className="row-actions">
               <label>
-                Query
-                <input value={importQuery} onChange={(event) => setImportQuery(event.target.value)} />
+                Format{" "}
+                <select
+                  value={catalogExportFormat}
+                  onChange={(event) => setCatalogExportFormat(event.target.value as CatalogExportFormat)}
+                >
+                  <option value="csv">CSV</option>
+                  <option value="json">JSON</option>
+                  <option value="marcxml">MARCXML</option>
+                </select>
               </label>
               <label>
-                Limit (1-300)
                 <input
-                  type="number"
-                  min={1}
-                  max={300}
-                  value={importLimit}
-                  onChange={(event) => setImportLimit(event.target.value)}
-                />
+                  type="checkbox"
+                  checked={catalogExportFiltered}
+                  onChange={(event) => setCatalogExportFiltered(event.target.checked)}
+                />{" "}
+                Only books matching the current catalog search
               </label>
+              <button className="btn" type="button" disabled={catalogExporting} onClick={() => void exportCatalog()}>
+                {catalogExporting ? "Exporting..." : "Export"}
+              </button>
+            </div>
+          </section>
+        )}
+
+        {viewMode === "dashboard" && user?.role === "ADMIN" && (
+          <section className="panel" aria-labelledby="circulation-policies-title">
+            <div className="panel-head">
+              <h2 id="circulation-policies-title">Circulation policies</h2>
+            </div>
+            <p className="muted">
+              The most specific policy applies: role and genre, then genre, then role, then the catch-all policy.
+              {defaultCirculationRules &&
+                ` Without a catch-all policy: ${defaultCirculationRules.maxActiveLoans} loans, ${defaultCirculationRules.minLoanDays}-${defaultCirculationRules.maxLoanDays} days, ${defaultCirculationRules.maxRenewals} renewals.`}
+            </p>
+            <ul className="stack-list">
+              {circulationPolicies.length === 0 && <li className="muted">No custom policies yet.</li>}
+              {circulationPolicies.map((policy) => (
+                <li key={policy.id} className="row-item">
+                  <div>
+                    <strong>{`${policy.role ?? "Any role"} | ${policy.genre ?? "Any genre"}`}</strong>
+                    <p className="muted">
+                      {`${policy.maxActiveLoans} loans | ${policy.minLoanDays}-${policy.maxLoanDays} days (default ${policy.defaultLoanDays}) | ${policy.maxRenewals} renewals`}
+                    </p>
+                    <p className="muted">
+                      {`Grace ${policy.gracePeriodDays} day(s) | fine ${formatMoney(policy.fineDailyRateCents, finesMeta?.currency ?? "USD")} per day`}
+                    </p>
+                  </div>
+                  <div className="row-actions">
+                    <button className="btn btn-outline" type="button" onClick={() => editCirculationPolicy(policy)}>
+                      Edit
+                    </button>
+                    <button className="btn btn-outline" type="button" onClick={() => void deleteCirculationPolicy(policy)}>
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+            <div className="editor-grid">
               <label>
-                Source
+                Role
                 <select
-                  value={importProvider}
-                  onChange={(event) => setImportProvider(event.target.value as ImportProvider)}
+                  value={policyForm.role}
+                  disabled={Boolean(editingPolicyId)}
+                  onChange={(event) => setPolicyForm((current) => ({ ...current, role: event.target.value }))}
                 >
-                  <option value="auto">Auto (Open Library then Google fallback)</option>
-                  <option value="openlibrary">Open Library only</option>
-                  <option value="google">Google Books only</option>
+                  <option value="">Any role</option>
+                  <option value="MEMBER">Member</option>
+                  <option value="ADMIN">Admin</option>
                 </select>
               </label>
-              <button
-                className="btn"
-                type="button"
-                onClick={() => void importFromExternal()}
-                disabled={importingExternal || enrichingCoreMetadata}
-              >
-                {importingExternal || enrichingCoreMetadata ? "Importing + auto-filling..." : "Import + auto-fill core"}
+              <label>
+                Genre
+                <input
+                  value={policyForm.genre}
+                  disabled={Boolean(editingPolicyId)}
+                  placeholder="Any genre"
+                  onChange={(event) => setPolicyForm((current) => ({ ...current, genre: event.target.value }))}
+                />
+              </label>
+              {(
+                [
+                  ["maxActiveLoans", "Max active loans"],
+                  ["minLoanDays", "Minimum loan days"],
+                  ["defaultLoanDays", "Default loan days"],
+                  ["maxLoanDays", "Maximum loan days"],
+                  ["maxRenewals", "Max renewals"],
+                  ["gracePeriodDays", "Grace period days"],
+                  ["fineDailyRate", "Fine per overdue day"]
+                ] as const
+              ).map(([field, label]) => (
+                <label key={field}>
+                  {label}
+                  <input
+                    type="number"
+                    min={0}
+                    step={field === "fineDailyRate" ? 0.01 : 1}
+                    value={policyForm[field]}
+                    onChange={(event) => setPolicyForm((current) => ({ ...current, [field]: event.target.value }))}
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="row-actions">
+              <button className="btn" type="button" disabled={savingPolicy} onClick={() => void saveCirculationPolicy()}>
+                {savingPolicy ? "Saving..." : editingPolicyId ? "Save policy" : "Add policy"}
               </button>
+              {editingPolicyId && (
+                <button className="btn btn-outline" type="button" onClick={resetPolicyForm}>
+                  Cancel
+                </button>
+              )}
             </div>
-            <div className="import-actions">
+          </section>
+        )}
+
+        {viewMode === "dashboard" && user?.role === "ADMIN" && (
+          <section className="panel" aria-labelledby="admin-challenges-title">
+            <div className="panel-head">
+              <h2 id="admin-challenges-title">Reading challenges</h2>
+            </div>
+            <p className="muted">
+              Progress counts returns and reviews inside the challenge dates. Finishing a challenge awards its badge.
+            </p>
+            <ul className="stack-list">
+              {challenges.length === 0 && <li className="muted">No current or upcoming challenges.</li>}
+              {challenges.map((challenge) => (
+                <li key={challenge.id} className="row-item">
+                  <div>
+                    <strong>{`${challenge.badgeIcon ?? "🏅"} ${challenge.title}`}</strong>
+                    <p className="muted">
+                      {`${challengeGoalLabels[challenge.goal]}: ${challenge.target}${
+                        challenge.genre ? ` in ${challenge.genre}` : ""
+                      } | ${new Date(challenge.startsAt).toLocaleDateString()} - ${new Date(
+                        challenge.endsAt
+                      ).toLocaleDateString()} | ${challenge.completedCount} completed`}
+                    </p>
+                  </div>
+                  <div className="row-actions">
+                    <button className="btn btn-outline" type="button" onClick={() => void deleteChallenge(challenge)}>
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+            <div className="editor-grid">
               <label>
-                Enrich limit (1-500)
+                Title
+                <input
+                  value={challengeForm.title}
+                  maxLength={120}
+                  placeholder="Read 5 mystery books in March"
+                  onChange={(event) => setChallengeForm((current) => ({ ...current, title: event.target.value }))}
+                />
+              </label>
+              <label>
+                Goal
+                <select
+                  value={challengeForm.goal}
+                  onChange={(event) =>
+                    setChallengeForm((current) => ({ ...current, goal: event.target.value as ChallengeGoal }))
+                  }
+                >
+                  {Object.entries(challengeGoalLabels).map(([goal, label]) => (
+                    <option key={goal} value={goal}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Target
                 <input
                   type="number"
                   min={1}
                   max={500}
-                  value={enrichLimit}
-                  onChange={(event) => setEnrichLimit(event.target.value)}
+                  value={challengeForm.target}
+                  onChange={(event) => setChallengeForm((current) => ({ ...current, target: event.target.value }))}
+                />
+              </label>
+              <label>
+                Genre
+                <input
+                  value={challengeForm.genre}
+                  disabled={challengeForm.goal === "NEW_GENRES"}
+                  placeholder="Any genre"
+                  onChange={(event) => setChallengeForm((current) => ({ ...current, genre: event.target.value }))}
                 />
               </label>
+              <label>
+                Starts
+                <input
+                  type="date"
+                  value={challengeForm.startsAt}
+                  onChange={(event) => setChallengeForm((current) => ({ ...current, startsAt: event.target.value }))}
+                />
+              </label>
+              <label>
+                Ends
+                <input
+                  type="date"
+                  value={challengeForm.endsAt}
+                  onChange={(event) => setChallengeForm((current) => ({ ...current, endsAt: event.target.value }))}
+                />
+              </label>
+              <label>
+                Badge name
+                <input
+                  value={challengeForm.badgeName}
+                  maxLength={60}
+                  placeholder="Same as title"
+                  onChange={(event) => setChallengeForm((current) => ({ ...current, badgeName: event.target.value }))}
+                />
+              </label>
+              <label>
+                Badge icon
+                <input
+                  value={challengeForm.badgeIcon}
+                  maxLength={16}
+                  placeholder="🏅"
+                  onChange={(event) => setChallengeForm((current) => ({ ...current, badgeIcon: event.target.value }))}
+                />
+              </label>
+              <label>
+                Description
+                <input
+                  value={challengeForm.description}
+                  maxLength={1000}
+                  onChange={(event) => setChallengeForm((current) => ({ ...current, description: event.target.value }))}
+                />
+              </label>
+            </div>
+            <div className="row-actions">
               <button
-                className="btn btn-outline"
+                className="btn"
                 type="button"
-                onClick={() => void enrichLibraryMetadata()}
-                disabled={enrichingMetadata}
+                disabled={savingChallenge || !challengeForm.title.trim()}
+                onClick={() => void createChallenge()}
               >
-                {enrichingMetadata ? "Enriching..." : "Enrich full metadata"}
+                {savingChallenge ? "Creating..." : "Create challenge"}
               </button>
             </div>
           </section>
@@ -3235,6 +7900,191 @@ const App = () => {
           </section>
         )}
 
+        {viewMode === "dashboard" && user?.role === "ADMIN" && (
+          <section className="panel" aria-labelledby="background-jobs-title">
+            <div className="panel-head">
+              <h2 id="background-jobs-title">Background jobs</h2>
+              <button className="btn btn-outline" type="button" onClick={() => void loadScheduledJobs()}>
+                Refresh
+              </button>
+            </div>
+            {!schedulerEnabled && (
+              <p className="overdue-text">The scheduler is disabled on this server (JOBS_ENABLED=false).</p>
+            )}
+            <ul className="stack-list">
+              {scheduledJobs.length === 0 && <li className="muted">No jobs registered.</li>}
+              {scheduledJobs.map((job) => {
+                const isBusy = jobActionName === job.name;
+                const isRunning = Boolean(job.lockedUntil && new Date(job.lockedUntil) > new Date());
+                return (
+                  <li key={job.name} className="row-item">
+                    <div>
+                      <strong>{job.name}</strong>
+                      <p className="muted">
+                        {job.description} {job.schedule}.
+                      </p>
+                      <p className={job.lastStatus === "FAILED" ? "overdue-text" : "muted"}>
+                        {isRunning
+                          ? "Running now"
+                          : job.lastFinishedAt
+                            ? `Last run ${new Date(job.lastFinishedAt).toLocaleString()} (${job.lastStatus?.toLowerCase()})`
+                            : "Not run yet"}
+                        {job.lastStatus === "FAILED" && job.lastError ? `: ${job.lastError}` : ""}
+                      </p>
+                      <p className="muted">
+                        {job.enabled ? `Next run ${new Date(job.nextRunAt).toLocaleString()}` : "Paused"}
+                        {job.consecutiveFailures > 0 ? ` - retry ${job.consecutiveFailures}` : ""}
+                      </p>
+                    </div>
+                    <div className="row-actions">
+                      <button
+                        className="btn"
+                        type="button"
+                        disabled={isBusy || isRunning}
+                        onClick={() => void runScheduledJob(job)}
+                      >
+                        {isBusy ? "Working..." : "Run now"}
+                      </button>
+                      <button
+                        className="btn btn-outline"
+                        type="button"
+                        disabled={isBusy}
+                        onClick={() => void toggleScheduledJob(job)}
+                      >
+                        {job.enabled ? "Pause" : "Resume"}
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        )}
+
+        {viewMode === "dashboard" && user?.role === "ADMIN" && (
+          <section className="panel" aria-labelledby="audit-trail-title">
+            <div className="panel-head">
+              <h2 id="audit-trail-title">Audit trail</h2>
+              <button
+                className="btn btn-outline"
+                type="button"
+                onClick={() => void exportAuditLogs()}
+                disabled={auditExporting}
+              >
+                {auditExporting ? "Exporting..." : "Export CSV"}
+              </button>
+            </div>
+            <form
+              className="editor-grid"
+              onSubmit={(event) => {
+                event.preventDefault();
+                applyAuditFilters(auditFilters);
+              }}
+            >
+              <label>
+                Timeline for
+                <select
+                  value={auditFilters.scope}
+                  onChange={(event) =>
+                    setAuditFilters((current) => ({ ...current, scope: event.target.value as AuditFilters["scope"] }))
+                  }
+                >
+                  <option value="all">All activity</option>
+                  <option value="book">A book</option>
+                  <option value="user">A user</option>
+                </select>
+              </label>
+              {auditFilters.scope !== "all" && (
+                <label>
+                  {auditFilters.scope === "book" ? "Book ID" : "User"}
+                  {auditFilters.scope === "user" && users.length > 0 ? (
+                    <select
+                      value={auditFilters.targetId}
+                      onChange={(event) => setAuditFilters((current) => ({ ...current, targetId: event.target.value }))}
+                    >
+                      <option value="">Choose a user</option>
+                      {users.map((member) => (
+                        <option key={member.id} value={member.id}>
+                          {member.name} ({member.email})
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      value={auditFilters.targetId}
+                      onChange={(event) => setAuditFilters((current) => ({ ...current, targetId: event.target.value }))}
+                    />
+                  )}
+                </label>
+              )}
+              <label>
+                Action
+                <input
+                  value={auditFilters.action}
+                  placeholder="e.g. LOAN_RENEWED"
+                  onChange={(event) => setAuditFilters((current) => ({ ...current, action: event.target.value }))}
+                />
+              </label>
+              <label>
+                Entity
+                <input
+                  value={auditFilters.entity}
+                  placeholder="e.g. LOAN"
+                  onChange={(event) => setAuditFilters((current) => ({ ...current, entity: event.target.value }))}
+                />
+              </label>
+              <label>
+                From
+                <input
+                  type="date"
+                  value={auditFilters.from}
+                  onChange={(event) => setAuditFilters((current) => ({ ...current, from: event.target.value }))}
+                />
+              </label>
+              <label>
+                To
+                <input
+                  type="date"
+                  value={auditFilters.to}
+                  onChange={(event) => setAuditFilters((current) => ({ ...current, to: event.target.value }))}
+                />
+              </label>
+              <div className="row-actions">
+                <button className="btn" type="submit" disabled={auditLoading}>
+                  Apply filters
+                </button>
+                <button className="btn btn-outline" type="button" onClick={() => applyAuditFilters(emptyAuditFilters)}>
+                  Reset
+                </button>
+              </div>
+            </form>
+            <ul className="loan-history audit-timeline">
+              {!auditLoading && auditLogs.length === 0 && <li className="muted">No audit events match these filters.</li>}
+              {auditLogs.map((entry) => (
+                <li key={entry.id}>
+                  <strong>{formatAuditAction(entry.action)}</strong>
+                  <span className="muted">
+                    {" "}
+                    {entry.entity}
+                    {entry.entityId ? ` ${entry.entityId}` : ""} - {new Date(entry.createdAt).toLocaleString()}
+                    {entry.actor ? ` by ${entry.actor.name}` : " by system"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {auditLoading && <p className="muted">Loading audit events...</p>}
+            {auditNextCursor && !auditLoading && (
+              <button
+                className="btn btn-outline"
+                type="button"
+                onClick={() => void loadAuditLogs(auditFilters, auditNextCursor)}
+              >
+                Load more
+              </button>
+            )}
+          </section>
+        )}
+
         {viewMode === "dashboard" && user?.role === "ADMIN" && (
           <section className="panel" aria-labelledby="borrowers-overview-title">
             <div className="panel-head">
@@ -3275,11 +8125,12 @@ const App = () => {
                         <li key={loan.id} className="row-item">
                           <div>
                             <strong>{loan.book.title}</strong>
+                            {loan.copy && <p className="muted">Copy {loan.copy.barcode}</p>}
                             <p className={isOverdue ? "overdue-text" : "muted"}>
                               Due: {loan.dueAt ? new Date(loan.dueAt).toLocaleDateString() : "Not set"}
                             </p>
                           </div>
-                          <button className="btn btn-outline" type="button" onClick={() => void checkinBook(loan.bookId)}>
+                          <button className="btn btn-outline" type="button" onClick={() => void checkinBook(loan.id)}>
                             Check in
                           </button>
                         </li>
@@ -3312,8 +8163,10 @@ const App = () => {
                     <th>Phone</th>
                     <th>ID</th>
                     <th>Level</th>
+                    <th>Points</th>
                     <th>Role</th>
                     <th>Update</th>
+                    <th>History</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -3325,6 +8178,11 @@ const App = () => {
                       <td>{member.phoneNumber ?? "Missing"}</td>
                       <td>{member.personalId ?? "-"}</td>
                       <td>{`L${getLevelInfo(member.readingPoints).levelNumber}`}</td>
+                      <td>
+                        <button className="link-button" type="button" onClick={() => void openPointHistory(member)}>
+                          {`${member.readingPoints} XP`}
+                        </button>
+                      </td>
                       <td>{member.role}</td>
                       <td>
                         <label className="sr-only" htmlFor={`role-${member.id}`}>
@@ -3339,17 +8197,96 @@ const App = () => {
                           <option value="ADMIN">ADMIN</option>
                         </select>
                       </td>
+                      <td>
+                        <button className="btn btn-outline" type="button" onClick={() => openAuditTimeline("user", member.id)}>
+                          Timeline
+                        </button>
+                      </td>
                     </tr>
                   ))}
                 </tbody>
               </table>
             </div>
+            {pointsUser && (
+              <section className="point-ledger" aria-labelledby="point-ledger-title">
+                <h3 id="point-ledger-title">{`Points for ${pointsUser.name}`}</h3>
+                <ul className="stack-list">
+                  {pointHistory.length === 0 && <li className="muted">No point history yet.</li>}
+                  {pointHistory.map((entry) => (
+                    <li key={entry.id} className="row-item">
+                      <div>
+                        <strong>{`${entry.points > 0 ? "+" : ""}${entry.points} XP · ${pointReasonLabels[entry.reason]}`}</strong>
+                        <p className="muted">
+                          {[
+                            new Date(entry.createdAt).toLocaleString(),
+                            entry.book?.title,
+                            entry.createdBy ? `by ${entry.createdBy.name}` : null
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </p>
+                        {entry.note && <p className="muted">{entry.note}</p>}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+                <div className="editor-grid">
+                  <label>
+                    Points (+/-)
+                    <input
+                      type="number"
+                      step={1}
+                      value={pointAdjustment.points}
+                      onChange={(event) => setPointAdjustment((current) => ({ ...current, points: event.target.value }))}
+                    />
+                  </label>
+                  <label>
+                    Reason
+                    <input
+                      value={pointAdjustment.reason}
+                      maxLength={500}
+                      placeholder="Shown in the member's point history"
+                      onChange={(event) => setPointAdjustment((current) => ({ ...current, reason: event.target.value }))}
+                    />
+                  </label>
+                </div>
+                <div className="row-actions">
+                  <button
+                    className="btn"
+                    type="button"
+                    disabled={savingPointAdjustment}
+                    onClick={() => void savePointAdjustment()}
+                  >
+                    {savingPointAdjustment ? "Saving..." : "Apply adjustment"}
+                  </button>
+                  <button className="btn btn-outline" type="button" onClick={() => setPointsUser(null)}>
+                    Close
+                  </button>
+                </div>
+              </section>
+            )}
           </section>
         )}
           </>
         )}
       </main>
       <BookPreviewDialog book={previewBook} onClose={() => setPreviewBook(null)} onCheckout={checkoutBook} />
+      <ReadingWrappedDialog
+        stats={showReadingWrapped ? readingStats : null}
+        onClose={() => setShowReadingWrapped(false)}
+      />
+      <NotificationDrawer
+        open={showNotifications && Boolean(user)}
+        notifications={notifications}
+        unreadCount={notificationUnreadCount}
+        loading={notificationsLoading}
+        hasNextPage={Boolean(notificationsNextCursor)}
+        onClose={() => setShowNotifications(false)}
+        onLoadMore={() => void loadNotifications(notificationsNextCursor)}
+        onOpenNotification={openNotification}
+        onToggleRead={(notification) => void setNotificationRead(notification, !notification.readAt)}
+        onMarkAllRead={() => void markAllNotificationsRead()}
+      />
     </>
   );
 };
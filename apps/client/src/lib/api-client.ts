@@ -42,4 +42,18 @@ export const requestJson = async <TResponse>(
   return payload as TResponse;
 };
 
+export const requestBlob = async (path: string, options: Pick<RequestOptions, "accessToken"> = {}): Promise<Blob> => {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    credentials: "include",
+    headers: options.accessToken ? { Authorization: `Bearer ${options.accessToken}` } : {}
+  });
+
+  if (!response.ok) {
+    const payload = (await response.json().catch(() => null)) as { error?: { message?: string } } | null;
+    throw new ApiError(response.status, payload?.error?.message ?? "Download failed");
+  }
+
+  return response.blob();
+};
+
 export const getApiBaseUrl = (): string => API_BASE_URL;
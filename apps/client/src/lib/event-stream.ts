@@ -0,0 +1,148 @@
+import { getApiBaseUrl } from "./api-client";
+
+export type StreamEvent = {
+  id: string | null;
+  type: string;
+  data: string;
+};
+
+export type EventStreamStatus = "connecting" | "open" | "closed";
+
+type EventStreamOptions = {
+  path: string;
+  getAccessToken: () => string | null;
+  refreshAccessToken: () => Promise<string>;
+  onEvent: (event: StreamEvent) => void;
+  onStatusChange?: (status: EventStreamStatus) => void;
+};
+
+const initialRetryMs = 1000;
+const maxRetryMs = 30_000;
+
+/**
+ * Server-sent events over fetch, since EventSource cannot send an Authorization header. Reconnects with backoff
+ * (starting from the server's `retry:` hint) and sends Last-Event-ID so the server replays what was missed.
+ * Returns a function that closes the stream for good.
+ */
+export const openEventStream = (options: EventStreamOptions): (() => void) => {
+  let closed = false;
+  let lastEventId: string | null = null;
+  let retryMs = initialRetryMs;
+  let failures = 0;
+  let controller: AbortController | null = null;
+  let reconnectTimer: number | null = null;
+
+  const openResponse = async (accessToken: string | null, signal: AbortSignal) =>
+    fetch(`${getApiBaseUrl()}${options.path}`, {
+      credentials: "include",
+      cache: "no-store",
+      signal,
+      headers: {
+        Accept: "text/event-stream",
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+        ...(lastEventId ? { "Last-Event-ID": lastEventId } : {})
+      }
+    });
+
+  const readStream = async (body: ReadableStream<Uint8Array>) => {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let dataLines: string[] = [];
+    let eventType = "";
+    let eventId: string | null = null;
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        return;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (line === "") {
+          if (eventId !== null) {
+            lastEventId = eventId;
+          }
+          if (dataLines.length > 0) {
+            options.onEvent({ id: eventId, type: eventType || "message", data: dataLines.join("\n") });
+          }
+          dataLines = [];
+          eventType = "";
+          eventId = null;
+          continue;
+        }
+        if (line.startsWith(":")) {
+          continue;
+        }
+        const separator = line.indexOf(":");
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const fieldValue = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+        if (field === "data") {
+          dataLines.push(fieldValue);
+        } else if (field === "event") {
+          eventType = fieldValue;
+        } else if (field === "id") {
+          eventId = fieldValue;
+        } else if (field === "retry" && /^\d+$/.test(fieldValue)) {
+          retryMs = Number(fieldValue);
+        }
+      }
+    }
+  };
+
+  const scheduleReconnect = (delayMs: number) => {
+    options.onStatusChange?.("connecting");
+    reconnectTimer = window.setTimeout(() => {
+      reconnectTimer = null;
+      void connect();
+    }, delayMs);
+  };
+
+  const connect = async () => {
+    if (closed) {
+      return;
+    }
+    controller = new AbortController();
+    const { signal } = controller;
+    let delayMs = retryMs;
+    try {
+      options.onStatusChange?.("connecting");
+      let response = await openResponse(options.getAccessToken(), signal);
+      if (response.status === 401) {
+        response = await openResponse(await options.refreshAccessToken(), signal);
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`Event stream failed with status ${response.status}`);
+      }
+      options.onStatusChange?.("open");
+      failures = 0;
+      await readStream(response.body);
+      // A clean end (server restart, proxy timeout) reconnects at the base delay.
+      delayMs = retryMs;
+    } catch {
+      if (closed) {
+        return;
+      }
+      // Back off on repeated failures, with jitter so many clients do not reconnect in lockstep.
+      delayMs = Math.min(maxRetryMs, retryMs * 2 ** Math.min(5, failures)) * (0.75 + Math.random() * 0.5);
+      failures += 1;
+    }
+    if (!closed) {
+      scheduleReconnect(delayMs);
+    }
+  };
+
+  void connect();
+
+  return () => {
+    closed = true;
+    controller?.abort();
+    if (reconnectTimer !== null) {
+      window.clearTimeout(reconnectTimer);
+    }
+    options.onStatusChange?.("closed");
+  };
+};
@@ -0,0 +1,180 @@
+import { getApiBaseUrl } from "./api-client";
+
+export type OfflineSnapshot<T> = {
+  key: string;
+  data: T;
+  savedAt: string;
+};
+
+export type OutboxEntryStatus = "pending" | "failed";
+
+/** A write made while offline, replayed by the service worker (Background Sync) or the page once back online. */
+export type OutboxEntry = {
+  id?: number;
+  // The member who made the change; it is only ever replayed with that member's session.
+  userId: string;
+  // One entry per member and key: a newer change to the same thing replaces the queued one.
+  key: string;
+  bookId: string;
+  kind: "favorite" | "note" | "review";
+  label: string;
+  method: "PUT";
+  // `path` is relative to the API base for the page; `url` is absolute for the service worker.
+  path: string;
+  url: string;
+  body: Record<string, unknown>;
+  status: OutboxEntryStatus;
+  error: string | null;
+  // Set when the server rejected the replay because the record changed elsewhere (HTTP 409).
+  conflict: boolean;
+  createdAt: string;
+};
+
+// Background Sync is not in the DOM typings yet (Chromium only).
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> };
+};
+
+// Kept in sync with OUTBOX_SYNC_TAG and the database layout in public/sw.js.
+export const outboxSyncTag = "mlms-outbox";
+const databaseName = "mlms-offline";
+const databaseVersion = 3;
+const storeName = "snapshots";
+const outboxStoreName = "outbox";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(databaseName, databaseVersion);
+      request.onupgradeneeded = (event) => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(storeName)) {
+          database.createObjectStore(storeName, { keyPath: "key" });
+        }
+        // Version 2 queued entries without an owner; they cannot be replayed safely, so the store is rebuilt.
+        if (event.oldVersion < 3 && database.objectStoreNames.contains(outboxStoreName)) {
+          database.deleteObjectStore(outboxStoreName);
+        }
+        if (!database.objectStoreNames.contains(outboxStoreName)) {
+          database
+            .createObjectStore(outboxStoreName, { keyPath: "id", autoIncrement: true })
+            .createIndex("userKey", ["userId", "key"], { unique: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error: unknown) => {
+      // Let a later call try again (e.g. after the user leaves private browsing).
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  store = storeName
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(database.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Snapshots are a convenience: when IndexedDB is unavailable, saving is skipped and reads find nothing.
+export const saveOfflineSnapshot = async <T>(key: string, data: T): Promise<void> => {
+  const snapshot: OfflineSnapshot<T> = { key, data, savedAt: new Date().toISOString() };
+  await runRequest("readwrite", (store) => store.put(snapshot)).catch(() => undefined);
+};
+
+export const readOfflineSnapshot = async <T>(key: string): Promise<OfflineSnapshot<T> | null> => {
+  const snapshot = await runRequest<OfflineSnapshot<T> | undefined>("readonly", (store) => store.get(key)).catch(
+    () => undefined
+  );
+  return snapshot ?? null;
+};
+
+/** Drops every snapshot, queued change and the service worker's API cache; called on sign-out. */
+export const clearOfflineData = async (): Promise<void> => {
+  navigator.serviceWorker?.controller?.postMessage({ type: "clear-api-cache" });
+  await Promise.all([
+    runRequest("readwrite", (store) => store.clear()).catch(() => undefined),
+    runRequest("readwrite", (store) => store.clear(), outboxStoreName).catch(() => undefined)
+  ]);
+};
+
+const listAllOutboxEntries = async (): Promise<OutboxEntry[]> =>
+  runRequest<OutboxEntry[]>("readonly", (store) => store.getAll(), outboxStoreName).catch(() => []);
+
+export const listOutboxEntries = async (userId: string): Promise<OutboxEntry[]> =>
+  (await listAllOutboxEntries()).filter((entry) => entry.userId === userId);
+
+// Changes queued by another member can never be sent with this session, so they are dropped.
+export const dropForeignOutboxEntries = async (userId: string): Promise<void> => {
+  const foreign = (await listAllOutboxEntries()).filter((entry) => entry.userId !== userId);
+  await Promise.all(foreign.map((entry) => (entry.id === undefined ? null : deleteOutboxEntry(entry.id))));
+};
+
+/**
+ * Queues a change, replacing any queued change with the same key. A note or review edited twice offline keeps the
+ * pending edit's `expectedUpdatedAt`, since that is the server version both edits were based on.
+ */
+export const enqueueOutboxEntry = async (
+  entry: Omit<OutboxEntry, "id" | "url" | "status" | "error" | "conflict" | "createdAt">
+): Promise<void> => {
+  const existing = await runRequest<OutboxEntry | undefined>(
+    "readonly",
+    (store) => store.index("userKey").get([entry.userId, entry.key]),
+    outboxStoreName
+  );
+  const body =
+    existing?.status === "pending" && "expectedUpdatedAt" in existing.body && "expectedUpdatedAt" in entry.body
+      ? { ...entry.body, expectedUpdatedAt: existing.body.expectedUpdatedAt }
+      : entry.body;
+  if (existing?.id !== undefined) {
+    await deleteOutboxEntry(existing.id);
+  }
+  const queued: OutboxEntry = {
+    ...entry,
+    body,
+    url: `${getApiBaseUrl()}${entry.path}`,
+    status: "pending",
+    error: null,
+    conflict: false,
+    createdAt: new Date().toISOString()
+  };
+  await runRequest("readwrite", (store) => store.add(queued), outboxStoreName);
+};
+
+export const updateOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+  await runRequest("readwrite", (store) => store.put(entry), outboxStoreName);
+};
+
+export const deleteOutboxEntry = async (id: number): Promise<void> => {
+  await runRequest("readwrite", (store) => store.delete(id), outboxStoreName);
+};
+
+/** Asks the service worker to replay the outbox when connectivity returns. False when Background Sync is unsupported. */
+export const requestOutboxSync = async (): Promise<boolean> => {
+  const registration: SyncCapableRegistration | undefined =
+    "serviceWorker" in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  const syncManager = registration?.sync;
+  if (!syncManager) {
+    return false;
+  }
+  try {
+    await syncManager.register(outboxSyncTag);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// fetch rejects with a TypeError when the network is unreachable; HTTP errors arrive as ApiError instead.
+export const isNetworkError = (error: unknown): boolean => error instanceof TypeError;
@@ -0,0 +1,70 @@
+export type PushSubscriptionPayload = {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+};
+
+// VAPID keys are base64url; PushManager wants the raw bytes.
+const decodeBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = `${value}${"=".repeat((4 - (value.length % 4)) % 4)}`.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = window.atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+};
+
+export const isPushSupported = (): boolean =>
+  "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+
+// The service worker is only registered in production builds, so there is nothing to subscribe with in dev.
+const getRegistration = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!isPushSupported()) {
+    return null;
+  }
+  return (await navigator.serviceWorker.getRegistration()) ?? null;
+};
+
+export const hasPushRegistration = async (): Promise<boolean> => (await getRegistration()) !== null;
+
+export const getPushSubscription = async (): Promise<PushSubscription | null> => {
+  const registration = await getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+/**
+ * Asks for notification permission if needed and subscribes this browser. Returns null when permission is
+ * refused; the caller stores the returned endpoint and keys on the server.
+ */
+export const subscribeToPush = async (publicKey: string): Promise<PushSubscriptionPayload | null> => {
+  const registration = await getRegistration();
+  if (!registration) {
+    throw new Error("Push notifications are not available in this browser.");
+  }
+  const permission = Notification.permission === "default" ? await Notification.requestPermission() : Notification.permission;
+  if (permission !== "granted") {
+    return null;
+  }
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeBase64Url(publicKey)
+    }));
+  const json = subscription.toJSON();
+  if (!json.endpoint || !json.keys?.p256dh || !json.keys.auth) {
+    throw new Error("The browser returned an incomplete push subscription.");
+  }
+  return { endpoint: json.endpoint, keys: { p256dh: json.keys.p256dh, auth: json.keys.auth } };
+};
+
+// Returns the endpoint that was removed so the server copy can be deleted too.
+export const unsubscribeFromPush = async (): Promise<string | null> => {
+  const subscription = await getPushSubscription();
+  if (!subscription) {
+    return null;
+  }
+  await subscription.unsubscribe();
+  return subscription.endpoint;
+};
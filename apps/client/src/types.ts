@@ -28,17 +28,99 @@ export type Book = {
   aiMetadata: boolean;
   available: boolean;
   requestPending: boolean;
+  totalCopies: number;
+  availableCopies: number;
   isFavorite: boolean;
+  highlight?: BookSearchHighlight;
   createdAt: string;
 };
 
+export type FacetBucket = {
+  value: string;
+  label: string;
+  count: number;
+  selected: boolean;
+};
+
+export type BookFacets = {
+  genres: FacetBucket[];
+  authors: FacetBucket[];
+  decades: FacetBucket[];
+  ratings: FacetBucket[];
+  availability: FacetBucket[];
+};
+
+export type SearchSuggestion = {
+  type: "title" | "author" | "genre";
+  value: string;
+  bookId: string | null;
+  count: number;
+};
+
+export type BookSearchHighlight = {
+  title: string;
+  author: string;
+  description: string | null;
+};
+
+export type BookCopyStatus = "AVAILABLE" | "RESERVED" | "ON_LOAN" | "MAINTENANCE" | "LOST";
+
+export type BookCopyCondition = "NEW" | "GOOD" | "FAIR" | "POOR" | "DAMAGED";
+
+export type BookCopy = {
+  id: string;
+  barcode: string;
+  shelfLocation: string | null;
+  condition: BookCopyCondition;
+  status: BookCopyStatus;
+};
+
 export type Loan = {
   id: string;
   bookId: string;
+  copyId: string | null;
   userId: string;
   checkedOutAt: string;
   dueAt: string | null;
   returnedAt: string | null;
+  renewalCount: number;
+  maxRenewals?: number;
+  lastRenewedAt: string | null;
   book: Book;
+  copy: BookCopy | null;
   user: Pick<User, "id" | "name" | "email" | "role" | "contactEmail" | "phoneNumber" | "personalId" | "readingPoints">;
 };
+
+export type BookHoldStatus = "WAITING" | "READY" | "FULFILLED" | "CANCELLED" | "EXPIRED";
+
+export type BookHold = {
+  id: string;
+  bookId: string;
+  userId: string;
+  copyId: string | null;
+  status: BookHoldStatus;
+  readyAt: string | null;
+  pickupDeadline: string | null;
+  createdAt: string;
+  queuePosition: number | null;
+  book: Pick<Book, "id" | "title" | "author" | "coverUrl" | "totalCopies" | "availableCopies">;
+  user: Pick<User, "id" | "name" | "email">;
+  copy: BookCopy | null;
+};
+
+export type CirculationRules = {
+  maxActiveLoans: number;
+  minLoanDays: number;
+  defaultLoanDays: number;
+  maxLoanDays: number;
+  maxRenewals: number;
+  gracePeriodDays: number;
+  fineDailyRateCents: number;
+};
+
+export type CirculationPolicy = CirculationRules & {
+  id: string;
+  role: Role | null;
+  genre: string | null;
+  updatedAt: string;
+};
@@ -60,6 +60,8 @@ app.use(
   })
 );
 app.use(morgan("combined"));
+// Catalog files are sent inline as JSON, so the import route gets a larger body limit than the rest of the API.
+app.use("/api/v1/books/import/file", express.json({ limit: "10mb" }));
 app.use(express.json({ limit: "1mb" }));
 app.use(cookieParser());
 
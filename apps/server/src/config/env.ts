@@ -15,7 +15,29 @@ const envSchema = z.object({
   COOKIE_SECURE: z.string().default("false"),
   COOKIE_SAME_SITE: z.enum(["lax", "strict", "none"]).default("lax"),
   GOOGLE_BOOKS_API_KEY: z.string().optional(),
-  OPENAI_API_KEY: z.string().optional()
+  OPENAI_API_KEY: z.string().optional(),
+  LOAN_MAX_RENEWALS: z.coerce.number().int().min(0).max(10).default(2),
+  FINE_DAILY_RATE_CENTS: z.coerce.number().int().min(0).default(25),
+  FINE_BLOCK_THRESHOLD_CENTS: z.coerce.number().int().min(0).default(500),
+  FINE_CURRENCY: z.string().length(3).default("USD"),
+  POINTS_MIN_LOAN_MINUTES: z.coerce.number().int().min(0).default(60),
+  POINTS_DAILY_CAP: z.coerce.number().int().min(0).default(100),
+  EMAIL_TRANSPORT: z.enum(["console", "file", "smtp"]).default("console"),
+  EMAIL_FROM: z.string().default("MLMS Library <no-reply@mlms.local>"),
+  EMAIL_OUTBOX_DIR: z.string().default(".outbox"),
+  EMAIL_DUE_SOON_DAYS: z.coerce.number().int().min(1).max(14).default(2),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().int().default(587),
+  SMTP_SECURE: z.string().default("false"),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  JOBS_ENABLED: z.string().default("true"),
+  JOB_POLL_INTERVAL_SECONDS: z.coerce.number().int().min(5).default(30),
+  JOB_MAX_RETRIES: z.coerce.number().int().min(0).max(10).default(3),
+  BORROW_REQUEST_EXPIRY_DAYS: z.coerce.number().int().min(1).max(60).default(3),
+  VAPID_PUBLIC_KEY: z.string().optional(),
+  VAPID_PRIVATE_KEY: z.string().optional(),
+  VAPID_SUBJECT: z.string().default("mailto:no-reply@mlms.local")
 });
 
 const parsed = envSchema.safeParse(process.env);
@@ -31,3 +53,9 @@ export const env = parsed.data;
 export const corsOrigins = env.CORS_ORIGIN.split(",").map((origin) => origin.trim());
 
 export const cookieSecure = env.COOKIE_SECURE === "true";
+
+export const smtpSecure = env.SMTP_SECURE === "true";
+
+export const jobsEnabled = env.JOBS_ENABLED === "true";
+
+export const pushEnabled = Boolean(env.VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY);
@@ -0,0 +1,234 @@
+import type { Challenge, Prisma, UserBadge } from "@prisma/client";
+import { prisma } from "../db/prisma";
+import { createAuditLog } from "./audit";
+import { getLevelInfo, getLevelName } from "./levels";
+import { dashboardLink, notifyUser } from "./notifications";
+
+type BadgeAward = {
+  key: string;
+  name: string;
+  description: string;
+  icon: string | null;
+  challengeId?: string;
+};
+
+type Milestone = {
+  metric: "books" | "reviews";
+  threshold: number;
+  name: string;
+  icon: string;
+};
+
+const dayMs = 24 * 60 * 60 * 1000;
+// Returns recorded just before a challenge closes can still be counted a few days later.
+const challengeSettleMs = 7 * dayMs;
+
+const milestones: Milestone[] = [
+  { metric: "books", threshold: 1, name: "First chapter", icon: "📖" },
+  { metric: "books", threshold: 10, name: "Bookworm", icon: "🐛" },
+  { metric: "books", threshold: 25, name: "Shelf climber", icon: "🧗" },
+  { metric: "books", threshold: 50, name: "Page turner", icon: "📚" },
+  { metric: "books", threshold: 100, name: "Centurion", icon: "🏛️" },
+  { metric: "reviews", threshold: 1, name: "First review", icon: "✍️" },
+  { metric: "reviews", threshold: 10, name: "Critic", icon: "🎭" },
+  { metric: "reviews", threshold: 50, name: "Literary voice", icon: "📣" }
+];
+
+export const challengeBadgeKey = (challengeId: string): string => `challenge:${challengeId}`;
+
+const genreFilter = (genre: string | null): Prisma.BookWhereInput =>
+  genre ? { genre: { equals: genre, mode: "insensitive" } } : {};
+
+const readGenres = async (userId: string, returnedAt: Prisma.DateTimeNullableFilter): Promise<Set<string>> => {
+  const loans = await prisma.loan.findMany({
+    where: { userId, returnedAt, book: { genre: { not: null } } },
+    distinct: ["bookId"],
+    select: { book: { select: { genre: true } } }
+  });
+  return new Set(loans.map((loan) => loan.book.genre?.trim().toLowerCase() ?? "").filter(Boolean));
+};
+
+// Books count once per challenge however often they are borrowed; "new" genres are ones the member never returned a book in before the challenge started.
+export const measureChallengeProgress = async (userId: string, challenge: Challenge): Promise<number> => {
+  const window = { gte: challenge.startsAt, lte: challenge.endsAt };
+
+  if (challenge.goal === "BOOKS_READ") {
+    const loans = await prisma.loan.findMany({
+      where: { userId, returnedAt: window, book: genreFilter(challenge.genre) },
+      distinct: ["bookId"],
+      select: { bookId: true }
+    });
+    return loans.length;
+  }
+
+  if (challenge.goal === "REVIEWS_WRITTEN") {
+    return prisma.bookReview.count({
+      where: { userId, createdAt: window, book: genreFilter(challenge.genre) }
+    });
+  }
+
+  const [before, during] = await Promise.all([
+    readGenres(userId, { lt: challenge.startsAt }),
+    readGenres(userId, window)
+  ]);
+  return [...during].filter((genre) => !before.has(genre)).length;
+};
+
+const refreshChallengeProgress = async (userId: string, now: Date): Promise<BadgeAward[]> => {
+  const challenges = await prisma.challenge.findMany({
+    where: {
+      startsAt: { lte: now },
+      endsAt: { gte: new Date(now.getTime() - challengeSettleMs) },
+      progress: { none: { userId, completedAt: { not: null } } }
+    }
+  });
+
+  const awards: BadgeAward[] = [];
+  for (const challenge of challenges) {
+    const progress = await measureChallengeProgress(userId, challenge);
+    const completed = progress >= challenge.target;
+    await prisma.challengeProgress.upsert({
+      where: { challengeId_userId: { challengeId: challenge.id, userId } },
+      update: { progress, ...(completed ? { completedAt: now } : {}) },
+      create: { challengeId: challenge.id, userId, progress, completedAt: completed ? now : null }
+    });
+    if (completed) {
+      awards.push({
+        key: challengeBadgeKey(challenge.id),
+        name: challenge.badgeName,
+        description: challenge.title,
+        icon: challenge.badgeIcon,
+        challengeId: challenge.id
+      });
+    }
+  }
+  return awards;
+};
+
+const collectMilestoneAwards = async (userId: string): Promise<BadgeAward[]> => {
+  const [user, booksRead, reviewsWritten] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { readingPoints: true } }),
+    prisma.loan.findMany({
+      where: { userId, returnedAt: { not: null } },
+      distinct: ["bookId"],
+      select: { bookId: true }
+    }),
+    prisma.bookReview.count({ where: { userId } })
+  ]);
+  if (!user) {
+    return [];
+  }
+
+  const totals = { books: booksRead.length, reviews: reviewsWritten };
+  const awards: BadgeAward[] = milestones
+    .filter((milestone) => totals[milestone.metric] >= milestone.threshold)
+    .map((milestone) => ({
+      key: `${milestone.metric}:${milestone.threshold}`,
+      name: milestone.name,
+      description:
+        milestone.metric === "books"
+          ? `Returned ${milestone.threshold} different ${milestone.threshold === 1 ? "book" : "books"}`
+          : `Wrote ${milestone.threshold} ${milestone.threshold === 1 ? "review" : "reviews"}`,
+      icon: milestone.icon
+    }));
+
+  const { levelNumber } = getLevelInfo(user.readingPoints);
+  for (let level = 2; level <= levelNumber; level += 1) {
+    awards.push({
+      key: `level:${level}`,
+      name: `${getLevelName(level)} level`,
+      description: `Reached level ${level} with reading points`,
+      icon: "⭐"
+    });
+  }
+  return awards;
+};
+
+/**
+ * Re-evaluates active challenges and milestone badges for one member and stores anything newly earned.
+ * Called after check-ins, reviews and challenge changes; failures are logged so they never break the triggering request.
+ */
+export const evaluateAchievements = async (userId: string): Promise<UserBadge[]> => {
+  try {
+    const now = new Date();
+    const awards = [...(await refreshChallengeProgress(userId, now)), ...(await collectMilestoneAwards(userId))];
+    if (awards.length === 0) {
+      return [];
+    }
+
+    const existing = await prisma.userBadge.findMany({
+      where: { userId, key: { in: awards.map((award) => award.key) } },
+      select: { key: true }
+    });
+    const existingKeys = new Set(existing.map((badge) => badge.key));
+    const fresh = awards.filter((award) => !existingKeys.has(award.key));
+    if (fresh.length === 0) {
+      return [];
+    }
+
+    await prisma.userBadge.createMany({
+      data: fresh.map((award) => ({ userId, ...award, earnedAt: now })),
+      skipDuplicates: true
+    });
+    const earned = await prisma.userBadge.findMany({
+      where: { userId, key: { in: fresh.map((award) => award.key) }, earnedAt: now },
+      orderBy: { key: "asc" }
+    });
+
+    for (const badge of earned) {
+      await createAuditLog({
+        actorUserId: userId,
+        action: "BADGE_EARNED",
+        entity: "USER_BADGE",
+        entityId: badge.id,
+        metadata: { key: badge.key, name: badge.name, challengeId: badge.challengeId }
+      });
+      await notifyUser(userId, {
+        type: "BADGE_EARNED",
+        title: `Badge earned: ${badge.name}`,
+        body: badge.description,
+        payload: { badgeId: badge.id, key: badge.key, icon: badge.icon },
+        link: dashboardLink,
+        dedupeKey: `badge:${badge.key}`
+      });
+    }
+    return earned;
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(`[achievements] evaluation failed for user ${userId}`, error);
+    return [];
+  }
+};
+
+/**
+ * Brings every member with activity in a running challenge's window up to date, so a new or edited challenge shows
+ * progress without waiting for each member's next check-in or review. Never throws; meant to run in the background.
+ */
+export const evaluateChallengeParticipants = async (challenge: Challenge): Promise<number> => {
+  try {
+    if (challenge.startsAt > new Date()) {
+      return 0;
+    }
+    const window = { gte: challenge.startsAt, lte: challenge.endsAt };
+    const participants =
+      challenge.goal === "REVIEWS_WRITTEN"
+        ? await prisma.bookReview.findMany({
+            where: { createdAt: window },
+            distinct: ["userId"],
+            select: { userId: true }
+          })
+        : await prisma.loan.findMany({
+            where: { returnedAt: window },
+            distinct: ["userId"],
+            select: { userId: true }
+          });
+    for (const participant of participants) {
+      await evaluateAchievements(participant.userId);
+    }
+    return participants.length;
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(`[achievements] evaluation failed for challenge ${challenge.id}`, error);
+    return 0;
+  }
+};
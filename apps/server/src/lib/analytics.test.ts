@@ -0,0 +1,48 @@
+import "../test/setup";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildCheckoutSeries } from "./analytics";
+
+const utc = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+describe("buildCheckoutSeries", () => {
+  it("fills every day in the range, starting from the day that contains `from`", () => {
+    const range = { from: new Date("2025-03-10T18:30:00.000Z"), to: utc("2025-03-13"), granularity: "day" as const };
+    const series = buildCheckoutSeries(
+      range,
+      [{ bucket: utc("2025-03-10"), count: 4 }],
+      [{ bucket: utc("2025-03-12"), count: 2 }]
+    );
+
+    assert.deepEqual(series, [
+      { bucket: "2025-03-10", checkouts: 4, returns: 0 },
+      { bucket: "2025-03-11", checkouts: 0, returns: 0 },
+      { bucket: "2025-03-12", checkouts: 0, returns: 2 }
+    ]);
+  });
+
+  it("starts weekly buckets on Monday like Postgres date_trunc", () => {
+    // 2025-03-12 is a Wednesday and 2025-03-16 a Sunday; both belong to the week of Monday 2025-03-10.
+    const range = { from: utc("2025-03-12"), to: utc("2025-03-26"), granularity: "week" as const };
+    const series = buildCheckoutSeries(
+      range,
+      [
+        { bucket: utc("2025-03-10"), count: 7 },
+        { bucket: utc("2025-03-24"), count: 1 }
+      ],
+      [{ bucket: utc("2025-03-17"), count: 3 }]
+    );
+
+    assert.deepEqual(series, [
+      { bucket: "2025-03-10", checkouts: 7, returns: 0 },
+      { bucket: "2025-03-17", checkouts: 0, returns: 3 },
+      { bucket: "2025-03-24", checkouts: 1, returns: 0 }
+    ]);
+    assert.equal(buildCheckoutSeries({ ...range, from: utc("2025-03-16") }, [], [])[0]?.bucket, "2025-03-10");
+  });
+
+  it("returns an empty series for an empty range", () => {
+    const day = utc("2025-03-10");
+    assert.deepEqual(buildCheckoutSeries({ from: day, to: day, granularity: "day" }, [], []), []);
+  });
+});
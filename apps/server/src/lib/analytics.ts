@@ -0,0 +1,212 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db/prisma";
+
+export const analyticsGranularities = ["day", "week"] as const;
+
+export type AnalyticsGranularity = (typeof analyticsGranularities)[number];
+
+type AnalyticsRange = {
+  from: Date;
+  to: Date;
+  granularity: AnalyticsGranularity;
+};
+
+type BucketCount = { bucket: Date; count: number };
+
+const dayMs = 24 * 60 * 60 * 1000;
+const topListSize = 10;
+
+// Mirrors Postgres date_trunc in UTC: weeks start on Monday.
+const truncateToBucket = (date: Date, granularity: AnalyticsGranularity): Date => {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (granularity === "week") {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  }
+  return start;
+};
+
+const round = (value: number, digits = 1): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+// Buckets with no activity are filled in so the chart keeps an even time axis.
+export const buildCheckoutSeries = (
+  { from, to, granularity }: AnalyticsRange,
+  checkouts: BucketCount[],
+  returns: BucketCount[]
+) => {
+  const checkoutsByBucket = new Map(checkouts.map((row) => [row.bucket.getTime(), row.count]));
+  const returnsByBucket = new Map(returns.map((row) => [row.bucket.getTime(), row.count]));
+
+  const stepDays = granularity === "week" ? 7 : 1;
+  const series: Array<{ bucket: string; checkouts: number; returns: number }> = [];
+  for (
+    let cursor = truncateToBucket(from, granularity);
+    cursor < to;
+    cursor = new Date(cursor.getTime() + stepDays * dayMs)
+  ) {
+    series.push({
+      bucket: cursor.toISOString().slice(0, 10),
+      checkouts: checkoutsByBucket.get(cursor.getTime()) ?? 0,
+      returns: returnsByBucket.get(cursor.getTime()) ?? 0
+    });
+  }
+  return series;
+};
+
+const loadCheckoutSeries = async (range: AnalyticsRange) => {
+  const { from, to, granularity } = range;
+  const [checkouts, returns] = await Promise.all([
+    prisma.$queryRaw<BucketCount[]>`
+      SELECT date_trunc(${granularity}, "checkedOutAt") AS "bucket", count(*)::int AS "count"
+      FROM "Loan"
+      WHERE "checkedOutAt" >= ${from} AND "checkedOutAt" < ${to}
+      GROUP BY 1
+    `,
+    prisma.$queryRaw<BucketCount[]>`
+      SELECT date_trunc(${granularity}, "returnedAt") AS "bucket", count(*)::int AS "count"
+      FROM "Loan"
+      WHERE "returnedAt" >= ${from} AND "returnedAt" < ${to}
+      GROUP BY 1
+    `
+  ]);
+  return buildCheckoutSeries(range, checkouts, returns);
+};
+
+const loadTopTitles = async ({ from, to }: AnalyticsRange) => {
+  const rows = await prisma.loan.groupBy({
+    by: ["bookId"],
+    where: { checkedOutAt: { gte: from, lt: to } },
+    _count: { _all: true },
+    orderBy: [{ _count: { bookId: "desc" } }, { bookId: "asc" }],
+    take: topListSize
+  });
+  const books = await prisma.book.findMany({
+    where: { id: { in: rows.map((row) => row.bookId) } },
+    select: { id: true, title: true, author: true, coverUrl: true }
+  });
+  const booksById = new Map(books.map((book) => [book.id, book]));
+  return rows.flatMap((row) => {
+    const book = booksById.get(row.bookId);
+    return book ? [{ ...book, checkouts: row._count._all }] : [];
+  });
+};
+
+const loadTopGenres = async ({ from, to }: AnalyticsRange) => {
+  return prisma.$queryRaw<Array<{ name: string; checkouts: number }>>`
+    SELECT min(trim(b."genre")) AS "name", count(*)::int AS "checkouts"
+    FROM "Loan" l
+    JOIN "Book" b ON b."id" = l."bookId"
+    WHERE l."checkedOutAt" >= ${from} AND l."checkedOutAt" < ${to}
+      AND b."genre" IS NOT NULL AND trim(b."genre") <> ''
+    GROUP BY lower(trim(b."genre"))
+    ORDER BY "checkouts" DESC, "name" ASC
+    LIMIT ${topListSize}
+  `;
+};
+
+// Never borrowed at all, not just within the range: the oldest titles are listed first since they have waited longest.
+const loadNeverBorrowed = async () => {
+  const where: Prisma.BookWhereInput = { loans: { none: {} } };
+  const [count, books] = await Promise.all([
+    prisma.book.count({ where }),
+    prisma.book.findMany({
+      where,
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      take: topListSize,
+      select: { id: true, title: true, author: true, createdAt: true }
+    })
+  ]);
+  return { count, books };
+};
+
+// Loans that fell due inside the range (up to now); a loan is late if it came back after its due date or is still out.
+const loadOverdueRate = async ({ from, to }: AnalyticsRange, now: Date) => {
+  const until = to < now ? to : now;
+  const [rows, currentlyOverdue] = await Promise.all([
+    prisma.$queryRaw<Array<{ due: number; late: number }>>`
+      SELECT count(*)::int AS "due",
+        count(*) FILTER (WHERE coalesce("returnedAt", ${now}) > "dueAt")::int AS "late"
+      FROM "Loan"
+      WHERE "dueAt" >= ${from} AND "dueAt" < ${until}
+    `,
+    prisma.loan.count({ where: { returnedAt: null, dueAt: { lt: now } } })
+  ]);
+  const due = rows[0]?.due ?? 0;
+  const late = rows[0]?.late ?? 0;
+  return {
+    loansDue: due,
+    returnedLate: late,
+    rate: due > 0 ? round(late / due, 3) : null,
+    currentlyOverdue
+  };
+};
+
+const loadRequestTurnaround = async ({ from, to }: AnalyticsRange) => {
+  const [approvals, declineReasons] = await Promise.all([
+    prisma.$queryRaw<Array<{ approved: number; averageSeconds: number | null }>>`
+      SELECT count(*)::int AS "approved",
+        avg(extract(epoch FROM ("reviewedAt" - "createdAt")))::float8 AS "averageSeconds"
+      FROM "BorrowRequest"
+      WHERE "status" = 'APPROVED' AND "reviewedAt" >= ${from} AND "reviewedAt" < ${to}
+    `,
+    prisma.borrowRequest.groupBy({
+      by: ["declineReason"],
+      where: { status: "DECLINED", reviewedAt: { gte: from, lt: to } },
+      _count: { _all: true }
+    })
+  ]);
+  const averageSeconds = approvals[0]?.averageSeconds ?? null;
+  return {
+    approved: approvals[0]?.approved ?? 0,
+    averageApprovalHours: averageSeconds === null ? null : round(averageSeconds / 3600),
+    declined: declineReasons.reduce((sum, row) => sum + row._count._all, 0),
+    // Requests declined before reasons were recorded (or without one) are grouped as UNSPECIFIED.
+    declineReasons: declineReasons
+      .map((row) => ({ reason: row.declineReason ?? "UNSPECIFIED", count: row._count._all }))
+      .sort((left, right) => right.count - left.count || left.reason.localeCompare(right.reason))
+  };
+};
+
+const loadMemberActivity = async ({ from, to }: AnalyticsRange) => {
+  const [rows, newMembers] = await Promise.all([
+    prisma.$queryRaw<Array<{ active: number }>>`
+      SELECT count(DISTINCT "userId")::int AS "active"
+      FROM "Loan"
+      WHERE "checkedOutAt" >= ${from} AND "checkedOutAt" < ${to}
+    `,
+    prisma.user.count({ where: { role: "MEMBER", createdAt: { gte: from, lt: to } } })
+  ]);
+  return { activeMembers: rows[0]?.active ?? 0, newMembers };
+};
+
+/**
+ * Circulation figures for the half-open range [from, to), bucketed by UTC day or ISO week.
+ * Every section is computed with aggregate queries so the cost does not grow with the size of the range.
+ */
+export const loadCirculationAnalytics = async (range: AnalyticsRange, now = new Date()) => {
+  const [series, topTitles, topGenres, neverBorrowed, overdue, requests, members] = await Promise.all([
+    loadCheckoutSeries(range),
+    loadTopTitles(range),
+    loadTopGenres(range),
+    loadNeverBorrowed(),
+    loadOverdueRate(range, now),
+    loadRequestTurnaround(range),
+    loadMemberActivity(range)
+  ]);
+
+  return {
+    series,
+    totals: {
+      checkouts: series.reduce((sum, bucket) => sum + bucket.checkouts, 0),
+      returns: series.reduce((sum, bucket) => sum + bucket.returns, 0)
+    },
+    topTitles,
+    topGenres,
+    neverBorrowed,
+    overdue,
+    requests,
+    members
+  };
+};
@@ -0,0 +1,189 @@
+import { randomBytes } from "crypto";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../db/prisma";
+import { publishRealtimeEvent } from "./realtime";
+
+type Tx = Prisma.TransactionClient;
+
+const claimAttempts = 3;
+const legacyCopyBatchSize = 100;
+
+export const copyInclude = {
+  select: {
+    id: true,
+    barcode: true,
+    shelfLocation: true,
+    condition: true,
+    status: true
+  }
+} as const;
+
+export const generateCopyBarcode = (): string => {
+  return `MLMS-${Date.now().toString(36).toUpperCase()}-${randomBytes(3).toString("hex").toUpperCase()}`;
+};
+
+export const buildNewCopies = (count: number): Array<{ barcode: string }> => {
+  return Array.from({ length: Math.max(0, count) }, () => ({ barcode: generateCopyBarcode() }));
+};
+
+export const syncBookAvailability = async (tx: Tx, bookId: string): Promise<void> => {
+  const grouped = await tx.bookCopy.groupBy({
+    by: ["status"],
+    where: { bookId },
+    _count: { _all: true }
+  });
+  const countFor = (status: string): number => grouped.find((row) => row.status === status)?._count._all ?? 0;
+
+  const availableCopies = countFor("AVAILABLE");
+  const reservedCopies = countFor("RESERVED");
+  const totalCopies = grouped.reduce((sum, row) => sum + (row.status === "LOST" ? 0 : row._count._all), 0);
+
+  const next = {
+    totalCopies,
+    availableCopies,
+    available: availableCopies > 0,
+    requestPending: availableCopies === 0 && reservedCopies > 0
+  };
+  const previous = await tx.book.findUnique({
+    where: { id: bookId },
+    select: { totalCopies: true, availableCopies: true, available: true, requestPending: true }
+  });
+  await tx.book.update({ where: { id: bookId }, data: next });
+  // Only real changes are broadcast; most syncs leave the counts as they were.
+  if (
+    !previous ||
+    previous.totalCopies !== next.totalCopies ||
+    previous.availableCopies !== next.availableCopies ||
+    previous.available !== next.available ||
+    previous.requestPending !== next.requestPending
+  ) {
+    await publishRealtimeEvent({ type: "book.availability", audience: "ALL", payload: { bookId, ...next } }, tx);
+  }
+};
+
+// Books created before copies were tracked have no copies but still carry their legacy flags: `available`, an active
+// loan or a pending request. Books added since then start unavailable when created with no copies, and removing the
+// last copy marks a book unavailable, so those are left with zero.
+const legacyBookWhere: Prisma.BookWhereInput = {
+  copies: { none: {} },
+  OR: [
+    { available: true },
+    { loans: { some: { returnedAt: null } } },
+    { borrowRequests: { some: { status: "PENDING" } } }
+  ]
+};
+
+const createLegacyCopy = async (tx: Tx, bookId: string): Promise<void> => {
+  const [activeLoan, pendingRequest] = await Promise.all([
+    tx.loan.findFirst({
+      where: { bookId, returnedAt: null },
+      select: { id: true }
+    }),
+    tx.borrowRequest.findFirst({
+      where: { bookId, status: "PENDING" },
+      select: { id: true }
+    })
+  ]);
+
+  const copy = await tx.bookCopy.create({
+    data: {
+      bookId,
+      barcode: generateCopyBarcode(),
+      status: activeLoan ? "ON_LOAN" : pendingRequest ? "RESERVED" : "AVAILABLE"
+    }
+  });
+
+  if (activeLoan) {
+    await tx.loan.update({ where: { id: activeLoan.id }, data: { copyId: copy.id } });
+  } else if (pendingRequest) {
+    await tx.borrowRequest.update({ where: { id: pendingRequest.id }, data: { copyId: copy.id } });
+  }
+
+  await syncBookAvailability(tx, bookId);
+};
+
+// Runs once at startup: gives each legacy book a single copy mirroring its flags and fills in the copy counts.
+export const backfillLegacyBookCopies = async (): Promise<number> => {
+  let backfilled = 0;
+  const skippedBookIds: string[] = [];
+  try {
+    while (true) {
+      const books = await prisma.book.findMany({
+        where: { ...legacyBookWhere, id: { notIn: skippedBookIds } },
+        select: { id: true },
+        take: legacyCopyBatchSize
+      });
+      if (books.length === 0) {
+        break;
+      }
+
+      for (const book of books) {
+        try {
+          await prisma.$transaction(async (tx) => {
+            // Another instance starting at the same time may have backfilled it already.
+            if ((await tx.bookCopy.count({ where: { bookId: book.id } })) === 0) {
+              await createLegacyCopy(tx, book.id);
+            }
+          });
+          backfilled += 1;
+        } catch (error) {
+          skippedBookIds.push(book.id);
+          // eslint-disable-next-line no-console
+          console.error(`[book-copies] could not backfill a copy for book ${book.id}`, error);
+        }
+      }
+    }
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("[book-copies] legacy copy backfill failed", error);
+  }
+  return backfilled;
+};
+
+export const claimAvailableCopy = async (
+  tx: Tx,
+  bookId: string,
+  nextStatus: "RESERVED" | "ON_LOAN"
+): Promise<{ id: string; barcode: string } | null> => {
+  for (let attempt = 0; attempt < claimAttempts; attempt += 1) {
+    const candidate = await tx.bookCopy.findFirst({
+      where: { bookId, status: "AVAILABLE" },
+      orderBy: [{ createdAt: "asc" }],
+      select: { id: true, barcode: true }
+    });
+    if (!candidate) {
+      return null;
+    }
+
+    const claim = await tx.bookCopy.updateMany({
+      where: { id: candidate.id, status: "AVAILABLE" },
+      data: { status: nextStatus }
+    });
+    if (claim.count === 1) {
+      await syncBookAvailability(tx, bookId);
+      return candidate;
+    }
+  }
+
+  return null;
+};
+
+export const releaseCopy = async (
+  tx: Tx,
+  copyId: string,
+  fromStatus: "RESERVED" | "ON_LOAN"
+): Promise<void> => {
+  const copy = await tx.bookCopy.findUnique({
+    where: { id: copyId },
+    select: { bookId: true }
+  });
+  if (!copy) {
+    return;
+  }
+
+  await tx.bookCopy.updateMany({
+    where: { id: copyId, status: fromStatus },
+    data: { status: "AVAILABLE" }
+  });
+  await syncBookAvailability(tx, copy.bookId);
+};
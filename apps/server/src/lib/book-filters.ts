@@ -0,0 +1,204 @@
+import type { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "../db/prisma";
+import type { BookSearchHit } from "./book-search";
+
+export type FacetBucket = {
+  value: string;
+  label: string;
+  count: number;
+  selected: boolean;
+};
+
+export type BookFacets = {
+  genres: FacetBucket[];
+  authors: FacetBucket[];
+  decades: FacetBucket[];
+  ratings: FacetBucket[];
+  availability: FacetBucket[];
+};
+
+type BookFacetName = keyof BookFacets;
+
+const GENRE_FACET_LIMIT = 20;
+const AUTHOR_FACET_LIMIT = 10;
+
+export const ratingBands = [
+  { value: "4-5", label: "4 stars & up", where: { averageRating: { gte: 4 } } },
+  { value: "3-4", label: "3 to 4 stars", where: { averageRating: { gte: 3, lt: 4 } } },
+  { value: "2-3", label: "2 to 3 stars", where: { averageRating: { gte: 2, lt: 3 } } },
+  { value: "0-2", label: "Under 2 stars", where: { averageRating: { lt: 2 } } },
+  { value: "unrated", label: "Not rated", where: { averageRating: null } }
+] as const;
+
+type RatingBandValue = (typeof ratingBands)[number]["value"];
+
+// Accepts a single value or repeated query params (`?genres=a&genres=b`); author names can contain commas.
+const listParam = <T extends z.ZodTypeAny>(item: T) =>
+  z
+    .union([item, z.array(item)])
+    .optional()
+    .transform((value): Array<z.infer<T>> => (value === undefined ? [] : Array.isArray(value) ? value : [value]));
+
+export const bookFilterSchema = z.object({
+  q: z.string().optional(),
+  author: z.string().optional(),
+  genre: z.string().optional(),
+  available: z.enum(["true", "false"]).optional(),
+  genres: listParam(z.string().trim().min(1).max(100)),
+  authors: listParam(z.string().trim().min(1).max(200)),
+  decades: listParam(z.coerce.number().int().min(0).max(2100).transform((year) => year - (year % 10))),
+  ratings: listParam(z.enum(ratingBands.map((band) => band.value) as [RatingBandValue, ...RatingBandValue[]]))
+});
+
+export type BookFilters = z.infer<typeof bookFilterSchema>;
+
+/**
+ * Free-text `author`/`genre` narrow by substring; facet selections match exactly, OR within a facet
+ * and AND across facets. With search hits, `q` narrows to the ranked ids; without them it falls back
+ * to substring matching. `omit` drops one facet so its own buckets still show the alternatives.
+ */
+export const buildBookFilterWhere = (
+  query: BookFilters,
+  searchHits: BookSearchHit[] | null = null,
+  omit?: BookFacetName
+): Prisma.BookWhereInput => ({
+  AND: [
+    searchHits
+      ? { id: { in: searchHits.map((hit) => hit.id) } }
+      : query.q
+      ? {
+          OR: [
+            { title: { contains: query.q, mode: "insensitive" as const } },
+            { author: { contains: query.q, mode: "insensitive" as const } },
+            { genre: { contains: query.q, mode: "insensitive" as const } },
+            { isbn: { contains: query.q, mode: "insensitive" as const } }
+          ]
+        }
+      : {},
+    query.author ? { author: { contains: query.author, mode: "insensitive" as const } } : {},
+    query.genre ? { genre: { contains: query.genre, mode: "insensitive" as const } } : {},
+    omit !== "availability" && typeof query.available === "string" ? { available: query.available === "true" } : {},
+    omit !== "genres" && query.genres.length > 0 ? { genre: { in: query.genres } } : {},
+    omit !== "authors" && query.authors.length > 0 ? { author: { in: query.authors } } : {},
+    omit !== "decades" && query.decades.length > 0
+      ? { OR: query.decades.map((decade) => ({ publishedYear: { gte: decade, lt: decade + 10 } })) }
+      : {},
+    omit !== "ratings" && query.ratings.length > 0
+      ? { OR: ratingBands.filter((band) => query.ratings.includes(band.value)).map((band) => band.where) }
+      : {}
+  ]
+});
+
+type ValueCount = { value: string; count: number };
+
+// Keeps selected values visible even when they fall outside the top buckets.
+const toTopBuckets = async (
+  top: ValueCount[],
+  selected: string[],
+  countSelected: (values: string[]) => Promise<ValueCount[]>
+): Promise<FacetBucket[]> => {
+  const counts = new Map(top.map((row) => [row.value, row.count]));
+  const missing = selected.filter((value) => !counts.has(value));
+  if (missing.length > 0) {
+    const extra = await countSelected(missing);
+    for (const value of missing) {
+      counts.set(value, extra.find((row) => row.value === value)?.count ?? 0);
+    }
+  }
+  return [...counts].map(([value, count]) => ({ value, label: value, count, selected: selected.includes(value) }));
+};
+
+const countGenres = async (where: Prisma.BookWhereInput, selected: string[]): Promise<FacetBucket[]> => {
+  const countWhere = async (genreWhere: Prisma.BookWhereInput, take?: number) => {
+    const rows = await prisma.book.groupBy({
+      by: ["genre"],
+      where: { AND: [where, genreWhere] },
+      _count: { _all: true },
+      orderBy: [{ _count: { genre: "desc" } }, { genre: "asc" }],
+      ...(take ? { take } : {})
+    });
+    return rows.flatMap((row) => (row.genre ? [{ value: row.genre, count: row._count._all }] : []));
+  };
+  return toTopBuckets(await countWhere({ genre: { not: null } }, GENRE_FACET_LIMIT), selected, (values) =>
+    countWhere({ genre: { in: values } })
+  );
+};
+
+const countAuthors = async (where: Prisma.BookWhereInput, selected: string[]): Promise<FacetBucket[]> => {
+  const countWhere = async (authorWhere: Prisma.BookWhereInput, take?: number) => {
+    const rows = await prisma.book.groupBy({
+      by: ["author"],
+      where: { AND: [where, authorWhere] },
+      _count: { _all: true },
+      orderBy: [{ _count: { author: "desc" } }, { author: "asc" }],
+      ...(take ? { take } : {})
+    });
+    return rows.map((row) => ({ value: row.author, count: row._count._all }));
+  };
+  return toTopBuckets(await countWhere({}, AUTHOR_FACET_LIMIT), selected, (values) =>
+    countWhere({ author: { in: values } })
+  );
+};
+
+const countDecades = async (where: Prisma.BookWhereInput, selected: number[]): Promise<FacetBucket[]> => {
+  const years = await prisma.book.groupBy({
+    by: ["publishedYear"],
+    where: { AND: [where, { publishedYear: { not: null } }] },
+    _count: { _all: true }
+  });
+  const counts = new Map<number, number>(selected.map((decade) => [decade, 0]));
+  for (const row of years) {
+    if (row.publishedYear === null) {
+      continue;
+    }
+    const decade = row.publishedYear - (row.publishedYear % 10);
+    counts.set(decade, (counts.get(decade) ?? 0) + row._count._all);
+  }
+
+  return [...counts]
+    .sort(([left], [right]) => right - left)
+    .map(([decade, count]) => ({
+      value: String(decade),
+      label: `${decade}s`,
+      count,
+      selected: selected.includes(decade)
+    }));
+};
+
+const countRatingBands = async (where: Prisma.BookWhereInput, selected: string[]): Promise<FacetBucket[]> => {
+  const counts = await Promise.all(
+    ratingBands.map((band) => prisma.book.count({ where: { AND: [where, band.where] } }))
+  );
+  return ratingBands.map((band, index) => ({
+    value: band.value,
+    label: band.label,
+    count: counts[index] ?? 0,
+    selected: selected.includes(band.value)
+  }));
+};
+
+const countAvailability = async (where: Prisma.BookWhereInput, selected?: "true" | "false"): Promise<FacetBucket[]> => {
+  const rows = await prisma.book.groupBy({
+    by: ["available"],
+    where,
+    _count: { _all: true }
+  });
+  const countFor = (available: boolean) => rows.find((row) => row.available === available)?._count._all ?? 0;
+  return [
+    { value: "true", label: "Checked in", count: countFor(true), selected: selected === "true" },
+    { value: "false", label: "Checked out", count: countFor(false), selected: selected === "false" }
+  ];
+};
+
+// Each facet is counted against every other active filter, so picking a genre still lists the other genres.
+export const loadBookFacets = async (query: BookFilters, searchHits: BookSearchHit[] | null): Promise<BookFacets> => {
+  const [genres, authors, decades, ratings, availability] = await Promise.all([
+    countGenres(buildBookFilterWhere(query, searchHits, "genres"), query.genres),
+    countAuthors(buildBookFilterWhere(query, searchHits, "authors"), query.authors),
+    countDecades(buildBookFilterWhere(query, searchHits, "decades"), query.decades),
+    countRatingBands(buildBookFilterWhere(query, searchHits, "ratings"), query.ratings),
+    countAvailability(buildBookFilterWhere(query, searchHits, "availability"), query.available)
+  ]);
+  return { genres, authors, decades, ratings, availability };
+};
@@ -0,0 +1,142 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db/prisma";
+
+export type BookSearchHit = {
+  id: string;
+  rank: number;
+};
+
+export type BookSearchHighlight = {
+  title: string;
+  author: string;
+  description: string | null;
+};
+
+// Ranked searches stop here; pagination and facet filters work within this window.
+export const MAX_SEARCH_HITS = 1000;
+
+// The expression must stay byte-for-byte identical to the one indexed below, or the planner skips the GIN index.
+const searchDocumentSql = `(setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("author", '')), 'A') || setweight(to_tsvector('english', coalesce("genre", '')), 'B') || setweight(to_tsvector('simple', coalesce("isbn", '')), 'B') || setweight(to_tsvector('english', coalesce("description", '')), 'C'))`;
+
+const headlineOptions = "StartSel=<mark>, StopSel=</mark>";
+
+let searchBackendAvailable = true;
+
+// `prisma db push` only knows the indexes declared in schema.prisma, so the expression and trigram
+// indexes are (re)created on startup instead.
+export const ensureBookSearchIndexes = async (): Promise<void> => {
+  try {
+    await prisma.$executeRawUnsafe(`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+    await prisma.$executeRawUnsafe(
+      `CREATE INDEX IF NOT EXISTS "Book_search_document_idx" ON "Book" USING GIN (${searchDocumentSql})`
+    );
+    await prisma.$executeRawUnsafe(
+      `CREATE INDEX IF NOT EXISTS "Book_title_trgm_idx" ON "Book" USING GIN ("title" gin_trgm_ops)`
+    );
+    await prisma.$executeRawUnsafe(
+      `CREATE INDEX IF NOT EXISTS "Book_author_trgm_idx" ON "Book" USING GIN ("author" gin_trgm_ops)`
+    );
+    searchBackendAvailable = true;
+  } catch (error) {
+    searchBackendAvailable = false;
+    // eslint-disable-next-line no-console
+    console.warn("Full-text search indexes unavailable; falling back to substring matching", error);
+  }
+};
+
+const normalizeSearchIsbn = (q: string): string | null => {
+  const digits = q.replace(/[\s-]/g, "").toUpperCase();
+  return /^(\d{9}[\dX]|\d{13})$/.test(digits) ? digits : null;
+};
+
+/**
+ * Relevance-ordered matches for `q`: stemmed full-text hits weighted title/author > genre/ISBN > description,
+ * plus trigram matches on title and author so small typos still find the book.
+ * Returns null when the search backend is unavailable so callers can fall back to substring filters.
+ */
+export const searchBookIds = async (q: string, limit = MAX_SEARCH_HITS): Promise<BookSearchHit[] | null> => {
+  const term = q.trim();
+  if (!term || !searchBackendAvailable) {
+    return null;
+  }
+  const isbn = normalizeSearchIsbn(term);
+
+  try {
+    const rows = await prisma.$queryRaw<Array<{ id: string; rank: number }>>`
+      SELECT "id",
+        (ts_rank_cd(${Prisma.raw(searchDocumentSql)}, query.tsq)
+          + greatest(word_similarity(${term}, "title"), word_similarity(${term}, "author")) * 0.5
+          + CASE WHEN "isbn" = ${isbn} THEN 1 ELSE 0 END)::float8 AS "rank"
+      FROM "Book", websearch_to_tsquery('english', ${term}) AS query(tsq)
+      WHERE ${Prisma.raw(searchDocumentSql)} @@ query.tsq
+        OR ${term} <% "title"
+        OR ${term} <% "author"
+        OR "isbn" = ${isbn}
+      ORDER BY "rank" DESC, "title" ASC, "id" ASC
+      LIMIT ${limit}
+    `;
+    return rows.map((row) => ({ id: row.id, rank: Number(row.rank) }));
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.warn("Full-text search failed; falling back to substring matching", error);
+    return null;
+  }
+};
+
+// Same match rules as searchBookIds, restricted to the given books (used to test new titles against saved searches).
+export const matchBookIds = async (q: string, bookIds: string[]): Promise<BookSearchHit[] | null> => {
+  const term = q.trim();
+  if (!term || !searchBackendAvailable) {
+    return null;
+  }
+  if (bookIds.length === 0) {
+    return [];
+  }
+  const isbn = normalizeSearchIsbn(term);
+
+  try {
+    const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT "id"
+      FROM "Book", websearch_to_tsquery('english', ${term}) AS query(tsq)
+      WHERE "id" IN (${Prisma.join(bookIds)})
+        AND (${Prisma.raw(searchDocumentSql)} @@ query.tsq
+          OR ${term} <% "title"
+          OR ${term} <% "author"
+          OR "isbn" = ${isbn})
+    `;
+    return rows.map((row) => ({ id: row.id, rank: 0 }));
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.warn("Full-text search failed; falling back to substring matching", error);
+    return null;
+  }
+};
+
+// Wraps matched terms in <mark> tags. Trigram-only matches come back unmarked.
+export const highlightBooks = async (
+  q: string,
+  bookIds: string[]
+): Promise<Map<string, BookSearchHighlight>> => {
+  const term = q.trim();
+  if (!term || bookIds.length === 0 || !searchBackendAvailable) {
+    return new Map();
+  }
+
+  try {
+    const rows = await prisma.$queryRaw<Array<{ id: string } & BookSearchHighlight>>`
+      SELECT "id",
+        ts_headline('english', "title", query.tsq, ${`HighlightAll=true, ${headlineOptions}`}) AS "title",
+        ts_headline('english', "author", query.tsq, ${`HighlightAll=true, ${headlineOptions}`}) AS "author",
+        CASE WHEN "description" IS NULL THEN NULL
+          ELSE ts_headline('english', "description", query.tsq, ${`MaxWords=30, MinWords=12, MaxFragments=2, ${headlineOptions}`})
+        END AS "description"
+      FROM "Book", websearch_to_tsquery('english', ${term}) AS query(tsq)
+      WHERE "id" IN (${Prisma.join(bookIds)})
+    `;
+    return new Map(rows.map(({ id, ...highlight }) => [id, highlight]));
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.warn("Search highlighting failed", error);
+    return new Map();
+  }
+};
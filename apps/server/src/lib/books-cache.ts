@@ -0,0 +1,69 @@
+import type { BookFacets } from "./book-filters";
+import type { BookSearchHighlight } from "./book-search";
+
+const BOOKS_CACHE_TTL_MS = 20_000;
+
+export type BooksPayload = {
+  data: Array<{
+    id: string;
+    title: string;
+    author: string;
+    isbn: string | null;
+    genre: string | null;
+    publishedYear: number | null;
+    description: string | null;
+    coverUrl: string | null;
+    averageRating: number | null;
+    ratingsCount: number | null;
+    aiMetadata: boolean;
+    available: boolean;
+    requestPending: boolean;
+    totalCopies: number;
+    availableCopies: number;
+    isFavorite: boolean;
+    createdAt: Date | string;
+    updatedAt?: Date | string;
+    highlight?: BookSearchHighlight;
+  }>;
+  pageInfo: {
+    hasNextPage: boolean;
+    nextCursor: string | null;
+  };
+  facets?: BookFacets | null;
+};
+
+const booksCache = new Map<string, { expiresAt: number; payload: BooksPayload }>();
+let lastBooksPayload: BooksPayload | null = null;
+
+export const getCachedBooksPayload = (key: string): BooksPayload | null => {
+  const cached = booksCache.get(key);
+  return cached && cached.expiresAt > Date.now() ? cached.payload : null;
+};
+
+// The last good payload doubles as a fallback when the database is unreachable.
+export const getLastBooksPayload = (): BooksPayload | null => lastBooksPayload;
+
+export const cacheBooksPayload = (key: string, payload: BooksPayload): void => {
+  lastBooksPayload = payload;
+  booksCache.set(key, {
+    expiresAt: Date.now() + BOOKS_CACHE_TTL_MS,
+    payload
+  });
+};
+
+export const invalidateBooksCache = (): void => {
+  booksCache.clear();
+  lastBooksPayload = null;
+};
+
+export const pruneBooksCache = (): number => {
+  const now = Date.now();
+  let removed = 0;
+  for (const [key, entry] of booksCache) {
+    if (entry.expiresAt <= now) {
+      booksCache.delete(key);
+      removed += 1;
+    }
+  }
+  return removed;
+};
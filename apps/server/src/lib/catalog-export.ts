@@ -0,0 +1,95 @@
+import { toCsvRow } from "./csv";
+
+export type ExportedBook = {
+  id: string;
+  title: string;
+  author: string;
+  isbn: string | null;
+  genre: string | null;
+  publishedYear: number | null;
+  description: string | null;
+  coverUrl: string | null;
+  averageRating: number | null;
+  ratingsCount: number | null;
+  available: boolean;
+  totalCopies: number;
+  availableCopies: number;
+  reviewCount: number;
+  reviewAverage: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+const csvColumns: Array<keyof ExportedBook> = [
+  "id",
+  "title",
+  "author",
+  "isbn",
+  "genre",
+  "publishedYear",
+  "description",
+  "coverUrl",
+  "averageRating",
+  "ratingsCount",
+  "available",
+  "totalCopies",
+  "availableCopies",
+  "reviewCount",
+  "reviewAverage",
+  "createdAt",
+  "updatedAt"
+];
+
+export const exportCsvHeader = (): string => toCsvRow(csvColumns);
+
+export const toExportCsvRow = (book: ExportedBook): string => toCsvRow(csvColumns.map((column) => book[column]));
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters are not allowed in XML 1.0.
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+
+const datafield = (tag: string, subfields: Array<[string, string | number | null | undefined]>, ind1 = " ", ind2 = " ") => {
+  const present = subfields.filter(([, value]) => value !== null && value !== undefined && value !== "");
+  if (present.length === 0) {
+    return "";
+  }
+  const body = present
+    .map(([code, value]) => `<subfield code="${code}">${escapeXml(String(value))}</subfield>`)
+    .join("");
+  return `<datafield tag="${tag}" ind1="${ind1}" ind2="${ind2}">${body}</datafield>`;
+};
+
+export const marcXmlHeader = '<?xml version="1.0" encoding="UTF-8"?>\n<collection xmlns="http://www.loc.gov/MARC21/slim">\n';
+
+export const marcXmlFooter = "</collection>\n";
+
+// Circulation and review figures go in local field 999 so the bibliographic fields stay standard.
+export const toMarcXmlRecord = (book: ExportedBook): string => {
+  const fields = [
+    '<leader>00000nam a2200000 i 4500</leader>',
+    `<controlfield tag="001">${escapeXml(book.id)}</controlfield>`,
+    `<controlfield tag="005">${book.updatedAt.toISOString().replace(/[-:T]/g, "").slice(0, 14)}.0</controlfield>`,
+    datafield("020", [["a", book.isbn]]),
+    datafield("100", [["a", book.author]], "1"),
+    datafield("245", [["a", book.title]], "1", "0"),
+    datafield("264", [["c", book.publishedYear]], " ", "1"),
+    datafield("520", [["a", book.description]]),
+    datafield("650", [["a", book.genre]], " ", "4"),
+    datafield("856", [["u", book.coverUrl]], "4", "2"),
+    datafield("999", [
+      ["a", book.totalCopies],
+      ["b", book.availableCopies],
+      ["c", book.reviewCount],
+      ["d", book.reviewAverage === null ? null : book.reviewAverage.toFixed(2)],
+      ["e", book.averageRating],
+      ["f", book.ratingsCount]
+    ])
+  ].filter(Boolean);
+
+  return `<record>${fields.join("")}</record>\n`;
+};
@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  isbnSpellings,
+  normalizeIsbn,
+  parseCsv,
+  readCsvCandidates,
+  readMarc21Candidates,
+  readMarcXmlCandidates
+} from "./catalog-import";
+
+type MarcFieldInput = [tag: string, subfields: Array<[code: string, value: string]>];
+
+// Builds an ISO 2709 record the way cataloguing tools export them: UTF-8, blank indicators, byte offsets.
+const buildMarcRecord = (fields: MarcFieldInput[]): Buffer => {
+  const bodies = fields.map(([, subfields]) =>
+    Buffer.from(`  ${subfields.map(([code, value]) => `\x1f${code}${value}`).join("")}\x1e`, "utf8")
+  );
+  let start = 0;
+  const directory =
+    fields
+      .map(([tag], index) => {
+        const entry = `${tag}${String(bodies[index].length).padStart(4, "0")}${String(start).padStart(5, "0")}`;
+        start += bodies[index].length;
+        return entry;
+      })
+      .join("") + "\x1e";
+  const baseAddress = 24 + directory.length;
+  const recordLength = baseAddress + start + 1;
+  const leader = `${String(recordLength).padStart(5, "0")}nam a22${String(baseAddress).padStart(5, "0")}   4500`;
+  return Buffer.concat([Buffer.from(leader + directory, "ascii"), ...bodies, Buffer.from("\x1d", "ascii")]);
+};
+
+describe("parseCsv", () => {
+  it("handles quoted delimiters, doubled quotes and line breaks inside quotes", () => {
+    const rows = parseCsv('title,author\r\n"Hello, World","Doe, ""JD"""\n"Two\nlines",Smith\n');
+    assert.deepEqual(rows, [
+      ["title", "author"],
+      ["Hello, World", 'Doe, "JD"'],
+      ["Two\nlines", "Smith"]
+    ]);
+  });
+
+  it("drops a byte order mark and blank rows and supports other delimiters", () => {
+    assert.deepEqual(parseCsv("\uFEFFtitle;year\n\n;\nDune;1965", ";"), [
+      ["title", "year"],
+      ["Dune", "1965"]
+    ]);
+  });
+});
+
+describe("readCsvCandidates", () => {
+  it("maps common header names and numbers rows like a spreadsheet", () => {
+    const csv = "Book Title,Writer,ISBN_13,Copies\nDune,Frank Herbert,978-0-441-17271-9,2\n";
+    const result = readCsvCandidates(csv, {});
+
+    assert.deepEqual(result.mapping, { title: "Book Title", author: "Writer", isbn: "ISBN_13", copyCount: "Copies" });
+    assert.deepEqual(result.candidates, [
+      {
+        row: 2,
+        values: { title: "Dune", author: "Frank Herbert", isbn: "978-0-441-17271-9", copyCount: "2" },
+        errors: []
+      }
+    ]);
+  });
+
+  it("lets an explicit mapping override detection and flags rows with extra cells", () => {
+    const result = readCsvCandidates("Name,Label\nDune,Science fiction,extra\n", { mapping: { genre: "Label" } });
+
+    assert.equal(result.mapping.genre, "Label");
+    assert.deepEqual(result.candidates[0]?.values, { title: "Dune", genre: "Science fiction" });
+    assert.deepEqual(result.candidates[0]?.errors, ["Row has more cells than the header"]);
+  });
+
+  it("rejects mappings that point at missing columns", () => {
+    assert.throws(
+      () => readCsvCandidates("title\nDune\n", { mapping: { author: "Writer" } }),
+      /Mapped columns not found in the header row: author -> "Writer"/
+    );
+  });
+});
+
+describe("normalizeIsbn", () => {
+  it("strips separators", () => {
+    assert.equal(normalizeIsbn("978-0-441-17271-9"), "9780441172719");
+    assert.equal(normalizeIsbn(" - "), null);
+  });
+
+  it("converts ISBN-10s, including a trailing X, to ISBN-13", () => {
+    assert.equal(normalizeIsbn("0306406152"), "9780306406157");
+    assert.equal(normalizeIsbn("0-8044-2957-x"), "9780804429573");
+  });
+});
+
+describe("isbnSpellings", () => {
+  it("adds the ISBN-10 for 978 ISBNs only", () => {
+    assert.deepEqual(isbnSpellings("9780306406157"), ["9780306406157", "0306406152"]);
+    assert.deepEqual(isbnSpellings("9780804429573"), ["9780804429573", "080442957X"]);
+    assert.deepEqual(isbnSpellings("9791032305690"), ["9791032305690"]);
+  });
+});
+
+describe("readMarc21Candidates", () => {
+  it("reads title, author, ISBN, genre and year from each record", () => {
+    const data = Buffer.concat([
+      buildMarcRecord([
+        ["001", []],
+        ["020", [["a", "9780306406157 (pbk.)"]]],
+        ["100", [["a", "Müller, Anna,"]]],
+        [
+          "245",
+          [
+            ["a", "Gödel and the mind :"],
+            ["b", "a primer /"]
+          ]
+        ],
+        ["264", [["c", "c2019."]]],
+        ["650", [["a", "Philosophy."]]]
+      ]),
+      Buffer.from("\n"),
+      buildMarcRecord([
+        ["245", [["a", "Second record"]]],
+        ["260", [["c", "1999"]]],
+        ["700", [["a", "Added Author"]]]
+      ])
+    ]);
+
+    assert.deepEqual(readMarc21Candidates(data), [
+      {
+        row: 1,
+        values: {
+          title: "Gödel and the mind : a primer",
+          author: "Müller, Anna",
+          isbn: "9780306406157",
+          genre: "Philosophy",
+          publishedYear: "2019"
+        },
+        errors: []
+      },
+      { row: 2, values: { title: "Second record", author: "Added Author", publishedYear: "1999" }, errors: [] }
+    ]);
+  });
+
+  it("stops with an error at a malformed record length", () => {
+    const data = Buffer.concat([buildMarcRecord([["245", [["a", "Fine"]]]]), Buffer.from("99999garbage")]);
+    const candidates = readMarc21Candidates(data);
+
+    assert.equal(candidates.length, 2);
+    assert.equal(candidates[0]?.values.title, "Fine");
+    assert.deepEqual(candidates[1]?.errors, ["Malformed MARC record length; stopped reading the file"]);
+  });
+});
+
+describe("readMarcXmlCandidates", () => {
+  it("reads namespaced records and decodes entities", () => {
+    const xml = `<?xml version="1.0"?>
+      <marc:collection xmlns:marc="http://www.loc.gov/MARC21/slim">
+        <marc:record>
+          <marc:datafield tag="020" ind1=" " ind2=" "><marc:subfield code="a">0441172717</marc:subfield></marc:datafield>
+          <marc:datafield tag="100" ind1="1" ind2=" "><marc:subfield code="a">Herbert, Frank.</marc:subfield></marc:datafield>
+          <marc:datafield tag="245" ind1="1" ind2="0"><marc:subfield code="a">Dune &amp; sons /</marc:subfield></marc:datafield>
+          <marc:datafield tag="520" ind1=" " ind2=" "><marc:subfield code="a">Spice &#x26; sand &lt;3</marc:subfield></marc:datafield>
+        </marc:record>
+        <marc:record>
+          <marc:datafield tag="245" ind1="0" ind2="0"><marc:subfield code="a">Untitled notes</marc:subfield></marc:datafield>
+        </marc:record>
+      </marc:collection>`;
+
+    assert.deepEqual(readMarcXmlCandidates(xml), [
+      {
+        row: 1,
+        values: {
+          title: "Dune & sons",
+          author: "Herbert, Frank",
+          isbn: "0441172717",
+          description: "Spice & sand <3"
+        },
+        errors: []
+      },
+      { row: 2, values: { title: "Untitled notes" }, errors: [] }
+    ]);
+  });
+});
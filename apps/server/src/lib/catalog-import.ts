@@ -0,0 +1,282 @@
+export type ImportFormat = "csv" | "marc" | "marcxml";
+
+export const importFields = [
+  "title",
+  "author",
+  "isbn",
+  "genre",
+  "publishedYear",
+  "description",
+  "coverUrl",
+  "copyCount"
+] as const;
+
+export type ImportField = (typeof importFields)[number];
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+// One source record before validation; values stay as text so the book schema decides what is valid.
+export type ImportCandidate = {
+  row: number;
+  values: Partial<Record<ImportField, string>>;
+  errors: string[];
+};
+
+const headerAliases: Record<ImportField, string[]> = {
+  title: ["title", "book title", "name"],
+  author: ["author", "authors", "writer", "creator"],
+  isbn: ["isbn", "isbn13", "isbn 13", "isbn10", "isbn 10"],
+  genre: ["genre", "category", "subject"],
+  publishedYear: ["publishedyear", "published year", "year", "publication year", "pub year"],
+  description: ["description", "summary", "notes"],
+  coverUrl: ["coverurl", "cover url", "cover", "image"],
+  copyCount: ["copycount", "copy count", "copies", "quantity", "qty"]
+};
+
+const normalizeHeader = (value: string): string => value.trim().toLowerCase().replace(/[_-]+/g, " ");
+
+const isbn13CheckDigit = (first12: string): string => {
+  const sum = [...first12].reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+};
+
+const isbn10CheckDigit = (first9: string): string => {
+  const sum = [...first9].reduce((total, digit, index) => total + Number(digit) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? "X" : String(check);
+};
+
+// ISBN-10s become their ISBN-13 (978 prefix, recomputed check digit), so both forms of a title share one key.
+export const normalizeIsbn = (value: string | null | undefined): string | null => {
+  const cleaned = value?.toUpperCase().replace(/[^0-9X]/g, "") ?? "";
+  if (/^\d{9}[\dX]$/.test(cleaned)) {
+    const first12 = `978${cleaned.slice(0, 9)}`;
+    return first12 + isbn13CheckDigit(first12);
+  }
+  return cleaned || null;
+};
+
+// Every unhyphenated spelling a stored ISBN may have for a normalized one: itself and, for 978 ISBNs, the ISBN-10.
+export const isbnSpellings = (isbn: string): string[] => {
+  if (!/^978\d{10}$/.test(isbn)) {
+    return [isbn];
+  }
+  const first9 = isbn.slice(3, 12);
+  return [isbn, first9 + isbn10CheckDigit(first9)];
+};
+
+// RFC 4180: quoted fields may contain delimiters, doubled quotes and line breaks.
+export const parseCsv = (text: string, delimiter = ","): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+};
+
+export const detectColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  for (const field of importFields) {
+    const index = normalized.findIndex((header) => headerAliases[field].includes(header));
+    if (index >= 0) {
+      mapping[field] = headers[index];
+    }
+  }
+  return mapping;
+};
+
+export const readCsvCandidates = (
+  text: string,
+  options: { mapping?: ColumnMapping; delimiter?: string }
+): { headers: string[]; mapping: ColumnMapping; candidates: ImportCandidate[] } => {
+  const [headerRow, ...dataRows] = parseCsv(text, options.delimiter);
+  const headers = (headerRow ?? []).map((header) => header.trim());
+  const mapping = { ...detectColumnMapping(headers), ...options.mapping };
+  const missingColumns = Object.entries(mapping)
+    .filter(([, column]) => column && !headers.includes(column))
+    .map(([field, column]) => `${field} -> "${column}"`);
+  if (missingColumns.length > 0) {
+    throw new Error(`Mapped columns not found in the header row: ${missingColumns.join(", ")}`);
+  }
+
+  const candidates = dataRows.map((cells, index) => {
+    const values: ImportCandidate["values"] = {};
+    for (const field of importFields) {
+      const column = mapping[field];
+      const value = column ? cells[headers.indexOf(column)]?.trim() : undefined;
+      if (value) {
+        values[field] = value;
+      }
+    }
+    return {
+      // Header is row 1, so the first data row is row 2 as a spreadsheet would show it.
+      row: index + 2,
+      values,
+      errors: cells.length > headers.length ? ["Row has more cells than the header"] : []
+    };
+  });
+
+  return { headers, mapping, candidates };
+};
+
+type MarcField = {
+  tag: string;
+  subfields: Array<{ code: string; value: string }>;
+};
+
+const trimMarcPunctuation = (value: string): string => value.replace(/[\s/:;,.=]+$/, "").trim();
+
+const firstSubfield = (fields: MarcField[], tags: string[], code: string): string | undefined => {
+  for (const tag of tags) {
+    for (const field of fields) {
+      if (field.tag !== tag) {
+        continue;
+      }
+      const subfield = field.subfields.find((entry) => entry.code === code);
+      if (subfield?.value.trim()) {
+        return subfield.value.trim();
+      }
+    }
+  }
+  return undefined;
+};
+
+const marcFieldsToCandidate = (fields: MarcField[], row: number): ImportCandidate => {
+  const title = firstSubfield(fields, ["245"], "a");
+  const subtitle = firstSubfield(fields, ["245"], "b");
+  const year = firstSubfield(fields, ["264", "260"], "c")?.match(/\d{4}/)?.[0];
+  const isbn = firstSubfield(fields, ["020"], "a")?.split(/\s/)[0];
+  const values: ImportCandidate["values"] = {
+    title: title ? trimMarcPunctuation([title, subtitle].filter(Boolean).join(" ")) : undefined,
+    author: trimMarcPunctuation(firstSubfield(fields, ["100", "110", "700"], "a") ?? "") || undefined,
+    isbn,
+    genre: trimMarcPunctuation(firstSubfield(fields, ["650", "655"], "a") ?? "") || undefined,
+    publishedYear: year,
+    description: firstSubfield(fields, ["520"], "a")
+  };
+
+  return {
+    row,
+    values: Object.fromEntries(Object.entries(values).filter(([, value]) => value)) as ImportCandidate["values"],
+    errors: []
+  };
+};
+
+const fieldTerminator = 0x1e;
+const subfieldDelimiter = 0x1f;
+
+// ISO 2709 offsets are byte offsets, so records are sliced from the buffer before decoding.
+export const readMarc21Candidates = (data: Buffer): ImportCandidate[] => {
+  const candidates: ImportCandidate[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    while (offset < data.length && (data[offset] === 0x0a || data[offset] === 0x0d || data[offset] === 0x20)) {
+      offset += 1;
+    }
+    if (offset >= data.length) {
+      break;
+    }
+
+    const row = candidates.length + 1;
+    const recordLength = Number(data.subarray(offset, offset + 5).toString("ascii"));
+    if (!Number.isInteger(recordLength) || recordLength < 24 || offset + recordLength > data.length) {
+      candidates.push({ row, values: {}, errors: ["Malformed MARC record length; stopped reading the file"] });
+      break;
+    }
+
+    const record = data.subarray(offset, offset + recordLength);
+    offset += recordLength;
+    const encoding: BufferEncoding = String.fromCharCode(record[9]) === "a" ? "utf8" : "latin1";
+    const baseAddress = Number(record.subarray(12, 17).toString("ascii"));
+    const fields: MarcField[] = [];
+
+    for (let entry = 24; entry + 12 <= baseAddress && record[entry] !== fieldTerminator; entry += 12) {
+      const tag = record.subarray(entry, entry + 3).toString("ascii");
+      const length = Number(record.subarray(entry + 3, entry + 7).toString("ascii"));
+      const start = Number(record.subarray(entry + 7, entry + 12).toString("ascii"));
+      if (tag < "010") {
+        continue;
+      }
+      const raw = record.subarray(baseAddress + start, baseAddress + start + length);
+      const subfields = raw
+        .toString(encoding)
+        .split(String.fromCharCode(subfieldDelimiter))
+        .slice(1)
+        .map((chunk) => ({
+          code: chunk.charAt(0),
+          value: chunk.slice(1).replace(/[\x1d\x1e]/g, "")
+        }));
+      fields.push({ tag, subfields });
+    }
+
+    candidates.push(marcFieldsToCandidate(fields, row));
+  }
+
+  return candidates;
+};
+
+const decodeXmlEntities = (value: string): string =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_match, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, "&");
+
+export const readMarcXmlCandidates = (xml: string): ImportCandidate[] => {
+  const records = xml.match(/<(?:\w+:)?record\b[^>]*>[\s\S]*?<\/(?:\w+:)?record>/g) ?? [];
+
+  return records.map((record, index) => {
+    const fields: MarcField[] = [];
+    const datafieldPattern = /<(?:\w+:)?datafield\b[^>]*\btag="(\d{3})"[^>]*>([\s\S]*?)<\/(?:\w+:)?datafield>/g;
+    for (const [, tag, body] of record.matchAll(datafieldPattern)) {
+      const subfields = [...body.matchAll(/<(?:\w+:)?subfield\b[^>]*\bcode="(\w)"[^>]*>([\s\S]*?)<\/(?:\w+:)?subfield>/g)].map(
+        ([, code, value]) => ({ code, value: decodeXmlEntities(value) })
+      );
+      fields.push({ tag, subfields });
+    }
+    return marcFieldsToCandidate(fields, index + 1);
+  });
+};
@@ -0,0 +1,61 @@
+import "../test/setup";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { CirculationPolicy } from "@prisma/client";
+import { defaultCirculationRules, normalizePolicyGenre, pickCirculationRules } from "./circulation-policy";
+
+const policy = (id: string, overrides: Partial<CirculationPolicy> = {}): CirculationPolicy => ({
+  id,
+  role: null,
+  genre: null,
+  maxActiveLoans: 5,
+  minLoanDays: 14,
+  defaultLoanDays: 21,
+  maxLoanDays: 30,
+  maxRenewals: 1,
+  gracePeriodDays: 0,
+  fineDailyRateCents: 10,
+  createdAt: new Date("2025-01-01T00:00:00.000Z"),
+  updatedAt: new Date("2025-01-01T00:00:00.000Z"),
+  ...overrides
+});
+
+const policies = [
+  policy("catch-all"),
+  policy("members", { role: "MEMBER" }),
+  policy("fiction", { genre: "fiction" }),
+  policy("member-fiction", { role: "MEMBER", genre: "fiction" })
+];
+
+describe("pickCirculationRules", () => {
+  it("falls back to the defaults when nothing matches", () => {
+    assert.equal(pickCirculationRules([], { role: "MEMBER", genre: null }), defaultCirculationRules);
+    assert.equal(
+      pickCirculationRules([policy("admins", { role: "ADMIN" })], { role: "MEMBER", genre: null }),
+      defaultCirculationRules
+    );
+  });
+
+  it("prefers role and genre, then genre, then role, then the catch-all", () => {
+    assert.equal(pickCirculationRules(policies, { role: "MEMBER", genre: "Fiction" }).policyId, "member-fiction");
+    assert.equal(pickCirculationRules(policies, { role: "ADMIN", genre: "Fiction" }).policyId, "fiction");
+    assert.equal(pickCirculationRules(policies, { role: "MEMBER", genre: "History" }).policyId, "members");
+    assert.equal(pickCirculationRules(policies, { role: "ADMIN", genre: null }).policyId, "catch-all");
+  });
+
+  it("matches genres without regard to case or surrounding spaces", () => {
+    assert.equal(normalizePolicyGenre("  Science Fiction "), "science fiction");
+    assert.equal(normalizePolicyGenre("   "), null);
+    assert.equal(pickCirculationRules(policies, { role: "ADMIN", genre: " FICTION " }).policyId, "fiction");
+  });
+
+  it("copies the policy's limits into the rules", () => {
+    const rules = pickCirculationRules([policy("short", { maxLoanDays: 7, gracePeriodDays: 2 })], {
+      role: "MEMBER",
+      genre: null
+    });
+    assert.equal(rules.maxLoanDays, 7);
+    assert.equal(rules.gracePeriodDays, 2);
+    assert.equal(rules.fineDailyRateCents, 10);
+  });
+});
@@ -0,0 +1,109 @@
+import type { CirculationPolicy, Prisma, Role } from "@prisma/client";
+import { env } from "../config/env";
+import { prisma } from "../db/prisma";
+import {
+  buildFallbackDueEstimate,
+  estimateLoanDueDate,
+  type DueDateEstimate,
+  type LoanLengthBounds
+} from "./reading-time";
+
+type Tx = Prisma.TransactionClient;
+
+export type CirculationRules = {
+  policyId: string | null;
+  maxActiveLoans: number;
+  minLoanDays: number;
+  defaultLoanDays: number;
+  maxLoanDays: number;
+  maxRenewals: number;
+  gracePeriodDays: number;
+  fineDailyRateCents: number;
+};
+
+type PolicyContext = {
+  role: Role;
+  genre: string | null;
+};
+
+// Applies when no stored policy matches; admins override it by saving a policy with no role and no genre.
+export const defaultCirculationRules: CirculationRules = {
+  policyId: null,
+  maxActiveLoans: 5,
+  minLoanDays: 14,
+  defaultLoanDays: 30,
+  maxLoanDays: 45,
+  maxRenewals: env.LOAN_MAX_RENEWALS,
+  gracePeriodDays: 0,
+  fineDailyRateCents: env.FINE_DAILY_RATE_CENTS
+};
+
+export const normalizePolicyGenre = (genre: string | null | undefined): string | null => {
+  const value = genre?.trim().toLowerCase();
+  return value ? value : null;
+};
+
+const toRules = (policy: CirculationPolicy): CirculationRules => ({
+  policyId: policy.id,
+  maxActiveLoans: policy.maxActiveLoans,
+  minLoanDays: policy.minLoanDays,
+  defaultLoanDays: policy.defaultLoanDays,
+  maxLoanDays: policy.maxLoanDays,
+  maxRenewals: policy.maxRenewals,
+  gracePeriodDays: policy.gracePeriodDays,
+  fineDailyRateCents: policy.fineDailyRateCents
+});
+
+export const loadCirculationPolicies = async (client: Tx = prisma): Promise<CirculationPolicy[]> => {
+  return client.circulationPolicy.findMany();
+};
+
+// Most specific match wins: role + genre, then genre, then role, then the catch-all policy.
+export const pickCirculationRules = (policies: CirculationPolicy[], context: PolicyContext): CirculationRules => {
+  const genre = normalizePolicyGenre(context.genre);
+  let best: { score: number; policy: CirculationPolicy } | null = null;
+
+  for (const policy of policies) {
+    if (policy.role && policy.role !== context.role) {
+      continue;
+    }
+    if (policy.genre && policy.genre !== genre) {
+      continue;
+    }
+    const score = (policy.genre ? 2 : 0) + (policy.role ? 1 : 0);
+    if (!best || score > best.score) {
+      best = { score, policy };
+    }
+  }
+
+  return best ? toRules(best.policy) : defaultCirculationRules;
+};
+
+export const resolveCirculationRules = async (context: PolicyContext, client: Tx = prisma): Promise<CirculationRules> => {
+  return pickCirculationRules(await loadCirculationPolicies(client), context);
+};
+
+export const toLoanLengthBounds = (rules: CirculationRules): LoanLengthBounds => ({
+  minDays: rules.minLoanDays,
+  maxDays: rules.maxLoanDays,
+  fallbackDays: rules.defaultLoanDays
+});
+
+export const estimateDueDateWithinPolicy = async (
+  book: { title: string; author: string; isbn: string | null },
+  rules: CirculationRules,
+  waitMs?: number
+): Promise<DueDateEstimate> => {
+  const bounds = toLoanLengthBounds(rules);
+  const estimate = estimateLoanDueDate(book, bounds).catch(() => buildFallbackDueEstimate(bounds));
+  if (waitMs === undefined) {
+    return estimate;
+  }
+
+  return Promise.race<DueDateEstimate>([
+    estimate,
+    new Promise<DueDateEstimate>((resolve) => {
+      setTimeout(() => resolve(buildFallbackDueEstimate(bounds)), waitMs);
+    })
+  ]);
+};
@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { toCsvCell, toCsvRow } from "./csv";
+
+describe("toCsvCell", () => {
+  it("quotes cells with delimiters, quotes or line breaks", () => {
+    assert.equal(toCsvCell("plain"), "plain");
+    assert.equal(toCsvCell('say "hi", then\nleave'), '"say ""hi"", then\nleave"');
+  });
+
+  it("writes dates as ISO strings and objects as JSON", () => {
+    assert.equal(toCsvCell(new Date("2025-03-10T12:00:00.000Z")), "2025-03-10T12:00:00.000Z");
+    assert.equal(toCsvCell({ a: 1 }), '"{""a"":1}"');
+    assert.equal(toCsvCell(null), "");
+  });
+
+  it("prefixes text that a spreadsheet would run as a formula", () => {
+    assert.equal(toCsvCell("=HYPERLINK(\"http://x\")"), "\"'=HYPERLINK(\"\"http://x\"\")\"");
+    assert.equal(toCsvCell("+1"), "'+1");
+    assert.equal(toCsvCell("-2+3"), "'-2+3");
+    assert.equal(toCsvCell("@SUM(A1)"), "'@SUM(A1)");
+  });
+
+  it("leaves numbers alone", () => {
+    assert.equal(toCsvCell(-5), "-5");
+    assert.equal(toCsvRow([1, "a", -2.5]), "1,a,-2.5\r\n");
+  });
+});
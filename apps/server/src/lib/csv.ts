@@ -0,0 +1,16 @@
+const needsQuoting = /[",\r\n]/;
+// Spreadsheets run cells starting with these as formulas, so text cells that do are prefixed with an apostrophe.
+const formulaTrigger = /^[=+\-@\t\r]/;
+
+export const toCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text =
+    value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Numbers are written as-is: a negative number is not a formula.
+  const safeText = typeof value !== "number" && formulaTrigger.test(text) ? `'${text}` : text;
+  return needsQuoting.test(safeText) ? `"${safeText.replace(/"/g, '""')}"` : safeText;
+};
+
+export const toCsvRow = (values: unknown[]): string => `${values.map(toCsvCell).join(",")}\r\n`;
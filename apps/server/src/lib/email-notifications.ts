@@ -0,0 +1,271 @@
+import { Prisma, type EmailDeliveryStatus, type EmailTemplate, type NotificationPreference } from "@prisma/client";
+import { prisma } from "../db/prisma";
+import { renderEmailTemplate, type EmailTemplateInput } from "./email-templates";
+import { getEmailTransport } from "./mailer";
+import {
+  bookLink,
+  daysOverdue,
+  dueSoonReminderKey,
+  forEachReminderLoanPage,
+  notifyUser,
+  overdueReminderKey,
+  reminderLoanWindows
+} from "./notifications";
+
+type PreferenceField = keyof Omit<NotificationPreference, "userId" | "updatedAt">;
+
+// A failed delivery is retried by later sends of the same key until it has been attempted this many times.
+const maxDeliveryAttempts = 3;
+
+const preferenceFields: Record<EmailTemplate, PreferenceField> = {
+  DUE_SOON: "emailDueSoon",
+  OVERDUE: "emailOverdue",
+  REQUEST_APPROVED: "emailRequestDecisions",
+  REQUEST_DECLINED: "emailRequestDecisions",
+  HOLD_READY: "emailHoldReady",
+  NEW_ARRIVALS: "emailSavedSearches"
+};
+
+export const defaultNotificationPreferences: Record<PreferenceField, boolean> = {
+  emailDueSoon: true,
+  emailOverdue: true,
+  emailRequestDecisions: true,
+  emailHoldReady: true,
+  emailSavedSearches: true
+};
+
+const toDateOnly = (date: Date): string => date.toISOString().slice(0, 10);
+
+const logEmailFailure = (label: string, error: unknown) => {
+  // eslint-disable-next-line no-console
+  console.error(`[email] ${label} failed`, error);
+};
+
+type EmailRequest<T extends EmailTemplate> = {
+  userId: string;
+  template: T;
+  // Each event is mailed at most once; re-sending the same key is a no-op unless its last attempt failed.
+  dedupeKey: string;
+  data: Omit<EmailTemplateInput<T>, "name">;
+};
+
+// Takes over a failed delivery for another attempt. The update only matches while the row is still failed with the
+// attempt count that was read, so concurrent senders cannot both retry it.
+const claimFailedDelivery = async (
+  dedupeKey: string,
+  data: { toAddress: string; subject: string }
+): Promise<string | null> => {
+  const existing = await prisma.emailDelivery.findUnique({
+    where: { dedupeKey },
+    select: { id: true, status: true, attempts: true }
+  });
+  if (existing?.status !== "FAILED" || existing.attempts >= maxDeliveryAttempts) {
+    return null;
+  }
+  const claimed = await prisma.emailDelivery.updateMany({
+    where: { id: existing.id, status: "FAILED", attempts: existing.attempts },
+    data: { ...data, status: "PENDING", error: null, attempts: { increment: 1 } }
+  });
+  return claimed.count === 1 ? existing.id : null;
+};
+
+export const sendTemplatedEmail = async <T extends EmailTemplate>(
+  request: EmailRequest<T>
+): Promise<EmailDeliveryStatus | null> => {
+  const user = await prisma.user.findUnique({
+    where: { id: request.userId },
+    select: {
+      name: true,
+      email: true,
+      contactEmail: true,
+      notificationPreference: true
+    }
+  });
+  if (!user) {
+    return null;
+  }
+
+  const rendered = renderEmailTemplate(request.template, {
+    ...request.data,
+    name: user.name
+  } as EmailTemplateInput<T>);
+  const toAddress = user.contactEmail ?? user.email;
+  const optedOut = user.notificationPreference?.[preferenceFields[request.template]] === false;
+
+  let deliveryId: string;
+  try {
+    const delivery = await prisma.emailDelivery.create({
+      data: {
+        userId: request.userId,
+        template: request.template,
+        dedupeKey: request.dedupeKey,
+        toAddress,
+        subject: rendered.subject,
+        status: optedOut ? "SKIPPED" : "PENDING",
+        error: optedOut ? "Member opted out" : null
+      },
+      select: { id: true }
+    });
+    deliveryId = delivery.id;
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== "P2002") {
+      throw error;
+    }
+    const retryId = optedOut
+      ? null
+      : await claimFailedDelivery(request.dedupeKey, { toAddress, subject: rendered.subject });
+    if (!retryId) {
+      return null;
+    }
+    deliveryId = retryId;
+  }
+  if (optedOut) {
+    return "SKIPPED";
+  }
+
+  try {
+    await getEmailTransport().send({ to: toAddress, ...rendered });
+    await prisma.emailDelivery.update({
+      where: { id: deliveryId },
+      data: { status: "SENT", sentAt: new Date() }
+    });
+    return "SENT";
+  } catch (error) {
+    await prisma.emailDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: "FAILED",
+        error: (error instanceof Error ? error.message : String(error)).slice(0, 500)
+      }
+    });
+    return "FAILED";
+  }
+};
+
+export const notifyBorrowRequestDecision = async (input: {
+  requestId: string;
+  userId: string;
+  bookTitle: string;
+  approved: boolean;
+  dueAt?: Date | null;
+}): Promise<void> => {
+  try {
+    if (input.approved) {
+      await sendTemplatedEmail({
+        userId: input.userId,
+        template: "REQUEST_APPROVED",
+        dedupeKey: `request-decision:${input.requestId}`,
+        data: { bookTitle: input.bookTitle, dueAt: input.dueAt ?? null }
+      });
+    } else {
+      await sendTemplatedEmail({
+        userId: input.userId,
+        template: "REQUEST_DECLINED",
+        dedupeKey: `request-decision:${input.requestId}`,
+        data: { bookTitle: input.bookTitle }
+      });
+    }
+  } catch (error) {
+    logEmailFailure("request decision", error);
+  }
+};
+
+export const notifyHoldsReady = async (holdIds: Array<string | null | undefined>): Promise<void> => {
+  for (const holdId of holdIds) {
+    if (!holdId) {
+      continue;
+    }
+    try {
+      const hold = await prisma.bookHold.findUnique({
+        where: { id: holdId },
+        select: {
+          userId: true,
+          bookId: true,
+          status: true,
+          pickupDeadline: true,
+          book: { select: { title: true } },
+          copy: { select: { barcode: true } }
+        }
+      });
+      if (hold?.status !== "READY") {
+        continue;
+      }
+      // The in-app notification goes out regardless of email preferences.
+      await notifyUser(hold.userId, {
+        type: "HOLD_READY",
+        title: `"${hold.book.title}" is ready for pickup`,
+        body: hold.pickupDeadline ? `Pick it up by ${toDateOnly(hold.pickupDeadline)}.` : null,
+        payload: { holdId, bookId: hold.bookId, pickupDeadline: hold.pickupDeadline?.toISOString() ?? null },
+        link: bookLink(hold.bookId),
+        dedupeKey: `hold-ready:${holdId}`
+      });
+      await sendTemplatedEmail({
+        userId: hold.userId,
+        template: "HOLD_READY",
+        dedupeKey: `hold-ready:${holdId}`,
+        data: {
+          bookTitle: hold.book.title,
+          pickupDeadline: hold.pickupDeadline,
+          barcode: hold.copy?.barcode ?? null
+        }
+      });
+    } catch (error) {
+      logEmailFailure("hold ready", error);
+    }
+  }
+};
+
+// Keys whose delivery failed stay unsent until they run out of attempts.
+const filterUnsentKeys = async (keys: string[]): Promise<Set<string>> => {
+  const existing = await prisma.emailDelivery.findMany({
+    where: {
+      dedupeKey: { in: keys },
+      OR: [{ status: { not: "FAILED" } }, { attempts: { gte: maxDeliveryAttempts } }]
+    },
+    select: { dedupeKey: true }
+  });
+  const sent = new Set(existing.map((delivery) => delivery.dedupeKey));
+  return new Set(keys.filter((key) => !sent.has(key)));
+};
+
+export const sendLoanReminderEmails = async (now = new Date()): Promise<{ dueSoon: number; overdue: number }> => {
+  const windows = reminderLoanWindows(now);
+
+  let dueSoon = 0;
+  await forEachReminderLoanPage(windows.dueSoon, async (loans) => {
+    const pending = await filterUnsentKeys(loans.map(dueSoonReminderKey));
+    for (const loan of loans) {
+      const dedupeKey = dueSoonReminderKey(loan);
+      if (!pending.has(dedupeKey)) {
+        continue;
+      }
+      const status = await sendTemplatedEmail({
+        userId: loan.userId,
+        template: "DUE_SOON",
+        dedupeKey,
+        data: { bookTitle: loan.book.title, dueAt: loan.dueAt }
+      });
+      dueSoon += status === "SENT" ? 1 : 0;
+    }
+  });
+
+  let overdue = 0;
+  await forEachReminderLoanPage(windows.overdue, async (loans) => {
+    const pending = await filterUnsentKeys(loans.map((loan) => overdueReminderKey(loan, now)));
+    for (const loan of loans) {
+      const dedupeKey = overdueReminderKey(loan, now);
+      if (!pending.has(dedupeKey)) {
+        continue;
+      }
+      const status = await sendTemplatedEmail({
+        userId: loan.userId,
+        template: "OVERDUE",
+        dedupeKey,
+        data: { bookTitle: loan.book.title, dueAt: loan.dueAt, daysOverdue: daysOverdue(loan.dueAt, now) }
+      });
+      overdue += status === "SENT" ? 1 : 0;
+    }
+  });
+
+  return { dueSoon, overdue };
+};
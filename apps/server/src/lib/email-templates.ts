@@ -0,0 +1,99 @@
+import type { EmailTemplate } from "@prisma/client";
+import { env } from "../config/env";
+
+type EmailTemplateData = {
+  DUE_SOON: { name: string; bookTitle: string; dueAt: Date };
+  OVERDUE: { name: string; bookTitle: string; dueAt: Date; daysOverdue: number };
+  REQUEST_APPROVED: { name: string; bookTitle: string; dueAt: Date | null };
+  REQUEST_DECLINED: { name: string; bookTitle: string };
+  HOLD_READY: { name: string; bookTitle: string; pickupDeadline: Date | null; barcode: string | null };
+  NEW_ARRIVALS: { name: string; searchName: string; books: Array<{ title: string; author: string }> };
+};
+
+export type EmailTemplateInput<T extends EmailTemplate> = EmailTemplateData[T];
+
+export type RenderedEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+type TemplateBody = {
+  subject: string;
+  paragraphs: string[];
+};
+
+const formatDate = (date: Date): string =>
+  date.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric", year: "numeric" });
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const templates: { [K in EmailTemplate]: (data: EmailTemplateData[K]) => TemplateBody } = {
+  DUE_SOON: (data) => ({
+    subject: `"${data.bookTitle}" is due ${formatDate(data.dueAt)}`,
+    paragraphs: [
+      `A reminder that "${data.bookTitle}" is due back on ${formatDate(data.dueAt)}.`,
+      "Return it at the desk or renew it from your dashboard if you need more time."
+    ]
+  }),
+  OVERDUE: (data) => ({
+    subject: `"${data.bookTitle}" is overdue`,
+    paragraphs: [
+      `"${data.bookTitle}" was due on ${formatDate(data.dueAt)} and is now ${data.daysOverdue} day(s) overdue.`,
+      "Please return it as soon as possible. Overdue fines are added when the book is checked in."
+    ]
+  }),
+  REQUEST_APPROVED: (data) => ({
+    subject: `Your request for "${data.bookTitle}" was approved`,
+    paragraphs: [
+      `Good news: your borrow request for "${data.bookTitle}" was approved.`,
+      data.dueAt ? `The loan is due back on ${formatDate(data.dueAt)}.` : "You can see the loan on your dashboard."
+    ]
+  }),
+  REQUEST_DECLINED: (data) => ({
+    subject: `Your request for "${data.bookTitle}" was declined`,
+    paragraphs: [
+      `Your borrow request for "${data.bookTitle}" was declined.`,
+      "You can place a hold to join the queue for the next available copy."
+    ]
+  }),
+  HOLD_READY: (data) => ({
+    subject: `"${data.bookTitle}" is ready for pickup`,
+    paragraphs: [
+      `A copy of "${data.bookTitle}" is being held for you${data.barcode ? ` (copy ${data.barcode})` : ""}.`,
+      data.pickupDeadline
+        ? `Pick it up by ${formatDate(data.pickupDeadline)} or it will pass to the next member in the queue.`
+        : "Pick it up soon or it will pass to the next member in the queue."
+    ]
+  }),
+  NEW_ARRIVALS: (data) => ({
+    subject:
+      data.books.length === 1
+        ? `New in the catalog for "${data.searchName}": ${data.books[0]?.title}`
+        : `${data.books.length} new books match "${data.searchName}"`,
+    paragraphs: [
+      `New titles matching your saved search "${data.searchName}" were added to the catalog:`,
+      ...data.books.slice(0, 10).map((book) => `- ${book.title} by ${book.author}`),
+      ...(data.books.length > 10 ? [`...and ${data.books.length - 10} more.`] : []),
+      "Open the saved search in the catalog to see them all."
+    ]
+  })
+};
+
+export const renderEmailTemplate = <T extends EmailTemplate>(template: T, data: EmailTemplateData[T]): RenderedEmail => {
+  const body = templates[template](data);
+  const footer = `Manage email notifications in your settings: ${env.APP_URL}`;
+
+  return {
+    subject: body.subject,
+    text: [`Hi ${data.name},`, ...body.paragraphs, footer].join("\n\n"),
+    html: [
+      `<p>Hi ${escapeHtml(data.name)},</p>`,
+      ...body.paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+      `<p style="color:#666;font-size:12px">Manage email notifications in your <a href="${escapeHtml(
+        env.APP_URL
+      )}">settings</a>.</p>`
+    ].join("\n")
+  };
+};
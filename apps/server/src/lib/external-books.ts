@@ -1,5 +1,7 @@
 import { env } from "../config/env";
 import { prisma } from "../db/prisma";
+import { buildNewCopies } from "./book-copies";
+import { notifySavedSearchMatches } from "./saved-searches";
 
 type ExternalSource = "openlibrary" | "google";
 type SearchProvider = ExternalSource | "auto";
@@ -543,6 +545,7 @@ export const persistExternalBooks = async (
   candidates: ExternalBookCandidate[]
 ): Promise<{ books: Array<Awaited<ReturnType<typeof prisma.book.create>>>; createdCount: number; reusedCount: number }> => {
   const books: LocalBook[] = [];
+  const createdIds: string[] = [];
   let createdCount = 0;
   let reusedCount = 0;
 
@@ -597,10 +600,16 @@ export const persistExternalBooks = async (
           description: candidate.description,
           coverUrl: candidate.coverUrl,
           averageRating: candidate.averageRating,
-          ratingsCount: candidate.ratingsCount
+          ratingsCount: candidate.ratingsCount,
+          totalCopies: 1,
+          availableCopies: 1,
+          copies: {
+            create: buildNewCopies(1)
+          }
         }
       });
       books.push(created);
+      createdIds.push(created.id);
       createdCount += 1;
     } catch (error) {
       const isUniqueViolation =
@@ -622,6 +631,7 @@ export const persistExternalBooks = async (
     }
   }
 
+  void notifySavedSearchMatches(createdIds);
   return { books, createdCount, reusedCount };
 };
 
@@ -12,6 +12,8 @@ type FallbackBook = {
   aiMetadata: boolean;
   available: boolean;
   requestPending: boolean;
+  totalCopies: number;
+  availableCopies: number;
   createdAt: string;
   updatedAt: string;
 };
@@ -33,6 +35,8 @@ export const FALLBACK_BOOKS: FallbackBook[] = [
     aiMetadata: false,
     available: true,
     requestPending: false,
+    totalCopies: 1,
+    availableCopies: 1,
     createdAt: nowIso,
     updatedAt: nowIso
   },
@@ -50,6 +54,8 @@ export const FALLBACK_BOOKS: FallbackBook[] = [
     aiMetadata: false,
     available: true,
     requestPending: false,
+    totalCopies: 1,
+    availableCopies: 1,
     createdAt: nowIso,
     updatedAt: nowIso
   },
@@ -67,6 +73,8 @@ export const FALLBACK_BOOKS: FallbackBook[] = [
     aiMetadata: false,
     available: true,
     requestPending: false,
+    totalCopies: 1,
+    availableCopies: 1,
     createdAt: nowIso,
     updatedAt: nowIso
   },
@@ -84,6 +92,8 @@ export const FALLBACK_BOOKS: FallbackBook[] = [
     aiMetadata: false,
     available: true,
     requestPending: false,
+    totalCopies: 1,
+    availableCopies: 1,
     createdAt: nowIso,
     updatedAt: nowIso
   },
@@ -101,6 +111,8 @@ export const FALLBACK_BOOKS: FallbackBook[] = [
     aiMetadata: false,
     available: true,
     requestPending: false,
+    totalCopies: 1,
+    availableCopies: 1,
     createdAt: nowIso,
     updatedAt: nowIso
   },
@@ -118,6 +130,8 @@ export const FALLBACK_BOOKS: FallbackBook[] = [
     aiMetadata: false,
     available: true,
     requestPending: false,
+    totalCopies: 1,
+    availableCopies: 1,
     createdAt: nowIso,
     updatedAt: nowIso
   }
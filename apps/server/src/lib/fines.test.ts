@@ -0,0 +1,43 @@
+import "../test/setup";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { calculateOverdueFine } from "./fines";
+
+const rules = { fineDailyRateCents: 25, gracePeriodDays: 0 };
+const dueAt = new Date("2025-03-10T12:00:00.000Z");
+
+describe("calculateOverdueFine", () => {
+  it("charges nothing for loans without a due date", () => {
+    assert.deepEqual(calculateOverdueFine(null, new Date("2025-04-01T00:00:00.000Z"), rules), {
+      daysOverdue: 0,
+      amountCents: 0
+    });
+  });
+
+  it("charges nothing when returned on time", () => {
+    assert.deepEqual(calculateOverdueFine(dueAt, dueAt, rules), { daysOverdue: 0, amountCents: 0 });
+  });
+
+  it("counts every started day past the due date", () => {
+    assert.deepEqual(calculateOverdueFine(dueAt, new Date("2025-03-10T12:00:01.000Z"), rules), {
+      daysOverdue: 1,
+      amountCents: 25
+    });
+    assert.deepEqual(calculateOverdueFine(dueAt, new Date("2025-03-13T11:00:00.000Z"), rules), {
+      daysOverdue: 3,
+      amountCents: 75
+    });
+  });
+
+  it("starts accruing only after the grace period", () => {
+    const withGrace = { fineDailyRateCents: 50, gracePeriodDays: 2 };
+    assert.deepEqual(calculateOverdueFine(dueAt, new Date("2025-03-12T12:00:00.000Z"), withGrace), {
+      daysOverdue: 0,
+      amountCents: 0
+    });
+    assert.deepEqual(calculateOverdueFine(dueAt, new Date("2025-03-13T12:00:00.000Z"), withGrace), {
+      daysOverdue: 1,
+      amountCents: 50
+    });
+  });
+});
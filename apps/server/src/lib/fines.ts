@@ -0,0 +1,75 @@
+import type { Prisma } from "@prisma/client";
+import { env } from "../config/env";
+import { prisma } from "../db/prisma";
+import type { CirculationRules } from "./circulation-policy";
+import { HttpError } from "./errors";
+
+type Tx = Prisma.TransactionClient;
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+export const calculateOverdueFine = (
+  dueAt: Date | null,
+  returnedAt: Date,
+  rules: Pick<CirculationRules, "fineDailyRateCents" | "gracePeriodDays">
+): { daysOverdue: number; amountCents: number } => {
+  if (!dueAt) {
+    return { daysOverdue: 0, amountCents: 0 };
+  }
+
+  const finedFrom = dueAt.getTime() + rules.gracePeriodDays * dayMs;
+  if (returnedAt.getTime() <= finedFrom) {
+    return { daysOverdue: 0, amountCents: 0 };
+  }
+
+  const daysOverdue = Math.ceil((returnedAt.getTime() - finedFrom) / dayMs);
+  return { daysOverdue, amountCents: daysOverdue * rules.fineDailyRateCents };
+};
+
+export const assessOverdueFine = async (
+  tx: Tx,
+  loan: { id: string; userId: string; dueAt: Date | null },
+  returnedAt: Date,
+  rules: CirculationRules
+) => {
+  const { daysOverdue, amountCents } = calculateOverdueFine(loan.dueAt, returnedAt, rules);
+  if (amountCents <= 0) {
+    return null;
+  }
+
+  return tx.fine.create({
+    data: {
+      userId: loan.userId,
+      loanId: loan.id,
+      amountCents,
+      daysOverdue,
+      dailyRateCents: rules.fineDailyRateCents
+    }
+  });
+};
+
+export const getUnpaidBalanceCents = async (userId?: string, client: Tx = prisma): Promise<number> => {
+  const totals = await client.fine.aggregate({
+    where: { status: "OPEN", ...(userId ? { userId } : {}) },
+    _sum: {
+      amountCents: true,
+      paidCents: true
+    }
+  });
+  return Math.max(0, (totals._sum.amountCents ?? 0) - (totals._sum.paidCents ?? 0));
+};
+
+export const formatCents = (cents: number): string => `${(cents / 100).toFixed(2)} ${env.FINE_CURRENCY}`;
+
+export const assertBorrowingAllowed = async (userId: string): Promise<void> => {
+  const balanceCents = await getUnpaidBalanceCents(userId);
+  if (balanceCents > env.FINE_BLOCK_THRESHOLD_CENTS) {
+    throw new HttpError(
+      403,
+      `Borrowing is blocked until unpaid fines of ${formatCents(balanceCents)} are settled below ${formatCents(
+        env.FINE_BLOCK_THRESHOLD_CENTS
+      )}`,
+      { balanceCents, thresholdCents: env.FINE_BLOCK_THRESHOLD_CENTS }
+    );
+  }
+};
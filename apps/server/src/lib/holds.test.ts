@@ -0,0 +1,67 @@
+import "../test/setup";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Prisma } from "@prisma/client";
+import { passCopyToNextHold } from "./holds";
+
+type StoredHold = { id: string; status: string; copyId: string | null };
+
+// One copy of one book plus its holds; just the queries the hand-off and the availability sync issue.
+const createShelf = (copyStatus: string, holds: StoredHold[]) => {
+  const copy = { id: "copy-1", bookId: "book-1", status: copyStatus };
+  const client = {
+    bookCopy: {
+      findUnique: async () => ({ bookId: copy.bookId }),
+      updateMany: async ({ where, data }: { where: { status: string }; data: { status: string } }) => {
+        if (copy.status !== where.status) {
+          return { count: 0 };
+        }
+        copy.status = data.status;
+        return { count: 1 };
+      },
+      groupBy: async () => [{ status: copy.status, _count: { _all: 1 } }]
+    },
+    bookHold: {
+      findFirst: async () => holds.find((hold) => hold.status === "WAITING") ?? null,
+      updateMany: async ({ where, data }: { where: { id: string; status: string }; data: StoredHold }) => {
+        const hold = holds.find((entry) => entry.id === where.id && entry.status === where.status);
+        if (!hold) {
+          return { count: 0 };
+        }
+        Object.assign(hold, { status: data.status, copyId: data.copyId });
+        return { count: 1 };
+      }
+    },
+    book: {
+      findUnique: async () => null,
+      update: async () => ({})
+    },
+    realtimeEvent: { create: async () => ({}) }
+  };
+  return { copy, holds, tx: client as unknown as Prisma.TransactionClient };
+};
+
+describe("passCopyToNextHold", () => {
+  it("reserves a returned copy for the first waiting hold", async () => {
+    const shelf = createShelf("ON_LOAN", [{ id: "hold-1", status: "WAITING", copyId: null }]);
+
+    assert.equal(await passCopyToNextHold(shelf.tx, "copy-1", "ON_LOAN"), "hold-1");
+    assert.equal(shelf.copy.status, "RESERVED");
+    assert.deepEqual(shelf.holds[0], { id: "hold-1", status: "READY", copyId: "copy-1" });
+  });
+
+  it("shelves the copy when nobody is waiting", async () => {
+    const shelf = createShelf("ON_LOAN", []);
+
+    assert.equal(await passCopyToNextHold(shelf.tx, "copy-1", "ON_LOAN"), null);
+    assert.equal(shelf.copy.status, "AVAILABLE");
+  });
+
+  it("readies no hold when the copy is not in the expected status", async () => {
+    const shelf = createShelf("LOST", [{ id: "hold-1", status: "WAITING", copyId: null }]);
+
+    assert.equal(await passCopyToNextHold(shelf.tx, "copy-1", "ON_LOAN"), null);
+    assert.equal(shelf.copy.status, "LOST");
+    assert.deepEqual(shelf.holds[0], { id: "hold-1", status: "WAITING", copyId: null });
+  });
+});
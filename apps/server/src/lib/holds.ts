@@ -0,0 +1,202 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../db/prisma";
+import { createAuditLog } from "./audit";
+import { claimAvailableCopy, releaseCopy, syncBookAvailability } from "./book-copies";
+import { notifyHoldsReady } from "./email-notifications";
+
+type Tx = Prisma.TransactionClient;
+
+export const holdPickupDays = 3;
+const promoteAttempts = 3;
+const expireBatchSize = 50;
+
+// Schema indexes cannot be partial, so the one-active-hold-per-member rule is (re)created on startup instead.
+export const ensureHoldIndexes = async (): Promise<void> => {
+  try {
+    await prisma.$executeRawUnsafe(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "BookHold_active_bookId_userId_key" ON "BookHold" ("bookId", "userId") WHERE "status" IN ('WAITING', 'READY')`
+    );
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.warn("Active hold index unavailable; duplicate holds are only checked before insert", error);
+  }
+};
+
+const buildPickupDeadline = (from: Date): Date => {
+  return new Date(from.getTime() + holdPickupDays * 24 * 60 * 60 * 1000);
+};
+
+const readyNextHold = async (tx: Tx, bookId: string, copyId: string): Promise<string | null> => {
+  for (let attempt = 0; attempt < promoteAttempts; attempt += 1) {
+    const next = await tx.bookHold.findFirst({
+      where: { bookId, status: "WAITING" },
+      orderBy: [{ createdAt: "asc" }],
+      select: { id: true }
+    });
+    if (!next) {
+      return null;
+    }
+
+    const now = new Date();
+    const promoted = await tx.bookHold.updateMany({
+      where: { id: next.id, status: "WAITING" },
+      data: {
+        status: "READY",
+        copyId,
+        readyAt: now,
+        pickupDeadline: buildPickupDeadline(now)
+      }
+    });
+    if (promoted.count === 1) {
+      return next.id;
+    }
+  }
+
+  return null;
+};
+
+// Returned or released copies go to the first waiting hold before they reach the shelf.
+export const passCopyToNextHold = async (
+  tx: Tx,
+  copyId: string,
+  fromStatus: "RESERVED" | "ON_LOAN"
+): Promise<string | null> => {
+  const copy = await tx.bookCopy.findUnique({
+    where: { id: copyId },
+    select: { bookId: true }
+  });
+  if (!copy) {
+    return null;
+  }
+
+  // Take the copy out of `fromStatus` first: a copy that is lost, in maintenance or already handed off must not
+  // ready a hold.
+  const moved = await tx.bookCopy.updateMany({
+    where: { id: copyId, status: fromStatus },
+    data: { status: "RESERVED" }
+  });
+  if (moved.count === 0) {
+    return null;
+  }
+
+  const holdId = await readyNextHold(tx, copy.bookId, copyId);
+  if (!holdId) {
+    await releaseCopy(tx, copyId, "RESERVED");
+    return null;
+  }
+
+  await syncBookAvailability(tx, copy.bookId);
+  return holdId;
+};
+
+export const fillWaitingHolds = async (tx: Tx, bookId: string): Promise<string[]> => {
+  const promoted: string[] = [];
+
+  while (true) {
+    const waiting = await tx.bookHold.count({ where: { bookId, status: "WAITING" } });
+    if (waiting === 0) {
+      break;
+    }
+
+    const copy = await claimAvailableCopy(tx, bookId, "RESERVED");
+    if (!copy) {
+      break;
+    }
+
+    const holdId = await readyNextHold(tx, bookId, copy.id);
+    if (!holdId) {
+      await releaseCopy(tx, copy.id, "RESERVED");
+      break;
+    }
+    promoted.push(holdId);
+  }
+
+  return promoted;
+};
+
+export const claimReadyHold = async (
+  tx: Tx,
+  bookId: string,
+  userId: string
+): Promise<{ id: string; copyId: string } | null> => {
+  const hold = await tx.bookHold.findFirst({
+    where: { bookId, userId, status: "READY", copyId: { not: null } },
+    select: { id: true, copyId: true }
+  });
+  if (!hold?.copyId) {
+    return null;
+  }
+
+  const claimed = await tx.bookHold.updateMany({
+    where: { id: hold.id, status: "READY" },
+    data: { status: "FULFILLED", closedAt: new Date() }
+  });
+  if (claimed.count !== 1) {
+    return null;
+  }
+
+  return { id: hold.id, copyId: hold.copyId };
+};
+
+export const getQueuePosition = async (
+  client: Tx,
+  hold: { bookId: string; status: string; createdAt: Date }
+): Promise<number | null> => {
+  if (hold.status !== "WAITING") {
+    return null;
+  }
+
+  const ahead = await client.bookHold.count({
+    where: {
+      bookId: hold.bookId,
+      status: "WAITING",
+      createdAt: { lt: hold.createdAt }
+    }
+  });
+  return ahead + 1;
+};
+
+export const expireLapsedHolds = async (): Promise<number> => {
+  const lapsed = await prisma.bookHold.findMany({
+    where: {
+      status: "READY",
+      pickupDeadline: { lt: new Date() }
+    },
+    select: { id: true, bookId: true, userId: true, copyId: true },
+    orderBy: [{ pickupDeadline: "asc" }],
+    take: expireBatchSize
+  });
+
+  let expiredCount = 0;
+  for (const hold of lapsed) {
+    const nextHoldId = await prisma.$transaction(async (tx) => {
+      const expired = await tx.bookHold.updateMany({
+        where: { id: hold.id, status: "READY" },
+        data: { status: "EXPIRED", closedAt: new Date() }
+      });
+      if (expired.count !== 1) {
+        return undefined;
+      }
+      return hold.copyId ? passCopyToNextHold(tx, hold.copyId, "RESERVED") : null;
+    });
+    if (nextHoldId === undefined) {
+      continue;
+    }
+
+    expiredCount += 1;
+    await createAuditLog({
+      action: "HOLD_EXPIRED",
+      entity: "BOOK_HOLD",
+      entityId: hold.id,
+      metadata: {
+        bookId: hold.bookId,
+        userId: hold.userId,
+        copyId: hold.copyId,
+        nextHoldId
+      }
+    });
+    await notifyHoldsReady([nextHoldId]);
+  }
+
+  return expiredCount;
+};
@@ -0,0 +1,147 @@
+import { fakePrisma } from "../test/setup";
+import assert from "node:assert/strict";
+import { beforeEach, describe, it, mock } from "node:test";
+import { env } from "../config/env";
+import { computeNextRunAt, describeSchedule, jobInstanceId, runJob, type JobDefinition } from "./job-scheduler";
+
+const minuteMs = 60 * 1000;
+
+type JobUpdate = { where: Record<string, unknown>; data: Record<string, unknown> };
+
+const createJob = (run: JobDefinition["run"]): JobDefinition => ({
+  name: "test-job",
+  description: "Test job",
+  schedule: { dailyAtUtcHour: 2 },
+  lockMinutes: 10,
+  run
+});
+
+// Records the scheduler's writes; `claimed` decides whether the lock update matches the job row.
+const stubJobTables = (options: { claimed: boolean; consecutiveFailures?: number }) => {
+  const claims: JobUpdate[] = [];
+  const releases: JobUpdate[] = [];
+  const runUpdates: JobUpdate[] = [];
+  Object.assign(fakePrisma, {
+    scheduledJob: {
+      updateMany: async (args: JobUpdate) => {
+        if ("lockedUntil" in args.data && args.data.lockedUntil !== null) {
+          claims.push(args);
+          return { count: options.claimed ? 1 : 0 };
+        }
+        releases.push(args);
+        return { count: 1 };
+      },
+      findUniqueOrThrow: async () => ({ consecutiveFailures: options.consecutiveFailures ?? 0 })
+    },
+    jobRun: {
+      create: async ({ data }: { data: Record<string, unknown> }) => ({ id: "run-1", ...data }),
+      update: async (args: JobUpdate) => {
+        runUpdates.push(args);
+        return { id: "run-1", ...args.data };
+      }
+    },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations)
+  });
+  return { claims, releases, runUpdates };
+};
+
+describe("computeNextRunAt", () => {
+  it("adds the interval for repeating jobs", () => {
+    const from = new Date("2025-03-10T10:15:00.000Z");
+    assert.equal(computeNextRunAt({ everyMinutes: 30 }, from).toISOString(), "2025-03-10T10:45:00.000Z");
+  });
+
+  it("picks the next occurrence of a daily hour", () => {
+    const schedule = { dailyAtUtcHour: 2 };
+    assert.equal(
+      computeNextRunAt(schedule, new Date("2025-03-10T01:00:00.000Z")).toISOString(),
+      "2025-03-10T02:00:00.000Z"
+    );
+    assert.equal(
+      computeNextRunAt(schedule, new Date("2025-03-10T02:00:00.000Z")).toISOString(),
+      "2025-03-11T02:00:00.000Z"
+    );
+  });
+
+  it("describes schedules for the admin screen", () => {
+    assert.equal(describeSchedule({ everyMinutes: 120 }), "Every 2 hour(s)");
+    assert.equal(describeSchedule({ everyMinutes: 15 }), "Every 15 minute(s)");
+    assert.equal(describeSchedule({ dailyAtUtcHour: 2 }), "Daily at 02:00 UTC");
+  });
+});
+
+describe("runJob", () => {
+  beforeEach(() => {
+    for (const key of Object.keys(fakePrisma)) {
+      delete fakePrisma[key];
+    }
+  });
+
+  it("skips the run when another instance holds the lock", async () => {
+    const tables = stubJobTables({ claimed: false });
+    const run = mock.fn(async () => ({}));
+
+    assert.equal(await runJob(createJob(run), "schedule"), null);
+    assert.equal(run.mock.callCount(), 0);
+    assert.equal(tables.releases.length, 0);
+
+    const [claim] = tables.claims;
+    assert.equal(claim?.data.lockedBy, jobInstanceId);
+    assert.deepEqual(claim?.where.OR, [{ lockedUntil: null }, { lockedUntil: { lt: claim?.data.lastStartedAt } }]);
+    assert.equal(claim?.where.enabled, true);
+  });
+
+  it("lets manual runs skip the enabled and due checks but not the lock", async () => {
+    const tables = stubJobTables({ claimed: false });
+    await runJob(createJob(async () => ({})), "manual");
+
+    const [claim] = tables.claims;
+    assert.equal(claim?.where.enabled, undefined);
+    assert.equal(claim?.where.nextRunAt, undefined);
+    assert.ok(claim?.where.OR);
+  });
+
+  it("releases its own lock and resets failures after a successful run", async () => {
+    const tables = stubJobTables({ claimed: true, consecutiveFailures: 2 });
+
+    const finished = await runJob(createJob(async () => ({ processed: 3 })), "schedule");
+    assert.equal(finished?.status, "SUCCEEDED");
+    assert.deepEqual(tables.runUpdates[0]?.data.result, { processed: 3 });
+
+    const [release] = tables.releases;
+    assert.deepEqual(release?.where, { name: "test-job", lockedBy: jobInstanceId });
+    assert.equal(release?.data.lockedUntil, null);
+    assert.equal(release?.data.consecutiveFailures, 0);
+    assert.deepEqual(
+      release?.data.nextRunAt,
+      computeNextRunAt({ dailyAtUtcHour: 2 }, release?.data.lastFinishedAt as Date)
+    );
+  });
+
+  it("retries failed runs with exponential backoff", async () => {
+    const tables = stubJobTables({ claimed: true, consecutiveFailures: 1 });
+
+    const finished = await runJob(createJob(async () => Promise.reject(new Error("upstream timeout"))), "schedule");
+    assert.equal(finished?.status, "FAILED");
+    assert.equal(finished?.error, "upstream timeout");
+
+    const [release] = tables.releases;
+    const finishedAt = release?.data.lastFinishedAt as Date;
+    assert.equal(release?.data.consecutiveFailures, 2);
+    assert.equal((release?.data.nextRunAt as Date).getTime() - finishedAt.getTime(), 2 * minuteMs);
+  });
+
+  it("waits for the next regular slot once retries are used up", async () => {
+    const tables = stubJobTables({ claimed: true, consecutiveFailures: env.JOB_MAX_RETRIES });
+
+    await runJob(createJob(async () => Promise.reject(new Error("still failing"))), "schedule");
+
+    const [release] = tables.releases;
+    assert.equal(release?.data.consecutiveFailures, 0);
+    assert.equal(release?.data.lastError, "still failing");
+    assert.deepEqual(
+      release?.data.nextRunAt,
+      computeNextRunAt({ dailyAtUtcHour: 2 }, release?.data.lastFinishedAt as Date)
+    );
+  });
+});
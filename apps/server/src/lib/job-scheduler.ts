@@ -0,0 +1,197 @@
+import { randomUUID } from "crypto";
+import os from "os";
+import type { JobRun, Prisma } from "@prisma/client";
+import { env, jobsEnabled } from "../config/env";
+import { prisma } from "../db/prisma";
+
+export type JobSchedule = { everyMinutes: number } | { dailyAtUtcHour: number };
+
+export type JobDefinition = {
+  name: string;
+  description: string;
+  schedule: JobSchedule;
+  // A crashed instance releases the job once its lock lapses.
+  lockMinutes: number;
+  run: () => Promise<Prisma.InputJsonValue>;
+};
+
+export type JobTrigger = "schedule" | "manual";
+
+const minuteMs = 60 * 1000;
+const retryBaseMinutes = 1;
+
+// Identifies this process in locks and run history when several instances share a database.
+export const jobInstanceId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+export const computeNextRunAt = (schedule: JobSchedule, from: Date): Date => {
+  if ("everyMinutes" in schedule) {
+    return new Date(from.getTime() + schedule.everyMinutes * minuteMs);
+  }
+
+  const next = new Date(from);
+  next.setUTCHours(schedule.dailyAtUtcHour, 0, 0, 0);
+  if (next <= from) {
+    next.setUTCDate(next.getUTCDate() + 1);
+  }
+  return next;
+};
+
+export const describeSchedule = (schedule: JobSchedule): string => {
+  if ("everyMinutes" in schedule) {
+    return schedule.everyMinutes % 60 === 0
+      ? `Every ${schedule.everyMinutes / 60} hour(s)`
+      : `Every ${schedule.everyMinutes} minute(s)`;
+  }
+  return `Daily at ${String(schedule.dailyAtUtcHour).padStart(2, "0")}:00 UTC`;
+};
+
+export const registerJobs = async (definitions: JobDefinition[]): Promise<void> => {
+  const now = new Date();
+  for (const job of definitions) {
+    await prisma.scheduledJob.upsert({
+      where: { name: job.name },
+      create: { name: job.name, nextRunAt: computeNextRunAt(job.schedule, now) },
+      update: {}
+    });
+  }
+};
+
+// The conditional update is the lock: only one instance can move lockedUntil forward for a due job.
+const claimJob = async (job: JobDefinition, now: Date, trigger: JobTrigger): Promise<boolean> => {
+  const claimed = await prisma.scheduledJob.updateMany({
+    where: {
+      name: job.name,
+      ...(trigger === "schedule" ? { enabled: true, nextRunAt: { lte: now } } : {}),
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }]
+    },
+    data: {
+      lockedBy: jobInstanceId,
+      lockedUntil: new Date(now.getTime() + job.lockMinutes * minuteMs),
+      lastStartedAt: now
+    }
+  });
+  return claimed.count === 1;
+};
+
+export const runJob = async (job: JobDefinition, trigger: JobTrigger): Promise<JobRun | null> => {
+  const startedAt = new Date();
+  if (!(await claimJob(job, startedAt, trigger))) {
+    return null;
+  }
+
+  const state = await prisma.scheduledJob.findUniqueOrThrow({
+    where: { name: job.name },
+    select: { consecutiveFailures: true }
+  });
+  const run = await prisma.jobRun.create({
+    data: {
+      jobName: job.name,
+      attempt: state.consecutiveFailures + 1,
+      instanceId: jobInstanceId,
+      trigger,
+      startedAt
+    }
+  });
+
+  try {
+    const result = await job.run();
+    const finishedAt = new Date();
+    const [finishedRun] = await prisma.$transaction([
+      prisma.jobRun.update({
+        where: { id: run.id },
+        data: { status: "SUCCEEDED", result, finishedAt }
+      }),
+      prisma.scheduledJob.updateMany({
+        where: { name: job.name, lockedBy: jobInstanceId },
+        data: {
+          lockedBy: null,
+          lockedUntil: null,
+          lastFinishedAt: finishedAt,
+          lastStatus: "SUCCEEDED",
+          lastError: null,
+          consecutiveFailures: 0,
+          nextRunAt: computeNextRunAt(job.schedule, finishedAt)
+        }
+      })
+    ]);
+    return finishedRun;
+  } catch (error) {
+    const finishedAt = new Date();
+    const message = (error instanceof Error ? error.message : String(error)).slice(0, 1000);
+    const failures = state.consecutiveFailures + 1;
+    // Retry with exponential backoff, then give up until the next regular slot.
+    const retry = failures <= env.JOB_MAX_RETRIES;
+    const [finishedRun] = await prisma.$transaction([
+      prisma.jobRun.update({
+        where: { id: run.id },
+        data: { status: "FAILED", error: message, finishedAt }
+      }),
+      prisma.scheduledJob.updateMany({
+        where: { name: job.name, lockedBy: jobInstanceId },
+        data: {
+          lockedBy: null,
+          lockedUntil: null,
+          lastFinishedAt: finishedAt,
+          lastStatus: "FAILED",
+          lastError: message,
+          consecutiveFailures: retry ? failures : 0,
+          nextRunAt: retry
+            ? new Date(finishedAt.getTime() + retryBaseMinutes * 2 ** (failures - 1) * minuteMs)
+            : computeNextRunAt(job.schedule, finishedAt)
+        }
+      })
+    ]);
+    return finishedRun;
+  }
+};
+
+const logSchedulerError = (error: unknown) => {
+  // eslint-disable-next-line no-console
+  console.error("[jobs] scheduler tick failed", error);
+};
+
+export const startJobScheduler = (
+  definitions: JobDefinition[],
+  options: { onTick?: () => void } = {}
+): NodeJS.Timeout | null => {
+  if (!jobsEnabled) {
+    return null;
+  }
+
+  const byName = new Map(definitions.map((job) => [job.name, job]));
+  let tickInProgress = false;
+
+  const tick = async () => {
+    if (tickInProgress) {
+      return;
+    }
+    tickInProgress = true;
+    try {
+      options.onTick?.();
+      const due = await prisma.scheduledJob.findMany({
+        where: { enabled: true, nextRunAt: { lte: new Date() } },
+        orderBy: [{ nextRunAt: "asc" }],
+        select: { name: true }
+      });
+      for (const { name } of due) {
+        const job = byName.get(name);
+        if (job) {
+          await runJob(job, "schedule");
+        }
+      }
+    } catch (error) {
+      logSchedulerError(error);
+    } finally {
+      tickInProgress = false;
+    }
+  };
+
+  void registerJobs(definitions)
+    .then(tick)
+    .catch(logSchedulerError);
+  const timer = setInterval(() => {
+    void tick();
+  }, env.JOB_POLL_INTERVAL_SECONDS * 1000);
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,197 @@
+import { env } from "../config/env";
+import { prisma } from "../db/prisma";
+import { createAuditLog } from "./audit";
+import { invalidateBooksCache, pruneBooksCache } from "./books-cache";
+import { notifyHoldsReady, sendLoanReminderEmails } from "./email-notifications";
+import { enrichMissingCoreMetadata } from "./external-books";
+import { expireLapsedHolds, passCopyToNextHold } from "./holds";
+import { startJobScheduler, type JobDefinition } from "./job-scheduler";
+import { bookLink, createLoanReminderNotifications, notifyUser } from "./notifications";
+import { reconcileReadingPoints } from "./points";
+import { publishRealtimeEvent, pruneRealtimeEvents } from "./realtime";
+import { pruneReadingEstimateCache } from "./reading-time";
+
+const dayMs = 24 * 60 * 60 * 1000;
+const staleRequestBatchSize = 100;
+const jobRunRetentionDays = 30;
+const revokedTokenRetentionDays = 7;
+const readNotificationRetentionDays = 90;
+const realtimeEventRetentionDays = 1;
+
+const runOverdueSweep = async () => {
+  const now = new Date();
+  const overdueLoans = await prisma.loan.findMany({
+    where: { returnedAt: null, dueAt: { lt: now } },
+    select: { userId: true }
+  });
+  const emails = await sendLoanReminderEmails(now);
+  const notifications = await createLoanReminderNotifications(now);
+
+  return {
+    overdueLoans: overdueLoans.length,
+    overdueMembers: new Set(overdueLoans.map((loan) => loan.userId)).size,
+    dueSoonEmails: emails.dueSoon,
+    overdueEmails: emails.overdue,
+    dueSoonNotifications: notifications.dueSoon,
+    overdueNotifications: notifications.overdue
+  };
+};
+
+// Pending requests hold a reserved copy; once they go stale the copy moves on to the hold queue or the shelf.
+const expireStaleBorrowRequests = async () => {
+  const cutoff = new Date(Date.now() - env.BORROW_REQUEST_EXPIRY_DAYS * dayMs);
+  const stale = await prisma.borrowRequest.findMany({
+    where: { status: "PENDING", createdAt: { lt: cutoff } },
+    select: { id: true, bookId: true, userId: true, copyId: true, book: { select: { title: true } } },
+    orderBy: [{ createdAt: "asc" }],
+    take: staleRequestBatchSize
+  });
+
+  let expired = 0;
+  for (const request of stale) {
+    const nextHoldId = await prisma.$transaction(async (tx) => {
+      const updated = await tx.borrowRequest.updateMany({
+        where: { id: request.id, status: "PENDING" },
+        data: { status: "EXPIRED", reviewedAt: new Date(), memberSeenAt: null }
+      });
+      if (updated.count !== 1) {
+        return undefined;
+      }
+      return request.copyId ? passCopyToNextHold(tx, request.copyId, "RESERVED") : null;
+    });
+    if (nextHoldId === undefined) {
+      continue;
+    }
+
+    expired += 1;
+    await createAuditLog({
+      action: "BOOK_BORROW_REQUEST_EXPIRED",
+      entity: "BORROW_REQUEST",
+      entityId: request.id,
+      metadata: {
+        bookId: request.bookId,
+        userId: request.userId,
+        copyId: request.copyId,
+        nextHoldId
+      }
+    });
+    await notifyUser(request.userId, {
+      type: "REQUEST_EXPIRED",
+      title: `Your request for "${request.book.title}" expired`,
+      body: "It was not reviewed in time. You can request the book again or place a hold.",
+      payload: { requestId: request.id, bookId: request.bookId },
+      link: bookLink(request.bookId),
+      dedupeKey: `request-decision:${request.id}`
+    });
+    await publishRealtimeEvent({
+      type: "borrow-request.expired",
+      audience: "ADMINS",
+      userId: request.userId,
+      payload: { requestId: request.id, bookId: request.bookId, userId: request.userId, status: "EXPIRED" }
+    });
+    await notifyHoldsReady([nextHoldId]);
+  }
+
+  if (expired > 0) {
+    invalidateBooksCache();
+  }
+  return { expired, expiryDays: env.BORROW_REQUEST_EXPIRY_DAYS };
+};
+
+const runMetadataEnrichment = async () => {
+  const result = await enrichMissingCoreMetadata({
+    limit: 300,
+    provider: "auto"
+  });
+  if (result.updatedCount > 0) {
+    invalidateBooksCache();
+  }
+  return result;
+};
+
+const runMaintenance = async () => {
+  const now = Date.now();
+  const [refreshTokens, jobRuns, notifications, realtimeEvents] = await Promise.all([
+    prisma.refreshToken.deleteMany({
+      where: {
+        OR: [
+          { expiresAt: { lt: new Date(now) } },
+          { revokedAt: { lt: new Date(now - revokedTokenRetentionDays * dayMs) } }
+        ]
+      }
+    }),
+    prisma.jobRun.deleteMany({
+      where: { startedAt: { lt: new Date(now - jobRunRetentionDays * dayMs) } }
+    }),
+    prisma.notification.deleteMany({
+      where: { readAt: { lt: new Date(now - readNotificationRetentionDays * dayMs) } }
+    }),
+    pruneRealtimeEvents(new Date(now - realtimeEventRetentionDays * dayMs))
+  ]);
+
+  return {
+    deletedRefreshTokens: refreshTokens.count,
+    deletedJobRuns: jobRuns.count,
+    deletedNotifications: notifications.count,
+    deletedRealtimeEvents: realtimeEvents
+  };
+};
+
+export const jobDefinitions: JobDefinition[] = [
+  {
+    name: "overdue-sweep",
+    description: "Counts overdue loans and emails due-soon and overdue reminders.",
+    schedule: { dailyAtUtcHour: 2 },
+    lockMinutes: 30,
+    run: runOverdueSweep
+  },
+  {
+    name: "hold-expiry",
+    description: "Expires holds that were not picked up and passes the copy on.",
+    schedule: { everyMinutes: 15 },
+    lockMinutes: 10,
+    run: async () => ({ expired: await expireLapsedHolds() })
+  },
+  {
+    name: "stale-borrow-requests",
+    description: "Expires borrow requests left pending past the expiry window.",
+    schedule: { everyMinutes: 60 },
+    lockMinutes: 10,
+    run: expireStaleBorrowRequests
+  },
+  {
+    name: "metadata-enrichment",
+    description: "Fills missing covers, genres, ratings and authors from external catalogs.",
+    schedule: { everyMinutes: 6 * 60 },
+    lockMinutes: 60,
+    run: runMetadataEnrichment
+  },
+  {
+    name: "maintenance",
+    description: "Deletes expired refresh tokens, old job history, old read notifications and delivered live events.",
+    schedule: { dailyAtUtcHour: 3 },
+    lockMinutes: 15,
+    run: runMaintenance
+  },
+  {
+    name: "points-reconciliation",
+    description: "Resets reading points that drifted from the point ledger.",
+    schedule: { dailyAtUtcHour: 4 },
+    lockMinutes: 30,
+    run: reconcileReadingPoints
+  }
+];
+
+export const findJobDefinition = (name: string): JobDefinition | undefined => {
+  return jobDefinitions.find((job) => job.name === name);
+};
+
+// In-memory caches live per instance, so they are pruned on every tick rather than by a locked job.
+const pruneLocalCaches = (): void => {
+  pruneBooksCache();
+  pruneReadingEstimateCache();
+};
+
+export const startBackgroundJobs = (): NodeJS.Timeout | null => {
+  return startJobScheduler(jobDefinitions, { onTick: pruneLocalCaches });
+};
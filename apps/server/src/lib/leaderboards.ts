@@ -0,0 +1,121 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db/prisma";
+import { getLevelInfo } from "./levels";
+
+export const leaderboardPeriods = ["week", "month", "all"] as const;
+
+export type LeaderboardPeriod = (typeof leaderboardPeriods)[number];
+
+type LeaderboardQuery = {
+  period: LeaderboardPeriod;
+  genre?: string;
+  limit: number;
+  viewerId?: string;
+};
+
+// Weeks start on Monday and months on the 1st, both in UTC.
+export const getPeriodStart = (period: LeaderboardPeriod, now = new Date()): Date | null => {
+  if (period === "all") {
+    return null;
+  }
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (period === "week") {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else {
+    start.setUTCDate(1);
+  }
+  return start;
+};
+
+const buildLedgerWhere = (period: LeaderboardPeriod, genre?: string): Prisma.PointTransactionWhereInput => {
+  const periodStart = getPeriodStart(period);
+  return {
+    user: { leaderboardOptOut: false },
+    ...(periodStart ? { createdAt: { gte: periodStart } } : {}),
+    ...(genre ? { genre: { equals: genre, mode: "insensitive" } } : {})
+  };
+};
+
+export const loadLeaderboard = async (query: LeaderboardQuery) => {
+  const where = buildLedgerWhere(query.period, query.genre);
+  const rows = await prisma.pointTransaction.groupBy({
+    by: ["userId"],
+    where,
+    _sum: { points: true },
+    orderBy: [{ _sum: { points: "desc" } }, { userId: "asc" }],
+    having: { points: { _sum: { gt: 0 } } },
+    take: query.limit
+  });
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: rows.map((row) => row.userId) } },
+    select: { id: true, name: true, avatarPreset: true, readingPoints: true }
+  });
+  const usersById = new Map(users.map((user) => [user.id, user]));
+
+  // Tied members share a rank.
+  let rank = 0;
+  let previousPoints: number | null = null;
+  const entries = rows.flatMap((row, index) => {
+    const user = usersById.get(row.userId);
+    const points = row._sum.points ?? 0;
+    if (points !== previousPoints) {
+      rank = index + 1;
+      previousPoints = points;
+    }
+    if (!user) {
+      return [];
+    }
+    return [
+      {
+        rank,
+        userId: user.id,
+        name: user.name,
+        avatarPreset: user.avatarPreset,
+        levelNumber: getLevelInfo(user.readingPoints).levelNumber,
+        points
+      }
+    ];
+  });
+
+  return { entries, viewer: query.viewerId ? await loadViewerStanding(query, where) : null };
+};
+
+const loadViewerStanding = async (query: LeaderboardQuery, where: Prisma.PointTransactionWhereInput) => {
+  const viewerId = query.viewerId as string;
+  const viewer = await prisma.user.findUnique({
+    where: { id: viewerId },
+    select: { leaderboardOptOut: true }
+  });
+  const own = await prisma.pointTransaction.aggregate({
+    where: {
+      userId: viewerId,
+      ...(where.createdAt ? { createdAt: where.createdAt } : {}),
+      ...(where.genre ? { genre: where.genre } : {})
+    },
+    _sum: { points: true }
+  });
+  const points = own._sum.points ?? 0;
+  if (viewer?.leaderboardOptOut || points <= 0) {
+    return { optedOut: Boolean(viewer?.leaderboardOptOut), points, rank: null };
+  }
+
+  const ahead = await prisma.pointTransaction.groupBy({
+    by: ["userId"],
+    where,
+    _sum: { points: true },
+    having: { points: { _sum: { gt: points } } }
+  });
+  return { optedOut: false, points, rank: ahead.length + 1 };
+};
+
+export const listLeaderboardGenres = async (): Promise<string[]> => {
+  const rows = await prisma.pointTransaction.findMany({
+    where: { genre: { not: null } },
+    distinct: ["genre"],
+    select: { genre: true },
+    orderBy: { genre: "asc" },
+    take: 100
+  });
+  return rows.map((row) => row.genre).filter((genre): genre is string => Boolean(genre));
+};
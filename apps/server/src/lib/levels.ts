@@ -13,7 +13,7 @@ const baseLevelCap = 100;
 const growthFactor = 1.5;
 const levelNames = ["Noob", "Reader", "Pro", "King"];
 
-const getLevelName = (levelNumber: number): string => {
+export const getLevelName = (levelNumber: number): string => {
   if (levelNumber <= levelNames.length) {
     return levelNames[levelNumber - 1];
   }
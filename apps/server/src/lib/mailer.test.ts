@@ -0,0 +1,58 @@
+import "../test/setup";
+import assert from "node:assert/strict";
+import { describe, it, mock } from "node:test";
+import nodemailer from "nodemailer";
+import { env } from "../config/env";
+import { buildMimeMessage, createNodemailerTransport } from "./mailer";
+
+const email = {
+  to: "reader@example.com",
+  subject: "Ready for pickup: Café stories",
+  text: "Your hold is ready.",
+  html: "<p>Your hold is ready.</p>"
+};
+
+describe("buildMimeMessage", () => {
+  it("renders a multipart message with encoded headers and CRLF line endings", async () => {
+    const message = (await buildMimeMessage("Library <no-reply@library.test>", email)).toString("utf8");
+
+    assert.match(message, /^From: Library <no-reply@library\.test>\r\n/);
+    assert.match(message, /\r\nTo: reader@example\.com\r\n/);
+    assert.match(message, /\r\nSubject: =\?UTF-8\?Q\?Ready_for_pickup=3A_Caf=C3=A9_stories\?=\r\n/);
+    assert.match(message, /\r\nMessage-ID: <[^>]+@library\.test>\r\n/);
+    assert.match(message, /Content-Type: multipart\/alternative;/);
+    assert.match(message, /Content-Type: text\/plain; charset=utf-8/);
+    assert.match(message, /Content-Type: text\/html; charset=utf-8/);
+    assert.doesNotMatch(message, /[^\r]\n/);
+  });
+});
+
+describe("createNodemailerTransport", () => {
+  it("creates the transporter on the first send and sends from EMAIL_FROM", async () => {
+    const transporter = nodemailer.createTransport({ jsonTransport: true });
+    const sendMail = mock.method(transporter, "sendMail");
+    const getTransporter = mock.fn(() => transporter);
+
+    const transport = createNodemailerTransport("test", getTransporter);
+    assert.equal(transport.name, "test");
+    assert.equal(getTransporter.mock.callCount(), 0);
+
+    await transport.send(email);
+    assert.equal(getTransporter.mock.callCount(), 1);
+    assert.equal(sendMail.mock.callCount(), 1);
+    assert.deepEqual(sendMail.mock.calls[0]?.arguments[0], { from: env.EMAIL_FROM, ...email });
+  });
+
+  it("rejects when the transporter cannot be created or the send fails", async () => {
+    const misconfigured = createNodemailerTransport("smtp", () => {
+      throw new Error("SMTP_HOST is required when EMAIL_TRANSPORT is smtp");
+    });
+    await assert.rejects(misconfigured.send(email), /SMTP_HOST is required/);
+
+    const transporter = nodemailer.createTransport({ jsonTransport: true });
+    mock.method(transporter, "sendMail", async () => {
+      throw new Error("Connection refused");
+    });
+    await assert.rejects(createNodemailerTransport("smtp", () => transporter).send(email), /Connection refused/);
+  });
+});
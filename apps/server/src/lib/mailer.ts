@@ -0,0 +1,90 @@
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import nodemailer, { type Transporter } from "nodemailer";
+import path from "path";
+import { env, smtpSecure } from "../config/env";
+
+export type OutgoingEmail = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+export type EmailTransport = {
+  name: string;
+  send: (email: OutgoingEmail) => Promise<void>;
+};
+
+const smtpTimeoutMs = 15_000;
+
+// Renders messages without sending them, so .eml files match what SMTP delivers.
+const mimeBuilder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "windows" });
+
+export const buildMimeMessage = async (from: string, email: OutgoingEmail): Promise<Buffer> => {
+  const info = await mimeBuilder.sendMail({ from, ...email });
+  return info.message as Buffer;
+};
+
+// Adapts a nodemailer transporter; it is created on the first send, so a misconfigured transport only fails sends.
+export const createNodemailerTransport = (name: string, getTransporter: () => Transporter): EmailTransport => ({
+  name,
+  send: async (email) => {
+    await getTransporter().sendMail({ from: env.EMAIL_FROM, ...email });
+  }
+});
+
+const consoleTransport: EmailTransport = {
+  name: "console",
+  send: async (email) => {
+    // eslint-disable-next-line no-console
+    console.log(`[email] to=${email.to} subject="${email.subject}"\n${email.text}`);
+  }
+};
+
+// Writes each message as an .eml file so it can be opened in a mail client during development.
+const fileTransport: EmailTransport = {
+  name: "file",
+  send: async (email) => {
+    const outboxDir = path.resolve(env.EMAIL_OUTBOX_DIR);
+    await mkdir(outboxDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID().slice(0, 8)}.eml`;
+    await writeFile(path.join(outboxDir, fileName), await buildMimeMessage(env.EMAIL_FROM, email));
+  }
+};
+
+let smtpTransporter: Transporter | null = null;
+
+// Plain connections are upgraded with STARTTLS when the server offers it.
+const getSmtpTransporter = (): Transporter => {
+  if (!env.SMTP_HOST) {
+    throw new Error("SMTP_HOST is required when EMAIL_TRANSPORT is smtp");
+  }
+  smtpTransporter ??= nodemailer.createTransport({
+    host: env.SMTP_HOST,
+    port: env.SMTP_PORT,
+    secure: smtpSecure,
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD } : undefined,
+    connectionTimeout: smtpTimeoutMs,
+    greetingTimeout: smtpTimeoutMs,
+    socketTimeout: smtpTimeoutMs
+  });
+  return smtpTransporter;
+};
+
+const smtpTransport = createNodemailerTransport("smtp", getSmtpTransporter);
+
+const transports: Record<typeof env.EMAIL_TRANSPORT, EmailTransport> = {
+  console: consoleTransport,
+  file: fileTransport,
+  smtp: smtpTransport
+};
+
+let activeTransport: EmailTransport = transports[env.EMAIL_TRANSPORT];
+
+export const getEmailTransport = (): EmailTransport => activeTransport;
+
+// Lets scripts and tests swap in their own transport without touching the environment.
+export const setEmailTransport = (transport: EmailTransport): void => {
+  activeTransport = transport;
+};
@@ -0,0 +1,202 @@
+import { Prisma, type NotificationType } from "@prisma/client";
+import { env } from "../config/env";
+import { prisma } from "../db/prisma";
+import { pushNotificationTypes, sendPushToUsers } from "./push";
+import { publishRealtimeEvent } from "./realtime";
+
+export type NotificationInput = {
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  payload?: Prisma.InputJsonObject;
+  link?: string | null;
+  // Same key for the same member is stored once, so callers can retry or rerun freely.
+  dedupeKey?: string;
+};
+
+const dayMs = 24 * 60 * 60 * 1000;
+const reminderBatchSize = 200;
+
+export const bookLink = (bookId: string): string => `/books/${bookId}`;
+export const dashboardLink = "/dashboard";
+export const savedSearchLink = (savedSearchId: string): string => `/saved-searches/${savedSearchId}`;
+
+const toDateOnly = (date: Date): string => date.toISOString().slice(0, 10);
+
+const logNotificationFailure = (label: string, error: unknown) => {
+  // eslint-disable-next-line no-console
+  console.error(`[notifications] ${label} failed`, error);
+};
+
+// Never throws: a missing notification must not fail the request that triggered it.
+export const notifyUsers = async (userIds: string[], input: NotificationInput): Promise<number> => {
+  const recipients = [...new Set(userIds)];
+  if (recipients.length === 0) {
+    return 0;
+  }
+  try {
+    const created = await prisma.notification.createManyAndReturn({
+      data: recipients.map((userId) => ({
+        userId,
+        type: input.type,
+        title: input.title,
+        body: input.body ?? null,
+        payload: input.payload ?? Prisma.JsonNull,
+        link: input.link ?? null,
+        dedupeKey: input.dedupeKey ?? null
+      })),
+      skipDuplicates: true
+    });
+    for (const notification of created) {
+      await publishRealtimeEvent({
+        type: "notification.created",
+        audience: "USER",
+        userId: notification.userId,
+        payload: {
+          id: notification.id,
+          type: notification.type,
+          title: notification.title,
+          body: notification.body,
+          payload: (notification.payload ?? null) as Prisma.InputJsonValue | null,
+          link: notification.link,
+          readAt: null,
+          createdAt: notification.createdAt.toISOString()
+        }
+      });
+    }
+    if (created.length > 0 && pushNotificationTypes.has(input.type)) {
+      void sendPushToUsers(
+        created.map((notification) => notification.userId),
+        { title: input.title, body: input.body, url: input.link, tag: input.dedupeKey }
+      );
+    }
+    return created.length;
+  } catch (error) {
+    logNotificationFailure(input.type, error);
+    return 0;
+  }
+};
+
+export const notifyUser = (userId: string, input: NotificationInput): Promise<number> => notifyUsers([userId], input);
+
+export const notifyAdmins = async (input: NotificationInput, exceptUserId?: string): Promise<number> => {
+  try {
+    const admins = await prisma.user.findMany({
+      where: { role: "ADMIN", ...(exceptUserId ? { id: { not: exceptUserId } } : {}) },
+      select: { id: true }
+    });
+    return notifyUsers(
+      admins.map((admin) => admin.id),
+      input
+    );
+  } catch (error) {
+    logNotificationFailure(input.type, error);
+    return 0;
+  }
+};
+
+const reminderLoanSelect = {
+  id: true,
+  userId: true,
+  bookId: true,
+  dueAt: true,
+  book: { select: { title: true } }
+} as const;
+
+export type ReminderLoan = Prisma.LoanGetPayload<{ select: typeof reminderLoanSelect }> & { dueAt: Date };
+
+export const reminderLoanWindows = (now: Date): Record<"dueSoon" | "overdue", Prisma.LoanWhereInput> => ({
+  dueSoon: { returnedAt: null, dueAt: { gte: now, lte: new Date(now.getTime() + env.EMAIL_DUE_SOON_DAYS * dayMs) } },
+  overdue: { returnedAt: null, dueAt: { lt: now } }
+});
+
+export const daysOverdue = (dueAt: Date, now: Date): number =>
+  Math.max(1, Math.ceil((now.getTime() - dueAt.getTime()) / dayMs));
+
+// Due-soon reminders go out once per due date; overdue notices repeat weekly until the book comes back.
+export const dueSoonReminderKey = (loan: ReminderLoan): string => `due-soon:${loan.id}:${toDateOnly(loan.dueAt)}`;
+
+export const overdueReminderKey = (loan: ReminderLoan, now: Date): string =>
+  `overdue:${loan.id}:${toDateOnly(loan.dueAt)}:${Math.floor((daysOverdue(loan.dueAt, now) - 1) / 7)}`;
+
+/**
+ * Hands every open loan matching `where` to `handle` in pages, oldest due date first. Reminders are deduplicated by
+ * key, so walking the whole window keeps a backlog of already-reminded loans from hiding the newer ones.
+ */
+export const forEachReminderLoanPage = async (
+  where: Prisma.LoanWhereInput,
+  handle: (loans: ReminderLoan[]) => Promise<void>
+): Promise<void> => {
+  let cursor: string | undefined;
+  for (;;) {
+    const loans = await prisma.loan.findMany({
+      where,
+      select: reminderLoanSelect,
+      orderBy: [{ dueAt: "asc" }, { id: "asc" }],
+      take: reminderBatchSize,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    });
+    await handle(loans.filter((loan): loan is ReminderLoan => loan.dueAt !== null));
+    if (loans.length < reminderBatchSize) {
+      return;
+    }
+    cursor = loans[loans.length - 1].id;
+  }
+};
+
+const filterUnnotifiedKeys = async (keys: string[]): Promise<Set<string>> => {
+  const existing = await prisma.notification.findMany({
+    where: { dedupeKey: { in: keys } },
+    select: { dedupeKey: true }
+  });
+  const notified = new Set(existing.map((notification) => notification.dedupeKey));
+  return new Set(keys.filter((key) => !notified.has(key)));
+};
+
+// Same cadence as the reminder emails, but independent of email preferences.
+export const createLoanReminderNotifications = async (
+  now = new Date()
+): Promise<{ dueSoon: number; overdue: number }> => {
+  const windows = reminderLoanWindows(now);
+
+  let dueSoon = 0;
+  await forEachReminderLoanPage(windows.dueSoon, async (loans) => {
+    const pending = await filterUnnotifiedKeys(loans.map(dueSoonReminderKey));
+    for (const loan of loans) {
+      const dedupeKey = dueSoonReminderKey(loan);
+      if (!pending.has(dedupeKey)) {
+        continue;
+      }
+      dueSoon += await notifyUser(loan.userId, {
+        type: "LOAN_DUE_SOON",
+        title: `"${loan.book.title}" is due ${toDateOnly(loan.dueAt)}`,
+        body: "Return or renew it before the due date to avoid fines.",
+        payload: { loanId: loan.id, bookId: loan.bookId, dueAt: loan.dueAt.toISOString() },
+        link: bookLink(loan.bookId),
+        dedupeKey
+      });
+    }
+  });
+
+  let overdue = 0;
+  await forEachReminderLoanPage(windows.overdue, async (loans) => {
+    const pending = await filterUnnotifiedKeys(loans.map((loan) => overdueReminderKey(loan, now)));
+    for (const loan of loans) {
+      const dedupeKey = overdueReminderKey(loan, now);
+      if (!pending.has(dedupeKey)) {
+        continue;
+      }
+      const days = daysOverdue(loan.dueAt, now);
+      overdue += await notifyUser(loan.userId, {
+        type: "LOAN_OVERDUE",
+        title: `"${loan.book.title}" is ${days} day${days === 1 ? "" : "s"} overdue`,
+        body: "Please return it as soon as you can.",
+        payload: { loanId: loan.id, bookId: loan.bookId, dueAt: loan.dueAt.toISOString(), daysOverdue: days },
+        link: bookLink(loan.bookId),
+        dedupeKey
+      });
+    }
+  });
+
+  return { dueSoon, overdue };
+};
@@ -0,0 +1,208 @@
+import { fakePrisma } from "../test/setup";
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import type { Prisma } from "@prisma/client";
+import { env } from "../config/env";
+import { awardCheckinPoints, reconcileReadingPoints } from "./points";
+
+type StoredUser = { id: string; readingPoints: number; createdAt: Date };
+type StoredTransaction = {
+  id: string;
+  userId: string;
+  points: number;
+  reason: string;
+  loanId: string | null;
+  note: string | null;
+  createdAt: Date;
+};
+
+const minuteMs = 60 * 1000;
+const returnedAt = new Date("2025-03-10T15:00:00.000Z");
+
+// Just enough of the Prisma API for the ledger code: the queries points.ts issues, evaluated in memory.
+const createLedger = (initialUsers: StoredUser[]) => {
+  const users = new Map(initialUsers.map((user) => [user.id, { ...user }]));
+  const transactions: StoredTransaction[] = [];
+  const auditLogs: Array<{ action: string; entityId?: string; metadata?: unknown }> = [];
+
+  const ledgerFor = (userId: string) => transactions.filter((entry) => entry.userId === userId);
+  const sum = (entries: StoredTransaction[]) => entries.reduce((total, entry) => total + entry.points, 0);
+
+  const client = {
+    $executeRaw: async () => 1,
+    $transaction: async <T>(run: (tx: unknown) => Promise<T>) => run(client),
+    user: {
+      findUnique: async ({ where }: { where: { id: string } }) => {
+        const user = users.get(where.id);
+        return user ? { ...user, pointTransactions: ledgerFor(user.id).slice(0, 1) } : null;
+      },
+      findMany: async (args: { where?: { readingPoints?: { gt: number } }; take: number; cursor?: { id: string } }) => {
+        let rows = [...users.values()].sort((left, right) => left.id.localeCompare(right.id));
+        if (args.where?.readingPoints) {
+          rows = rows.filter((user) => user.readingPoints > 0 && ledgerFor(user.id).length === 0);
+        }
+        if (args.cursor) {
+          rows = rows.filter((user) => user.id > (args.cursor?.id ?? ""));
+        }
+        return rows.slice(0, args.take);
+      },
+      update: async ({ where, data }: { where: { id: string }; data: { readingPoints: number | { increment: number } } }) => {
+        const user = users.get(where.id);
+        assert.ok(user);
+        user.readingPoints =
+          typeof data.readingPoints === "number" ? data.readingPoints : user.readingPoints + data.readingPoints.increment;
+        return user;
+      }
+    },
+    pointTransaction: {
+      create: async ({ data }: { data: Partial<StoredTransaction> & { userId: string; points: number; reason: string } }) => {
+        const entry: StoredTransaction = {
+          id: `tx-${transactions.length + 1}`,
+          loanId: null,
+          note: null,
+          createdAt: returnedAt,
+          ...data
+        };
+        transactions.push(entry);
+        return entry;
+      },
+      findUnique: async ({ where }: { where: { loanId_reason: { loanId: string; reason: string } } }) =>
+        transactions.find(
+          (entry) => entry.loanId === where.loanId_reason.loanId && entry.reason === where.loanId_reason.reason
+        ) ?? null,
+      aggregate: async ({ where }: { where: { userId: string; reason?: string; createdAt?: { gte: Date } } }) => ({
+        _sum: {
+          points: sum(
+            ledgerFor(where.userId).filter(
+              (entry) =>
+                (!where.reason || entry.reason === where.reason) &&
+                (!where.createdAt || entry.createdAt >= where.createdAt.gte)
+            )
+          )
+        }
+      }),
+      groupBy: async ({ where }: { where: { userId: { in: string[] } } }) =>
+        where.userId.in
+          .filter((userId) => ledgerFor(userId).length > 0)
+          .map((userId) => ({ userId, _sum: { points: sum(ledgerFor(userId)) } }))
+    },
+    auditLog: {
+      create: async ({ data }: { data: { action: string; entityId?: string; metadata?: unknown } }) => {
+        auditLogs.push(data);
+        return data;
+      }
+    }
+  };
+
+  return { client, users, transactions, auditLogs, tx: client as unknown as Prisma.TransactionClient };
+};
+
+const checkin = (loanId: string, minutes: number, basePoints = 20) => ({
+  loan: {
+    id: loanId,
+    userId: "member",
+    bookId: `book-${loanId}`,
+    checkedOutAt: new Date(returnedAt.getTime() - minutes * minuteMs)
+  },
+  genre: "Fiction",
+  basePoints,
+  returnedAt
+});
+
+describe("awardCheckinPoints", () => {
+  it("withholds points for loans shorter than the minimum duration", async () => {
+    const ledger = createLedger([{ id: "member", readingPoints: 0, createdAt: returnedAt }]);
+
+    const result = await awardCheckinPoints(ledger.tx, checkin("quick", env.POINTS_MIN_LOAN_MINUTES - 1));
+    assert.deepEqual(result, { awardedPoints: 0, withheld: { rule: "MIN_LOAN_DURATION", points: 20 } });
+    assert.equal(ledger.transactions.length, 0);
+  });
+
+  it("awards each loan once and keeps the running total in step", async () => {
+    const ledger = createLedger([{ id: "member", readingPoints: 0, createdAt: returnedAt }]);
+
+    assert.deepEqual(await awardCheckinPoints(ledger.tx, checkin("loan-1", 120)), { awardedPoints: 20, withheld: null });
+    assert.deepEqual(await awardCheckinPoints(ledger.tx, checkin("loan-1", 120)), { awardedPoints: 0, withheld: null });
+    assert.equal(ledger.users.get("member")?.readingPoints, 20);
+    assert.equal(ledger.transactions[0]?.reason, "CHECKIN");
+  });
+
+  it("caps check-in points per UTC day and records what was withheld", async () => {
+    const ledger = createLedger([{ id: "member", readingPoints: 0, createdAt: returnedAt }]);
+
+    await awardCheckinPoints(ledger.tx, checkin("loan-1", 120, env.POINTS_DAILY_CAP - 15));
+    const capped = await awardCheckinPoints(ledger.tx, checkin("loan-2", 120, 40));
+    assert.deepEqual(capped, { awardedPoints: 15, withheld: { rule: "DAILY_CAP", points: 25 } });
+    assert.match(ledger.transactions[1]?.note ?? "", /Capped at/);
+
+    const overCap = await awardCheckinPoints(ledger.tx, checkin("loan-3", 120, 10));
+    assert.deepEqual(overCap, { awardedPoints: 0, withheld: { rule: "DAILY_CAP", points: 10 } });
+    assert.equal(ledger.users.get("member")?.readingPoints, env.POINTS_DAILY_CAP);
+  });
+
+  it("records a legacy balance as an opening balance before the first award", async () => {
+    const ledger = createLedger([{ id: "member", readingPoints: 70, createdAt: new Date("2024-01-01T00:00:00.000Z") }]);
+
+    await awardCheckinPoints(ledger.tx, checkin("loan-1", 120));
+    assert.deepEqual(
+      ledger.transactions.map((entry) => [entry.reason, entry.points]),
+      [
+        ["OPENING_BALANCE", 70],
+        ["CHECKIN", 20]
+      ]
+    );
+    assert.equal(ledger.users.get("member")?.readingPoints, 90);
+  });
+});
+
+describe("reconcileReadingPoints", () => {
+  beforeEach(() => {
+    for (const key of Object.keys(fakePrisma)) {
+      delete fakePrisma[key];
+    }
+  });
+
+  it("resets drifted totals to the ledger and records the correction", async () => {
+    const ledger = createLedger([
+      { id: "drifted", readingPoints: 50, createdAt: returnedAt },
+      { id: "in-step", readingPoints: 20, createdAt: returnedAt }
+    ]);
+    Object.assign(fakePrisma, ledger.client);
+    await ledger.client.pointTransaction.create({ data: { userId: "drifted", points: 30, reason: "CHECKIN" } });
+    await ledger.client.pointTransaction.create({ data: { userId: "in-step", points: 20, reason: "CHECKIN" } });
+
+    assert.deepEqual(await reconcileReadingPoints(), { checked: 2, corrected: 1 });
+    assert.equal(ledger.users.get("drifted")?.readingPoints, 30);
+    assert.equal(ledger.users.get("in-step")?.readingPoints, 20);
+
+    const correction = ledger.transactions.find((entry) => entry.reason === "RECONCILIATION");
+    assert.equal(correction?.points, 0);
+    assert.equal(correction?.note, "readingPoints was 50, ledger total is 30");
+    assert.deepEqual(ledger.auditLogs[0]?.metadata, { previous: 50, ledgerTotal: 30 });
+  });
+
+  it("keeps legacy points by recording them as opening balances first", async () => {
+    const ledger = createLedger([{ id: "legacy", readingPoints: 120, createdAt: new Date("2024-01-01T00:00:00.000Z") }]);
+    Object.assign(fakePrisma, ledger.client);
+
+    assert.deepEqual(await reconcileReadingPoints(), { checked: 1, corrected: 0 });
+    assert.equal(ledger.users.get("legacy")?.readingPoints, 120);
+    assert.deepEqual(
+      ledger.transactions.map((entry) => [entry.reason, entry.points]),
+      [["OPENING_BALANCE", 120]]
+    );
+  });
+
+  it("resets nothing when the opening balances cannot be recorded", async () => {
+    const ledger = createLedger([{ id: "legacy", readingPoints: 120, createdAt: returnedAt }]);
+    Object.assign(fakePrisma, ledger.client, {
+      $transaction: async () => {
+        throw new Error("database unavailable");
+      }
+    });
+
+    await assert.rejects(reconcileReadingPoints(), /database unavailable/);
+    assert.equal(ledger.users.get("legacy")?.readingPoints, 120);
+    assert.equal(ledger.transactions.length, 0);
+  });
+});
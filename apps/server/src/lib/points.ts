@@ -0,0 +1,273 @@
+import { Prisma, type PointReason } from "@prisma/client";
+import { env } from "../config/env";
+import { prisma } from "../db/prisma";
+import { createAuditLog } from "./audit";
+import { HttpError } from "./errors";
+
+type Tx = Prisma.TransactionClient;
+
+type PointAwardInput = {
+  userId: string;
+  points: number;
+  reason: PointReason;
+  loanId?: string | null;
+  bookId?: string | null;
+  genre?: string | null;
+  note?: string | null;
+  createdById?: string | null;
+};
+
+type CheckinAwardInput = {
+  loan: { id: string; userId: string; bookId: string; checkedOutAt: Date };
+  genre: string | null;
+  basePoints: number;
+  returnedAt: Date;
+};
+
+export type PointsWithheld = {
+  rule: "MIN_LOAN_DURATION" | "DAILY_CAP";
+  points: number;
+};
+
+const minuteMs = 60 * 1000;
+const openingBalanceBatchSize = 200;
+const reconcileBatchSize = 500;
+
+const startOfUtcDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+// Serializes point changes per member so concurrent check-ins cannot both slip under the daily cap.
+const lockUserPoints = async (tx: Tx, userId: string): Promise<void> => {
+  await tx.$executeRaw`SELECT 1 FROM "User" WHERE "id" = ${userId} FOR UPDATE`;
+};
+
+// Points earned before the ledger existed have no history; they are recorded once as an opening balance so the
+// ledger adds up to readingPoints. Call with the member's points locked.
+const ensureOpeningBalance = async (tx: Tx, userId: string): Promise<boolean> => {
+  const user = await tx.user.findUnique({
+    where: { id: userId },
+    select: { readingPoints: true, createdAt: true, pointTransactions: { select: { id: true }, take: 1 } }
+  });
+  if (!user || user.readingPoints <= 0 || user.pointTransactions.length > 0) {
+    return false;
+  }
+  await tx.pointTransaction.create({
+    data: { userId, points: user.readingPoints, reason: "OPENING_BALANCE", createdAt: user.createdAt }
+  });
+  return true;
+};
+
+// Every change to readingPoints goes through here so the ledger and the running total stay in step.
+export const recordPointAward = async (tx: Tx, input: PointAwardInput) => {
+  const transaction = await tx.pointTransaction.create({
+    data: {
+      userId: input.userId,
+      points: input.points,
+      reason: input.reason,
+      loanId: input.loanId ?? null,
+      bookId: input.bookId ?? null,
+      genre: input.genre?.trim() || null,
+      note: input.note ?? null,
+      createdById: input.createdById ?? null
+    }
+  });
+  await tx.user.update({
+    where: { id: input.userId },
+    data: { readingPoints: { increment: input.points } }
+  });
+  return transaction;
+};
+
+/**
+ * Awards check-in points subject to POINTS_MIN_LOAN_MINUTES (quick borrow-and-return earns nothing) and
+ * POINTS_DAILY_CAP (check-in points per member per UTC day). A loan is only ever awarded once.
+ */
+export const awardCheckinPoints = async (
+  tx: Tx,
+  input: CheckinAwardInput
+): Promise<{ awardedPoints: number; withheld: PointsWithheld | null }> => {
+  const loanMinutes = (input.returnedAt.getTime() - input.loan.checkedOutAt.getTime()) / minuteMs;
+  if (loanMinutes < env.POINTS_MIN_LOAN_MINUTES) {
+    return { awardedPoints: 0, withheld: { rule: "MIN_LOAN_DURATION", points: input.basePoints } };
+  }
+
+  await lockUserPoints(tx, input.loan.userId);
+  await ensureOpeningBalance(tx, input.loan.userId);
+  const alreadyAwarded = await tx.pointTransaction.findUnique({
+    where: { loanId_reason: { loanId: input.loan.id, reason: "CHECKIN" } },
+    select: { id: true }
+  });
+  if (alreadyAwarded) {
+    return { awardedPoints: 0, withheld: null };
+  }
+
+  const today = await tx.pointTransaction.aggregate({
+    where: {
+      userId: input.loan.userId,
+      reason: "CHECKIN",
+      createdAt: { gte: startOfUtcDay(input.returnedAt) }
+    },
+    _sum: { points: true }
+  });
+  const remaining = Math.max(0, env.POINTS_DAILY_CAP - (today._sum.points ?? 0));
+  const awardedPoints = Math.min(input.basePoints, remaining);
+  const withheld: PointsWithheld | null =
+    awardedPoints < input.basePoints ? { rule: "DAILY_CAP", points: input.basePoints - awardedPoints } : null;
+  if (awardedPoints === 0) {
+    return { awardedPoints, withheld };
+  }
+
+  await recordPointAward(tx, {
+    userId: input.loan.userId,
+    points: awardedPoints,
+    reason: "CHECKIN",
+    loanId: input.loan.id,
+    bookId: input.loan.bookId,
+    genre: input.genre,
+    note: withheld ? `Capped at ${env.POINTS_DAILY_CAP} check-in points per day (${input.basePoints} earned)` : null
+  });
+  return { awardedPoints, withheld };
+};
+
+export const adjustReadingPoints = async (input: {
+  userId: string;
+  points: number;
+  note: string;
+  adminId: string;
+}) => {
+  return prisma.$transaction(async (tx) => {
+    await lockUserPoints(tx, input.userId);
+    await ensureOpeningBalance(tx, input.userId);
+    const user = await tx.user.findUnique({ where: { id: input.userId }, select: { readingPoints: true } });
+    if (!user) {
+      throw new HttpError(404, "User not found");
+    }
+    if (user.readingPoints + input.points < 0) {
+      throw new HttpError(400, `This would leave the member with negative points (current balance ${user.readingPoints})`);
+    }
+    const transaction = await recordPointAward(tx, {
+      userId: input.userId,
+      points: input.points,
+      reason: "ADJUSTMENT",
+      note: input.note,
+      createdById: input.adminId
+    });
+    return { transaction, readingPoints: user.readingPoints + input.points };
+  });
+};
+
+// Throws when a batch fails, so callers that rely on a complete ledger can stop.
+const recordOpeningBalances = async (): Promise<number> => {
+  let recorded = 0;
+  while (true) {
+    const users = await prisma.user.findMany({
+      where: { readingPoints: { gt: 0 }, pointTransactions: { none: {} } },
+      select: { id: true },
+      take: openingBalanceBatchSize
+    });
+    if (users.length === 0) {
+      return recorded;
+    }
+    for (const user of users) {
+      // Locked like a check-in, so a check-in landing at the same time cannot record a second opening balance.
+      const created = await prisma.$transaction(async (tx) => {
+        await lockUserPoints(tx, user.id);
+        return ensureOpeningBalance(tx, user.id);
+      });
+      recorded += created ? 1 : 0;
+    }
+  }
+};
+
+export const backfillOpeningBalances = async (): Promise<number> => {
+  try {
+    return await recordOpeningBalances();
+  } catch (error) {
+    // Check-ins and reconciliation record any remaining balances themselves, so startup carries on.
+    // eslint-disable-next-line no-console
+    console.error("[points] opening balance backfill failed", error);
+    return 0;
+  }
+};
+
+/**
+ * The ledger is the source of truth: readingPoints that drifted from the ledger total are reset to it, and a
+ * zero-point RECONCILIATION entry records the old value so the correction shows up in the member's history.
+ * Nothing is reset until every legacy balance is in the ledger; otherwise those points would be wiped.
+ */
+export const reconcileReadingPoints = async (): Promise<{ checked: number; corrected: number }> => {
+  await recordOpeningBalances();
+
+  let checked = 0;
+  let corrected = 0;
+  let cursor: string | undefined;
+
+  while (true) {
+    const users = await prisma.user.findMany({
+      orderBy: { id: "asc" },
+      select: { id: true, readingPoints: true },
+      take: reconcileBatchSize,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+    });
+    if (users.length === 0) {
+      break;
+    }
+    checked += users.length;
+
+    const sums = await prisma.pointTransaction.groupBy({
+      by: ["userId"],
+      where: { userId: { in: users.map((user) => user.id) } },
+      _sum: { points: true }
+    });
+    const ledgerTotals = new Map(sums.map((row) => [row.userId, row._sum.points ?? 0]));
+
+    for (const user of users) {
+      const drift = user.readingPoints - (ledgerTotals.get(user.id) ?? 0);
+      if (drift === 0) {
+        continue;
+      }
+      // Re-check under the lock; a check-in may have landed since the batch was read.
+      const fixed = await prisma.$transaction(async (tx) => {
+        await lockUserPoints(tx, user.id);
+        if (await ensureOpeningBalance(tx, user.id)) {
+          return null;
+        }
+        const [current, ledger] = await Promise.all([
+          tx.user.findUnique({ where: { id: user.id }, select: { readingPoints: true } }),
+          tx.pointTransaction.aggregate({ where: { userId: user.id }, _sum: { points: true } })
+        ]);
+        const ledgerTotal = ledger._sum.points ?? 0;
+        if (!current || current.readingPoints === ledgerTotal) {
+          return null;
+        }
+        await tx.pointTransaction.create({
+          data: {
+            userId: user.id,
+            points: 0,
+            reason: "RECONCILIATION",
+            note: `readingPoints was ${current.readingPoints}, ledger total is ${ledgerTotal}`
+          }
+        });
+        await tx.user.update({ where: { id: user.id }, data: { readingPoints: ledgerTotal } });
+        return { previous: current.readingPoints, ledgerTotal };
+      });
+      if (!fixed) {
+        continue;
+      }
+      corrected += 1;
+      await createAuditLog({
+        action: "READING_POINTS_RECONCILED",
+        entity: "USER",
+        entityId: user.id,
+        metadata: fixed
+      });
+    }
+
+    if (users.length < reconcileBatchSize) {
+      break;
+    }
+    cursor = users[users.length - 1]?.id;
+  }
+
+  return { checked, corrected };
+};
@@ -0,0 +1,93 @@
+import type { NotificationType } from "@prisma/client";
+import webpush, { WebPushError } from "web-push";
+import { env, pushEnabled } from "../config/env";
+import { prisma } from "../db/prisma";
+
+export type PushMessage = {
+  title: string;
+  body?: string | null;
+  // Client path opened when the notification is clicked.
+  url?: string | null;
+  // Notifications sharing a tag replace each other on the device instead of stacking up.
+  tag?: string;
+};
+
+// Only time-sensitive notifications are pushed; the rest wait for the in-app drawer.
+export const pushNotificationTypes: ReadonlySet<NotificationType> = new Set<NotificationType>([
+  "LOAN_DUE_SOON",
+  "LOAN_OVERDUE",
+  "LOAN_DUE_DATE_CHANGED",
+  "REQUEST_APPROVED",
+  "REQUEST_DECLINED",
+  "HOLD_READY",
+  "SAVED_SEARCH_MATCH"
+]);
+
+// Undelivered pushes are dropped by the push service after a day; a reminder older than that is stale anyway.
+const pushTtlSeconds = 24 * 60 * 60;
+
+if (pushEnabled && env.VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY) {
+  webpush.setVapidDetails(env.VAPID_SUBJECT, env.VAPID_PUBLIC_KEY, env.VAPID_PRIVATE_KEY);
+}
+
+const logPushFailure = (label: string, error: unknown) => {
+  // eslint-disable-next-line no-console
+  console.error(`[push] ${label} failed`, error);
+};
+
+// 404 and 410 mean the browser dropped the subscription (permission revoked, site data cleared).
+const isExpiredSubscription = (error: unknown): boolean =>
+  error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410);
+
+/**
+ * Sends a message to every device the members subscribed. Never throws; expired subscriptions are deleted so they
+ * are not retried. Returns the number of devices the push service accepted the message for.
+ */
+export const sendPushToUsers = async (userIds: string[], message: PushMessage): Promise<number> => {
+  if (!pushEnabled || userIds.length === 0) {
+    return 0;
+  }
+  try {
+    const subscriptions = await prisma.pushSubscription.findMany({
+      where: { userId: { in: [...new Set(userIds)] } }
+    });
+    const payload = JSON.stringify({
+      title: message.title,
+      body: message.body ?? "",
+      url: message.url ?? "/",
+      tag: message.tag ?? null
+    });
+
+    let delivered = 0;
+    const expiredIds: string[] = [];
+    const deliveredIds: string[] = [];
+    for (const subscription of subscriptions) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          payload,
+          { TTL: pushTtlSeconds }
+        );
+        delivered += 1;
+        deliveredIds.push(subscription.id);
+      } catch (error) {
+        if (isExpiredSubscription(error)) {
+          expiredIds.push(subscription.id);
+        } else {
+          logPushFailure(`send to ${subscription.id}`, error);
+        }
+      }
+    }
+
+    await Promise.all([
+      expiredIds.length > 0 ? prisma.pushSubscription.deleteMany({ where: { id: { in: expiredIds } } }) : null,
+      deliveredIds.length > 0
+        ? prisma.pushSubscription.updateMany({ where: { id: { in: deliveredIds } }, data: { lastUsedAt: new Date() } })
+        : null
+    ]);
+    return delivered;
+  } catch (error) {
+    logPushFailure("send", error);
+    return 0;
+  }
+};
@@ -0,0 +1,129 @@
+import { prisma } from "../db/prisma";
+
+type CountBucket = {
+  name: string;
+  count: number;
+};
+
+const dayMs = 24 * 60 * 60 * 1000;
+const topListSize = 5;
+
+const toTopList = (values: Array<string | null>): CountBucket[] => {
+  const counts = new Map<string, CountBucket>();
+  for (const value of values) {
+    const name = value?.trim();
+    if (!name) {
+      continue;
+    }
+    const key = name.toLowerCase();
+    const bucket = counts.get(key) ?? { name, count: 0 };
+    bucket.count += 1;
+    counts.set(key, bucket);
+  }
+  return [...counts.values()]
+    .sort((left, right) => right.count - left.count || left.name.localeCompare(right.name))
+    .slice(0, topListSize);
+};
+
+const round = (value: number, digits = 1): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Reading history for one member over a calendar year (UTC), built from returned loans and reviews.
+ * A book borrowed twice counts twice toward books read and pages, matching how points are awarded.
+ */
+export const loadReadingStats = async (userId: string, year: number) => {
+  const from = new Date(Date.UTC(year, 0, 1));
+  const to = new Date(Date.UTC(year + 1, 0, 1));
+
+  const [loans, reviews, user, lifetimeBooks] = await Promise.all([
+    prisma.loan.findMany({
+      where: { userId, returnedAt: { gte: from, lt: to } },
+      orderBy: { returnedAt: "asc" },
+      select: {
+        checkedOutAt: true,
+        returnedAt: true,
+        dueAt: true,
+        pageCount: true,
+        book: { select: { id: true, title: true, author: true, genre: true, coverUrl: true } }
+      }
+    }),
+    prisma.bookReview.findMany({
+      where: { userId, createdAt: { gte: from, lt: to } },
+      select: { rating: true, createdAt: true }
+    }),
+    prisma.user.findUnique({ where: { id: userId }, select: { readingPoints: true, createdAt: true } }),
+    prisma.loan.count({ where: { userId, returnedAt: { not: null } } })
+  ]);
+
+  const months = Array.from({ length: 12 }, (_, index) => ({ month: index + 1, books: 0, pages: 0, reviews: 0 }));
+  let pagesRead = 0;
+  let loansWithPages = 0;
+  let totalLoanDays = 0;
+  let dueLoans = 0;
+  let onTimeLoans = 0;
+  let longestBook: { id: string; title: string; author: string; pageCount: number } | null = null;
+
+  for (const loan of loans) {
+    const returnedAt = loan.returnedAt as Date;
+    const month = months[returnedAt.getUTCMonth()];
+    month.books += 1;
+    if (loan.pageCount) {
+      month.pages += loan.pageCount;
+      pagesRead += loan.pageCount;
+      loansWithPages += 1;
+      if (!longestBook || loan.pageCount > longestBook.pageCount) {
+        longestBook = { id: loan.book.id, title: loan.book.title, author: loan.book.author, pageCount: loan.pageCount };
+      }
+    }
+    totalLoanDays += (returnedAt.getTime() - loan.checkedOutAt.getTime()) / dayMs;
+    if (loan.dueAt) {
+      dueLoans += 1;
+      if (returnedAt <= loan.dueAt) {
+        onTimeLoans += 1;
+      }
+    }
+  }
+  for (const review of reviews) {
+    months[review.createdAt.getUTCMonth()].reviews += 1;
+  }
+
+  const busiestMonth = months.reduce<(typeof months)[number] | null>(
+    (best, month) => (month.books > 0 && (!best || month.books > best.books) ? month : best),
+    null
+  );
+
+  return {
+    year,
+    range: { from, to },
+    booksRead: loans.length,
+    distinctBooks: new Set(loans.map((loan) => loan.book.id)).size,
+    pagesRead,
+    // Page counts are only known for loans returned after pages started being recorded, and not for every title.
+    loansWithPageCount: loansWithPages,
+    booksPerMonth: months,
+    topGenres: toTopList(loans.map((loan) => loan.book.genre)),
+    topAuthors: toTopList(loans.map((loan) => loan.book.author)),
+    averageLoanDays: loans.length > 0 ? round(totalLoanDays / loans.length) : null,
+    onTimeReturnRate: dueLoans > 0 ? round(onTimeLoans / dueLoans, 3) : null,
+    lateReturns: dueLoans - onTimeLoans,
+    reviews: {
+      written: reviews.length,
+      averageRating:
+        reviews.length > 0 ? round(reviews.reduce((total, review) => total + review.rating, 0) / reviews.length, 2) : null
+    },
+    highlights: {
+      firstBook: loans[0]?.book ?? null,
+      lastBook: loans[loans.length - 1]?.book ?? null,
+      longestBook,
+      busiestMonth: busiestMonth ? { month: busiestMonth.month, books: busiestMonth.books } : null
+    },
+    lifetime: {
+      booksRead: lifetimeBooks,
+      readingPoints: user?.readingPoints ?? 0,
+      memberSince: user?.createdAt ?? null
+    }
+  };
+};
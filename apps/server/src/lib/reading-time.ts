@@ -13,12 +13,21 @@ export type DueDateEstimate = {
   pageCount: number | null;
 };
 
+export type LoanLengthBounds = {
+  minDays: number;
+  maxDays: number;
+  fallbackDays: number;
+};
+
+type ReadingEstimate = {
+  readingDays: number | null;
+  source: DueDateEstimate["source"];
+  pageCount: number | null;
+};
+
 const timeoutMs = 9000;
-const minimumDays = 14;
-const maximumDays = 45;
-const fallbackDays = 30;
 const estimateCacheTtlMs = 24 * 60 * 60 * 1000;
-const estimateCache = new Map<string, { expiresAt: number; value: DueDateEstimate }>();
+const estimateCache = new Map<string, { expiresAt: number; value: ReadingEstimate }>();
 
 const normalize = (value: string): string => {
   return value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
@@ -66,23 +75,37 @@ const estimatePagesPerDay = (category: string | null): number => {
   return 35;
 };
 
-const clampDays = (days: number): number => {
-  return Math.max(minimumDays, Math.min(maximumDays, Math.round(days)));
+const clampDays = (days: number, bounds: LoanLengthBounds): number => {
+  return Math.max(bounds.minDays, Math.min(bounds.maxDays, Math.round(days)));
 };
 
 const buildDueDate = (days: number): Date => {
   return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
 };
 
-const buildFallbackEstimate = (): DueDateEstimate => {
+export const buildFallbackDueEstimate = (bounds: LoanLengthBounds): DueDateEstimate => {
+  const days = clampDays(bounds.fallbackDays, bounds);
   return {
-    dueAt: buildDueDate(fallbackDays),
-    days: fallbackDays,
+    dueAt: buildDueDate(days),
+    days,
     source: "fallback",
     pageCount: null
   };
 };
 
+const toDueDateEstimate = (estimate: ReadingEstimate, bounds: LoanLengthBounds): DueDateEstimate => {
+  if (estimate.readingDays === null) {
+    return buildFallbackDueEstimate(bounds);
+  }
+  const days = clampDays(estimate.readingDays, bounds);
+  return {
+    dueAt: buildDueDate(days),
+    days,
+    source: estimate.source,
+    pageCount: estimate.pageCount
+  };
+};
+
 const findGooglePageCount = async (input: EstimateDueDateInput): Promise<{ pageCount: number; category: string | null } | null> => {
   const titleNorm = normalize(input.title);
   const authorNorm = normalize(input.author);
@@ -194,50 +217,54 @@ const findOpenLibraryPageCount = async (input: EstimateDueDateInput): Promise<nu
   return best?.pages ?? null;
 };
 
-export const estimateLoanDueDate = async (input: EstimateDueDateInput): Promise<DueDateEstimate> => {
-  const cacheKey = `${normalize(input.title)}|${normalize(input.author)}|${normalize(input.isbn ?? "")}`;
-  const cached = estimateCache.get(cacheKey);
-  if (cached && cached.expiresAt > Date.now()) {
-    return cached.value;
-  }
-
+const estimateReadingDays = async (input: EstimateDueDateInput): Promise<ReadingEstimate> => {
   const google = await findGooglePageCount(input);
   if (google) {
-    const pagesPerDay = estimatePagesPerDay(google.category);
-    const days = clampDays(google.pageCount / pagesPerDay);
-    const result: DueDateEstimate = {
-      dueAt: buildDueDate(days),
-      days,
+    return {
+      readingDays: google.pageCount / estimatePagesPerDay(google.category),
       source: "google_books",
       pageCount: google.pageCount
     };
-    estimateCache.set(cacheKey, {
-      expiresAt: Date.now() + estimateCacheTtlMs,
-      value: result
-    });
-    return result;
   }
 
   const openLibraryPages = await findOpenLibraryPageCount(input);
   if (openLibraryPages) {
-    const days = clampDays(openLibraryPages / 35);
-    const result: DueDateEstimate = {
-      dueAt: buildDueDate(days),
-      days,
+    return {
+      readingDays: openLibraryPages / 35,
       source: "openlibrary",
       pageCount: openLibraryPages
     };
-    estimateCache.set(cacheKey, {
-      expiresAt: Date.now() + estimateCacheTtlMs,
-      value: result
-    });
-    return result;
   }
 
-  const fallback = buildFallbackEstimate();
+  return { readingDays: null, source: "fallback", pageCount: null };
+};
+
+export const estimateLoanDueDate = async (
+  input: EstimateDueDateInput,
+  bounds: LoanLengthBounds
+): Promise<DueDateEstimate> => {
+  const cacheKey = `${normalize(input.title)}|${normalize(input.author)}|${normalize(input.isbn ?? "")}`;
+  const cached = estimateCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return toDueDateEstimate(cached.value, bounds);
+  }
+
+  const estimate = await estimateReadingDays(input);
   estimateCache.set(cacheKey, {
     expiresAt: Date.now() + estimateCacheTtlMs,
-    value: fallback
+    value: estimate
   });
-  return fallback;
+  return toDueDateEstimate(estimate, bounds);
+};
+
+export const pruneReadingEstimateCache = (): number => {
+  const now = Date.now();
+  let removed = 0;
+  for (const [key, entry] of estimateCache) {
+    if (entry.expiresAt <= now) {
+      estimateCache.delete(key);
+      removed += 1;
+    }
+  }
+  return removed;
 };
@@ -0,0 +1,143 @@
+import { Prisma, type RealtimeAudience, type RealtimeEvent } from "@prisma/client";
+import { prisma } from "../db/prisma";
+
+type Tx = Prisma.TransactionClient;
+
+export type RealtimeEventType =
+  | "borrow-request.created"
+  | "borrow-request.approved"
+  | "borrow-request.declined"
+  | "borrow-request.expired"
+  | "book.availability"
+  | "notification.created";
+
+type RealtimeEventInput = {
+  type: RealtimeEventType;
+  audience: RealtimeAudience;
+  userId?: string | null;
+  payload: Prisma.InputJsonObject;
+};
+
+type Subscriber = {
+  userId: string;
+  role: "ADMIN" | "MEMBER";
+  // Highest event id already written to this connection.
+  lastEventId: number;
+  send: (event: RealtimeEvent) => void;
+};
+
+const pollIntervalMs = 2000;
+// Ids are handed out when a row is inserted, not when its transaction commits, so a slow transaction can commit an
+// id below one already delivered. Holding events back briefly gives those transactions time to land first.
+const settleMs = 1500;
+const pollBatchSize = 500;
+// A Last-Event-ID further back than this is treated as a fresh connection rather than replayed.
+const maxReplayEvents = 1000;
+
+const subscribers = new Set<Subscriber>();
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+const logRealtimeFailure = (label: string, error: unknown) => {
+  // eslint-disable-next-line no-console
+  console.error(`[realtime] ${label} failed`, error);
+};
+
+const canReceive = (subscriber: Subscriber, event: RealtimeEvent): boolean =>
+  event.audience === "ALL" ||
+  event.userId === subscriber.userId ||
+  (event.audience === "ADMINS" && subscriber.role === "ADMIN");
+
+/**
+ * Records an event for connected clients. Pass the transaction client when the event describes a write in that
+ * transaction, so a rollback drops the event too. Outside a transaction, failures are logged and swallowed.
+ */
+export const publishRealtimeEvent = async (input: RealtimeEventInput, client?: Tx): Promise<void> => {
+  const data = {
+    type: input.type,
+    audience: input.audience,
+    userId: input.userId ?? null,
+    payload: input.payload
+  };
+  if (client) {
+    await client.realtimeEvent.create({ data });
+    return;
+  }
+  try {
+    await prisma.realtimeEvent.create({ data });
+  } catch (error) {
+    logRealtimeFailure(input.type, error);
+  }
+};
+
+const deliverPendingEvents = async (): Promise<void> => {
+  if (polling || subscribers.size === 0) {
+    return;
+  }
+  polling = true;
+  try {
+    while (subscribers.size > 0) {
+      const cursor = Math.min(...[...subscribers].map((subscriber) => subscriber.lastEventId));
+      const events = await prisma.realtimeEvent.findMany({
+        where: { id: { gt: cursor }, createdAt: { lt: new Date(Date.now() - settleMs) } },
+        orderBy: { id: "asc" },
+        take: pollBatchSize
+      });
+      for (const event of events) {
+        for (const subscriber of subscribers) {
+          if (event.id <= subscriber.lastEventId) {
+            continue;
+          }
+          subscriber.lastEventId = event.id;
+          if (canReceive(subscriber, event)) {
+            subscriber.send(event);
+          }
+        }
+      }
+      if (events.length < pollBatchSize) {
+        break;
+      }
+    }
+  } catch (error) {
+    logRealtimeFailure("poll", error);
+  } finally {
+    polling = false;
+  }
+};
+
+const getLatestEventId = async (): Promise<number> => {
+  const result = await prisma.realtimeEvent.aggregate({ _max: { id: true } });
+  return result._max.id ?? 0;
+};
+
+/**
+ * Registers a connection. Events after `lastEventId` (the client's Last-Event-ID) are replayed on the next poll;
+ * without one, only events raised from now on are sent. Returns the unsubscribe function.
+ */
+export const subscribeRealtime = async (input: Omit<Subscriber, "lastEventId"> & { lastEventId?: number }) => {
+  const latestId = await getLatestEventId();
+  const lastEventId =
+    input.lastEventId !== undefined && input.lastEventId <= latestId
+      ? Math.max(input.lastEventId, latestId - maxReplayEvents)
+      : latestId;
+  const subscriber: Subscriber = { ...input, lastEventId };
+  subscribers.add(subscriber);
+  if (!pollTimer) {
+    pollTimer = setInterval(() => {
+      void deliverPendingEvents();
+    }, pollIntervalMs);
+  }
+
+  return () => {
+    subscribers.delete(subscriber);
+    if (subscribers.size === 0 && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  };
+};
+
+export const pruneRealtimeEvents = async (olderThan: Date): Promise<number> => {
+  const deleted = await prisma.realtimeEvent.deleteMany({ where: { createdAt: { lt: olderThan } } });
+  return deleted.count;
+};
@@ -0,0 +1,55 @@
+import type { Response } from "express";
+
+export type ChunkWriter = (chunk: string) => Promise<void>;
+
+// Waits for the socket buffer to empty whenever it is full, so a slow client cannot make the export pile up in memory.
+const writeChunk = async (res: Response, chunk: string): Promise<void> => {
+  if (res.destroyed) {
+    throw new Error("The client closed the connection");
+  }
+  if (res.write(chunk)) {
+    return;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      res.off("drain", onDrain);
+      res.off("close", onClose);
+    };
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error("The client closed the connection"));
+    };
+    res.on("drain", onDrain);
+    res.on("close", onClose);
+  });
+};
+
+/**
+ * Streams a download through `write` and ends the response. Once the first chunk is out the status is sent, so a
+ * later failure destroys the connection instead: the client sees a failed download rather than a file that looks
+ * complete. Resolves to whether the whole download was written.
+ */
+export const streamDownload = async (
+  res: Response,
+  write: (writeChunk: ChunkWriter) => Promise<void>
+): Promise<boolean> => {
+  try {
+    await write((chunk) => writeChunk(res, chunk));
+    res.end();
+    return true;
+  } catch (error) {
+    if (!res.headersSent) {
+      throw error;
+    }
+    if (!res.destroyed) {
+      // eslint-disable-next-line no-console
+      console.error("[export] streaming failed", error);
+      res.destroy();
+    }
+    return false;
+  }
+};
@@ -0,0 +1,133 @@
+import type { SavedSearch } from "@prisma/client";
+import { prisma } from "../db/prisma";
+import { bookFilterSchema, buildBookFilterWhere, type BookFilters } from "./book-filters";
+import { matchBookIds, type BookSearchHit } from "./book-search";
+import { sendTemplatedEmail } from "./email-notifications";
+import { hashToken } from "./hash";
+import { notifyUser, savedSearchLink } from "./notifications";
+
+const savedSearchBatchSize = 200;
+
+export const MAX_SAVED_SEARCHES_PER_USER = 25;
+
+export const parseSavedSearchFilters = (value: unknown): BookFilters | null => {
+  const parsed = bookFilterSchema.safeParse(value ?? {});
+  return parsed.success ? parsed.data : null;
+};
+
+// Availability alone is not a criterion: every new book is available, so it would match all of them.
+export const hasAnySavedSearchFilter = (filters: BookFilters): boolean => {
+  return Boolean(
+    filters.q?.trim() ||
+      filters.author?.trim() ||
+      filters.genre?.trim() ||
+      filters.genres.length > 0 ||
+      filters.authors.length > 0 ||
+      filters.decades.length > 0 ||
+      filters.ratings.length > 0
+  );
+};
+
+const matchSavedSearch = async (
+  search: SavedSearch,
+  bookIds: string[],
+  hitsByQuery: Map<string, BookSearchHit[] | null>
+): Promise<void> => {
+  const filters = parseSavedSearchFilters(search.filters);
+  // Searches saved before availability stopped counting as a criterion are left out rather than matching everything.
+  if (!filters || !hasAnySavedSearchFilter(filters)) {
+    return;
+  }
+
+  let searchHits: BookSearchHit[] | null = null;
+  const q = filters.q?.trim().toLowerCase();
+  if (q) {
+    if (!hitsByQuery.has(q)) {
+      hitsByQuery.set(q, await matchBookIds(q, bookIds));
+    }
+    searchHits = hitsByQuery.get(q) ?? null;
+  }
+
+  const books = await prisma.book.findMany({
+    where: { AND: [{ id: { in: bookIds } }, buildBookFilterWhere(filters, searchHits)] },
+    select: { id: true, title: true, author: true },
+    orderBy: { title: "asc" }
+  });
+  if (books.length === 0) {
+    return;
+  }
+
+  const created = await prisma.savedSearchMatch.createMany({
+    data: books.map((book) => ({ savedSearchId: search.id, bookId: book.id })),
+    skipDuplicates: true
+  });
+  if (created.count === 0) {
+    return;
+  }
+
+  const matchKey = hashToken(books.map((book) => book.id).join(",")).slice(0, 24);
+  const dedupeKey = `saved-search:${search.id}:${matchKey}`;
+  const [firstBook] = books;
+  const listedTitles = books
+    .slice(0, 3)
+    .map((book) => book.title)
+    .join(", ");
+  // The in-app notification goes out regardless of email preferences.
+  await notifyUser(search.userId, {
+    type: "SAVED_SEARCH_MATCH",
+    title:
+      books.length === 1
+        ? `New match for "${search.name}": ${firstBook?.title}`
+        : `${books.length} new matches for "${search.name}"`,
+    body:
+      books.length === 1
+        ? `by ${firstBook?.author}`
+        : books.length > 3
+          ? `${listedTitles} and ${books.length - 3} more`
+          : listedTitles,
+    payload: { savedSearchId: search.id, bookIds: books.map((book) => book.id) },
+    link: savedSearchLink(search.id),
+    dedupeKey
+  });
+  await sendTemplatedEmail({
+    userId: search.userId,
+    template: "NEW_ARRIVALS",
+    dedupeKey,
+    data: {
+      searchName: search.name,
+      books: books.map((book) => ({ title: book.title, author: book.author }))
+    }
+  });
+};
+
+// Records newly added books against every saved search with alerts on; the member sees them as new
+// matches in the app, gets a notification and, unless they opted out, one email per search.
+export const notifySavedSearchMatches = async (bookIds: string[]): Promise<void> => {
+  if (bookIds.length === 0) {
+    return;
+  }
+
+  try {
+    // Full-text matches depend only on `q`, so searches sharing a query share one lookup.
+    const hitsByQuery = new Map<string, BookSearchHit[] | null>();
+    let cursor: string | undefined;
+    while (true) {
+      const searches = await prisma.savedSearch.findMany({
+        where: { alertsEnabled: true },
+        orderBy: { id: "asc" },
+        take: savedSearchBatchSize,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+      });
+      for (const search of searches) {
+        await matchSavedSearch(search, bookIds, hitsByQuery);
+      }
+      if (searches.length < savedSearchBatchSize) {
+        break;
+      }
+      cursor = searches[searches.length - 1]?.id;
+    }
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("[saved-searches] new arrival matching failed", error);
+  }
+};
@@ -0,0 +1,207 @@
+import { Prisma } from "@prisma/client";
+import { randomBytes } from "crypto";
+import { prisma } from "../db/prisma";
+import { HttpError } from "./errors";
+
+type Tx = Prisma.TransactionClient;
+
+export const FAVORITES_SHELF_KEY = "FAVORITES";
+export const FAVORITES_SHELF_NAME = "Favorites";
+export const MAX_SHELVES_PER_USER = 50;
+export const MAX_ENTRIES_PER_SHELF = 1000;
+
+const legacyFavoritesBatchSize = 100;
+
+const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
+export const generateShareToken = (): string => randomBytes(18).toString("base64url");
+
+export const nextShelfPosition = async (client: Tx, userId: string): Promise<number> => {
+  const result = await client.shelf.aggregate({ where: { userId }, _max: { position: true } });
+  return (result._max.position ?? -1) + 1;
+};
+
+const nextEntryPosition = async (client: Tx, shelfId: string): Promise<number> => {
+  const result = await client.shelfEntry.aggregate({ where: { shelfId }, _max: { position: true } });
+  return (result._max.position ?? -1) + 1;
+};
+
+// Not for use inside a transaction: a concurrent create surfaces as a unique violation that is resolved by re-reading.
+export const ensureFavoritesShelf = async (userId: string) => {
+  const where = { userId_systemKey: { userId, systemKey: FAVORITES_SHELF_KEY } };
+  const existing = await prisma.shelf.findUnique({ where });
+  if (existing) {
+    return existing;
+  }
+  try {
+    return await prisma.shelf.create({
+      data: {
+        userId,
+        name: FAVORITES_SHELF_NAME,
+        systemKey: FAVORITES_SHELF_KEY,
+        position: await nextShelfPosition(prisma, userId)
+      }
+    });
+  } catch (error) {
+    if (!isUniqueViolation(error)) {
+      throw error;
+    }
+    return prisma.shelf.findUniqueOrThrow({ where });
+  }
+};
+
+export const getFavoriteBookIds = async (userId: string, bookIds: string[]): Promise<Set<string>> => {
+  if (bookIds.length === 0) {
+    return new Set();
+  }
+  const entries = await prisma.shelfEntry.findMany({
+    where: {
+      bookId: { in: bookIds },
+      shelf: { userId, systemKey: FAVORITES_SHELF_KEY }
+    },
+    select: { bookId: true }
+  });
+  return new Set(entries.map((entry) => entry.bookId));
+};
+
+export const addShelfEntry = async (shelfId: string, bookId: string, note: string | null = null) => {
+  return prisma.$transaction(async (tx) => {
+    const entryCount = await tx.shelfEntry.count({ where: { shelfId } });
+    if (entryCount >= MAX_ENTRIES_PER_SHELF) {
+      throw new HttpError(409, `A shelf can hold up to ${MAX_ENTRIES_PER_SHELF} books`);
+    }
+    try {
+      return await tx.shelfEntry.create({
+        data: {
+          shelfId,
+          bookId,
+          note,
+          position: await nextEntryPosition(tx, shelfId)
+        }
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new HttpError(409, "This book is already on the shelf");
+      }
+      throw error;
+    }
+  });
+};
+
+// Returns the new favorite state.
+export const toggleFavoriteBook = async (userId: string, bookId: string): Promise<boolean> => {
+  const shelf = await ensureFavoritesShelf(userId);
+  const removed = await prisma.shelfEntry.deleteMany({ where: { shelfId: shelf.id, bookId } });
+  if (removed.count > 0) {
+    return false;
+  }
+  try {
+    await addShelfEntry(shelf.id, bookId);
+  } catch (error) {
+    // A concurrent toggle already added it.
+    if (!(error instanceof HttpError && error.statusCode === 409)) {
+      throw error;
+    }
+  }
+  return true;
+};
+
+// Returns whether anything changed; setting the current state again is a no-op.
+export const setFavoriteBook = async (userId: string, bookId: string, favorite: boolean): Promise<boolean> => {
+  const shelf = await ensureFavoritesShelf(userId);
+  if (!favorite) {
+    const removed = await prisma.shelfEntry.deleteMany({ where: { shelfId: shelf.id, bookId } });
+    return removed.count > 0;
+  }
+  const isOnShelf = async () =>
+    (await prisma.shelfEntry.count({ where: { shelfId: shelf.id, bookId } })) > 0;
+  if (await isOnShelf()) {
+    return false;
+  }
+  try {
+    await addShelfEntry(shelf.id, bookId);
+  } catch (error) {
+    // A concurrent request may have added it; a full shelf is still an error.
+    if (error instanceof HttpError && error.statusCode === 409 && (await isOnShelf())) {
+      return false;
+    }
+    throw error;
+  }
+  return true;
+};
+
+// Rewrites positions to match `orderedIds`, which must list every id in the scope exactly once.
+export const applyOrder = async (
+  currentIds: string[],
+  orderedIds: string[],
+  update: (id: string, position: number) => Prisma.PrismaPromise<unknown>
+): Promise<void> => {
+  const current = new Set(currentIds);
+  if (orderedIds.length !== current.size || new Set(orderedIds).size !== orderedIds.length) {
+    throw new HttpError(400, "The new order must list every item exactly once");
+  }
+  if (orderedIds.some((id) => !current.has(id))) {
+    throw new HttpError(400, "The new order contains unknown items");
+  }
+  await prisma.$transaction(orderedIds.map((id, position) => update(id, position)));
+};
+
+// Copies legacy BookFavorite rows into a Favorites shelf for members who do not have one yet.
+export const migrateLegacyFavorites = async (): Promise<number> => {
+  let migratedUsers = 0;
+  const skippedUserIds: string[] = [];
+  try {
+    while (true) {
+      const users = await prisma.user.findMany({
+        where: {
+          id: { notIn: skippedUserIds },
+          favorites: { some: {} },
+          shelves: { none: { systemKey: FAVORITES_SHELF_KEY } }
+        },
+        select: { id: true },
+        take: legacyFavoritesBatchSize
+      });
+      if (users.length === 0) {
+        break;
+      }
+
+      for (const user of users) {
+        try {
+          const favorites = await prisma.bookFavorite.findMany({
+            where: { userId: user.id },
+            orderBy: { updatedAt: "desc" },
+            select: { bookId: true, createdAt: true }
+          });
+          await prisma.$transaction(async (tx) => {
+            const shelf = await tx.shelf.create({
+              data: {
+                userId: user.id,
+                name: FAVORITES_SHELF_NAME,
+                systemKey: FAVORITES_SHELF_KEY,
+                position: await nextShelfPosition(tx, user.id)
+              }
+            });
+            await tx.shelfEntry.createMany({
+              data: favorites.map((favorite, position) => ({
+                shelfId: shelf.id,
+                bookId: favorite.bookId,
+                position,
+                addedAt: favorite.createdAt
+              }))
+            });
+          });
+          migratedUsers += 1;
+        } catch (error) {
+          skippedUserIds.push(user.id);
+          // eslint-disable-next-line no-console
+          console.error(`[shelves] could not migrate favorites for user ${user.id}`, error);
+        }
+      }
+    }
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("[shelves] legacy favorites migration failed", error);
+  }
+  return migratedUsers;
+};
@@ -2,8 +2,10 @@ import { Router } from "express";
 import { z } from "zod";
 import { prisma } from "../db/prisma";
 import { asyncHandler } from "../lib/async-handler";
+import { estimateDueDateWithinPolicy, resolveCirculationRules } from "../lib/circulation-policy";
+import { HttpError } from "../lib/errors";
 import { FALLBACK_BOOKS } from "../lib/fallback-books";
-import { estimateLoanDueDate } from "../lib/reading-time";
+import { FAVORITES_SHELF_KEY } from "../lib/shelves";
 import { optionalAuth, requireAuth } from "../middleware/auth";
 
 const router = Router();
@@ -24,6 +26,8 @@ type RecommendationsPayload = {
     aiMetadata: boolean;
     available: boolean;
     requestPending: boolean;
+    totalCopies: number;
+    availableCopies: number;
     isFavorite: boolean;
     createdAt: Date | string;
     updatedAt?: Date | string;
@@ -56,15 +60,24 @@ router.post(
       .object({
         title: z.string().min(1),
         author: z.string().min(1),
-        isbn: z.string().optional().nullable()
+        isbn: z.string().optional().nullable(),
+        genre: z.string().optional().nullable()
       })
       .parse(req.body);
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
 
-    const estimate = await estimateLoanDueDate({
-      title: payload.title,
-      author: payload.author,
-      isbn: payload.isbn
-    });
+    const rules = await resolveCirculationRules({ role: viewer.role, genre: payload.genre ?? null });
+    const estimate = await estimateDueDateWithinPolicy(
+      {
+        title: payload.title,
+        author: payload.author,
+        isbn: payload.isbn ?? null
+      },
+      rules
+    );
 
     res.status(200).json({
       data: {
@@ -73,7 +86,8 @@ router.post(
       },
       meta: {
         source: estimate.source,
-        pageCount: estimate.pageCount
+        pageCount: estimate.pageCount,
+        policyId: rules.policyId
       }
     });
   })
@@ -109,8 +123,8 @@ router.post(
             orderBy: { checkedOutAt: "desc" },
             take: 40
           }),
-          prisma.bookFavorite.findMany({
-            where: { userId: viewer.id },
+          prisma.shelfEntry.findMany({
+            where: { shelf: { userId: viewer.id, systemKey: FAVORITES_SHELF_KEY } },
             select: {
               bookId: true,
               updatedAt: true,
@@ -122,7 +136,7 @@ router.post(
                 }
               }
             },
-            orderBy: { updatedAt: "desc" },
+            orderBy: { addedAt: "desc" },
             take: 50
           }),
           prisma.bookReview.findMany({
@@ -242,7 +256,9 @@ router.post(
         averageRating: null,
         ratingsCount: null,
         aiMetadata: false,
-        requestPending: false
+        requestPending: false,
+        totalCopies: 0,
+        availableCopies: 0
       }));
     };
 
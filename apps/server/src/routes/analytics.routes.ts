@@ -0,0 +1,43 @@
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../lib/async-handler";
+import { analyticsGranularities, loadCirculationAnalytics } from "../lib/analytics";
+import { HttpError } from "../lib/errors";
+import { requireAuth, requireRole } from "../middleware/auth";
+
+const router = Router();
+const dayMs = 24 * 60 * 60 * 1000;
+const defaultRangeDays = 30;
+const maxRangeDays = 366;
+
+const circulationQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  granularity: z.enum(analyticsGranularities).default("day")
+});
+
+router.get(
+  "/circulation",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const query = circulationQuerySchema.parse(req.query);
+    const to = query.to ?? new Date();
+    const from = query.from ?? new Date(to.getTime() - defaultRangeDays * dayMs);
+    if (from >= to) {
+      throw new HttpError(400, "The from date must be before the to date");
+    }
+    if (to.getTime() - from.getTime() > maxRangeDays * dayMs) {
+      throw new HttpError(400, `The range can span at most ${maxRangeDays} days`);
+    }
+
+    const analytics = await loadCirculationAnalytics({ from, to, granularity: query.granularity });
+
+    res.status(200).json({
+      data: analytics,
+      meta: { from, to, granularity: query.granularity }
+    });
+  })
+);
+
+export const analyticsRouter = router;
@@ -0,0 +1,165 @@
+import type { Prisma } from "@prisma/client";
+import { Router } from "express";
+import { z } from "zod";
+import { prisma } from "../db/prisma";
+import { asyncHandler } from "../lib/async-handler";
+import { toCsvRow } from "../lib/csv";
+import { HttpError } from "../lib/errors";
+import { streamDownload } from "../lib/response-stream";
+import { requireAuth, requireRole } from "../middleware/auth";
+
+const router = Router();
+
+const CSV_BATCH_SIZE = 500;
+const CSV_MAX_ROWS = 50_000;
+
+const auditLogQuerySchema = z.object({
+  actorUserId: z.string().min(1).optional(),
+  action: z.string().trim().min(1).max(100).optional(),
+  entity: z.string().trim().min(1).max(100).optional(),
+  entityId: z.string().min(1).optional(),
+  bookId: z.string().min(1).optional(),
+  userId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  format: z.enum(["json", "csv"]).default("json"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+
+const auditLogInclude = {
+  actor: {
+    select: {
+      id: true,
+      name: true,
+      email: true
+    }
+  }
+} as const;
+
+const auditLogOrderBy: Prisma.AuditLogOrderByWithRelationInput[] = [{ createdAt: "desc" }, { id: "desc" }];
+
+// Timelines also pick up events recorded against related entities (loans, holds, fines) through their metadata.
+const buildAuditLogWhere = (query: AuditLogQuery): Prisma.AuditLogWhereInput => {
+  const conditions: Prisma.AuditLogWhereInput[] = [];
+
+  if (query.actorUserId) {
+    conditions.push({ actorUserId: query.actorUserId });
+  }
+  if (query.action) {
+    conditions.push({ action: query.action.toUpperCase() });
+  }
+  if (query.entity) {
+    conditions.push({ entity: query.entity.toUpperCase() });
+  }
+  if (query.entityId) {
+    conditions.push({ entityId: query.entityId });
+  }
+  if (query.bookId) {
+    conditions.push({
+      OR: [
+        { entity: "BOOK", entityId: query.bookId },
+        { metadata: { path: ["bookId"], equals: query.bookId } }
+      ]
+    });
+  }
+  if (query.userId) {
+    conditions.push({
+      OR: [
+        { actorUserId: query.userId },
+        { entity: "USER", entityId: query.userId },
+        { metadata: { path: ["userId"], equals: query.userId } }
+      ]
+    });
+  }
+  if (query.from || query.to) {
+    conditions.push({
+      createdAt: {
+        ...(query.from ? { gte: query.from } : {}),
+        ...(query.to ? { lte: query.to } : {})
+      }
+    });
+  }
+
+  return conditions.length > 0 ? { AND: conditions } : {};
+};
+
+router.get(
+  "/",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const query = auditLogQuerySchema.parse(req.query);
+    if (query.from && query.to && query.from > query.to) {
+      throw new HttpError(400, "The from date must be before the to date");
+    }
+    const where = buildAuditLogWhere(query);
+
+    if (query.format === "csv") {
+      const stamp = new Date().toISOString().slice(0, 10);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="audit-logs-${stamp}.csv"`);
+      await streamDownload(res, async (write) => {
+        await write(
+          toCsvRow(["createdAt", "action", "entity", "entityId", "actorUserId", "actorName", "actorEmail", "metadata"])
+        );
+
+        let cursor = query.cursor;
+        let written = 0;
+        while (written < CSV_MAX_ROWS) {
+          const batch = await prisma.auditLog.findMany({
+            where,
+            include: auditLogInclude,
+            orderBy: auditLogOrderBy,
+            take: Math.min(CSV_BATCH_SIZE, CSV_MAX_ROWS - written),
+            ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+          });
+          for (const log of batch) {
+            await write(
+              toCsvRow([
+                log.createdAt,
+                log.action,
+                log.entity,
+                log.entityId,
+                log.actorUserId,
+                log.actor?.name,
+                log.actor?.email,
+                log.metadata
+              ])
+            );
+          }
+          written += batch.length;
+          if (batch.length < CSV_BATCH_SIZE) {
+            break;
+          }
+          cursor = batch[batch.length - 1]?.id;
+        }
+      });
+      return;
+    }
+
+    const logs = await prisma.auditLog.findMany({
+      where,
+      include: auditLogInclude,
+      orderBy: auditLogOrderBy,
+      take: query.limit + 1,
+      ...(query.cursor ? { skip: 1, cursor: { id: query.cursor } } : {})
+    });
+
+    const hasNextPage = logs.length > query.limit;
+    const data = hasNextPage ? logs.slice(0, query.limit) : logs;
+    const nextCursor = hasNextPage ? data[data.length - 1]?.id : null;
+
+    res.status(200).json({
+      data,
+      pageInfo: {
+        hasNextPage,
+        nextCursor
+      }
+    });
+  })
+);
+
+export const auditLogsRouter = router;
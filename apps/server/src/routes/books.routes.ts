@@ -1,9 +1,44 @@
 import { Router } from "express";
 import { z } from "zod";
 import { prisma } from "../db/prisma";
+import { evaluateAchievements } from "../lib/achievements";
 import { asyncHandler } from "../lib/async-handler";
 import { createAuditLog } from "../lib/audit";
+import { buildNewCopies, generateCopyBarcode, syncBookAvailability } from "../lib/book-copies";
+import { bookFilterSchema, buildBookFilterWhere, loadBookFacets, type BookFilters } from "../lib/book-filters";
+import { highlightBooks, searchBookIds } from "../lib/book-search";
+import {
+  cacheBooksPayload,
+  getCachedBooksPayload,
+  getLastBooksPayload,
+  invalidateBooksCache,
+  type BooksPayload
+} from "../lib/books-cache";
+import {
+  importFields,
+  isbnSpellings,
+  normalizeIsbn,
+  readCsvCandidates,
+  readMarc21Candidates,
+  readMarcXmlCandidates,
+  type ColumnMapping,
+  type ImportCandidate
+} from "../lib/catalog-import";
+import {
+  exportCsvHeader,
+  marcXmlFooter,
+  marcXmlHeader,
+  toExportCsvRow,
+  toMarcXmlRecord,
+  type ExportedBook
+} from "../lib/catalog-export";
+import { notifyHoldsReady } from "../lib/email-notifications";
 import { HttpError } from "../lib/errors";
+import { fillWaitingHolds } from "../lib/holds";
+import { bookLink, notifyAdmins } from "../lib/notifications";
+import { streamDownload } from "../lib/response-stream";
+import { notifySavedSearchMatches } from "../lib/saved-searches";
+import { FAVORITES_SHELF_KEY, getFavoriteBookIds, setFavoriteBook, toggleFavoriteBook } from "../lib/shelves";
 import {
   enrichLibraryMetadata,
   enrichMissingCoreMetadata,
@@ -14,88 +49,20 @@ import { FALLBACK_BOOKS } from "../lib/fallback-books";
 import { optionalAuth, requireAuth, requireRole } from "../middleware/auth";
 
 const router = Router();
-const BOOKS_CACHE_TTL_MS = 20_000;
-const AUTO_CORE_ENRICH_COOLDOWN_MS = 5 * 60 * 1000;
-
-type BooksPayload = {
-  data: Array<{
-    id: string;
-    title: string;
-    author: string;
-    isbn: string | null;
-    genre: string | null;
-    publishedYear: number | null;
-    description: string | null;
-    coverUrl: string | null;
-    averageRating: number | null;
-    ratingsCount: number | null;
-    aiMetadata: boolean;
-    available: boolean;
-    requestPending: boolean;
-    isFavorite: boolean;
-    createdAt: Date | string;
-    updatedAt?: Date | string;
-  }>;
-  pageInfo: {
-    hasNextPage: boolean;
-    nextCursor: string | null;
-  };
-};
-
-const booksCache = new Map<string, { expiresAt: number; payload: BooksPayload }>();
-let lastBooksPayload: BooksPayload | null = null;
-let autoCoreEnrichmentInProgress = false;
-let autoCoreEnrichmentLastRunAt = 0;
-const invalidateBooksCache = (): void => {
-  booksCache.clear();
-  lastBooksPayload = null;
-};
-
-const maybeTriggerAutoCoreMetadataEnrichment = (): void => {
-  const now = Date.now();
-  if (autoCoreEnrichmentInProgress) {
-    return;
-  }
-  if (now - autoCoreEnrichmentLastRunAt < AUTO_CORE_ENRICH_COOLDOWN_MS) {
-    return;
-  }
-
-  autoCoreEnrichmentInProgress = true;
-  autoCoreEnrichmentLastRunAt = now;
-  void enrichMissingCoreMetadata({
-    limit: 300,
-    provider: "auto"
-  })
-    .then((result) => {
-      if (result.updatedCount > 0) {
-        invalidateBooksCache();
-      }
-    })
-    .catch(() => {
-      // no-op: background enrichment should not impact API response path
-    })
-    .finally(() => {
-      autoCoreEnrichmentInProgress = false;
-    });
-};
-
 const hasValidAuthHeader = (authHeader?: string): boolean => {
   return typeof authHeader === "string" && authHeader.startsWith("Bearer ");
 };
 
-const getBooksCacheKey = (query: {
-  q?: string;
-  author?: string;
-  genre?: string;
-  available?: "true" | "false";
-  cursor?: string;
-  limit: number;
-}): string => {
+const getBooksCacheKey = (query: BookFilters & { cursor?: string; limit: number }): string => {
   return JSON.stringify({
     q: query.q ?? "",
     author: query.author ?? "",
     genre: query.genre ?? "",
     available: query.available ?? "",
+    genres: [...query.genres].sort(),
+    authors: [...query.authors].sort(),
+    decades: [...query.decades].sort(),
+    ratings: [...query.ratings].sort(),
     cursor: query.cursor ?? "",
     limit: query.limit
   });
@@ -140,24 +107,15 @@ const applyFavoriteFlagsForViewer = async <
     return books.map((book) => ({ ...book, isFavorite: false }));
   }
 
-  let favorites: Array<{ bookId: string }> = [];
+  let favoriteIds: Set<string>;
   try {
-    favorites = await prisma.bookFavorite.findMany({
-      where: {
-        userId: viewerId,
-        bookId: { in: books.map((book) => book.id) }
-      },
-      select: {
-        bookId: true
-      }
-    });
+    favoriteIds = await getFavoriteBookIds(viewerId, books.map((book) => book.id));
   } catch (error) {
     if (!isMissingTableError(error)) {
       throw error;
     }
     return books.map((book) => ({ ...book, isFavorite: false }));
   }
-  const favoriteIds = new Set(favorites.map((favorite) => favorite.bookId));
   return books.map((book) => ({
     ...book,
     isFavorite: favoriteIds.has(book.id)
@@ -205,15 +163,132 @@ const bookInputSchema = z.object({
   ratingsCount: z.coerce.number().int().min(0).optional().nullable()
 });
 
+const createBookSchema = bookInputSchema.extend({
+  copyCount: z.coerce.number().int().min(0).max(50).default(1)
+});
+
+const copyConditionSchema = z.enum(["NEW", "GOOD", "FAIR", "POOR", "DAMAGED"]);
+
+const copyInputSchema = z.object({
+  barcode: z
+    .string()
+    .trim()
+    .max(64)
+    .optional()
+    .nullable()
+    .transform((value) => value || null),
+  shelfLocation: z
+    .string()
+    .max(64)
+    .optional()
+    .nullable()
+    .transform((value) => value?.trim() || null),
+  condition: copyConditionSchema.default("GOOD")
+});
+
+const copyUpdateSchema = z.object({
+  barcode: z.string().trim().min(1).max(64).optional(),
+  shelfLocation: z
+    .string()
+    .max(64)
+    .optional()
+    .nullable()
+    .transform((value) => (value === undefined ? undefined : value?.trim() || null)),
+  condition: copyConditionSchema.optional(),
+  status: z.enum(["AVAILABLE", "MAINTENANCE", "LOST"]).optional()
+});
+
+const sortByIds = <TBook extends { id: string }>(books: TBook[], ids: string[]): TBook[] => {
+  const byId = new Map(books.map((book) => [book.id, book]));
+  return ids.flatMap((id) => byId.get(id) ?? []);
+};
+
+const EXPORT_BATCH_SIZE = 500;
+
+const MAX_IMPORT_ROWS = 5000;
+
+const fileImportSchema = z.object({
+  format: z.enum(["csv", "marc", "marcxml"]),
+  content: z.string().min(1),
+  // Binary MARC21 must be sent as base64 so byte offsets survive the JSON round trip.
+  encoding: z.enum(["text", "base64"]).default("text"),
+  mapping: z.record(z.enum(importFields), z.string().trim().min(1)).optional(),
+  delimiter: z.string().length(1).default(","),
+  defaultCopyCount: z.coerce.number().int().min(0).max(50).default(1),
+  dryRun: z.boolean().default(true),
+  skipInvalid: z.boolean().default(false)
+});
+
+type ImportRowResult = {
+  row: number;
+  status: "create" | "duplicate" | "exists" | "invalid";
+  book: z.infer<typeof createBookSchema> | null;
+  values: ImportCandidate["values"];
+  errors: string[];
+  existingBookId: string | null;
+};
+
+// `expectedUpdatedAt` is the version the edit was based on (null when there was none). Offline edits send it so a
+// replay cannot silently overwrite a change made elsewhere in the meantime; leaving it out keeps last-write-wins.
+const expectedUpdatedAtSchema = z.string().datetime().nullable().optional();
+
 const reviewInputSchema = z.object({
   rating: z.coerce.number().int().min(1).max(5),
-  content: z.string().trim().min(3).max(1500)
+  content: z.string().trim().min(3).max(1500),
+  expectedUpdatedAt: expectedUpdatedAtSchema
 });
 
 const noteInputSchema = z.object({
-  content: z.string().trim().min(1).max(3000)
+  content: z.string().trim().min(1).max(3000),
+  expectedUpdatedAt: expectedUpdatedAtSchema
+});
+
+const favoriteInputSchema = z.object({
+  favorite: z.boolean()
 });
 
+const isUniqueViolationError = (error: unknown): boolean => {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    (error as { code?: string }).code === "P2002"
+  );
+};
+
+// With an `expectedUpdatedAt`, the write itself is conditional (create-only for null, update-where-unchanged
+// otherwise), so a change landing between the client's read and this write is reported as a conflict.
+const saveVersioned = async <TRecord extends { updatedAt: Date }>(options: {
+  expectedUpdatedAt: string | null | undefined;
+  label: string;
+  findCurrent: () => Promise<TRecord | null>;
+  upsert: () => Promise<TRecord>;
+  create: () => Promise<TRecord>;
+  updateIfUnchanged: (updatedAt: Date) => Promise<{ count: number }>;
+}): Promise<TRecord> => {
+  if (options.expectedUpdatedAt === undefined) {
+    return options.upsert();
+  }
+  if (options.expectedUpdatedAt === null) {
+    try {
+      return await options.create();
+    } catch (error) {
+      if (!isUniqueViolationError(error)) {
+        throw error;
+      }
+    }
+  } else {
+    const updated = await options.updateIfUnchanged(new Date(options.expectedUpdatedAt));
+    const saved = updated.count === 1 ? await options.findCurrent() : null;
+    if (saved) {
+      return saved;
+    }
+  }
+  throw new HttpError(409, `Your ${options.label} was changed elsewhere since this edit was made`, {
+    current: await options.findCurrent()
+  });
+};
+
 const isMissingTableError = (error: unknown): boolean => {
   return (
     typeof error === "object" &&
@@ -255,7 +330,9 @@ const findBookById = async (bookId: string) => {
       averageRating: null,
       ratingsCount: null,
       aiMetadata: false,
-      requestPending: false
+      requestPending: false,
+      totalCopies: 0,
+      availableCopies: 0
     });
   }
 };
@@ -311,7 +388,9 @@ const findRelatedBooks = async (
           averageRating: null,
           ratingsCount: null,
           aiMetadata: false,
-          requestPending: false
+          requestPending: false,
+          totalCopies: 0,
+          availableCopies: 0
         })
       );
     }
@@ -373,11 +452,7 @@ router.get(
   "/",
   optionalAuth,
   asyncHandler(async (req, res) => {
-    const querySchema = z.object({
-      q: z.string().optional(),
-      author: z.string().optional(),
-      genre: z.string().optional(),
-      available: z.enum(["true", "false"]).optional(),
+    const querySchema = bookFilterSchema.extend({
       cursor: z.string().optional(),
       limit: z.coerce.number().int().min(1).max(50).default(12)
     });
@@ -385,31 +460,33 @@ router.get(
     const query = querySchema.parse(req.query);
     const allowCache = !hasValidAuthHeader(req.headers.authorization);
     const cacheKey = getBooksCacheKey(query);
-    const cached = booksCache.get(cacheKey);
-    if (allowCache && cached && cached.expiresAt > Date.now()) {
-      res.status(200).json(cached.payload);
+    const cached = getCachedBooksPayload(cacheKey);
+    if (allowCache && cached) {
+      res.status(200).json(cached);
       return;
     }
 
-    const where = {
-      AND: [
-        query.q
-          ? {
-              OR: [
-                { title: { contains: query.q, mode: "insensitive" as const } },
-                { author: { contains: query.q, mode: "insensitive" as const } },
-                { genre: { contains: query.q, mode: "insensitive" as const } },
-                { isbn: { contains: query.q, mode: "insensitive" as const } }
-              ]
-            }
-          : {},
-        query.author ? { author: { contains: query.author, mode: "insensitive" as const } } : {},
-        query.genre ? { genre: { contains: query.genre, mode: "insensitive" as const } } : {},
-        typeof query.available === "string" ? { available: query.available === "true" } : {}
-      ]
+    const searchHits = query.q ? await searchBookIds(query.q) : null;
+    const where = buildBookFilterWhere(query, searchHits);
+
+    // Ranked results page by position in the hit list, so the cursor is the last id of the previous page.
+    const loadRankedPageIds = async (): Promise<string[] | null> => {
+      if (!searchHits) {
+        return null;
+      }
+      const matching = await prisma.book.findMany({ where, select: { id: true } });
+      const matchingIds = new Set(matching.map((book) => book.id));
+      const orderedIds = searchHits.filter((hit) => matchingIds.has(hit.id)).map((hit) => hit.id);
+      const start = query.cursor ? orderedIds.indexOf(query.cursor) + 1 : 0;
+      return orderedIds.slice(start, start + query.limit + 1);
     };
 
     const runPrimaryQuery = async () => {
+      const rankedIds = await loadRankedPageIds();
+      if (rankedIds) {
+        const books = await prisma.book.findMany({ where: { id: { in: rankedIds } } });
+        return sortByIds(books, rankedIds).map((book) => normalizeBookRecord(book));
+      }
       const books = await prisma.book.findMany({
         where,
         orderBy: [{ available: "desc" }, { requestPending: "asc" }, { createdAt: "desc" }, { id: "desc" }],
@@ -420,11 +497,16 @@ router.get(
     };
 
     const runLegacyQuery = async () => {
+      const rankedIds = await loadRankedPageIds();
       const books = await prisma.book.findMany({
-        where,
-        orderBy: [{ available: "desc" }, { createdAt: "desc" }, { id: "desc" }],
-        take: query.limit + 1,
-        ...(query.cursor ? { skip: 1, cursor: { id: query.cursor } } : {}),
+        where: rankedIds ? { id: { in: rankedIds } } : where,
+        ...(rankedIds
+          ? {}
+          : {
+              orderBy: [{ available: "desc" as const }, { createdAt: "desc" as const }, { id: "desc" as const }],
+              take: query.limit + 1,
+              ...(query.cursor ? { skip: 1, cursor: { id: query.cursor } } : {})
+            }),
         select: {
           id: true,
           title: true,
@@ -439,25 +521,28 @@ router.get(
           updatedAt: true
         }
       });
-      return books.map((book) =>
+      return (rankedIds ? sortByIds(books, rankedIds) : books).map((book) =>
         normalizeBookRecord({
           ...book,
           averageRating: null,
           ratingsCount: null,
           aiMetadata: false,
-          requestPending: false
+          requestPending: false,
+          totalCopies: 0,
+          availableCopies: 0
         })
       );
     };
 
+    const lastPayload = getLastBooksPayload();
     let books: Awaited<ReturnType<typeof runPrimaryQuery>>;
     try {
       books = await runPrimaryQuery();
     } catch (error) {
       if (isMissingColumnError(error)) {
         books = await runLegacyQuery();
-      } else if (lastBooksPayload) {
-        res.status(200).json(lastBooksPayload);
+      } else if (lastPayload) {
+        res.status(200).json(lastPayload);
         return;
       } else {
         const fallback = FALLBACK_BOOKS.slice(0, query.limit);
@@ -474,38 +559,173 @@ router.get(
 
     const hasNextPage = books.length > query.limit;
     const pageData = hasNextPage ? books.slice(0, query.limit) : books;
-    const data = await applyFavoriteFlagsForViewer(pageData, req.user?.id);
+    const flagged = await applyFavoriteFlagsForViewer(pageData, req.user?.id);
+    const highlights =
+      searchHits && query.q ? await highlightBooks(query.q, flagged.map((book) => book.id)) : new Map();
+    const data = flagged.map((book) => {
+      const highlight = highlights.get(book.id);
+      return highlight ? { ...book, highlight } : book;
+    });
     const nextCursor = hasNextPage ? data[data.length - 1]?.id : null;
 
+    // Facets describe the whole result set, so only the first page pays for them.
+    let facets: BooksPayload["facets"];
+    if (!query.cursor) {
+      try {
+        facets = await loadBookFacets(query, searchHits);
+      } catch (error) {
+        if (!isMissingColumnError(error)) {
+          throw error;
+        }
+        facets = null;
+      }
+    }
+
     const payload: BooksPayload = {
       data,
       pageInfo: {
         hasNextPage,
         nextCursor
-      }
+      },
+      ...(facets !== undefined ? { facets } : {})
     };
 
     if (allowCache) {
-      lastBooksPayload = payload;
-      booksCache.set(cacheKey, {
-        expiresAt: Date.now() + BOOKS_CACHE_TTL_MS,
-        payload
-      });
+      cacheBooksPayload(cacheKey, payload);
     }
 
-    maybeTriggerAutoCoreMetadataEnrichment();
     res.status(200).json(payload);
   })
 );
 
+router.get(
+  "/export",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const query = bookFilterSchema
+      .extend({
+        format: z.enum(["csv", "json", "marcxml"]).default("csv")
+      })
+      .parse(req.query);
+    const where = buildBookFilterWhere(query, query.q ? await searchBookIds(query.q) : null);
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    const contentTypes = {
+      csv: "text/csv; charset=utf-8",
+      json: "application/json; charset=utf-8",
+      marcxml: "application/marcxml+xml; charset=utf-8"
+    };
+    res.setHeader("Content-Type", contentTypes[query.format]);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="mlms-catalog-${stamp}.${query.format === "marcxml" ? "xml" : query.format}"`
+    );
+
+    // Batches keep memory flat on large catalogs; id order keeps the cursor stable while streaming.
+    let exported = 0;
+    const completed = await streamDownload(res, async (write) => {
+      if (query.format === "csv") {
+        await write(exportCsvHeader());
+      } else if (query.format === "json") {
+        await write(`{"exportedAt":${JSON.stringify(new Date())},"data":[`);
+      } else {
+        await write(marcXmlHeader);
+      }
+
+      let cursor: string | undefined;
+      while (true) {
+        const books = await prisma.book.findMany({
+          where,
+          orderBy: [{ id: "asc" }],
+          take: EXPORT_BATCH_SIZE,
+          ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+          select: {
+            id: true,
+            title: true,
+            author: true,
+            isbn: true,
+            genre: true,
+            publishedYear: true,
+            description: true,
+            coverUrl: true,
+            averageRating: true,
+            ratingsCount: true,
+            available: true,
+            totalCopies: true,
+            availableCopies: true,
+            createdAt: true,
+            updatedAt: true
+          }
+        });
+        if (books.length === 0) {
+          break;
+        }
+
+        const reviewStats = await prisma.bookReview.groupBy({
+          by: ["bookId"],
+          where: { bookId: { in: books.map((book) => book.id) } },
+          _count: { _all: true },
+          _avg: { rating: true }
+        });
+        const statsByBook = new Map(reviewStats.map((row) => [row.bookId, row]));
+
+        for (const book of books) {
+          const stats = statsByBook.get(book.id);
+          const record: ExportedBook = {
+            ...book,
+            reviewCount: stats?._count._all ?? 0,
+            reviewAverage: stats?._avg.rating ?? null
+          };
+          if (query.format === "csv") {
+            await write(toExportCsvRow(record));
+          } else if (query.format === "json") {
+            await write(`${exported > 0 ? "," : ""}\n${JSON.stringify(record)}`);
+          } else {
+            await write(toMarcXmlRecord(record));
+          }
+          exported += 1;
+        }
+
+        if (books.length < EXPORT_BATCH_SIZE) {
+          break;
+        }
+        cursor = books[books.length - 1]?.id;
+      }
+
+      if (query.format === "json") {
+        await write(`\n],"meta":{"count":${exported}}}\n`);
+      } else if (query.format === "marcxml") {
+        await write(marcXmlFooter);
+      }
+    });
+    if (!completed) {
+      return;
+    }
+
+    await createAuditLog({
+      actorUserId: req.user?.id,
+      action: "BOOK_CATALOG_EXPORTED",
+      entity: "BOOK",
+      metadata: {
+        format: query.format,
+        filters: { q: query.q, author: query.author, genre: query.genre, available: query.available },
+        count: exported
+      }
+    });
+  })
+);
+
 router.get(
   "/stats",
   asyncHandler(async (_req, res) => {
     try {
-      const [totalBooks, availableBooks, activeLoans] = await Promise.all([
+      const [totalBooks, availableBooks, activeLoans, totalCopies, availableCopies] = await Promise.all([
         prisma.book.count(),
         prisma.book.count({ where: { available: true, requestPending: false } }),
-        prisma.loan.count({ where: { returnedAt: null } })
+        prisma.loan.count({ where: { returnedAt: null } }),
+        prisma.bookCopy.count({ where: { status: { not: "LOST" } } }),
+        prisma.bookCopy.count({ where: { status: "AVAILABLE" } })
       ]);
 
       res.status(200).json({
@@ -513,7 +733,9 @@ router.get(
           totalBooks,
           availableBooks,
           checkedOutBooks: Math.max(0, totalBooks - availableBooks),
-          activeLoans
+          activeLoans,
+          totalCopies,
+          availableCopies
         }
       });
       return;
@@ -525,7 +747,9 @@ router.get(
           totalBooks,
           availableBooks,
           checkedOutBooks: Math.max(0, totalBooks - availableBooks),
-          activeLoans: 0
+          activeLoans: 0,
+          totalCopies: totalBooks,
+          availableCopies: availableBooks
         }
       });
     }
@@ -548,12 +772,12 @@ router.get(
     }
 
     try {
-      const favorites = await prisma.bookFavorite.findMany({
-        where: { userId: viewer.id },
+      const favorites = await prisma.shelfEntry.findMany({
+        where: { shelf: { userId: viewer.id, systemKey: FAVORITES_SHELF_KEY } },
         include: {
           book: true
         },
-        orderBy: [{ updatedAt: "desc" }],
+        orderBy: [{ position: "asc" }],
         take: query.limit
       });
 
@@ -617,6 +841,185 @@ router.post(
   })
 );
 
+const readImportCandidates = (
+  payload: z.infer<typeof fileImportSchema>
+): { candidates: ImportCandidate[]; headers: string[]; mapping: ColumnMapping | null } => {
+  const text =
+    payload.encoding === "base64" ? Buffer.from(payload.content, "base64").toString("utf8") : payload.content;
+
+  if (payload.format === "csv") {
+    try {
+      return readCsvCandidates(text, { mapping: payload.mapping, delimiter: payload.delimiter });
+    } catch (error) {
+      throw new HttpError(400, error instanceof Error ? error.message : "Could not read the CSV file");
+    }
+  }
+  if (payload.format === "marcxml") {
+    return { candidates: readMarcXmlCandidates(text), headers: [], mapping: null };
+  }
+
+  const data = payload.encoding === "base64" ? Buffer.from(payload.content, "base64") : Buffer.from(payload.content, "utf8");
+  return { candidates: readMarc21Candidates(data), headers: [], mapping: null };
+};
+
+const validateImportCandidates = async (
+  candidates: ImportCandidate[],
+  defaultCopyCount: number
+): Promise<ImportRowResult[]> => {
+  const results: ImportRowResult[] = candidates.map((candidate) => {
+    const base = { row: candidate.row, values: candidate.values, existingBookId: null };
+    if (candidate.errors.length > 0) {
+      return { ...base, status: "invalid", book: null, errors: candidate.errors };
+    }
+
+    const parsed = createBookSchema.safeParse({
+      ...candidate.values,
+      copyCount: candidate.values.copyCount ?? defaultCopyCount
+    });
+    if (!parsed.success) {
+      return {
+        ...base,
+        status: "invalid",
+        book: null,
+        errors: parsed.error.issues.map((issue) => `${issue.path.join(".") || "row"}: ${issue.message}`)
+      };
+    }
+    return {
+      ...base,
+      status: "create",
+      book: { ...parsed.data, isbn: normalizeIsbn(parsed.data.isbn) },
+      errors: []
+    };
+  });
+
+  const firstRowByIsbn = new Map<string, number>();
+  for (const result of results) {
+    const isbn = result.book?.isbn;
+    if (!isbn) {
+      continue;
+    }
+    const firstRow = firstRowByIsbn.get(isbn);
+    if (firstRow !== undefined) {
+      result.status = "duplicate";
+      result.errors = [`Same ISBN as row ${firstRow}`];
+    } else {
+      firstRowByIsbn.set(isbn, result.row);
+    }
+  }
+
+  // Stored ISBNs may be ISBN-10s or still carry hyphens, so every spelling is looked up.
+  const rawIsbns = results.flatMap((result) =>
+    result.book?.isbn ? [...isbnSpellings(result.book.isbn), result.values.isbn ?? ""] : []
+  );
+  const existingBooks =
+    rawIsbns.length > 0
+      ? await prisma.book.findMany({
+          where: { isbn: { in: [...new Set(rawIsbns.filter(Boolean))] } },
+          select: { id: true, isbn: true }
+        })
+      : [];
+  const existingByIsbn = new Map(existingBooks.map((book) => [normalizeIsbn(book.isbn), book.id]));
+  for (const result of results) {
+    const existingBookId = result.status === "create" && result.book?.isbn ? existingByIsbn.get(result.book.isbn) : undefined;
+    if (existingBookId) {
+      result.status = "exists";
+      result.existingBookId = existingBookId;
+      result.errors = ["A book with this ISBN is already in the catalog"];
+    }
+  }
+
+  return results;
+};
+
+const summarizeImport = (rows: ImportRowResult[]) => ({
+  total: rows.length,
+  toCreate: rows.filter((row) => row.status === "create").length,
+  invalid: rows.filter((row) => row.status === "invalid").length,
+  duplicates: rows.filter((row) => row.status === "duplicate").length,
+  existing: rows.filter((row) => row.status === "exists").length
+});
+
+router.post(
+  "/import/file",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const payload = fileImportSchema.parse(req.body);
+    const { candidates, headers, mapping } = readImportCandidates(payload);
+    if (candidates.length === 0) {
+      throw new HttpError(400, "No records found in the uploaded file");
+    }
+    if (candidates.length > MAX_IMPORT_ROWS) {
+      throw new HttpError(400, `Files are limited to ${MAX_IMPORT_ROWS} records per import`);
+    }
+
+    const rows = await validateImportCandidates(candidates, payload.defaultCopyCount);
+    const summary = summarizeImport(rows);
+
+    if (payload.dryRun) {
+      res.status(200).json({
+        data: rows,
+        meta: { dryRun: true, summary, headers, mapping }
+      });
+      return;
+    }
+    if (summary.invalid > 0 && !payload.skipInvalid) {
+      throw new HttpError(400, "Fix the invalid rows or import with skipInvalid to leave them out", { summary });
+    }
+
+    const toCreate = rows.filter((row) => row.status === "create" && row.book);
+    const createdIds = await prisma
+      .$transaction(
+        async (tx) => {
+          const ids: string[] = [];
+          for (const row of toCreate) {
+            const { copyCount, ...book } = row.book!;
+            const created = await tx.book.create({
+              data: {
+                ...book,
+                available: copyCount > 0,
+                totalCopies: copyCount,
+                availableCopies: copyCount,
+                copies: {
+                  create: buildNewCopies(copyCount)
+                }
+              },
+              select: { id: true }
+            });
+            ids.push(created.id);
+          }
+          return ids;
+        },
+        { timeout: 120_000 }
+      )
+      .catch((error: unknown) => {
+        if (isUniqueViolationError(error)) {
+          throw new HttpError(409, "Another import added some of these ISBNs. Run the preview again.");
+        }
+        throw error;
+      });
+    invalidateBooksCache();
+
+    await createAuditLog({
+      actorUserId: req.user?.id,
+      action: "BOOK_IMPORT_FILE",
+      entity: "BOOK",
+      metadata: {
+        format: payload.format,
+        mapping,
+        ...summary,
+        createdCount: createdIds.length
+      }
+    });
+    void notifySavedSearchMatches(createdIds);
+
+    res.status(201).json({
+      data: rows,
+      meta: { dryRun: false, summary, headers, mapping, createdCount: createdIds.length, createdIds }
+    });
+  })
+);
+
 router.post(
   "/enrich-core-metadata",
   requireAuth,
@@ -779,18 +1182,7 @@ router.get(
         myReview = review;
         myNote = note;
         try {
-          const favorite = await prisma.bookFavorite.findUnique({
-            where: {
-              bookId_userId: {
-                bookId: params.bookId,
-                userId: req.user.id
-              }
-            },
-            select: {
-              id: true
-            }
-          });
-          isFavorite = Boolean(favorite);
+          isFavorite = (await getFavoriteBookIds(req.user.id, [params.bookId])).has(params.bookId);
         } catch (error) {
           if (!isMissingTableError(error)) {
             throw error;
@@ -859,23 +1251,21 @@ router.put(
     }
 
     try {
-      const saved = await prisma.bookReview.upsert({
-        where: {
-          bookId_userId: {
-            bookId: params.bookId,
-            userId: viewer.id
-          }
-        },
-        update: {
-          rating: payload.rating,
-          content: payload.content
-        },
-        create: {
-          bookId: params.bookId,
-          userId: viewer.id,
-          rating: payload.rating,
-          content: payload.content
-        }
+      const reviewKey = { bookId: params.bookId, userId: viewer.id };
+      const reviewData = { rating: payload.rating, content: payload.content };
+      const saved = await saveVersioned({
+        expectedUpdatedAt: payload.expectedUpdatedAt,
+        label: "review",
+        findCurrent: () => prisma.bookReview.findUnique({ where: { bookId_userId: reviewKey } }),
+        upsert: () =>
+          prisma.bookReview.upsert({
+            where: { bookId_userId: reviewKey },
+            update: reviewData,
+            create: { ...reviewKey, ...reviewData }
+          }),
+        create: () => prisma.bookReview.create({ data: { ...reviewKey, ...reviewData } }),
+        updateIfUnchanged: (updatedAt) =>
+          prisma.bookReview.updateMany({ where: { ...reviewKey, updatedAt }, data: reviewData })
       });
 
       await createAuditLog({
@@ -888,9 +1278,23 @@ router.put(
           rating: payload.rating
         }
       });
+      // Keyed by review, so admins hear about a new review once and not on every edit.
+      void notifyAdmins(
+        {
+          type: "REVIEW_POSTED",
+          title: `New ${payload.rating}-star review of "${book.title}"`,
+          body: payload.content ? payload.content.slice(0, 200) : null,
+          payload: { reviewId: saved.id, bookId: params.bookId, userId: viewer.id, rating: payload.rating },
+          link: bookLink(params.bookId),
+          dedupeKey: `review:${saved.id}`
+        },
+        viewer.id
+      );
+      const earnedBadges = await evaluateAchievements(viewer.id);
 
       res.status(200).json({
-        data: saved
+        data: saved,
+        meta: { earnedBadges }
       });
     } catch (error) {
       if (isMissingTableError(error)) {
@@ -919,21 +1323,20 @@ router.put(
     }
 
     try {
-      const saved = await prisma.bookNote.upsert({
-        where: {
-          bookId_userId: {
-            bookId: params.bookId,
-            userId: viewer.id
-          }
-        },
-        update: {
-          content: payload.content
-        },
-        create: {
-          bookId: params.bookId,
-          userId: viewer.id,
-          content: payload.content
-        }
+      const noteKey = { bookId: params.bookId, userId: viewer.id };
+      const saved = await saveVersioned({
+        expectedUpdatedAt: payload.expectedUpdatedAt,
+        label: "note",
+        findCurrent: () => prisma.bookNote.findUnique({ where: { bookId_userId: noteKey } }),
+        upsert: () =>
+          prisma.bookNote.upsert({
+            where: { bookId_userId: noteKey },
+            update: { content: payload.content },
+            create: { ...noteKey, content: payload.content }
+          }),
+        create: () => prisma.bookNote.create({ data: { ...noteKey, content: payload.content } }),
+        updateIfUnchanged: (updatedAt) =>
+          prisma.bookNote.updateMany({ where: { ...noteKey, updatedAt }, data: { content: payload.content } })
       });
 
       await createAuditLog({
@@ -974,36 +1377,7 @@ router.post(
     }
 
     try {
-      const favorite = await prisma.bookFavorite.findUnique({
-        where: {
-          bookId_userId: {
-            bookId: params.bookId,
-            userId: viewer.id
-          }
-        },
-        select: {
-          id: true
-        }
-      });
-
-      const isFavorite = !favorite;
-      if (favorite) {
-        await prisma.bookFavorite.delete({
-          where: {
-            bookId_userId: {
-              bookId: params.bookId,
-              userId: viewer.id
-            }
-          }
-        });
-      } else {
-        await prisma.bookFavorite.create({
-          data: {
-            bookId: params.bookId,
-            userId: viewer.id
-          }
-        });
-      }
+      const isFavorite = await toggleFavoriteBook(viewer.id, params.bookId);
 
       await createAuditLog({
         actorUserId: viewer.id,
@@ -1031,6 +1405,237 @@ router.post(
   })
 );
 
+// Sets rather than flips the state, so a queued offline change can be replayed any number of times.
+router.put(
+  "/:bookId/favorite",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const params = z.object({ bookId: z.string().min(1) }).parse(req.params);
+    const payload = favoriteInputSchema.parse(req.body);
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+
+    const book = await findBookById(params.bookId);
+    if (!book) {
+      throw new HttpError(404, "Book not found");
+    }
+
+    try {
+      const changed = await setFavoriteBook(viewer.id, params.bookId, payload.favorite);
+      if (changed) {
+        await createAuditLog({
+          actorUserId: viewer.id,
+          action: "BOOK_FAVORITE_TOGGLED",
+          entity: "BOOK_FAVORITE",
+          entityId: params.bookId,
+          metadata: {
+            bookId: params.bookId,
+            isFavorite: payload.favorite
+          }
+        });
+      }
+
+      res.status(200).json({
+        data: {
+          bookId: params.bookId,
+          isFavorite: payload.favorite
+        }
+      });
+    } catch (error) {
+      if (isMissingTableError(error)) {
+        throw new HttpError(503, "Favorites are not initialized yet. Run database sync.");
+      }
+      throw error;
+    }
+  })
+);
+
+router.get(
+  "/:bookId/copies",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const params = z.object({ bookId: z.string().min(1) }).parse(req.params);
+    const book = await findBookById(params.bookId);
+    if (!book) {
+      throw new HttpError(404, "Book not found");
+    }
+
+    const copies = await prisma.bookCopy.findMany({
+      where: { bookId: params.bookId },
+      include: {
+        loans: {
+          where: { returnedAt: null },
+          select: {
+            id: true,
+            dueAt: true,
+            checkedOutAt: true,
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true
+              }
+            }
+          },
+          take: 1
+        }
+      },
+      orderBy: [{ createdAt: "asc" }]
+    });
+
+    res.status(200).json({
+      data: copies.map(({ loans, ...copy }) => ({
+        ...copy,
+        activeLoan: loans[0] ?? null
+      }))
+    });
+  })
+);
+
+router.post(
+  "/:bookId/copies",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const params = z.object({ bookId: z.string().min(1) }).parse(req.params);
+    const payload = copyInputSchema.parse(req.body ?? {});
+    const book = await findBookById(params.bookId);
+    if (!book) {
+      throw new HttpError(404, "Book not found");
+    }
+
+    const { copy: created, readyHoldIds } = await prisma
+      .$transaction(async (tx) => {
+        const copy = await tx.bookCopy.create({
+          data: {
+            bookId: params.bookId,
+            barcode: payload.barcode ?? generateCopyBarcode(),
+            shelfLocation: payload.shelfLocation,
+            condition: payload.condition
+          }
+        });
+        await syncBookAvailability(tx, params.bookId);
+        const readyHoldIds = await fillWaitingHolds(tx, params.bookId);
+        return { copy, readyHoldIds };
+      })
+      .catch((error: unknown) => {
+        if (isUniqueViolationError(error)) {
+          throw new HttpError(409, "Barcode already used by another copy");
+        }
+        throw error;
+      });
+    invalidateBooksCache();
+
+    await createAuditLog({
+      actorUserId: req.user?.id,
+      action: "BOOK_COPY_CREATED",
+      entity: "BOOK_COPY",
+      entityId: created.id,
+      metadata: {
+        bookId: params.bookId,
+        barcode: created.barcode
+      }
+    });
+    void notifyHoldsReady(readyHoldIds);
+
+    res.status(201).json({ data: created });
+  })
+);
+
+router.patch(
+  "/:bookId/copies/:copyId",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const params = z.object({ bookId: z.string().min(1), copyId: z.string().min(1) }).parse(req.params);
+    const payload = copyUpdateSchema.parse(req.body ?? {});
+
+    const existing = await prisma.bookCopy.findFirst({
+      where: { id: params.copyId, bookId: params.bookId }
+    });
+    if (!existing) {
+      throw new HttpError(404, "Copy not found");
+    }
+    if (payload.status && (existing.status === "ON_LOAN" || existing.status === "RESERVED")) {
+      throw new HttpError(409, "Cannot change the status of a copy that is on loan or reserved");
+    }
+
+    const { copy: updated, readyHoldIds } = await prisma
+      .$transaction(async (tx) => {
+        const copy = await tx.bookCopy.update({
+          where: { id: existing.id },
+          data: payload
+        });
+        await syncBookAvailability(tx, params.bookId);
+        const readyHoldIds = copy.status === "AVAILABLE" ? await fillWaitingHolds(tx, params.bookId) : [];
+        return { copy, readyHoldIds };
+      })
+      .catch((error: unknown) => {
+        if (isUniqueViolationError(error)) {
+          throw new HttpError(409, "Barcode already used by another copy");
+        }
+        throw error;
+      });
+    invalidateBooksCache();
+
+    await createAuditLog({
+      actorUserId: req.user?.id,
+      action: "BOOK_COPY_UPDATED",
+      entity: "BOOK_COPY",
+      entityId: existing.id,
+      metadata: {
+        bookId: params.bookId,
+        previousStatus: existing.status,
+        ...payload
+      }
+    });
+    void notifyHoldsReady(readyHoldIds);
+
+    res.status(200).json({ data: updated });
+  })
+);
+
+router.delete(
+  "/:bookId/copies/:copyId",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const params = z.object({ bookId: z.string().min(1), copyId: z.string().min(1) }).parse(req.params);
+
+    const existing = await prisma.bookCopy.findFirst({
+      where: { id: params.copyId, bookId: params.bookId }
+    });
+    if (!existing) {
+      throw new HttpError(404, "Copy not found");
+    }
+    if (existing.status === "ON_LOAN" || existing.status === "RESERVED") {
+      throw new HttpError(409, "Cannot delete a copy that is on loan or reserved");
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.bookCopy.delete({ where: { id: existing.id } });
+      await syncBookAvailability(tx, params.bookId);
+    });
+    invalidateBooksCache();
+
+    await createAuditLog({
+      actorUserId: req.user?.id,
+      action: "BOOK_COPY_DELETED",
+      entity: "BOOK_COPY",
+      entityId: existing.id,
+      metadata: {
+        bookId: params.bookId,
+        barcode: existing.barcode
+      }
+    });
+
+    res.status(204).send();
+  })
+);
+
 router.get(
   "/:bookId",
   optionalAuth,
@@ -1043,16 +1648,7 @@ router.get(
     let isFavorite = false;
     if (req.user) {
       try {
-        const favorite = await prisma.bookFavorite.findUnique({
-          where: {
-            bookId_userId: {
-              bookId: params.bookId,
-              userId: req.user.id
-            }
-          },
-          select: { id: true }
-        });
-        isFavorite = Boolean(favorite);
+        isFavorite = (await getFavoriteBookIds(req.user.id, [params.bookId])).has(params.bookId);
       } catch (error) {
         if (!isMissingTableError(error)) {
           throw error;
@@ -1068,9 +1664,17 @@ router.post(
   requireAuth,
   requireRole(["ADMIN"]),
   asyncHandler(async (req, res) => {
-    const payload = bookInputSchema.parse(req.body);
+    const { copyCount, ...payload } = createBookSchema.parse(req.body);
     const created = await prisma.book.create({
-      data: payload
+      data: {
+        ...payload,
+        available: copyCount > 0,
+        totalCopies: copyCount,
+        availableCopies: copyCount,
+        copies: {
+          create: buildNewCopies(copyCount)
+        }
+      }
     });
     invalidateBooksCache();
     await createAuditLog({
@@ -1078,8 +1682,9 @@ router.post(
       action: "BOOK_CREATED",
       entity: "BOOK",
       entityId: created.id,
-      metadata: { title: created.title }
+      metadata: { title: created.title, copyCount }
     });
+    void notifySavedSearchMatches([created.id]);
     res.status(201).json({ data: created });
   })
 );
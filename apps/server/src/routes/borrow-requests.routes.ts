@@ -3,16 +3,21 @@ import { z } from "zod";
 import { prisma } from "../db/prisma";
 import { asyncHandler } from "../lib/async-handler";
 import { createAuditLog } from "../lib/audit";
+import { claimAvailableCopy, copyInclude, syncBookAvailability } from "../lib/book-copies";
+import { estimateDueDateWithinPolicy, resolveCirculationRules } from "../lib/circulation-policy";
+import { notifyBorrowRequestDecision, notifyHoldsReady } from "../lib/email-notifications";
 import { HttpError } from "../lib/errors";
-import { estimateLoanDueDate, type DueDateEstimate } from "../lib/reading-time";
+import { assertBorrowingAllowed } from "../lib/fines";
+import { claimReadyHold, expireLapsedHolds, passCopyToNextHold } from "../lib/holds";
+import { bookLink, dashboardLink, notifyAdmins, notifyUser } from "../lib/notifications";
+import { publishRealtimeEvent } from "../lib/realtime";
 import { requireAuth, requireRole } from "../middleware/auth";
 
 const router = Router();
 const dueEstimateWaitMs = 1200;
-const fallbackLoanDays = 30;
 
 const borrowRequestQuerySchema = z.object({
-  status: z.enum(["PENDING", "APPROVED", "DECLINED"]).optional(),
+  status: z.enum(["PENDING", "APPROVED", "DECLINED", "EXPIRED"]).optional(),
   limit: z.coerce.number().int().min(1).max(200).default(50)
 });
 
@@ -24,11 +29,9 @@ const requestIdParamsSchema = z.object({
   requestId: z.string().min(1)
 });
 
-const buildFallbackDueEstimate = (): DueDateEstimate => ({
-  dueAt: new Date(Date.now() + fallbackLoanDays * 24 * 60 * 60 * 1000),
-  days: fallbackLoanDays,
-  source: "fallback",
-  pageCount: null
+const declineRequestSchema = z.object({
+  reason: z.enum(["NO_COPIES", "BORROWING_LIMIT", "OUTSTANDING_FINES", "ACCOUNT_ISSUE", "OTHER"]).optional(),
+  note: z.string().trim().max(300).optional()
 });
 
 const toDateOnly = (date: Date): string => date.toISOString().slice(0, 10);
@@ -61,10 +64,13 @@ const requestInclude = {
       aiMetadata: true,
       available: true,
       requestPending: true,
+      totalCopies: true,
+      availableCopies: true,
       createdAt: true,
       updatedAt: true
     }
   },
+  copy: copyInclude,
   reviewedBy: {
     select: {
       id: true,
@@ -105,7 +111,7 @@ router.get(
         ? prisma.borrowRequest.count({
             where: {
               userId: viewer.id,
-              status: { in: ["APPROVED", "DECLINED"] },
+              status: { in: ["APPROVED", "DECLINED", "EXPIRED"] },
               memberSeenAt: null
             }
           })
@@ -133,46 +139,88 @@ router.post(
       throw new HttpError(401, "Authentication required");
     }
 
+    await assertBorrowingAllowed(viewer.id);
+
+    const book = await prisma.book.findUnique({
+      where: { id: payload.bookId },
+      select: { id: true, genre: true }
+    });
+    if (!book) {
+      throw new HttpError(404, "Book not found");
+    }
+    const rules = await resolveCirculationRules({ role: viewer.role, genre: book.genre });
+    const [activeLoanCount, pendingRequestCount] = await Promise.all([
+      prisma.loan.count({ where: { userId: viewer.id, returnedAt: null } }),
+      prisma.borrowRequest.count({ where: { userId: viewer.id, status: "PENDING" } })
+    ]);
+    if (activeLoanCount + pendingRequestCount >= rules.maxActiveLoans) {
+      throw new HttpError(
+        409,
+        `You can have at most ${rules.maxActiveLoans} active loans and pending requests at a time`
+      );
+    }
+
+    await expireLapsedHolds();
     const created = await prisma.$transaction(async (tx) => {
-      const claim = await tx.book.updateMany({
+      const existingRequest = await tx.borrowRequest.findFirst({
         where: {
-          id: payload.bookId,
-          available: true,
-          requestPending: false
+          userId: viewer.id,
+          bookId: payload.bookId,
+          status: "PENDING"
         },
-        data: {
-          requestPending: true
-        }
+        select: { id: true }
       });
+      if (existingRequest) {
+        throw new HttpError(409, "You already have a pending request for this book");
+      }
 
-      if (claim.count !== 1) {
-        throw new HttpError(409, "Book is unavailable or already has a pending request");
+      const readyHold = await claimReadyHold(tx, payload.bookId, viewer.id);
+      const copyId = readyHold?.copyId ?? (await claimAvailableCopy(tx, payload.bookId, "RESERVED"))?.id;
+      if (!copyId) {
+        throw new HttpError(409, "No copies of this book are available to request. Place a hold to join the queue.");
       }
 
       const request = await tx.borrowRequest.create({
         data: {
           userId: viewer.id,
           bookId: payload.bookId,
+          copyId,
           status: "PENDING",
           memberSeenAt: new Date()
         },
         include: requestInclude
       });
 
-      return request;
+      return { ...request, holdId: readyHold?.id ?? null };
     });
+    const { holdId, ...request } = created;
 
     await createAuditLog({
       actorUserId: viewer.id,
       action: "BOOK_BORROW_REQUESTED",
       entity: "BORROW_REQUEST",
-      entityId: created.id,
+      entityId: request.id,
       metadata: {
-        bookId: created.bookId
+        bookId: request.bookId,
+        copyId: request.copyId,
+        holdId
       }
     });
+    void notifyAdmins({
+      type: "REQUEST_CREATED",
+      title: `${request.user.name} requested "${request.book.title}"`,
+      payload: { requestId: request.id, bookId: request.bookId, userId: viewer.id },
+      link: dashboardLink,
+      dedupeKey: `request-created:${request.id}`
+    });
+    void publishRealtimeEvent({
+      type: "borrow-request.created",
+      audience: "ADMINS",
+      userId: viewer.id,
+      payload: { requestId: request.id, bookId: request.bookId, userId: viewer.id, status: request.status }
+    });
 
-    res.status(201).json({ data: created });
+    res.status(201).json({ data: request });
   })
 );
 
@@ -198,16 +246,15 @@ router.post(
       throw new HttpError(409, "Borrow request is no longer pending");
     }
 
-    const dueEstimate = await Promise.race<DueDateEstimate>([
-      estimateLoanDueDate({
-        title: existing.book.title,
-        author: existing.book.author,
-        isbn: existing.book.isbn
-      }).catch(() => buildFallbackDueEstimate()),
-      new Promise<DueDateEstimate>((resolve) => {
-        setTimeout(() => resolve(buildFallbackDueEstimate()), dueEstimateWaitMs);
-      })
-    ]);
+    const rules = await resolveCirculationRules({ role: existing.user.role, genre: existing.book.genre });
+    const activeLoanCount = await prisma.loan.count({
+      where: { userId: existing.userId, returnedAt: null }
+    });
+    if (activeLoanCount >= rules.maxActiveLoans) {
+      throw new HttpError(409, `Borrower already has the maximum of ${rules.maxActiveLoans} active loans`);
+    }
+
+    const dueEstimate = await estimateDueDateWithinPolicy(existing.book, rules, dueEstimateWaitMs);
 
     const result = await prisma.$transaction(async (tx) => {
       const updatedRequest = await tx.borrowRequest.updateMany({
@@ -227,29 +274,31 @@ router.post(
         throw new HttpError(409, "Borrow request is no longer pending");
       }
 
-      const bookClaim = await tx.book.updateMany({
-        where: {
-          id: existing.bookId,
-          available: true,
-          requestPending: true
-        },
-        data: {
-          available: false,
-          requestPending: false
-        }
+      const reservedCopy = await tx.borrowRequest.findUnique({
+        where: { id: params.requestId },
+        select: { copyId: true }
       });
-      if (bookClaim.count !== 1) {
-        throw new HttpError(409, "Book is no longer available for approval");
+      const copyClaim = reservedCopy?.copyId
+        ? await tx.bookCopy.updateMany({
+            where: { id: reservedCopy.copyId, status: "RESERVED" },
+            data: { status: "ON_LOAN" }
+          })
+        : { count: 0 };
+      if (copyClaim.count !== 1 || !reservedCopy?.copyId) {
+        throw new HttpError(409, "Reserved copy is no longer available for approval");
       }
+      await syncBookAvailability(tx, existing.bookId);
 
       const loan = await tx.loan.create({
         data: {
           userId: existing.userId,
           bookId: existing.bookId,
+          copyId: reservedCopy.copyId,
           dueAt: dueEstimate.dueAt
         },
         include: {
           book: true,
+          copy: copyInclude,
           user: {
             select: requestInclude.user.select
           }
@@ -271,10 +320,45 @@ router.post(
       entityId: params.requestId,
       metadata: {
         bookId: existing.bookId,
+        copyId: result.loan.copyId,
         userId: existing.userId,
         dueAt: toDateOnly(dueEstimate.dueAt),
         dueDateSource: dueEstimate.source,
-        estimatedReadingDays: dueEstimate.days
+        estimatedReadingDays: dueEstimate.days,
+        policyId: rules.policyId
+      }
+    });
+    void notifyBorrowRequestDecision({
+      requestId: params.requestId,
+      userId: existing.userId,
+      bookTitle: existing.book.title,
+      approved: true,
+      dueAt: result.loan.dueAt
+    });
+    void notifyUser(existing.userId, {
+      type: "REQUEST_APPROVED",
+      title: `Your request for "${existing.book.title}" was approved`,
+      body: result.loan.dueAt ? `Due back ${toDateOnly(result.loan.dueAt)}.` : null,
+      payload: {
+        requestId: params.requestId,
+        bookId: existing.bookId,
+        loanId: result.loan.id,
+        dueAt: result.loan.dueAt?.toISOString() ?? null
+      },
+      link: bookLink(existing.bookId),
+      dedupeKey: `request-decision:${params.requestId}`
+    });
+    void publishRealtimeEvent({
+      type: "borrow-request.approved",
+      audience: "ADMINS",
+      userId: existing.userId,
+      payload: {
+        requestId: params.requestId,
+        bookId: existing.bookId,
+        userId: existing.userId,
+        status: "APPROVED",
+        loanId: result.loan.id,
+        reviewedAt: result.request?.reviewedAt?.toISOString() ?? null
       }
     });
 
@@ -295,6 +379,7 @@ router.post(
   requireRole(["ADMIN"]),
   asyncHandler(async (req, res) => {
     const params = requestIdParamsSchema.parse(req.params);
+    const payload = declineRequestSchema.parse(req.body ?? {});
     const viewer = req.user;
     if (!viewer) {
       throw new HttpError(401, "Authentication required");
@@ -320,6 +405,8 @@ router.post(
           status: "DECLINED",
           reviewedById: viewer.id,
           reviewedAt: new Date(),
+          declineReason: payload.reason ?? null,
+          declineNote: payload.note || null,
           memberSeenAt: null
         }
       });
@@ -327,21 +414,19 @@ router.post(
         throw new HttpError(409, "Borrow request is no longer pending");
       }
 
-      await tx.book.updateMany({
-        where: {
-          id: existing.bookId,
-          available: true,
-          requestPending: true
-        },
-        data: {
-          requestPending: false
-        }
+      const reservedCopy = await tx.borrowRequest.findUnique({
+        where: { id: params.requestId },
+        select: { copyId: true }
       });
+      const nextHoldId = reservedCopy?.copyId
+        ? await passCopyToNextHold(tx, reservedCopy.copyId, "RESERVED")
+        : null;
 
-      return tx.borrowRequest.findUnique({
+      const request = await tx.borrowRequest.findUnique({
         where: { id: params.requestId },
         include: requestInclude
       });
+      return { request, nextHoldId };
     });
 
     await createAuditLog({
@@ -351,11 +436,42 @@ router.post(
       entityId: params.requestId,
       metadata: {
         bookId: existing.bookId,
-        userId: existing.userId
+        userId: existing.userId,
+        nextHoldId: declined.nextHoldId,
+        reason: payload.reason ?? null
+      }
+    });
+    void notifyBorrowRequestDecision({
+      requestId: params.requestId,
+      userId: existing.userId,
+      bookTitle: declined.request?.book.title ?? "your book",
+      approved: false
+    });
+    void notifyUser(existing.userId, {
+      type: "REQUEST_DECLINED",
+      title: `Your request for "${declined.request?.book.title ?? "your book"}" was declined`,
+      body: payload.note || "You can place a hold to join the queue for the next available copy.",
+      payload: { requestId: params.requestId, bookId: existing.bookId, reason: payload.reason ?? null },
+      link: bookLink(existing.bookId),
+      dedupeKey: `request-decision:${params.requestId}`
+    });
+    void publishRealtimeEvent({
+      type: "borrow-request.declined",
+      audience: "ADMINS",
+      userId: existing.userId,
+      payload: {
+        requestId: params.requestId,
+        bookId: existing.bookId,
+        userId: existing.userId,
+        status: "DECLINED",
+        declineReason: payload.reason ?? null,
+        declineNote: payload.note || null,
+        reviewedAt: declined.request?.reviewedAt?.toISOString() ?? null
       }
     });
+    void notifyHoldsReady([declined.nextHoldId]);
 
-    res.status(200).json({ data: declined });
+    res.status(200).json({ data: declined.request });
   })
 );
 
@@ -375,7 +491,7 @@ router.post(
     const result = await prisma.borrowRequest.updateMany({
       where: {
         userId: viewer.id,
-        status: { in: ["APPROVED", "DECLINED"] },
+        status: { in: ["APPROVED", "DECLINED", "EXPIRED"] },
         memberSeenAt: null
       },
       data: {
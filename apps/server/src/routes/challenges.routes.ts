@@ -0,0 +1,199 @@
+import { Router } from "express";
+import { z } from "zod";
+import { prisma } from "../db/prisma";
+import { asyncHandler } from "../lib/async-handler";
+import { evaluateChallengeParticipants } from "../lib/achievements";
+import { createAuditLog } from "../lib/audit";
+import { HttpError } from "../lib/errors";
+import { optionalAuth, requireAuth, requireRole } from "../middleware/auth";
+
+const router = Router();
+
+const challengeIdParamsSchema = z.object({
+  challengeId: z.string().min(1)
+});
+
+const optionalText = (max: number) =>
+  z
+    .string()
+    .max(max)
+    .optional()
+    .nullable()
+    .transform((value) => value?.trim() || null);
+
+const challengeFieldsSchema = z.object({
+  title: z.string().trim().min(1).max(120),
+  description: optionalText(1000),
+  goal: z.enum(["BOOKS_READ", "NEW_GENRES", "REVIEWS_WRITTEN"]),
+  target: z.number().int().min(1).max(500),
+  genre: optionalText(80),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  badgeName: z.string().trim().min(1).max(60),
+  badgeIcon: optionalText(16)
+});
+
+const createChallengeSchema = challengeFieldsSchema.refine((value) => value.endsAt > value.startsAt, {
+  message: "The challenge must end after it starts",
+  path: ["endsAt"]
+});
+
+const updateChallengeSchema = challengeFieldsSchema.partial();
+
+const listQuerySchema = z.object({
+  status: z.enum(["current", "past", "all"]).default("current")
+});
+
+router.get(
+  "/",
+  optionalAuth,
+  asyncHandler(async (req, res) => {
+    const query = listQuerySchema.parse(req.query);
+    const viewer = req.user;
+    const now = new Date();
+
+    const challenges = await prisma.challenge.findMany({
+      where:
+        query.status === "current"
+          ? { endsAt: { gte: now } }
+          : query.status === "past"
+          ? { endsAt: { lt: now } }
+          : {},
+      orderBy: query.status === "past" ? [{ endsAt: "desc" }] : [{ startsAt: "asc" }, { endsAt: "asc" }],
+      take: 100,
+      include: {
+        _count: { select: { progress: { where: { completedAt: { not: null } } } } },
+        ...(viewer
+          ? {
+              progress: {
+                where: { userId: viewer.id },
+                select: { progress: true, completedAt: true, updatedAt: true }
+              }
+            }
+          : {})
+      }
+    });
+
+    res.status(200).json({
+      data: challenges.map(({ _count, progress, ...challenge }) => ({
+        ...challenge,
+        status: challenge.startsAt > now ? "upcoming" : challenge.endsAt < now ? "ended" : "active",
+        completedCount: _count.progress,
+        myProgress: viewer ? progress?.[0] ?? { progress: 0, completedAt: null, updatedAt: null } : null
+      }))
+    });
+  })
+);
+
+router.post(
+  "/",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const payload = createChallengeSchema.parse(req.body);
+
+    const created = await prisma.challenge.create({
+      data: {
+        ...payload,
+        createdById: viewer.id
+      }
+    });
+
+    await createAuditLog({
+      actorUserId: viewer.id,
+      action: "CHALLENGE_CREATED",
+      entity: "CHALLENGE",
+      entityId: created.id,
+      metadata: {
+        title: created.title,
+        goal: created.goal,
+        target: created.target,
+        genre: created.genre,
+        startsAt: created.startsAt,
+        endsAt: created.endsAt
+      }
+    });
+
+    // Members who already qualify for a running challenge get their progress (and badge) without further activity.
+    void evaluateChallengeParticipants(created);
+
+    res.status(201).json({ data: created });
+  })
+);
+
+router.patch(
+  "/:challengeId",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const params = challengeIdParamsSchema.parse(req.params);
+    const payload = updateChallengeSchema.parse(req.body);
+
+    const existing = await prisma.challenge.findUnique({ where: { id: params.challengeId } });
+    if (!existing) {
+      throw new HttpError(404, "Challenge not found");
+    }
+    const startsAt = payload.startsAt ?? existing.startsAt;
+    const endsAt = payload.endsAt ?? existing.endsAt;
+    if (endsAt <= startsAt) {
+      throw new HttpError(400, "The challenge must end after it starts");
+    }
+
+    // Badges already earned are kept; progress for members who have not finished is recomputed below.
+    const updated = await prisma.challenge.update({
+      where: { id: existing.id },
+      data: payload
+    });
+
+    await createAuditLog({
+      actorUserId: viewer.id,
+      action: "CHALLENGE_UPDATED",
+      entity: "CHALLENGE",
+      entityId: updated.id,
+      metadata: { changes: payload }
+    });
+
+    void evaluateChallengeParticipants(updated);
+
+    res.status(200).json({ data: updated });
+  })
+);
+
+router.delete(
+  "/:challengeId",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const params = challengeIdParamsSchema.parse(req.params);
+
+    const existing = await prisma.challenge.findUnique({ where: { id: params.challengeId } });
+    if (!existing) {
+      throw new HttpError(404, "Challenge not found");
+    }
+    await prisma.challenge.delete({ where: { id: existing.id } });
+
+    await createAuditLog({
+      actorUserId: viewer.id,
+      action: "CHALLENGE_DELETED",
+      entity: "CHALLENGE",
+      entityId: existing.id,
+      metadata: { title: existing.title }
+    });
+
+    res.status(204).send();
+  })
+);
+
+export const challengesRouter = router;
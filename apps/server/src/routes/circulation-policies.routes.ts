@@ -0,0 +1,186 @@
+import { Router } from "express";
+import { z } from "zod";
+import { prisma } from "../db/prisma";
+import { asyncHandler } from "../lib/async-handler";
+import { createAuditLog } from "../lib/audit";
+import {
+  defaultCirculationRules,
+  normalizePolicyGenre,
+  resolveCirculationRules
+} from "../lib/circulation-policy";
+import { HttpError } from "../lib/errors";
+import { requireAuth, requireRole } from "../middleware/auth";
+
+const router = Router();
+
+const policyRulesSchema = z.object({
+  maxActiveLoans: z.coerce.number().int().min(0).max(100),
+  minLoanDays: z.coerce.number().int().min(1).max(365),
+  defaultLoanDays: z.coerce.number().int().min(1).max(365),
+  maxLoanDays: z.coerce.number().int().min(1).max(365),
+  maxRenewals: z.coerce.number().int().min(0).max(20),
+  gracePeriodDays: z.coerce.number().int().min(0).max(60),
+  fineDailyRateCents: z.coerce.number().int().min(0).max(100_000)
+});
+
+const policyScopeSchema = z.object({
+  role: z.enum(["ADMIN", "MEMBER"]).nullable().default(null),
+  genre: z
+    .string()
+    .max(100)
+    .optional()
+    .nullable()
+    .transform((value) => normalizePolicyGenre(value))
+});
+
+const createPolicySchema = policyScopeSchema.merge(policyRulesSchema);
+const updatePolicySchema = policyRulesSchema.partial();
+
+const policyIdParamsSchema = z.object({
+  policyId: z.string().min(1)
+});
+
+const assertLoanLengthBounds = (rules: { minLoanDays: number; defaultLoanDays: number; maxLoanDays: number }) => {
+  if (rules.minLoanDays > rules.defaultLoanDays || rules.defaultLoanDays > rules.maxLoanDays) {
+    throw new HttpError(400, "Loan length must satisfy minimum <= default <= maximum days");
+  }
+};
+
+router.get(
+  "/",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (_req, res) => {
+    const policies = await prisma.circulationPolicy.findMany({
+      orderBy: [{ genre: "asc" }, { role: "asc" }, { createdAt: "asc" }]
+    });
+
+    res.status(200).json({
+      data: policies,
+      meta: {
+        defaults: defaultCirculationRules
+      }
+    });
+  })
+);
+
+router.get(
+  "/effective",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const query = z
+      .object({
+        genre: z.string().max(100).optional()
+      })
+      .parse(req.query);
+
+    const rules = await resolveCirculationRules({ role: viewer.role, genre: query.genre ?? null });
+    res.status(200).json({ data: rules });
+  })
+);
+
+router.post(
+  "/",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const payload = createPolicySchema.parse(req.body);
+    assertLoanLengthBounds(payload);
+
+    const existing = await prisma.circulationPolicy.findFirst({
+      where: { role: payload.role, genre: payload.genre },
+      select: { id: true }
+    });
+    if (existing) {
+      throw new HttpError(409, "A policy for this role and genre already exists");
+    }
+
+    const created = await prisma.circulationPolicy.create({
+      data: payload
+    });
+
+    await createAuditLog({
+      actorUserId: req.user?.id,
+      action: "CIRCULATION_POLICY_CREATED",
+      entity: "CIRCULATION_POLICY",
+      entityId: created.id,
+      metadata: payload
+    });
+
+    res.status(201).json({ data: created });
+  })
+);
+
+router.patch(
+  "/:policyId",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const params = policyIdParamsSchema.parse(req.params);
+    const payload = updatePolicySchema.parse(req.body);
+
+    const existing = await prisma.circulationPolicy.findUnique({
+      where: { id: params.policyId }
+    });
+    if (!existing) {
+      throw new HttpError(404, "Circulation policy not found");
+    }
+    assertLoanLengthBounds({ ...existing, ...payload });
+
+    const updated = await prisma.circulationPolicy.update({
+      where: { id: existing.id },
+      data: payload
+    });
+
+    await createAuditLog({
+      actorUserId: req.user?.id,
+      action: "CIRCULATION_POLICY_UPDATED",
+      entity: "CIRCULATION_POLICY",
+      entityId: existing.id,
+      metadata: {
+        role: existing.role,
+        genre: existing.genre,
+        changes: payload
+      }
+    });
+
+    res.status(200).json({ data: updated });
+  })
+);
+
+router.delete(
+  "/:policyId",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const params = policyIdParamsSchema.parse(req.params);
+
+    const existing = await prisma.circulationPolicy.findUnique({
+      where: { id: params.policyId }
+    });
+    if (!existing) {
+      throw new HttpError(404, "Circulation policy not found");
+    }
+
+    await prisma.circulationPolicy.delete({ where: { id: existing.id } });
+
+    await createAuditLog({
+      actorUserId: req.user?.id,
+      action: "CIRCULATION_POLICY_DELETED",
+      entity: "CIRCULATION_POLICY",
+      entityId: existing.id,
+      metadata: {
+        role: existing.role,
+        genre: existing.genre
+      }
+    });
+
+    res.status(204).send();
+  })
+);
+
+export const circulationPoliciesRouter = router;
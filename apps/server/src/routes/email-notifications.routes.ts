@@ -0,0 +1,74 @@
+import { Router } from "express";
+import { z } from "zod";
+import { env } from "../config/env";
+import { prisma } from "../db/prisma";
+import { asyncHandler } from "../lib/async-handler";
+import { createAuditLog } from "../lib/audit";
+import { sendLoanReminderEmails } from "../lib/email-notifications";
+import { getEmailTransport } from "../lib/mailer";
+import { requireAuth, requireRole } from "../middleware/auth";
+
+const router = Router();
+
+const deliveryQuerySchema = z.object({
+  status: z.enum(["PENDING", "SENT", "FAILED", "SKIPPED"]).optional(),
+  template: z.enum(["DUE_SOON", "OVERDUE", "REQUEST_APPROVED", "REQUEST_DECLINED", "HOLD_READY"]).optional(),
+  userId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+router.get(
+  "/",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const query = deliveryQuerySchema.parse(req.query);
+
+    const deliveries = await prisma.emailDelivery.findMany({
+      where: {
+        ...(query.status ? { status: query.status } : {}),
+        ...(query.template ? { template: query.template } : {}),
+        ...(query.userId ? { userId: query.userId } : {})
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        }
+      },
+      orderBy: [{ createdAt: "desc" }],
+      take: query.limit
+    });
+
+    res.status(200).json({
+      data: deliveries,
+      meta: {
+        transport: getEmailTransport().name,
+        dueSoonDays: env.EMAIL_DUE_SOON_DAYS
+      }
+    });
+  })
+);
+
+router.post(
+  "/reminders",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const sent = await sendLoanReminderEmails();
+
+    await createAuditLog({
+      actorUserId: req.user?.id,
+      action: "EMAIL_REMINDERS_SENT",
+      entity: "EMAIL_DELIVERY",
+      metadata: sent
+    });
+
+    res.status(200).json({ data: sent });
+  })
+);
+
+export const emailNotificationsRouter = router;
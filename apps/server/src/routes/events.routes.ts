@@ -0,0 +1,62 @@
+import { Router } from "express";
+import { asyncHandler } from "../lib/async-handler";
+import { HttpError } from "../lib/errors";
+import { subscribeRealtime } from "../lib/realtime";
+import { requireAuth } from "../middleware/auth";
+
+const router = Router();
+const heartbeatMs = 25_000;
+const reconnectDelayMs = 5000;
+
+const parseLastEventId = (value: unknown): number | undefined => {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    return undefined;
+  }
+  return Number(value);
+};
+
+// Server-sent events; the stream stays open until the client disconnects.
+router.get(
+  "/",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+
+    const unsubscribe = await subscribeRealtime({
+      userId: viewer.id,
+      role: viewer.role,
+      lastEventId: parseLastEventId(req.headers["last-event-id"] ?? req.query.lastEventId),
+      send: (event) => {
+        res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.payload)}\n\n`);
+      }
+    });
+
+    if (res.destroyed) {
+      unsubscribe();
+      return;
+    }
+
+    res.status(200);
+    res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    // Stops nginx-style proxies from buffering the stream.
+    res.setHeader("X-Accel-Buffering", "no");
+    res.flushHeaders();
+    res.write(`retry: ${reconnectDelayMs}\n\n`);
+
+    const heartbeat = setInterval(() => {
+      res.write(": keep-alive\n\n");
+    }, heartbeatMs);
+
+    res.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  })
+);
+
+export const eventsRouter = router;
@@ -0,0 +1,244 @@
+import { Router } from "express";
+import { z } from "zod";
+import { env } from "../config/env";
+import { prisma } from "../db/prisma";
+import { asyncHandler } from "../lib/async-handler";
+import { createAuditLog } from "../lib/audit";
+import { HttpError } from "../lib/errors";
+import { getUnpaidBalanceCents } from "../lib/fines";
+import { requireAuth, requireRole } from "../middleware/auth";
+
+const router = Router();
+
+const fineQuerySchema = z.object({
+  status: z.enum(["OPEN", "PAID", "WAIVED"]).optional(),
+  userId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(100)
+});
+
+const fineIdParamsSchema = z.object({
+  fineId: z.string().min(1)
+});
+
+const paymentSchema = z.object({
+  amountCents: z.coerce.number().int().min(1),
+  note: z
+    .string()
+    .max(300)
+    .optional()
+    .nullable()
+    .transform((value) => value?.trim() || null)
+});
+
+const waiveSchema = z.object({
+  reason: z.string().trim().min(3).max(300)
+});
+
+const fineInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true
+    }
+  },
+  loan: {
+    select: {
+      id: true,
+      checkedOutAt: true,
+      dueAt: true,
+      returnedAt: true,
+      book: {
+        select: {
+          id: true,
+          title: true,
+          author: true
+        }
+      }
+    }
+  },
+  waivedBy: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  payments: {
+    select: {
+      id: true,
+      amountCents: true,
+      note: true,
+      createdAt: true
+    },
+    orderBy: { createdAt: "asc" as const }
+  }
+} as const;
+
+router.get(
+  "/",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const query = fineQuerySchema.parse(req.query);
+    const userId = viewer.role === "ADMIN" ? query.userId : viewer.id;
+
+    const fines = await prisma.fine.findMany({
+      where: {
+        ...(userId ? { userId } : {}),
+        ...(query.status ? { status: query.status } : {})
+      },
+      include: fineInclude,
+      orderBy: [{ createdAt: "desc" }],
+      take: query.limit
+    });
+
+    res.status(200).json({
+      data: fines,
+      meta: {
+        balanceCents: await getUnpaidBalanceCents(userId),
+        thresholdCents: env.FINE_BLOCK_THRESHOLD_CENTS,
+        dailyRateCents: env.FINE_DAILY_RATE_CENTS,
+        currency: env.FINE_CURRENCY
+      }
+    });
+  })
+);
+
+router.post(
+  "/:fineId/payments",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const params = fineIdParamsSchema.parse(req.params);
+    const payload = paymentSchema.parse(req.body);
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+
+    const existing = await prisma.fine.findUnique({
+      where: { id: params.fineId }
+    });
+    if (!existing) {
+      throw new HttpError(404, "Fine not found");
+    }
+    if (existing.status !== "OPEN") {
+      throw new HttpError(409, "Fine is already settled");
+    }
+    const outstandingCents = existing.amountCents - existing.paidCents;
+    if (payload.amountCents > outstandingCents) {
+      throw new HttpError(400, "Payment exceeds the outstanding amount", { outstandingCents });
+    }
+
+    const paidInFull = payload.amountCents === outstandingCents;
+    const fine = await prisma.$transaction(async (tx) => {
+      const updated = await tx.fine.updateMany({
+        where: { id: existing.id, status: "OPEN", paidCents: existing.paidCents },
+        data: {
+          paidCents: { increment: payload.amountCents },
+          ...(paidInFull ? { status: "PAID" as const, resolvedAt: new Date() } : {})
+        }
+      });
+      if (updated.count !== 1) {
+        throw new HttpError(409, "Fine changed while recording the payment. Please try again.");
+      }
+
+      await tx.finePayment.create({
+        data: {
+          fineId: existing.id,
+          amountCents: payload.amountCents,
+          note: payload.note,
+          recordedById: viewer.id
+        }
+      });
+
+      return tx.fine.findUniqueOrThrow({
+        where: { id: existing.id },
+        include: fineInclude
+      });
+    });
+
+    await createAuditLog({
+      actorUserId: viewer.id,
+      action: "FINE_PAYMENT_RECORDED",
+      entity: "FINE",
+      entityId: fine.id,
+      metadata: {
+        userId: fine.userId,
+        amountCents: payload.amountCents,
+        paidCents: fine.paidCents,
+        status: fine.status
+      }
+    });
+
+    res.status(200).json({
+      data: fine,
+      meta: {
+        balanceCents: await getUnpaidBalanceCents(fine.userId)
+      }
+    });
+  })
+);
+
+router.post(
+  "/:fineId/waive",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const params = fineIdParamsSchema.parse(req.params);
+    const payload = waiveSchema.parse(req.body);
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+
+    const existing = await prisma.fine.findUnique({
+      where: { id: params.fineId }
+    });
+    if (!existing) {
+      throw new HttpError(404, "Fine not found");
+    }
+
+    const updated = await prisma.fine.updateMany({
+      where: { id: existing.id, status: "OPEN" },
+      data: {
+        status: "WAIVED",
+        waivedReason: payload.reason,
+        waivedById: viewer.id,
+        resolvedAt: new Date()
+      }
+    });
+    if (updated.count !== 1) {
+      throw new HttpError(409, "Fine is already settled");
+    }
+
+    const fine = await prisma.fine.findUniqueOrThrow({
+      where: { id: existing.id },
+      include: fineInclude
+    });
+
+    await createAuditLog({
+      actorUserId: viewer.id,
+      action: "FINE_WAIVED",
+      entity: "FINE",
+      entityId: fine.id,
+      metadata: {
+        userId: fine.userId,
+        waivedCents: fine.amountCents - fine.paidCents,
+        reason: payload.reason
+      }
+    });
+
+    res.status(200).json({
+      data: fine,
+      meta: {
+        balanceCents: await getUnpaidBalanceCents(fine.userId)
+      }
+    });
+  })
+);
+
+export const finesRouter = router;
@@ -0,0 +1,259 @@
+import { Prisma } from "@prisma/client";
+import { Router } from "express";
+import { z } from "zod";
+import { prisma } from "../db/prisma";
+import { asyncHandler } from "../lib/async-handler";
+import { createAuditLog } from "../lib/audit";
+import { copyInclude } from "../lib/book-copies";
+import { notifyHoldsReady } from "../lib/email-notifications";
+import { HttpError } from "../lib/errors";
+import {
+  expireLapsedHolds,
+  fillWaitingHolds,
+  getQueuePosition,
+  holdPickupDays,
+  passCopyToNextHold
+} from "../lib/holds";
+import { requireAuth } from "../middleware/auth";
+
+const router = Router();
+
+const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
+const holdQuerySchema = z.object({
+  status: z.enum(["active", "closed"]).default("active"),
+  bookId: z.string().min(1).optional(),
+  userId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(100)
+});
+
+const createHoldSchema = z.object({
+  bookId: z.string().min(1)
+});
+
+const holdIdParamsSchema = z.object({
+  holdId: z.string().min(1)
+});
+
+const holdInclude = {
+  book: {
+    select: {
+      id: true,
+      title: true,
+      author: true,
+      coverUrl: true,
+      totalCopies: true,
+      availableCopies: true
+    }
+  },
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true
+    }
+  },
+  copy: copyInclude
+} as const;
+
+router.get(
+  "/",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const query = holdQuerySchema.parse(req.query);
+
+    await expireLapsedHolds();
+    const holds = await prisma.bookHold.findMany({
+      where: {
+        status: query.status === "active" ? { in: ["WAITING", "READY"] } : { in: ["FULFILLED", "CANCELLED", "EXPIRED"] },
+        ...(query.bookId ? { bookId: query.bookId } : {}),
+        ...(viewer.role === "ADMIN" ? (query.userId ? { userId: query.userId } : {}) : { userId: viewer.id })
+      },
+      include: holdInclude,
+      orderBy: [{ createdAt: "asc" }],
+      take: query.limit
+    });
+
+    const data = await Promise.all(
+      holds.map(async (hold) => ({
+        ...hold,
+        queuePosition: await getQueuePosition(prisma, hold)
+      }))
+    );
+
+    res.status(200).json({
+      data,
+      meta: {
+        pickupDays: holdPickupDays
+      }
+    });
+  })
+);
+
+router.post(
+  "/",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const payload = createHoldSchema.parse(req.body);
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+
+    const book = await prisma.book.findUnique({
+      where: { id: payload.bookId },
+      select: { id: true, title: true }
+    });
+    if (!book) {
+      throw new HttpError(404, "Book not found");
+    }
+
+    await expireLapsedHolds();
+    const [existingHold, activeLoan, pendingRequest] = await Promise.all([
+      prisma.bookHold.findFirst({
+        where: { bookId: book.id, userId: viewer.id, status: { in: ["WAITING", "READY"] } },
+        select: { id: true }
+      }),
+      prisma.loan.findFirst({
+        where: { bookId: book.id, userId: viewer.id, returnedAt: null },
+        select: { id: true }
+      }),
+      prisma.borrowRequest.findFirst({
+        where: { bookId: book.id, userId: viewer.id, status: "PENDING" },
+        select: { id: true }
+      })
+    ]);
+    if (existingHold) {
+      throw new HttpError(409, "You already have a hold on this book");
+    }
+    if (activeLoan) {
+      throw new HttpError(409, "You already have this book on loan");
+    }
+    if (pendingRequest) {
+      throw new HttpError(409, "You already have a pending request for this book");
+    }
+
+    const { hold, readyHoldIds } = await prisma.$transaction(async (tx) => {
+      const availableCopies = await tx.bookCopy.count({
+        where: { bookId: book.id, status: "AVAILABLE" }
+      });
+      if (availableCopies > 0) {
+        throw new HttpError(409, "Copies of this book are available. Borrow or request it instead.");
+      }
+
+      // The active-hold index rejects a second hold placed at the same time as this one.
+      let createdId: string;
+      try {
+        const created = await tx.bookHold.create({
+          data: {
+            bookId: book.id,
+            userId: viewer.id
+          },
+          select: { id: true }
+        });
+        createdId = created.id;
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          throw new HttpError(409, "You already have a hold on this book");
+        }
+        throw error;
+      }
+      // Covers a copy returned between the availability check and the insert.
+      const readyHoldIds = await fillWaitingHolds(tx, book.id);
+
+      const current = await tx.bookHold.findUniqueOrThrow({
+        where: { id: createdId },
+        include: holdInclude
+      });
+      return {
+        hold: {
+          ...current,
+          queuePosition: await getQueuePosition(tx, current)
+        },
+        readyHoldIds
+      };
+    });
+
+    await createAuditLog({
+      actorUserId: viewer.id,
+      action: "HOLD_PLACED",
+      entity: "BOOK_HOLD",
+      entityId: hold.id,
+      metadata: {
+        bookId: book.id,
+        queuePosition: hold.queuePosition
+      }
+    });
+    void notifyHoldsReady(readyHoldIds);
+
+    res.status(201).json({ data: hold });
+  })
+);
+
+router.post(
+  "/:holdId/cancel",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const params = holdIdParamsSchema.parse(req.params);
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+
+    const existing = await prisma.bookHold.findUnique({
+      where: { id: params.holdId }
+    });
+    if (!existing) {
+      throw new HttpError(404, "Hold not found");
+    }
+    if (viewer.role !== "ADMIN" && existing.userId !== viewer.id) {
+      throw new HttpError(403, "You can only cancel your own holds");
+    }
+    if (existing.status !== "WAITING" && existing.status !== "READY") {
+      throw new HttpError(409, "Hold is no longer active");
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const updated = await tx.bookHold.updateMany({
+        where: { id: existing.id, status: existing.status },
+        data: { status: "CANCELLED", closedAt: new Date() }
+      });
+      if (updated.count !== 1) {
+        throw new HttpError(409, "Hold is no longer active");
+      }
+
+      const nextHoldId =
+        existing.status === "READY" && existing.copyId
+          ? await passCopyToNextHold(tx, existing.copyId, "RESERVED")
+          : null;
+      const hold = await tx.bookHold.findUniqueOrThrow({
+        where: { id: existing.id },
+        include: holdInclude
+      });
+      return { hold, nextHoldId };
+    });
+
+    await createAuditLog({
+      actorUserId: viewer.id,
+      action: "HOLD_CANCELLED",
+      entity: "BOOK_HOLD",
+      entityId: existing.id,
+      metadata: {
+        bookId: existing.bookId,
+        userId: existing.userId,
+        previousStatus: existing.status,
+        nextHoldId: result.nextHoldId
+      }
+    });
+    void notifyHoldsReady([result.nextHoldId]);
+
+    res.status(200).json({ data: { ...result.hold, queuePosition: null } });
+  })
+);
+
+export const holdsRouter = router;
@@ -1,10 +1,24 @@
 import { Router } from "express";
 import { aiRouter } from "./ai.routes";
+import { analyticsRouter } from "./analytics.routes";
+import { auditLogsRouter } from "./audit-logs.routes";
 import { authRouter } from "./auth.routes";
 import { booksRouter } from "./books.routes";
 import { borrowRequestsRouter } from "./borrow-requests.routes";
+import { challengesRouter } from "./challenges.routes";
+import { circulationPoliciesRouter } from "./circulation-policies.routes";
+import { emailNotificationsRouter } from "./email-notifications.routes";
+import { eventsRouter } from "./events.routes";
+import { finesRouter } from "./fines.routes";
+import { holdsRouter } from "./holds.routes";
+import { jobsRouter } from "./jobs.routes";
+import { leaderboardsRouter } from "./leaderboards.routes";
 import { loansRouter } from "./loans.routes";
+import { notificationsRouter } from "./notifications.routes";
+import { pushRouter } from "./push.routes";
+import { savedSearchesRouter } from "./saved-searches.routes";
 import { searchRouter } from "./search.routes";
+import { shelvesRouter } from "./shelves.routes";
 import { usersRouter } from "./users.routes";
 
 const router = Router();
@@ -18,9 +32,23 @@ router.get("/", (_req, res) => {
       auth: "/api/v1/auth",
       books: "/api/v1/books",
       borrowRequests: "/api/v1/borrow-requests",
+      holds: "/api/v1/holds",
       loans: "/api/v1/loans",
+      fines: "/api/v1/fines",
+      circulationPolicies: "/api/v1/circulation-policies",
       users: "/api/v1/users",
+      auditLogs: "/api/v1/audit-logs",
+      emailNotifications: "/api/v1/email-notifications",
+      jobs: "/api/v1/jobs",
       search: "/api/v1/search",
+      savedSearches: "/api/v1/saved-searches",
+      shelves: "/api/v1/shelves",
+      challenges: "/api/v1/challenges",
+      leaderboards: "/api/v1/leaderboards",
+      analytics: "/api/v1/analytics",
+      notifications: "/api/v1/notifications",
+      events: "/api/v1/events",
+      push: "/api/v1/push",
       ai: "/api/v1/ai"
     }
   });
@@ -29,9 +57,23 @@ router.get("/", (_req, res) => {
 router.use("/auth", authRouter);
 router.use("/books", booksRouter);
 router.use("/borrow-requests", borrowRequestsRouter);
+router.use("/holds", holdsRouter);
 router.use("/loans", loansRouter);
+router.use("/fines", finesRouter);
+router.use("/circulation-policies", circulationPoliciesRouter);
 router.use("/users", usersRouter);
+router.use("/audit-logs", auditLogsRouter);
+router.use("/email-notifications", emailNotificationsRouter);
+router.use("/jobs", jobsRouter);
 router.use("/search", searchRouter);
+router.use("/saved-searches", savedSearchesRouter);
+router.use("/shelves", shelvesRouter);
+router.use("/challenges", challengesRouter);
+router.use("/leaderboards", leaderboardsRouter);
+router.use("/analytics", analyticsRouter);
+router.use("/notifications", notificationsRouter);
+router.use("/events", eventsRouter);
+router.use("/push", pushRouter);
 router.use("/ai", aiRouter);
 
 export const apiRouter = router;
@@ -0,0 +1,126 @@
+import { Router } from "express";
+import { z } from "zod";
+import { jobsEnabled } from "../config/env";
+import { prisma } from "../db/prisma";
+import { asyncHandler } from "../lib/async-handler";
+import { createAuditLog } from "../lib/audit";
+import { HttpError } from "../lib/errors";
+import { describeSchedule, jobInstanceId, registerJobs, runJob } from "../lib/job-scheduler";
+import { findJobDefinition, jobDefinitions } from "../lib/jobs";
+import { requireAuth, requireRole } from "../middleware/auth";
+
+const router = Router();
+
+const recentRunsPerJob = 5;
+
+const jobNameParamsSchema = z.object({
+  jobName: z.string().min(1)
+});
+
+const updateJobSchema = z.object({
+  enabled: z.boolean()
+});
+
+const getJobDefinitionOrThrow = (name: string) => {
+  const job = findJobDefinition(name);
+  if (!job) {
+    throw new HttpError(404, "Job not found");
+  }
+  return job;
+};
+
+router.get(
+  "/",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (_req, res) => {
+    await registerJobs(jobDefinitions);
+    // Runs are fetched per job, so a job that runs every few minutes cannot push a daily job's history out.
+    const [jobs, recentRuns] = await Promise.all([
+      prisma.scheduledJob.findMany({
+        where: { name: { in: jobDefinitions.map((job) => job.name) } }
+      }),
+      Promise.all(
+        jobDefinitions.map((job) =>
+          prisma.jobRun.findMany({
+            where: { jobName: job.name },
+            orderBy: [{ startedAt: "desc" }],
+            take: recentRunsPerJob
+          })
+        )
+      )
+    ]);
+    const stateByName = new Map(jobs.map((job) => [job.name, job]));
+
+    res.status(200).json({
+      data: jobDefinitions.map((job, index) => ({
+        ...stateByName.get(job.name),
+        name: job.name,
+        description: job.description,
+        schedule: describeSchedule(job.schedule),
+        recentRuns: recentRuns[index]
+      })),
+      meta: {
+        schedulerEnabled: jobsEnabled,
+        instanceId: jobInstanceId
+      }
+    });
+  })
+);
+
+router.post(
+  "/:jobName/run",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const params = jobNameParamsSchema.parse(req.params);
+    const job = getJobDefinitionOrThrow(params.jobName);
+
+    await registerJobs([job]);
+    const run = await runJob(job, "manual");
+    if (!run) {
+      throw new HttpError(409, "Job is already running");
+    }
+
+    await createAuditLog({
+      actorUserId: req.user?.id,
+      action: "JOB_TRIGGERED",
+      entity: "SCHEDULED_JOB",
+      entityId: job.name,
+      metadata: {
+        runId: run.id,
+        status: run.status
+      }
+    });
+
+    res.status(200).json({ data: run });
+  })
+);
+
+router.patch(
+  "/:jobName",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const params = jobNameParamsSchema.parse(req.params);
+    const payload = updateJobSchema.parse(req.body);
+    const job = getJobDefinitionOrThrow(params.jobName);
+
+    await registerJobs([job]);
+    const updated = await prisma.scheduledJob.update({
+      where: { name: job.name },
+      data: { enabled: payload.enabled }
+    });
+
+    await createAuditLog({
+      actorUserId: req.user?.id,
+      action: payload.enabled ? "JOB_ENABLED" : "JOB_DISABLED",
+      entity: "SCHEDULED_JOB",
+      entityId: job.name
+    });
+
+    res.status(200).json({ data: updated });
+  })
+);
+
+export const jobsRouter = router;
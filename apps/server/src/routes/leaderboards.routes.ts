@@ -0,0 +1,44 @@
+import { Router } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../lib/async-handler";
+import { HttpError } from "../lib/errors";
+import { getPeriodStart, leaderboardPeriods, listLeaderboardGenres, loadLeaderboard } from "../lib/leaderboards";
+import { requireAuth } from "../middleware/auth";
+
+const router = Router();
+
+const leaderboardQuerySchema = z.object({
+  period: z.enum(leaderboardPeriods).default("week"),
+  genre: z.string().trim().min(1).max(80).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+router.get(
+  "/",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const query = leaderboardQuerySchema.parse(req.query);
+
+    const [board, genres] = await Promise.all([
+      loadLeaderboard({ ...query, viewerId: viewer.id }),
+      listLeaderboardGenres()
+    ]);
+
+    res.status(200).json({
+      data: board.entries,
+      meta: {
+        period: query.period,
+        periodStart: getPeriodStart(query.period),
+        genre: query.genre ?? null,
+        genres,
+        viewer: board.viewer
+      }
+    });
+  })
+);
+
+export const leaderboardsRouter = router;
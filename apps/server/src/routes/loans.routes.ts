@@ -1,10 +1,22 @@
 import { Router } from "express";
 import { z } from "zod";
 import { prisma } from "../db/prisma";
+import { evaluateAchievements } from "../lib/achievements";
 import { asyncHandler } from "../lib/async-handler";
 import { createAuditLog } from "../lib/audit";
+import { claimAvailableCopy, copyInclude, syncBookAvailability } from "../lib/book-copies";
+import {
+  estimateDueDateWithinPolicy,
+  loadCirculationPolicies,
+  pickCirculationRules,
+  resolveCirculationRules
+} from "../lib/circulation-policy";
+import { notifyHoldsReady } from "../lib/email-notifications";
 import { HttpError } from "../lib/errors";
-import { estimateLoanDueDate, type DueDateEstimate } from "../lib/reading-time";
+import { assertBorrowingAllowed, assessOverdueFine } from "../lib/fines";
+import { claimReadyHold, expireLapsedHolds, passCopyToNextHold } from "../lib/holds";
+import { bookLink, notifyUser } from "../lib/notifications";
+import { awardCheckinPoints } from "../lib/points";
 import { requireAuth, requireRole } from "../middleware/auth";
 
 const router = Router();
@@ -18,7 +30,6 @@ const loanUserSelect = {
   personalId: true,
   readingPoints: true
 } as const;
-const fallbackLoanDays = 30;
 const dueEstimateWaitMs = 1200;
 
 const checkoutSchema = z.object({
@@ -26,21 +37,21 @@ const checkoutSchema = z.object({
   dueAt: z.coerce.date().optional()
 });
 
-const checkinSchema = z.object({
-  bookId: z.string().min(1)
-});
+const checkinSchema = z
+  .object({
+    bookId: z.string().min(1).optional(),
+    loanId: z.string().min(1).optional(),
+    barcode: z.string().trim().min(1).optional()
+  })
+  .refine((value) => Boolean(value.bookId || value.loanId || value.barcode), {
+    message: "Provide a bookId, loanId or copy barcode"
+  });
 
 const updateDueDateSchema = z.object({
   dueAt: z.coerce.date()
 });
 
 const toDateOnly = (date: Date): string => date.toISOString().slice(0, 10);
-const buildFallbackDueEstimate = (): DueDateEstimate => ({
-  dueAt: new Date(Date.now() + fallbackLoanDays * 24 * 60 * 60 * 1000),
-  days: fallbackLoanDays,
-  source: "fallback",
-  pageCount: null
-});
 
 const calculateReadingPoints = (pageCount: number | null): number => {
   const pages = pageCount && pageCount > 0 ? pageCount : 100;
@@ -70,18 +81,27 @@ router.get(
       ]
     };
 
-    const loans = await prisma.loan.findMany({
-      where,
-      include: {
-        book: true,
-        user: {
-          select: loanUserSelect
-        }
-      },
-      orderBy: [{ checkedOutAt: "desc" }]
-    });
+    const [loans, policies] = await Promise.all([
+      prisma.loan.findMany({
+        where,
+        include: {
+          book: true,
+          copy: copyInclude,
+          user: {
+            select: loanUserSelect
+          }
+        },
+        orderBy: [{ checkedOutAt: "desc" }]
+      }),
+      loadCirculationPolicies()
+    ]);
 
-    res.status(200).json({ data: loans });
+    res.status(200).json({
+      data: loans.map((loan) => ({
+        ...loan,
+        maxRenewals: pickCirculationRules(policies, { role: loan.user.role, genre: loan.book.genre }).maxRenewals
+      }))
+    });
   })
 );
 
@@ -95,6 +115,7 @@ router.get(
       where: { returnedAt: null },
       include: {
         book: true,
+        copy: copyInclude,
         user: {
           select: loanUserSelect
         }
@@ -166,6 +187,7 @@ router.get(
       where,
       include: {
         book: true,
+        copy: copyInclude,
         user: {
           select: loanUserSelect
         }
@@ -196,45 +218,44 @@ router.post(
     if (!book) {
       throw new HttpError(404, "Book not found");
     }
+    await assertBorrowingAllowed(viewer.id);
+
+    const rules = await resolveCirculationRules({ role: viewer.role, genre: book.genre });
+    const activeLoanCount = await prisma.loan.count({
+      where: { userId: viewer.id, returnedAt: null }
+    });
+    if (activeLoanCount >= rules.maxActiveLoans) {
+      throw new HttpError(409, `You already have the maximum of ${rules.maxActiveLoans} active loans`);
+    }
 
-    const dueEstimate = payload.dueAt
-      ? null
-      : await Promise.race<DueDateEstimate>([
-          estimateLoanDueDate({
-            title: book.title,
-            author: book.author,
-            isbn: book.isbn
-          }).catch(() => buildFallbackDueEstimate()),
-          new Promise<DueDateEstimate>((resolve) => {
-            setTimeout(() => resolve(buildFallbackDueEstimate()), dueEstimateWaitMs);
-          })
-        ]);
+    const dueEstimate = payload.dueAt ? null : await estimateDueDateWithinPolicy(book, rules, dueEstimateWaitMs);
     const dueAt = payload.dueAt ?? dueEstimate?.dueAt;
 
+    await expireLapsedHolds();
     const loan = await prisma.$transaction(async (tx) => {
-      const claimResult = await tx.book.updateMany({
-        where: {
-          id: payload.bookId,
-          available: true,
-          requestPending: false
-        },
-        data: {
-          available: false,
-          requestPending: false
-        }
-      });
-      if (claimResult.count !== 1) {
-        throw new HttpError(409, "Book is currently unavailable");
+      const readyHold = await claimReadyHold(tx, payload.bookId, viewer.id);
+      if (readyHold) {
+        await tx.bookCopy.updateMany({
+          where: { id: readyHold.copyId, status: "RESERVED" },
+          data: { status: "ON_LOAN" }
+        });
+        await syncBookAvailability(tx, payload.bookId);
+      }
+      const copyId = readyHold?.copyId ?? (await claimAvailableCopy(tx, payload.bookId, "ON_LOAN"))?.id;
+      if (!copyId) {
+        throw new HttpError(409, "No copies of this book are currently available");
       }
 
       return tx.loan.create({
         data: {
           bookId: payload.bookId,
+          copyId,
           userId: viewer.id,
           dueAt
         },
         include: {
-          book: true
+          book: true,
+          copy: copyInclude
         }
       });
     });
@@ -246,9 +267,12 @@ router.post(
       entityId: loan.id,
       metadata: {
         bookId: payload.bookId,
+        copyId: loan.copyId,
+        barcode: loan.copy?.barcode ?? null,
         dueAt: dueAt ? toDateOnly(dueAt) : null,
         dueDateSource: dueEstimate?.source ?? "manual",
-        estimatedReadingDays: dueEstimate?.days ?? null
+        estimatedReadingDays: dueEstimate?.days ?? null,
+        policyId: rules.policyId
       }
     });
 
@@ -273,54 +297,74 @@ router.post(
     }
 
     const activeLoan = await prisma.loan.findFirst({
-      where: { bookId: payload.bookId, returnedAt: null },
+      where: {
+        returnedAt: null,
+        ...(payload.loanId ? { id: payload.loanId } : {}),
+        ...(payload.bookId ? { bookId: payload.bookId } : {}),
+        ...(payload.barcode ? { copy: { barcode: payload.barcode } } : {}),
+        ...(viewer.role === "MEMBER" && !payload.loanId ? { userId: viewer.id } : {})
+      },
+      orderBy: [{ checkedOutAt: "asc" }],
       include: {
         book: {
           select: {
             id: true,
             title: true,
             author: true,
-            isbn: true
+            isbn: true,
+            genre: true
+          }
+        },
+        user: {
+          select: {
+            role: true
           }
         }
       }
     });
     if (!activeLoan) {
-      throw new HttpError(404, "No active loan found for this book");
+      throw new HttpError(404, "No active loan found for this book or copy");
     }
     if (viewer.role !== "ADMIN" && activeLoan.userId !== viewer.id) {
       throw new HttpError(403, "You can only check in your own loans");
     }
 
-    const readingEstimate = await estimateLoanDueDate({
-      title: activeLoan.book.title,
-      author: activeLoan.book.author,
-      isbn: activeLoan.book.isbn
-    }).catch(() => buildFallbackDueEstimate());
-    const awardedPoints = calculateReadingPoints(readingEstimate.pageCount);
-
-    const updatedLoan = await prisma.$transaction(async (tx) => {
-      await tx.book.update({
-        where: { id: payload.bookId },
-        data: {
-          available: true,
-          requestPending: false
-        }
+    const rules = await resolveCirculationRules({ role: activeLoan.user.role, genre: activeLoan.book.genre });
+    const readingEstimate = await estimateDueDateWithinPolicy(activeLoan.book, rules);
+    const basePoints = calculateReadingPoints(readingEstimate.pageCount);
+
+    const { updatedLoan, nextHoldId, fine, award } = await prisma.$transaction(async (tx) => {
+      // Closing the loan first makes concurrent check-ins of the same loan race on this row, so only one of them
+      // hands the copy on, assesses the fine and awards points.
+      const returnedAt = new Date();
+      const closed = await tx.loan.updateMany({
+        where: { id: activeLoan.id, returnedAt: null },
+        data: { returnedAt, pageCount: readingEstimate.pageCount }
       });
+      if (closed.count === 0) {
+        throw new HttpError(409, "This loan has already been checked in");
+      }
 
-      await tx.user.update({
-        where: { id: activeLoan.userId },
-        data: {
-          readingPoints: { increment: awardedPoints }
-        }
+      const copyId =
+        activeLoan.copyId ??
+        (await tx.loan.findUnique({ where: { id: activeLoan.id }, select: { copyId: true } }))?.copyId;
+      const nextHoldId = copyId ? await passCopyToNextHold(tx, copyId, "ON_LOAN") : null;
+      const fine = await assessOverdueFine(tx, activeLoan, returnedAt, rules);
+
+      const award = await awardCheckinPoints(tx, {
+        loan: activeLoan,
+        genre: activeLoan.book.genre,
+        basePoints,
+        returnedAt
       });
 
-      return tx.loan.update({
+      const updatedLoan = await tx.loan.findUniqueOrThrow({
         where: { id: activeLoan.id },
-        data: { returnedAt: new Date() },
-        include: { book: true, user: { select: loanUserSelect } }
+        include: { book: true, copy: copyInclude, user: { select: loanUserSelect } }
       });
+      return { updatedLoan, nextHoldId, fine, award };
     });
+    const { awardedPoints } = award;
 
     await createAuditLog({
       actorUserId: viewer.id,
@@ -328,24 +372,184 @@ router.post(
       entity: "LOAN",
       entityId: updatedLoan.id,
       metadata: {
-        bookId: payload.bookId,
+        bookId: updatedLoan.bookId,
+        copyId: updatedLoan.copyId,
         pageCount: readingEstimate.pageCount,
         pageSource: readingEstimate.source,
-        awardedPoints
+        awardedPoints,
+        pointsWithheld: award.withheld,
+        nextHoldId,
+        fineId: fine?.id ?? null,
+        fineCents: fine?.amountCents ?? 0
       }
     });
 
+    if (fine) {
+      await createAuditLog({
+        actorUserId: viewer.id,
+        action: "FINE_ASSESSED",
+        entity: "FINE",
+        entityId: fine.id,
+        metadata: {
+          loanId: updatedLoan.id,
+          userId: fine.userId,
+          amountCents: fine.amountCents,
+          daysOverdue: fine.daysOverdue,
+          dailyRateCents: fine.dailyRateCents
+        }
+      });
+    }
+    void notifyHoldsReady([nextHoldId]);
+    const earnedBadges = await evaluateAchievements(updatedLoan.userId);
+
     res.status(200).json({
       data: updatedLoan,
       meta: {
         awardedPoints,
+        pointsWithheld: award.withheld,
+        earnedBadges,
         pageCount: readingEstimate.pageCount,
-        pageSource: readingEstimate.source
+        pageSource: readingEstimate.source,
+        heldForNextMember: Boolean(nextHoldId),
+        fine: fine ? { id: fine.id, amountCents: fine.amountCents, daysOverdue: fine.daysOverdue } : null
+      }
+    });
+  })
+);
+
+router.post(
+  "/:loanId/renew",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const params = z.object({ loanId: z.string().min(1) }).parse(req.params);
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+
+    const loan = await prisma.loan.findUnique({
+      where: { id: params.loanId },
+      include: { book: true, user: { select: { role: true } } }
+    });
+    if (!loan) {
+      throw new HttpError(404, "Loan not found");
+    }
+    if (viewer.role !== "ADMIN" && loan.userId !== viewer.id) {
+      throw new HttpError(403, "You can only renew your own loans");
+    }
+    if (loan.returnedAt) {
+      throw new HttpError(409, "Cannot renew a returned loan");
+    }
+    const rules = await resolveCirculationRules({ role: loan.user.role, genre: loan.book.genre });
+    if (loan.renewalCount >= rules.maxRenewals) {
+      throw new HttpError(409, `This loan has reached the maximum of ${rules.maxRenewals} renewals`);
+    }
+
+    await expireLapsedHolds();
+    const [pendingRequest, activeHold] = await Promise.all([
+      prisma.borrowRequest.findFirst({
+        where: { bookId: loan.bookId, status: "PENDING", userId: { not: loan.userId } },
+        select: { id: true }
+      }),
+      prisma.bookHold.findFirst({
+        where: { bookId: loan.bookId, status: { in: ["WAITING", "READY"] }, userId: { not: loan.userId } },
+        select: { id: true }
+      })
+    ]);
+    if (pendingRequest || activeHold) {
+      throw new HttpError(409, "Another member is waiting for this book, so it cannot be renewed");
+    }
+
+    const renewalEstimate = await estimateDueDateWithinPolicy(loan.book, rules, dueEstimateWaitMs);
+    const now = new Date();
+    const renewFrom = loan.dueAt && loan.dueAt > now ? loan.dueAt : now;
+    const newDueAt = new Date(renewFrom.getTime() + renewalEstimate.days * 24 * 60 * 60 * 1000);
+
+    const renewed = await prisma.loan.updateMany({
+      where: { id: loan.id, returnedAt: null, renewalCount: loan.renewalCount },
+      data: {
+        dueAt: newDueAt,
+        renewalCount: { increment: 1 },
+        lastRenewedAt: now
+      }
+    });
+    if (renewed.count !== 1) {
+      throw new HttpError(409, "Loan changed while renewing. Please try again.");
+    }
+
+    const updated = await prisma.loan.findUniqueOrThrow({
+      where: { id: loan.id },
+      include: { book: true, copy: copyInclude, user: { select: loanUserSelect } }
+    });
+
+    await createAuditLog({
+      actorUserId: viewer.id,
+      action: "LOAN_RENEWED",
+      entity: "LOAN",
+      entityId: loan.id,
+      metadata: {
+        bookId: loan.bookId,
+        userId: loan.userId,
+        previousDueAt: loan.dueAt ? toDateOnly(loan.dueAt) : null,
+        newDueAt: toDateOnly(newDueAt),
+        renewalCount: updated.renewalCount,
+        dueDateSource: renewalEstimate.source,
+        estimatedReadingDays: renewalEstimate.days
+      }
+    });
+
+    res.status(200).json({
+      data: { ...updated, maxRenewals: rules.maxRenewals },
+      meta: {
+        renewalsRemaining: Math.max(0, rules.maxRenewals - updated.renewalCount),
+        dueDateSource: renewalEstimate.source
       }
     });
   })
 );
 
+router.get(
+  "/:loanId/history",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const params = z.object({ loanId: z.string().min(1) }).parse(req.params);
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+
+    const loan = await prisma.loan.findUnique({
+      where: { id: params.loanId },
+      select: { id: true, userId: true }
+    });
+    if (!loan) {
+      throw new HttpError(404, "Loan not found");
+    }
+    if (viewer.role !== "ADMIN" && loan.userId !== viewer.id) {
+      throw new HttpError(403, "You can only view your own loans");
+    }
+
+    const events = await prisma.auditLog.findMany({
+      where: { entity: "LOAN", entityId: loan.id },
+      select: {
+        id: true,
+        action: true,
+        metadata: true,
+        createdAt: true,
+        actor: {
+          select: {
+            id: true,
+            name: true
+          }
+        }
+      },
+      orderBy: [{ createdAt: "asc" }]
+    });
+
+    res.status(200).json({ data: events });
+  })
+);
+
 router.patch(
   "/:loanId/due-date",
   requireAuth,
@@ -356,7 +560,7 @@ router.patch(
 
     const loan = await prisma.loan.findUnique({
       where: { id: params.loanId },
-      include: { book: true, user: { select: loanUserSelect } }
+      include: { book: true, copy: copyInclude, user: { select: loanUserSelect } }
     });
     if (!loan) {
       throw new HttpError(404, "Loan not found");
@@ -368,7 +572,7 @@ router.patch(
     const updated = await prisma.loan.update({
       where: { id: loan.id },
       data: { dueAt: payload.dueAt },
-      include: { book: true, user: { select: loanUserSelect } }
+      include: { book: true, copy: copyInclude, user: { select: loanUserSelect } }
     });
 
     await createAuditLog({
@@ -383,6 +587,18 @@ router.patch(
         bookId: loan.bookId
       }
     });
+    void notifyUser(loan.userId, {
+      type: "LOAN_DUE_DATE_CHANGED",
+      title: `"${loan.book.title}" is now due ${toDateOnly(payload.dueAt)}`,
+      body: loan.dueAt ? `The library changed the due date from ${toDateOnly(loan.dueAt)}.` : null,
+      payload: {
+        loanId: loan.id,
+        bookId: loan.bookId,
+        previousDueAt: loan.dueAt?.toISOString() ?? null,
+        dueAt: payload.dueAt.toISOString()
+      },
+      link: bookLink(loan.bookId)
+    });
 
     res.status(200).json({ data: updated });
   })
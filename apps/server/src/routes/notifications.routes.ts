@@ -0,0 +1,108 @@
+import { Router } from "express";
+import { z } from "zod";
+import { prisma } from "../db/prisma";
+import { asyncHandler } from "../lib/async-handler";
+import { HttpError } from "../lib/errors";
+import { requireAuth } from "../middleware/auth";
+
+const router = Router();
+
+const notificationQuerySchema = z.object({
+  unread: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().min(1).optional()
+});
+
+const notificationIdParamsSchema = z.object({
+  notificationId: z.string().min(1)
+});
+
+const markReadSchema = z.object({
+  read: z.boolean().default(true)
+});
+
+router.get(
+  "/",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const query = notificationQuerySchema.parse(req.query);
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: { userId: viewer.id, ...(query.unread ? { readAt: null } : {}) },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: query.limit + 1,
+        ...(query.cursor ? { skip: 1, cursor: { id: query.cursor } } : {})
+      }),
+      prisma.notification.count({ where: { userId: viewer.id, readAt: null } })
+    ]);
+
+    const hasNextPage = notifications.length > query.limit;
+    const data = hasNextPage ? notifications.slice(0, query.limit) : notifications;
+    const nextCursor = hasNextPage ? data[data.length - 1]?.id : null;
+
+    res.status(200).json({
+      data,
+      meta: { unreadCount },
+      pageInfo: {
+        hasNextPage,
+        nextCursor
+      }
+    });
+  })
+);
+
+router.post(
+  "/read-all",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+
+    const updated = await prisma.notification.updateMany({
+      where: { userId: viewer.id, readAt: null },
+      data: { readAt: new Date() }
+    });
+
+    res.status(200).json({ data: { markedRead: updated.count } });
+  })
+);
+
+// `{ read: false }` marks it unread again.
+router.post(
+  "/:notificationId/read",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const params = notificationIdParamsSchema.parse(req.params);
+    const payload = markReadSchema.parse(req.body ?? {});
+
+    const existing = await prisma.notification.findFirst({
+      where: { id: params.notificationId, userId: viewer.id }
+    });
+    if (!existing) {
+      throw new HttpError(404, "Notification not found");
+    }
+
+    const updated = await prisma.notification.update({
+      where: { id: existing.id },
+      data: { readAt: payload.read ? (existing.readAt ?? new Date()) : null }
+    });
+
+    res.status(200).json({ data: updated });
+  })
+);
+
+export const notificationsRouter = router;
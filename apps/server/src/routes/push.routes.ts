@@ -0,0 +1,91 @@
+import { Router } from "express";
+import { z } from "zod";
+import { env, pushEnabled } from "../config/env";
+import { prisma } from "../db/prisma";
+import { asyncHandler } from "../lib/async-handler";
+import { HttpError } from "../lib/errors";
+import { requireAuth } from "../middleware/auth";
+
+const router = Router();
+
+const subscriptionSchema = z.object({
+  endpoint: z.string().url().max(2000),
+  keys: z.object({
+    p256dh: z.string().min(1).max(200),
+    auth: z.string().min(1).max(100)
+  })
+});
+
+const unsubscribeSchema = z.object({
+  endpoint: z.string().url().max(2000)
+});
+
+// Public so the client can decide whether to offer push before anyone signs in.
+router.get(
+  "/public-key",
+  asyncHandler(async (_req, res) => {
+    res.status(200).json({
+      data: {
+        enabled: pushEnabled,
+        publicKey: pushEnabled ? (env.VAPID_PUBLIC_KEY ?? null) : null
+      }
+    });
+  })
+);
+
+router.post(
+  "/subscriptions",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    if (!pushEnabled) {
+      throw new HttpError(503, "Push notifications are not configured");
+    }
+    const payload = subscriptionSchema.parse(req.body);
+    const userAgent = req.get("user-agent")?.slice(0, 300) ?? null;
+
+    const subscription = await prisma.pushSubscription.upsert({
+      where: { endpoint: payload.endpoint },
+      create: {
+        userId: viewer.id,
+        endpoint: payload.endpoint,
+        p256dh: payload.keys.p256dh,
+        auth: payload.keys.auth,
+        userAgent
+      },
+      update: {
+        userId: viewer.id,
+        p256dh: payload.keys.p256dh,
+        auth: payload.keys.auth,
+        userAgent
+      },
+      select: { id: true, endpoint: true, createdAt: true }
+    });
+
+    res.status(201).json({ data: subscription });
+  })
+);
+
+// Takes the endpoint rather than an id: the browser knows its own endpoint, not the row it was stored under.
+router.delete(
+  "/subscriptions",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const payload = unsubscribeSchema.parse(req.body ?? {});
+
+    await prisma.pushSubscription.deleteMany({
+      where: { endpoint: payload.endpoint, userId: viewer.id }
+    });
+
+    res.status(204).send();
+  })
+);
+
+export const pushRouter = router;
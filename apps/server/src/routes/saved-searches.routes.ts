@@ -0,0 +1,239 @@
+import { Router } from "express";
+import { z } from "zod";
+import { prisma } from "../db/prisma";
+import { asyncHandler } from "../lib/async-handler";
+import { createAuditLog } from "../lib/audit";
+import { bookFilterSchema, type BookFilters } from "../lib/book-filters";
+import { HttpError } from "../lib/errors";
+import {
+  MAX_SAVED_SEARCHES_PER_USER,
+  hasAnySavedSearchFilter,
+  parseSavedSearchFilters
+} from "../lib/saved-searches";
+import { requireAuth } from "../middleware/auth";
+
+const router = Router();
+
+const savedSearchIdParamsSchema = z.object({
+  savedSearchId: z.string().min(1)
+});
+
+const createSavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  filters: bookFilterSchema,
+  alertsEnabled: z.boolean().default(true)
+});
+
+const updateSavedSearchSchema = createSavedSearchSchema.partial();
+
+const newMatchPreviewLimit = 5;
+
+// Drops empty values so stored filters mirror the query string the catalog would send.
+const toStoredFilters = (filters: BookFilters) => ({
+  ...(filters.q?.trim() ? { q: filters.q.trim() } : {}),
+  ...(filters.author?.trim() ? { author: filters.author.trim() } : {}),
+  ...(filters.genre?.trim() ? { genre: filters.genre.trim() } : {}),
+  ...(filters.available ? { available: filters.available } : {}),
+  genres: filters.genres,
+  authors: filters.authors,
+  decades: filters.decades,
+  ratings: filters.ratings
+});
+
+const assertHasFilters = (filters: BookFilters) => {
+  if (!hasAnySavedSearchFilter(filters)) {
+    throw new HttpError(400, "Add a search term or a genre, author, decade or rating filter before saving");
+  }
+};
+
+const findOwnSavedSearch = async (savedSearchId: string, userId: string) => {
+  const existing = await prisma.savedSearch.findUnique({
+    where: { id: savedSearchId }
+  });
+  if (!existing || existing.userId !== userId) {
+    throw new HttpError(404, "Saved search not found");
+  }
+  return existing;
+};
+
+const loadSavedSearchesForUser = async (userId: string) => {
+  const searches = await prisma.savedSearch.findMany({
+    where: { userId },
+    orderBy: [{ createdAt: "desc" }],
+    include: {
+      _count: {
+        select: { matches: { where: { seenAt: null } } }
+      },
+      matches: {
+        where: { seenAt: null },
+        orderBy: { createdAt: "desc" as const },
+        take: newMatchPreviewLimit,
+        select: {
+          createdAt: true,
+          book: {
+            select: {
+              id: true,
+              title: true,
+              author: true,
+              coverUrl: true
+            }
+          }
+        }
+      }
+    }
+  });
+
+  return searches.map(({ _count, matches, filters, ...search }) => ({
+    ...search,
+    filters: parseSavedSearchFilters(filters),
+    newMatchCount: _count.matches,
+    newMatches: matches
+  }));
+};
+
+router.get(
+  "/",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+
+    const data = await loadSavedSearchesForUser(viewer.id);
+    res.status(200).json({
+      data,
+      meta: {
+        newMatchCount: data.reduce((total, search) => total + search.newMatchCount, 0),
+        maxSavedSearches: MAX_SAVED_SEARCHES_PER_USER
+      }
+    });
+  })
+);
+
+router.post(
+  "/",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const payload = createSavedSearchSchema.parse(req.body);
+    assertHasFilters(payload.filters);
+
+    const existingCount = await prisma.savedSearch.count({ where: { userId: viewer.id } });
+    if (existingCount >= MAX_SAVED_SEARCHES_PER_USER) {
+      throw new HttpError(409, `You can keep up to ${MAX_SAVED_SEARCHES_PER_USER} saved searches`);
+    }
+
+    const created = await prisma.savedSearch.create({
+      data: {
+        userId: viewer.id,
+        name: payload.name,
+        filters: toStoredFilters(payload.filters),
+        alertsEnabled: payload.alertsEnabled
+      }
+    });
+
+    await createAuditLog({
+      actorUserId: viewer.id,
+      action: "SAVED_SEARCH_CREATED",
+      entity: "SAVED_SEARCH",
+      entityId: created.id,
+      metadata: { name: created.name, filters: created.filters }
+    });
+
+    res.status(201).json({
+      data: { ...created, filters: parseSavedSearchFilters(created.filters), newMatchCount: 0, newMatches: [] }
+    });
+  })
+);
+
+router.patch(
+  "/:savedSearchId",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const params = savedSearchIdParamsSchema.parse(req.params);
+    const payload = updateSavedSearchSchema.parse(req.body);
+    if (payload.filters) {
+      assertHasFilters(payload.filters);
+    }
+
+    const existing = await findOwnSavedSearch(params.savedSearchId, viewer.id);
+    await prisma.savedSearch.update({
+      where: { id: existing.id },
+      data: {
+        ...(payload.name !== undefined ? { name: payload.name } : {}),
+        ...(payload.alertsEnabled !== undefined ? { alertsEnabled: payload.alertsEnabled } : {}),
+        ...(payload.filters ? { filters: toStoredFilters(payload.filters) } : {})
+      }
+    });
+
+    await createAuditLog({
+      actorUserId: viewer.id,
+      action: "SAVED_SEARCH_UPDATED",
+      entity: "SAVED_SEARCH",
+      entityId: existing.id,
+      metadata: {
+        name: payload.name,
+        alertsEnabled: payload.alertsEnabled,
+        filtersChanged: Boolean(payload.filters)
+      }
+    });
+
+    const data = (await loadSavedSearchesForUser(viewer.id)).find((search) => search.id === existing.id);
+    res.status(200).json({ data });
+  })
+);
+
+router.post(
+  "/:savedSearchId/seen",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const params = savedSearchIdParamsSchema.parse(req.params);
+
+    const existing = await findOwnSavedSearch(params.savedSearchId, viewer.id);
+    const updated = await prisma.savedSearchMatch.updateMany({
+      where: { savedSearchId: existing.id, seenAt: null },
+      data: { seenAt: new Date() }
+    });
+
+    res.status(200).json({ data: { id: existing.id, markedSeen: updated.count } });
+  })
+);
+
+router.delete(
+  "/:savedSearchId",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const params = savedSearchIdParamsSchema.parse(req.params);
+
+    const existing = await findOwnSavedSearch(params.savedSearchId, viewer.id);
+    await prisma.savedSearch.delete({ where: { id: existing.id } });
+
+    await createAuditLog({
+      actorUserId: viewer.id,
+      action: "SAVED_SEARCH_DELETED",
+      entity: "SAVED_SEARCH",
+      entityId: existing.id,
+      metadata: { name: existing.name }
+    });
+
+    res.status(204).send();
+  })
+);
+
+export const savedSearchesRouter = router;
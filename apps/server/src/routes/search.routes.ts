@@ -2,8 +2,11 @@ import { Router } from "express";
 import { z } from "zod";
 import { prisma } from "../db/prisma";
 import { asyncHandler } from "../lib/async-handler";
+import { bookFilterSchema, buildBookFilterWhere, loadBookFacets } from "../lib/book-filters";
+import { highlightBooks, searchBookIds, type BookSearchHighlight } from "../lib/book-search";
 import { persistExternalBooks, searchExternalBooks } from "../lib/external-books";
 import { FALLBACK_BOOKS } from "../lib/fallback-books";
+import { getFavoriteBookIds } from "../lib/shelves";
 import { optionalAuth } from "../middleware/auth";
 
 const router = Router();
@@ -20,17 +23,9 @@ const applyFavoriteFlagsForViewer = async <
     return books.map((book) => ({ ...book, isFavorite: false }));
   }
 
-  let favorites: Array<{ bookId: string }> = [];
+  let favoriteIds: Set<string>;
   try {
-    favorites = await prisma.bookFavorite.findMany({
-      where: {
-        userId: viewerId,
-        bookId: { in: books.map((book) => book.id) }
-      },
-      select: {
-        bookId: true
-      }
-    });
+    favoriteIds = await getFavoriteBookIds(viewerId, books.map((book) => book.id));
   } catch (error) {
     if (
       typeof error === "object" &&
@@ -42,13 +37,87 @@ const applyFavoriteFlagsForViewer = async <
     }
     throw error;
   }
-  const favoriteIds = new Set(favorites.map((favorite) => favorite.bookId));
   return books.map((book) => ({
     ...book,
     isFavorite: favoriteIds.has(book.id)
   }));
 };
 
+type SearchSuggestion = {
+  type: "title" | "author" | "genre";
+  value: string;
+  bookId: string | null;
+  count: number;
+};
+
+const SUGGEST_CACHE_TTL_MS = 30_000;
+const SUGGEST_CACHE_MAX_ENTRIES = 500;
+const suggestCache = new Map<string, { expiresAt: number; data: SearchSuggestion[] }>();
+
+// Matches values that start with the prefix or contain a word that does.
+const prefixWhere = (field: "title" | "author" | "genre", prefix: string) => ({
+  OR: [
+    { [field]: { startsWith: prefix, mode: "insensitive" as const } },
+    { [field]: { contains: ` ${prefix}`, mode: "insensitive" as const } }
+  ]
+});
+
+const startsWithPrefix = (value: string, prefix: string) => value.toLowerCase().startsWith(prefix.toLowerCase());
+
+const loadSuggestions = async (prefix: string, limit: number): Promise<SearchSuggestion[]> => {
+  const [titles, authors, genres] = await Promise.all([
+    prisma.book.findMany({
+      where: prefixWhere("title", prefix),
+      select: { id: true, title: true },
+      orderBy: [{ available: "desc" }, { title: "asc" }],
+      take: limit
+    }),
+    prisma.book.groupBy({
+      by: ["author"],
+      where: prefixWhere("author", prefix),
+      _count: { _all: true },
+      orderBy: [{ _count: { author: "desc" } }, { author: "asc" }],
+      take: limit
+    }),
+    prisma.book.groupBy({
+      by: ["genre"],
+      where: prefixWhere("genre", prefix),
+      _count: { _all: true },
+      orderBy: [{ _count: { genre: "desc" } }, { genre: "asc" }],
+      take: limit
+    })
+  ]);
+
+  const candidates: SearchSuggestion[] = [
+    ...titles.map((book) => ({ type: "title" as const, value: book.title, bookId: book.id, count: 1 })),
+    ...authors.map((row) => ({ type: "author" as const, value: row.author, bookId: null, count: row._count._all })),
+    ...genres.flatMap((row) =>
+      row.genre ? [{ type: "genre" as const, value: row.genre, bookId: null, count: row._count._all }] : []
+    )
+  ];
+
+  // Whole-value prefix matches beat mid-value word matches; genres and authors go first within each tier
+  // because they cover more books. Caps per type keep the list mixed.
+  const typeOrder = { genre: 0, author: 1, title: 2 };
+  const typeCaps = { genre: 2, author: 3, title: limit };
+  const taken = { genre: 0, author: 0, title: 0 };
+  return candidates
+    .sort(
+      (left, right) =>
+        Number(startsWithPrefix(right.value, prefix)) - Number(startsWithPrefix(left.value, prefix)) ||
+        typeOrder[left.type] - typeOrder[right.type] ||
+        right.count - left.count
+    )
+    .filter((suggestion) => {
+      if (taken[suggestion.type] >= typeCaps[suggestion.type]) {
+        return false;
+      }
+      taken[suggestion.type] += 1;
+      return true;
+    })
+    .slice(0, limit);
+};
+
 const isMissingColumnError = (error: unknown): boolean => {
   return (
     typeof error === "object" &&
@@ -62,8 +131,8 @@ router.get(
   "/books",
   optionalAuth,
   asyncHandler(async (req, res) => {
-    const query = z
-      .object({
+    const query = bookFilterSchema
+      .extend({
         q: z.string().min(1),
         limit: z.coerce.number().int().min(1).max(30).default(10),
         withFallback: z
@@ -73,14 +142,20 @@ router.get(
       })
       .parse(req.query);
 
-    const where = {
-      OR: [
-        { title: { contains: query.q, mode: "insensitive" as const } },
-        { author: { contains: query.q, mode: "insensitive" as const } },
-        { genre: { contains: query.q, mode: "insensitive" as const } },
-        { isbn: { contains: query.q, mode: "insensitive" as const } }
-      ]
-    };
+    const searchHits = await searchBookIds(query.q);
+    const filterWhere = buildBookFilterWhere(query, searchHits);
+
+    // Keep the best-ranked hits that also pass the facet filters.
+    let rankedIds: string[] | null = null;
+    if (searchHits) {
+      const matching = await prisma.book.findMany({ where: filterWhere, select: { id: true } });
+      const matchingIds = new Set(matching.map((book) => book.id));
+      rankedIds = searchHits
+        .filter((hit) => matchingIds.has(hit.id))
+        .slice(0, query.limit)
+        .map((hit) => hit.id);
+    }
+    const where = rankedIds ? { id: { in: rankedIds } } : filterWhere;
 
     let books: Array<{
       id: string;
@@ -96,7 +171,10 @@ router.get(
       aiMetadata?: boolean;
       available: boolean;
       requestPending: boolean;
+      totalCopies: number;
+      availableCopies: number;
       isFavorite?: boolean;
+      highlight?: BookSearchHighlight;
       createdAt: Date;
       updatedAt: Date;
     }>;
@@ -134,10 +212,21 @@ router.get(
         ratingsCount: null,
         aiMetadata: false,
         isFavorite: false,
-        requestPending: false
+        requestPending: false,
+        totalCopies: 0,
+        availableCopies: 0
       }));
     }
 
+    if (rankedIds) {
+      const byId = new Map(books.map((book) => [book.id, book]));
+      const highlights = await highlightBooks(query.q, rankedIds);
+      books = rankedIds.flatMap((id) => {
+        const book = byId.get(id);
+        const highlight = highlights.get(id);
+        return book ? [highlight ? { ...book, highlight } : book] : [];
+      });
+    }
     books = await applyFavoriteFlagsForViewer(books, req.user?.id);
 
     if (books.length > 0 || !query.withFallback) {
@@ -145,7 +234,8 @@ router.get(
         data: books,
         meta: {
           source: "local",
-          fallbackUsed: false
+          fallbackUsed: false,
+          facets: await loadBookFacets(query, searchHits)
         }
       });
       return;
@@ -212,4 +302,36 @@ router.get(
   })
 );
 
+router.get(
+  "/suggest",
+  asyncHandler(async (req, res) => {
+    const query = z
+      .object({
+        q: z.string().trim().min(1).max(100),
+        limit: z.coerce.number().int().min(1).max(15).default(8)
+      })
+      .parse(req.query);
+
+    const cacheKey = `${query.q.toLowerCase()}|${query.limit}`;
+    const cached = suggestCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      res.setHeader("Cache-Control", "public, max-age=30");
+      res.status(200).json({ data: cached.data });
+      return;
+    }
+
+    const data = await loadSuggestions(query.q, query.limit);
+    if (suggestCache.size >= SUGGEST_CACHE_MAX_ENTRIES) {
+      const oldestKey = suggestCache.keys().next().value;
+      if (oldestKey !== undefined) {
+        suggestCache.delete(oldestKey);
+      }
+    }
+    suggestCache.set(cacheKey, { expiresAt: Date.now() + SUGGEST_CACHE_TTL_MS, data });
+
+    res.setHeader("Cache-Control", "public, max-age=30");
+    res.status(200).json({ data });
+  })
+);
+
 export const searchRouter = router;
@@ -0,0 +1,456 @@
+import { Router } from "express";
+import { z } from "zod";
+import { prisma } from "../db/prisma";
+import { asyncHandler } from "../lib/async-handler";
+import { createAuditLog } from "../lib/audit";
+import { HttpError } from "../lib/errors";
+import {
+  MAX_SHELVES_PER_USER,
+  addShelfEntry,
+  applyOrder,
+  generateShareToken,
+  getFavoriteBookIds,
+  nextShelfPosition
+} from "../lib/shelves";
+import { optionalAuth, requireAuth } from "../middleware/auth";
+
+const router = Router();
+
+const shelfIdParamsSchema = z.object({
+  shelfId: z.string().min(1)
+});
+
+const entryParamsSchema = shelfIdParamsSchema.extend({
+  entryId: z.string().min(1)
+});
+
+const optionalText = (max: number) =>
+  z
+    .string()
+    .max(max)
+    .optional()
+    .nullable()
+    .transform((value) => value?.trim() || null);
+
+const createShelfSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  description: optionalText(500),
+  visibility: z.enum(["PRIVATE", "SHARED"]).default("PRIVATE")
+});
+
+const updateShelfSchema = z.object({
+  name: z.string().trim().min(1).max(80).optional(),
+  description: optionalText(500),
+  visibility: z.enum(["PRIVATE", "SHARED"]).optional()
+});
+
+const addEntrySchema = z.object({
+  bookId: z.string().min(1),
+  note: optionalText(1000)
+});
+
+const updateEntrySchema = z.object({
+  note: optionalText(1000)
+});
+
+const orderSchema = z.object({
+  ids: z.array(z.string().min(1)).max(1000)
+});
+
+const shelfBookSelect = {
+  id: true,
+  title: true,
+  author: true,
+  genre: true,
+  coverUrl: true,
+  averageRating: true,
+  available: true
+} as const;
+
+const shelfEntryInclude = {
+  book: { select: shelfBookSelect }
+} as const;
+
+const findOwnShelf = async (shelfId: string, userId: string) => {
+  const shelf = await prisma.shelf.findUnique({ where: { id: shelfId } });
+  if (!shelf || shelf.userId !== userId) {
+    throw new HttpError(404, "Shelf not found");
+  }
+  return shelf;
+};
+
+const loadShelfWithEntries = async (shelfId: string) => {
+  return prisma.shelf.findUniqueOrThrow({
+    where: { id: shelfId },
+    include: {
+      entries: {
+        include: shelfEntryInclude,
+        orderBy: [{ position: "asc" as const }, { addedAt: "asc" as const }]
+      }
+    }
+  });
+};
+
+router.get(
+  "/",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const query = z
+      .object({
+        bookId: z.string().min(1).optional()
+      })
+      .parse(req.query);
+
+    const shelves = await prisma.shelf.findMany({
+      where: { userId: viewer.id },
+      orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+      include: {
+        _count: { select: { entries: true } },
+        entries: {
+          orderBy: [{ position: "asc" as const }],
+          take: 4,
+          select: { book: { select: { id: true, title: true, coverUrl: true } } }
+        }
+      }
+    });
+
+    // With bookId, report which shelves already hold that book (for "add to shelf" menus).
+    const entryIdsByShelf = query.bookId
+      ? new Map(
+          (
+            await prisma.shelfEntry.findMany({
+              where: { bookId: query.bookId, shelf: { userId: viewer.id } },
+              select: { id: true, shelfId: true }
+            })
+          ).map((entry) => [entry.shelfId, entry.id])
+        )
+      : null;
+
+    res.status(200).json({
+      data: shelves.map(({ _count, entries, ...shelf }) => ({
+        ...shelf,
+        entryCount: _count.entries,
+        previewBooks: entries.map((entry) => entry.book),
+        ...(entryIdsByShelf ? { bookEntryId: entryIdsByShelf.get(shelf.id) ?? null } : {})
+      })),
+      meta: {
+        maxShelves: MAX_SHELVES_PER_USER
+      }
+    });
+  })
+);
+
+router.post(
+  "/",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const payload = createShelfSchema.parse(req.body);
+
+    const shelf = await prisma.$transaction(async (tx) => {
+      const shelfCount = await tx.shelf.count({ where: { userId: viewer.id } });
+      if (shelfCount >= MAX_SHELVES_PER_USER) {
+        throw new HttpError(409, `You can keep up to ${MAX_SHELVES_PER_USER} shelves`);
+      }
+      return tx.shelf.create({
+        data: {
+          userId: viewer.id,
+          name: payload.name,
+          description: payload.description,
+          visibility: payload.visibility,
+          shareToken: payload.visibility === "SHARED" ? generateShareToken() : null,
+          position: await nextShelfPosition(tx, viewer.id)
+        }
+      });
+    });
+
+    await createAuditLog({
+      actorUserId: viewer.id,
+      action: "SHELF_CREATED",
+      entity: "SHELF",
+      entityId: shelf.id,
+      metadata: { name: shelf.name, visibility: shelf.visibility }
+    });
+
+    res.status(201).json({ data: { ...shelf, entries: [] } });
+  })
+);
+
+router.put(
+  "/order",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const payload = orderSchema.parse(req.body);
+
+    const shelves = await prisma.shelf.findMany({ where: { userId: viewer.id }, select: { id: true } });
+    await applyOrder(
+      shelves.map((shelf) => shelf.id),
+      payload.ids,
+      (id, position) => prisma.shelf.update({ where: { id }, data: { position } })
+    );
+
+    res.status(200).json({ data: { ids: payload.ids } });
+  })
+);
+
+// Public view of a shelf shared by link; private shelves and rotated tokens resolve to 404.
+router.get(
+  "/shared/:shareToken",
+  optionalAuth,
+  asyncHandler(async (req, res) => {
+    const params = z.object({ shareToken: z.string().min(10).max(64) }).parse(req.params);
+
+    const shelf = await prisma.shelf.findUnique({
+      where: { shareToken: params.shareToken },
+      include: {
+        user: { select: { name: true } },
+        entries: {
+          include: shelfEntryInclude,
+          orderBy: [{ position: "asc" as const }, { addedAt: "asc" as const }]
+        }
+      }
+    });
+    if (!shelf || shelf.visibility !== "SHARED") {
+      throw new HttpError(404, "Shelf not found");
+    }
+
+    const favoriteIds = req.user
+      ? await getFavoriteBookIds(
+          req.user.id,
+          shelf.entries.map((entry) => entry.bookId)
+        )
+      : new Set<string>();
+
+    res.status(200).json({
+      data: {
+        id: shelf.id,
+        name: shelf.name,
+        description: shelf.description,
+        ownerName: shelf.user.name,
+        isOwner: req.user?.id === shelf.userId,
+        updatedAt: shelf.updatedAt,
+        entries: shelf.entries.map((entry) => ({
+          id: entry.id,
+          note: entry.note,
+          addedAt: entry.addedAt,
+          book: { ...entry.book, isFavorite: favoriteIds.has(entry.bookId) }
+        }))
+      }
+    });
+  })
+);
+
+router.get(
+  "/:shelfId",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const params = shelfIdParamsSchema.parse(req.params);
+
+    const shelf = await findOwnShelf(params.shelfId, viewer.id);
+    res.status(200).json({ data: await loadShelfWithEntries(shelf.id) });
+  })
+);
+
+router.patch(
+  "/:shelfId",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const params = shelfIdParamsSchema.parse(req.params);
+    const payload = updateShelfSchema.parse(req.body);
+
+    const existing = await findOwnShelf(params.shelfId, viewer.id);
+    // Going private drops the link, so re-sharing later issues a fresh one.
+    const shareToken =
+      payload.visibility === "PRIVATE"
+        ? null
+        : payload.visibility === "SHARED"
+        ? existing.shareToken ?? generateShareToken()
+        : existing.shareToken;
+
+    await prisma.shelf.update({
+      where: { id: existing.id },
+      data: {
+        ...(payload.name !== undefined ? { name: payload.name } : {}),
+        ...(req.body && "description" in req.body ? { description: payload.description } : {}),
+        ...(payload.visibility ? { visibility: payload.visibility } : {}),
+        shareToken
+      }
+    });
+
+    await createAuditLog({
+      actorUserId: viewer.id,
+      action: "SHELF_UPDATED",
+      entity: "SHELF",
+      entityId: existing.id,
+      metadata: { name: payload.name, visibility: payload.visibility }
+    });
+
+    res.status(200).json({ data: await loadShelfWithEntries(existing.id) });
+  })
+);
+
+router.delete(
+  "/:shelfId",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const params = shelfIdParamsSchema.parse(req.params);
+
+    const existing = await findOwnShelf(params.shelfId, viewer.id);
+    if (existing.systemKey) {
+      throw new HttpError(409, "This shelf is built in and cannot be deleted");
+    }
+    await prisma.shelf.delete({ where: { id: existing.id } });
+
+    await createAuditLog({
+      actorUserId: viewer.id,
+      action: "SHELF_DELETED",
+      entity: "SHELF",
+      entityId: existing.id,
+      metadata: { name: existing.name }
+    });
+
+    res.status(204).send();
+  })
+);
+
+router.post(
+  "/:shelfId/entries",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const params = shelfIdParamsSchema.parse(req.params);
+    const payload = addEntrySchema.parse(req.body);
+
+    const shelf = await findOwnShelf(params.shelfId, viewer.id);
+    const book = await prisma.book.findUnique({ where: { id: payload.bookId }, select: { id: true } });
+    if (!book) {
+      throw new HttpError(404, "Book not found");
+    }
+
+    const created = await addShelfEntry(shelf.id, book.id, payload.note);
+    await prisma.shelf.update({ where: { id: shelf.id }, data: { updatedAt: new Date() } });
+
+    await createAuditLog({
+      actorUserId: viewer.id,
+      action: "SHELF_ENTRY_ADDED",
+      entity: "SHELF",
+      entityId: shelf.id,
+      metadata: { bookId: book.id, systemKey: shelf.systemKey }
+    });
+
+    const entry = await prisma.shelfEntry.findUniqueOrThrow({
+      where: { id: created.id },
+      include: shelfEntryInclude
+    });
+    res.status(201).json({ data: entry });
+  })
+);
+
+router.patch(
+  "/:shelfId/entries/:entryId",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const params = entryParamsSchema.parse(req.params);
+    const payload = updateEntrySchema.parse(req.body);
+
+    const shelf = await findOwnShelf(params.shelfId, viewer.id);
+    const updated = await prisma.shelfEntry.updateMany({
+      where: { id: params.entryId, shelfId: shelf.id },
+      data: { note: payload.note }
+    });
+    if (updated.count !== 1) {
+      throw new HttpError(404, "Shelf entry not found");
+    }
+
+    const entry = await prisma.shelfEntry.findUniqueOrThrow({
+      where: { id: params.entryId },
+      include: shelfEntryInclude
+    });
+    res.status(200).json({ data: entry });
+  })
+);
+
+router.delete(
+  "/:shelfId/entries/:entryId",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const params = entryParamsSchema.parse(req.params);
+
+    const shelf = await findOwnShelf(params.shelfId, viewer.id);
+    const removed = await prisma.shelfEntry.deleteMany({
+      where: { id: params.entryId, shelfId: shelf.id }
+    });
+    if (removed.count !== 1) {
+      throw new HttpError(404, "Shelf entry not found");
+    }
+
+    await createAuditLog({
+      actorUserId: viewer.id,
+      action: "SHELF_ENTRY_REMOVED",
+      entity: "SHELF",
+      entityId: shelf.id,
+      metadata: { entryId: params.entryId, systemKey: shelf.systemKey }
+    });
+
+    res.status(204).send();
+  })
+);
+
+router.put(
+  "/:shelfId/order",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    const viewer = req.user;
+    if (!viewer) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const params = shelfIdParamsSchema.parse(req.params);
+    const payload = orderSchema.parse(req.body);
+
+    const shelf = await findOwnShelf(params.shelfId, viewer.id);
+    const entries = await prisma.shelfEntry.findMany({ where: { shelfId: shelf.id }, select: { id: true } });
+    await applyOrder(
+      entries.map((entry) => entry.id),
+      payload.ids,
+      (id, position) => prisma.shelfEntry.update({ where: { id }, data: { position } })
+    );
+
+    res.status(200).json({ data: await loadShelfWithEntries(shelf.id) });
+  })
+);
+
+export const shelvesRouter = router;
@@ -4,7 +4,11 @@ import { Prisma } from "@prisma/client";
 import { prisma } from "../db/prisma";
 import { asyncHandler } from "../lib/async-handler";
 import { createAuditLog } from "../lib/audit";
+import { defaultNotificationPreferences } from "../lib/email-notifications";
 import { HttpError } from "../lib/errors";
+import { dashboardLink, notifyUser } from "../lib/notifications";
+import { adjustReadingPoints } from "../lib/points";
+import { loadReadingStats } from "../lib/reading-stats";
 import { requireAuth, requireRole } from "../middleware/auth";
 
 const router = Router();
@@ -36,6 +40,34 @@ const preferencesSchema = z.object({
   avatarPreset: z.enum(avatarPresetIds),
   backgroundPreset: z.enum(backgroundPresetIds)
 });
+const statsQuerySchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100).optional()
+});
+const pointHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  cursor: z.string().optional()
+});
+const pointAdjustmentSchema = z.object({
+  points: z
+    .number()
+    .int()
+    .min(-100000)
+    .max(100000)
+    .refine((value) => value !== 0, "Adjustment cannot be zero"),
+  reason: z.string().trim().min(3).max(500)
+});
+const leaderboardPreferenceSchema = z.object({
+  optOut: z.boolean()
+});
+const notificationPreferencesSchema = z
+  .object({
+    emailDueSoon: z.boolean(),
+    emailOverdue: z.boolean(),
+    emailRequestDecisions: z.boolean(),
+    emailHoldReady: z.boolean(),
+    emailSavedSearches: z.boolean()
+  })
+  .partial();
 
 router.get(
   "/",
@@ -180,6 +212,142 @@ router.patch(
   })
 );
 
+router.get(
+  "/me/notification-preferences",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    if (!req.user) {
+      throw new HttpError(401, "Authentication required");
+    }
+
+    const stored = await prisma.notificationPreference.findUnique({
+      where: { userId: req.user.id }
+    });
+
+    res.status(200).json({ data: stored ?? { userId: req.user.id, ...defaultNotificationPreferences } });
+  })
+);
+
+router.patch(
+  "/me/leaderboard",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    if (!req.user) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const payload = leaderboardPreferenceSchema.parse(req.body);
+
+    const updated = await prisma.user.update({
+      where: { id: req.user.id },
+      data: { leaderboardOptOut: payload.optOut },
+      select: { id: true, leaderboardOptOut: true }
+    });
+
+    await createAuditLog({
+      actorUserId: req.user.id,
+      action: "USER_LEADERBOARD_PREFERENCE_UPDATED",
+      entity: "USER",
+      entityId: req.user.id,
+      metadata: payload
+    });
+
+    res.status(200).json({ data: updated });
+  })
+);
+
+const loadPointHistory = async (userId: string, query: z.infer<typeof pointHistoryQuerySchema>) => {
+  const entries = await prisma.pointTransaction.findMany({
+    where: { userId },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: query.limit + 1,
+    ...(query.cursor ? { skip: 1, cursor: { id: query.cursor } } : {}),
+    include: {
+      book: { select: { id: true, title: true } },
+      createdBy: { select: { id: true, name: true } }
+    }
+  });
+  const hasNextPage = entries.length > query.limit;
+  const data = hasNextPage ? entries.slice(0, query.limit) : entries;
+  return {
+    data,
+    pageInfo: {
+      hasNextPage,
+      nextCursor: hasNextPage ? data[data.length - 1]?.id : null
+    }
+  };
+};
+
+router.get(
+  "/me/stats",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    if (!req.user) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const query = statsQuerySchema.parse(req.query);
+
+    const data = await loadReadingStats(req.user.id, query.year ?? new Date().getUTCFullYear());
+    res.status(200).json({ data });
+  })
+);
+
+router.get(
+  "/me/points",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    if (!req.user) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const query = pointHistoryQuerySchema.parse(req.query);
+
+    res.status(200).json(await loadPointHistory(req.user.id, query));
+  })
+);
+
+router.get(
+  "/me/badges",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    if (!req.user) {
+      throw new HttpError(401, "Authentication required");
+    }
+
+    const badges = await prisma.userBadge.findMany({
+      where: { userId: req.user.id },
+      orderBy: [{ earnedAt: "desc" }, { key: "asc" }]
+    });
+
+    res.status(200).json({ data: badges });
+  })
+);
+
+router.patch(
+  "/me/notification-preferences",
+  requireAuth,
+  asyncHandler(async (req, res) => {
+    if (!req.user) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const payload = notificationPreferencesSchema.parse(req.body);
+
+    const updated = await prisma.notificationPreference.upsert({
+      where: { userId: req.user.id },
+      create: { userId: req.user.id, ...defaultNotificationPreferences, ...payload },
+      update: payload
+    });
+
+    await createAuditLog({
+      actorUserId: req.user.id,
+      action: "USER_NOTIFICATION_PREFERENCES_UPDATED",
+      entity: "USER",
+      entityId: req.user.id,
+      metadata: payload
+    });
+
+    res.status(200).json({ data: updated });
+  })
+);
+
 router.patch(
   "/:userId/role",
   requireAuth,
@@ -229,4 +397,59 @@ router.patch(
   })
 );
 
+router.get(
+  "/:userId/points",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    const params = z.object({ userId: z.string().min(1) }).parse(req.params);
+    const query = pointHistoryQuerySchema.parse(req.query);
+
+    res.status(200).json(await loadPointHistory(params.userId, query));
+  })
+);
+
+router.post(
+  "/:userId/points/adjustments",
+  requireAuth,
+  requireRole(["ADMIN"]),
+  asyncHandler(async (req, res) => {
+    if (!req.user) {
+      throw new HttpError(401, "Authentication required");
+    }
+    const params = z.object({ userId: z.string().min(1) }).parse(req.params);
+    const payload = pointAdjustmentSchema.parse(req.body);
+
+    const result = await adjustReadingPoints({
+      userId: params.userId,
+      points: payload.points,
+      note: payload.reason,
+      adminId: req.user.id
+    });
+
+    await createAuditLog({
+      actorUserId: req.user.id,
+      action: "READING_POINTS_ADJUSTED",
+      entity: "USER",
+      entityId: params.userId,
+      metadata: {
+        points: payload.points,
+        reason: payload.reason,
+        transactionId: result.transaction.id,
+        readingPoints: result.readingPoints
+      }
+    });
+    void notifyUser(params.userId, {
+      type: "POINTS_ADJUSTED",
+      title: `${payload.points > 0 ? "+" : ""}${payload.points} reading points from the library`,
+      body: payload.reason,
+      payload: { transactionId: result.transaction.id, points: payload.points, readingPoints: result.readingPoints },
+      link: dashboardLink,
+      dedupeKey: `points-adjustment:${result.transaction.id}`
+    });
+
+    res.status(201).json({ data: result });
+  })
+);
+
 export const usersRouter = router;
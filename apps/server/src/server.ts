@@ -2,14 +2,26 @@ import "dotenv/config";
 import { app } from "./app";
 import { env } from "./config/env";
 import { prisma } from "./db/prisma";
+import { backfillLegacyBookCopies } from "./lib/book-copies";
+import { ensureBookSearchIndexes } from "./lib/book-search";
+import { ensureHoldIndexes } from "./lib/holds";
+import { startBackgroundJobs } from "./lib/jobs";
+import { backfillOpeningBalances } from "./lib/points";
+import { migrateLegacyFavorites } from "./lib/shelves";
 
 const start = async (): Promise<void> => {
   await prisma.$connect();
+  await ensureBookSearchIndexes();
+  await ensureHoldIndexes();
+  await backfillLegacyBookCopies();
+  await migrateLegacyFavorites();
+  await backfillOpeningBalances();
 
   app.listen(env.PORT, () => {
     // eslint-disable-next-line no-console
     console.log(`API running on http://localhost:${env.PORT}`);
   });
+  startBackgroundJobs();
 };
 
 void start();